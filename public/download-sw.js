@@ -0,0 +1,70 @@
+// 다운로드 스트리밍용 서비스 워커
+// 페이지가 MessagePort로 보내는 청크를 /__download__/<id> 응답 본문으로 흘려보내
+// 파일 전체를 메모리에 모으지 않고 브라우저 다운로드로 저장한다.
+
+const pendingDownloads = new Map();
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type !== 'register' || !event.ports[0]) {
+    return;
+  }
+
+  const port = event.ports[0];
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = (message) => {
+        const msg = message.data || {};
+        if (msg.type === 'chunk') {
+          controller.enqueue(new Uint8Array(msg.chunk.buffer || msg.chunk));
+        } else if (msg.type === 'end') {
+          controller.close();
+          port.close();
+        } else if (msg.type === 'abort') {
+          controller.error(new Error(msg.reason || 'Download aborted'));
+          port.close();
+        }
+      };
+    },
+    cancel() {
+      port.close();
+    },
+  });
+
+  pendingDownloads.set(data.id, { stream, fileName: data.fileName, size: data.size });
+  port.postMessage({ type: 'ready' });
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  const match = url.pathname.match(/\/__download__\/([^/]+)$/);
+  if (!match) {
+    return;
+  }
+
+  const download = pendingDownloads.get(match[1]);
+  if (!download) {
+    event.respondWith(new Response('Download not found', { status: 404 }));
+    return;
+  }
+  pendingDownloads.delete(match[1]);
+
+  const headers = new Headers({
+    'Content-Type': 'application/octet-stream',
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.fileName || 'download.bin')}`,
+    'Cache-Control': 'no-store',
+  });
+  if (typeof download.size === 'number' && download.size > 0) {
+    headers.set('Content-Length', String(download.size));
+  }
+
+  event.respondWith(new Response(download.stream, { headers }));
+});
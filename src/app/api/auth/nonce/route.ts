@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { createNonce } from '@/lib/db/nonces';
+
+const NONCE_TTL_MS = 10 * 60 * 1000; // 10분
+
+// GET 요청 처리 - 로그인 메시지에 사용할 일회성 nonce 발급
+export async function GET() {
+  try {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    createNonce(nonce, NONCE_TTL_MS);
+
+    return NextResponse.json({ nonce }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Error in GET /api/auth/nonce:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, getSessionAddress } from '@/lib/auth/session';
+
+// GET 요청 처리 - 현재 세션의 지갑 주소 조회
+export async function GET(request: NextRequest) {
+  try {
+    const address = getSessionAddress(request);
+    if (!address) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    return NextResponse.json({ address });
+  } catch (error) {
+    console.error('Error in GET /api/auth/session:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE 요청 처리 - 로그아웃 (세션 쿠키 삭제)
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyMessage } from 'ethers';
+import { parseSignInMessage, SIGN_IN_STATEMENT } from '@/lib/auth/message';
+import { setSessionCookie } from '@/lib/auth/session';
+import { consumeNonce } from '@/lib/db/nonces';
+
+const MAX_MESSAGE_AGE_MS = 10 * 60 * 1000; // nonce 유효 시간과 동일
+
+// POST 요청 처리 - 서명된 로그인 메시지를 검증하고 세션 쿠키 발급
+export async function POST(request: NextRequest) {
+  try {
+    const { message, signature } = await request.json();
+
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return NextResponse.json({ error: 'Message and signature are required' }, { status: 400 });
+    }
+
+    const fields = parseSignInMessage(message);
+    if (!fields || fields.statement !== SIGN_IN_STATEMENT) {
+      return NextResponse.json({ error: 'Invalid sign-in message' }, { status: 400 });
+    }
+
+    // 다른 사이트에서 받은 서명을 재사용하지 못하도록 도메인 확인
+    if (fields.domain !== request.headers.get('host')) {
+      return NextResponse.json({ error: 'Sign-in message domain mismatch' }, { status: 401 });
+    }
+
+    const issuedAt = Date.parse(fields.issuedAt);
+    if (isNaN(issuedAt) || Math.abs(Date.now() - issuedAt) > MAX_MESSAGE_AGE_MS) {
+      return NextResponse.json({ error: 'Sign-in message expired' }, { status: 401 });
+    }
+
+    if (!consumeNonce(fields.nonce)) {
+      return NextResponse.json({ error: 'Invalid or expired nonce' }, { status: 401 });
+    }
+
+    let recovered: string;
+    try {
+      recovered = verifyMessage(message, signature);
+    } catch {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    if (recovered.toLowerCase() !== fields.address.toLowerCase()) {
+      return NextResponse.json({ error: 'Signature does not match address' }, { status: 401 });
+    }
+
+    const address = recovered.toLowerCase();
+    console.log(`[auth] Signed in: ${address}`);
+
+    const response = NextResponse.json({ success: true, address });
+    setSessionCookie(response, address);
+    return response;
+  } catch (error) {
+    console.error('Error in POST /api/auth/verify:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { getBackup, setBackupPinned, deleteBackup } from '@/lib/db/backups';
+
+// GET 요청 처리 - 백업 스냅샷 하나 조회 (복원에 필요한 root hash와 네트워크)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [walletAddress, authError] = requireSession(req);
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    const backup = getBackup(Number(id), walletAddress);
+    if (!backup) {
+      return NextResponse.json({ error: 'Backup not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ backup });
+  } catch (error) {
+    console.error('[Backup API] Error retrieving backup:', error);
+    return NextResponse.json({ error: 'Failed to retrieve backup' }, { status: 500 });
+  }
+}
+
+// PATCH 요청 처리 - 스냅샷 고정/해제 (고정한 스냅샷은 자동으로 지우지 않음)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [walletAddress, authError] = requireSession(req);
+    if (authError) return authError;
+
+    const { id } = await params;
+    const { pinned } = await req.json();
+
+    if (typeof pinned !== 'boolean') {
+      return NextResponse.json({ error: 'pinned must be a boolean' }, { status: 400 });
+    }
+
+    const backup = setBackupPinned(Number(id), walletAddress, pinned);
+    if (!backup) {
+      return NextResponse.json({ error: 'Backup not found' }, { status: 404 });
+    }
+
+    console.log(`[Backup API] Backup ${id} ${pinned ? 'pinned' : 'unpinned'}`);
+    return NextResponse.json({ success: true, backup });
+  } catch (error) {
+    console.error('[Backup API] Error updating backup:', error);
+    return NextResponse.json({ error: 'Failed to update backup' }, { status: 500 });
+  }
+}
+
+// DELETE 요청 처리 - 스냅샷 기록 삭제 (0G Storage의 백업 파일은 그대로 남음)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [walletAddress, authError] = requireSession(req);
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    if (!deleteBackup(Number(id), walletAddress)) {
+      return NextResponse.json({ error: 'Backup not found' }, { status: 404 });
+    }
+
+    console.log(`[Backup API] Backup ${id} deleted`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Backup API] Error deleting backup:', error);
+    return NextResponse.json({ error: 'Failed to delete backup' }, { status: 500 });
+  }
+}
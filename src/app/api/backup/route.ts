@@ -1,82 +1,49 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { createBackup, listBackups } from '@/lib/db/backups';
 
-// 메모리 기반 임시 저장소 (실제로는 데이터베이스 사용 권장)
-const backupStorage = new Map<string, any>();
+const BACKUP_NETWORKS = ['standard', 'turbo'];
 
-export async function POST(req: NextRequest) {
+// GET 요청 처리 - 지갑의 백업 스냅샷 목록 (최신순)
+export async function GET(req: NextRequest) {
   try {
-    const { walletAddress, backupData } = await req.json();
-    
-    if (!walletAddress || !backupData) {
-      return new Response(
-        JSON.stringify({ error: 'Missing wallet address or backup data' }), 
-        { status: 400 }
-      );
-    }
-    
-    // 백업 데이터 저장
-    backupStorage.set(walletAddress, {
-      data: backupData,
-      timestamp: new Date().toISOString(),
-      walletAddress
-    });
-    
-    console.log(`[Backup API] Backup saved for wallet: ${walletAddress}`);
-    
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: 'Backup saved successfully',
-        timestamp: new Date().toISOString()
-      }), 
-      { status: 200 }
-    );
+    const [walletAddress, authError] = requireSession(req);
+    if (authError) return authError;
+
+    return NextResponse.json({ backups: listBackups(walletAddress) });
   } catch (error) {
-    console.error('[Backup API] Error saving backup:', error);
-    return new Response(
-      JSON.stringify({ error: 'Failed to save backup' }), 
-      { status: 500 }
-    );
+    console.error('[Backup API] Error listing backups:', error);
+    return NextResponse.json({ error: 'Failed to retrieve backups' }, { status: 500 });
   }
 }
 
-export async function GET(req: NextRequest) {
+// POST 요청 처리 - 0G Storage에 올린 백업 파일을 새 스냅샷으로 기록 (이전 스냅샷은 덮어쓰지 않음)
+export async function POST(req: NextRequest) {
   try {
-    const { searchParams } = new URL(req.url);
-    const walletAddress = searchParams.get('walletAddress');
-    
-    if (!walletAddress) {
-      return new Response(
-        JSON.stringify({ error: 'Missing wallet address' }), 
-        { status: 400 }
-      );
+    const [walletAddress, authError] = requireSession(req);
+    if (authError) return authError;
+
+    const { rootHash, itemCount, networkType, size } = await req.json();
+
+    if (!rootHash || typeof rootHash !== 'string') {
+      return NextResponse.json({ error: 'rootHash is required' }, { status: 400 });
+    }
+    if (!Number.isInteger(itemCount) || itemCount < 0) {
+      return NextResponse.json({ error: 'itemCount must be a non-negative integer' }, { status: 400 });
     }
-    
-    // 백업 데이터 조회
-    const backup = backupStorage.get(walletAddress);
-    
-    if (!backup) {
-      return new Response(
-        JSON.stringify({ error: 'No backup found for this wallet' }), 
-        { status: 404 }
-      );
+    if (!BACKUP_NETWORKS.includes(networkType)) {
+      return NextResponse.json({ error: `networkType must be one of: ${BACKUP_NETWORKS.join(', ')}` }, { status: 400 });
     }
-    
-    console.log(`[Backup API] Backup retrieved for wallet: ${walletAddress}`);
-    
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        backup: backup.data,
-        timestamp: backup.timestamp
-      }), 
-      { status: 200 }
-    );
+    if (!Number.isInteger(size) || size < 0) {
+      return NextResponse.json({ error: 'size must be a non-negative integer' }, { status: 400 });
+    }
+
+    const backup = createBackup(walletAddress, { rootHash, itemCount, networkType, size });
+
+    console.log(`[Backup API] Backup ${backup.id} saved for wallet: ${walletAddress}`);
+    return NextResponse.json({ success: true, backup });
   } catch (error) {
-    console.error('[Backup API] Error retrieving backup:', error);
-    return new Response(
-      JSON.stringify({ error: 'Failed to retrieve backup' }), 
-      { status: 500 }
-    );
+    console.error('[Backup API] Error saving backup:', error);
+    return NextResponse.json({ error: 'Failed to save backup' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ItemRecord } from '@/lib/db/items';
+
+// 임시 DB 파일에서 테스트
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), '0gdrive-files-route-'));
+vi.stubEnv('DATABASE_PATH', path.join(dataDir, 'test.db'));
+vi.stubEnv('AES_SECRET_KEY', '0123456789abcdef0123456789abcdef');
+vi.stubEnv('SESSION_SECRET', 'test-session-secret-0123456789abcdef');
+
+let route: typeof import('./route');
+let items: typeof import('@/lib/db/items');
+let session: typeof import('@/lib/auth/session');
+
+const OWNER = '0x00000000000000000000000000000000000000a1';
+const EDITOR = '0x00000000000000000000000000000000000000b2';
+let nextId = 0;
+
+function folder(name: string, parentId: string | null, extra: Partial<ItemRecord> = {}): ItemRecord {
+  const item: ItemRecord = {
+    id: `folder-${++nextId}`,
+    type: 'folder',
+    name,
+    parentId,
+    walletAddress: OWNER,
+    uploadDate: new Date().toISOString(),
+    ...extra,
+  };
+  items.insertItem(item);
+  return item;
+}
+
+async function patch(id: string, body: Record<string, unknown>, address: string) {
+  const request = new NextRequest(`http://localhost/api/files/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+    headers: { cookie: `${session.SESSION_COOKIE}=${session.createSessionToken(address)}` },
+  });
+  const response = await route.PATCH(request, { params: Promise.resolve({ id }) });
+  return { status: response.status, body: await response.json() };
+}
+
+const move = (id: string, parentId: string | null, address: string) => patch(id, { parentId }, address);
+
+beforeAll(async () => {
+  route = await import('./route');
+  items = await import('@/lib/db/items');
+  session = await import('@/lib/auth/session');
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('PATCH /api/files/[id] move', () => {
+  it('moves an item into a folder of its owner', async () => {
+    const source = folder('Source', null);
+    const target = folder('Target', null);
+
+    const { status, body } = await move(source.id, target.id, OWNER);
+    expect(status).toBe(200);
+    expect(body.item.parentId).toBe(target.id);
+  });
+
+  it('rejects a folder the caller cannot edit', async () => {
+    const shared = folder('Shared', null, { sharedWith: [EDITOR], shareRoles: { [EDITOR]: 'editor' } });
+    const child = folder('Child', shared.id);
+    const readOnly = folder('Read only', null, { sharedWith: [EDITOR], shareRoles: { [EDITOR]: 'viewer' } });
+    const own = folder('Own', null, { walletAddress: EDITOR });
+
+    expect((await move(child.id, readOnly.id, EDITOR)).status).toBe(403);
+    expect((await move(child.id, own.id, EDITOR)).status).toBe(403);
+    expect((await move(own.id, shared.id, EDITOR)).status).toBe(403);
+    expect((await move(child.id, null, EDITOR)).status).toBe(403);
+    expect((await move(child.id, 'missing', OWNER)).status).toBe(404);
+  });
+
+  it('rejects shortcuts and files as the destination', async () => {
+    const source = folder('Source', null);
+    const shortcut = folder('Shortcut', null, { shortcutTo: 'elsewhere' });
+    const file: ItemRecord = { ...folder('Placeholder', null), type: 'file', name: 'notes', fileExtension: 'txt' };
+    items.updateItem(file);
+
+    expect((await move(source.id, shortcut.id, OWNER)).status).toBe(400);
+    expect((await move(source.id, file.id, OWNER)).status).toBe(404);
+  });
+
+  it('rejects moving a folder into itself or a folder below it', async () => {
+    const top = folder('Top', null);
+    const middle = folder('Middle', top.id);
+    const bottom = folder('Bottom', middle.id);
+
+    expect((await move(top.id, top.id, OWNER)).status).toBe(400);
+    expect((await move(top.id, bottom.id, OWNER)).status).toBe(400);
+    expect((await move(middle.id, bottom.id, OWNER)).status).toBe(400);
+    expect(items.getOwnedItem(top.id, OWNER)?.parentId).toBeNull();
+  });
+});
+
+describe('PATCH /api/files/[id] rename', () => {
+  it('renames an item', async () => {
+    const item = folder('Draft', null);
+
+    const { status, body } = await patch(item.id, { name: 'Final' }, OWNER);
+    expect(status).toBe(200);
+    expect(body.item.name).toBe('Final');
+  });
+
+  it('rejects empty, too long and invalid names', async () => {
+    const item = folder('Draft', null);
+
+    for (const name of ['', 'a/b', 'a\\b', 'what?', 'x'.repeat(256), 42]) {
+      expect((await patch(item.id, { name }, OWNER)).status, String(name)).toBe(400);
+    }
+    expect(items.getOwnedItem(item.id, OWNER)?.name).toBe('Draft');
+  });
+});
@@ -1,157 +1,169 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
-import { encrypt, decrypt } from '@/utils/crypto';
-
-// Item(파일 또는 폴더) 데이터 타입 정의
-interface ItemRecord {
-  id: string;
-  type: 'file' | 'folder';
-  name: string;
-  parentId: string | null;
-  walletAddress: string;
-  uploadDate: string;
-  fileExtension?: string;
-  fileSize?: number;
-  rootHash?: string;
-  networkType?: string;
-}
-
-// 데이터 파일 경로
-const DATA_FILE_PATH = path.join(process.cwd(), 'data', 'files.json');
-
-// 데이터 디렉토리 생성
-function ensureDataDirectory() {
-  const dataDir = path.dirname(DATA_FILE_PATH);
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
-}
-
-// 파일에서 데이터 읽기
-function readFileData(): ItemRecord[] {
-  try {
-    ensureDataDirectory();
-    if (!fs.existsSync(DATA_FILE_PATH)) {
-      return [];
-    }
-    const data = fs.readFileSync(DATA_FILE_PATH, 'utf-8');
-    if (!data) return [];
-    // 복호화 적용
-    const decrypted = decrypt(data);
-    return JSON.parse(decrypted);
-  } catch (error) {
-    console.error('Error reading file data:', error);
-    return [];
-  }
-}
-
-// 파일에 데이터 쓰기
-function writeFileData(data: ItemRecord[]) {
-  try {
-    ensureDataDirectory();
-    // 암호화 적용
-    const encrypted = encrypt(JSON.stringify(data));
-    fs.writeFileSync(DATA_FILE_PATH, encrypted);
-  } catch (error) {
-    console.error('Error writing file data:', error);
-    throw error;
-  }
-}
-
-// GET 요청 처리 - ID로 특정 아이템 조회
+import { requireSession } from '@/lib/auth/session';
+import { transaction } from '@/lib/db/database';
+import { ItemRecord, getItemAccess, hasNameConflict, isInsideFolder, toAccessibleItem, updateItem } from '@/lib/db/items';
+import { MAX_VERSIONS_LIMIT } from '@/utils/storage';
+import { validateFileName } from '@/utils/itemValidation';
+import { applyMetadataUpdate, parseMetadataUpdate } from '@/utils/metadata';
+import { ItemAction, ItemRole, canPerform, getMetadataAction } from '@/utils/permissions';
+
+// GET 요청 처리 - ID로 특정 아이템과 호출한 지갑의 역할 조회 (소유하거나, 아이템 또는 상위 폴더가 공유된 아이템)
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id } = await params;
-    const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get('walletAddress');
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
 
-    if (!walletAddress) {
-      return NextResponse.json({ error: 'Wallet address is required' }, { status: 400 });
-    }
+    const { id } = await params;
 
-    const allItems = readFileData();
-    const item = allItems.find(i => 
-      i.id === id && 
-      i.walletAddress.toLowerCase() === walletAddress.toLowerCase()
-    );
+    const access = getItemAccess(id, walletAddress);
 
-    if (!item) {
+    if (!access) {
       return NextResponse.json({ error: 'Item not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ item });
+    return NextResponse.json({ item: toAccessibleItem(access.item, access.role), role: access.role });
   } catch (error) {
     console.error(`Error in GET /api/files/[id]:`, error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
-// PATCH 요청 처리 - 아이템 이름 변경 또는 이동
+// PATCH 요청 처리 - 아이템 이름 변경, 이동, 폴더의 버전 보관 수 설정 (maxVersions: null이면 상위 폴더 설정을 따름)
+// 또는 태그, 별표, 설명, key/value 속성 변경 (description: null이면 삭제, properties의 값이 null이면 그 key 삭제)
+// 공유받은 지갑은 역할에 따라: 태그/설명은 commenter, 이름 변경/이동/별표/속성은 editor, 버전 보관 수는 소유자만
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
     const { id } = await params;
     const body = await request.json();
-    const { name, parentId, walletAddress } = body;
+    const { name, parentId, maxVersions } = body;
 
-    if (!walletAddress) {
-      return NextResponse.json({ error: 'Wallet address is required' }, { status: 400 });
-    }
-    
-    if (!name && typeof parentId === 'undefined') {
-      return NextResponse.json({ error: 'Name or parentId must be provided' }, { status: 400 });
+    const [metadata, metadataError] = parseMetadataUpdate(body);
+    if (metadataError) {
+      return NextResponse.json({ error: metadataError.message }, { status: 400 });
     }
 
-    const allItems = readFileData();
-    const itemIndex = allItems.findIndex(i => 
-      i.id === id && 
-      i.walletAddress.toLowerCase() === walletAddress.toLowerCase()
-    );
+    if (typeof name === 'undefined' && typeof parentId === 'undefined' && typeof maxVersions === 'undefined' && !metadata) {
+      return NextResponse.json({ error: 'Name, parentId, maxVersions or metadata (tags, starred, description, properties) must be provided' }, { status: 400 });
+    }
 
-    if (itemIndex === -1) {
-      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    if (typeof name !== 'undefined' && (typeof name !== 'string' || !validateFileName(name))) {
+      return NextResponse.json({ error: 'Invalid file name' }, { status: 400 });
     }
 
-    const originalItem = allItems[itemIndex];
-    const newName = name || originalItem.name;
-    const newParentId = typeof parentId !== 'undefined' ? parentId : originalItem.parentId;
-
-    // 중복 체크
-    const duplicateExists = allItems.some(i =>
-      i.id !== id &&
-      i.walletAddress.toLowerCase() === walletAddress.toLowerCase() &&
-      i.parentId === newParentId &&
-      i.name === newName &&
-      (i.type === 'file' ? i.fileExtension === originalItem.fileExtension : true)
-    );
-
-    if (duplicateExists) {
-      return NextResponse.json({ error: 'An item with the same name already exists in the destination folder' }, { status: 409 });
+    if (typeof parentId !== 'undefined' && parentId !== null && typeof parentId !== 'string') {
+      return NextResponse.json({ error: 'parentId must be a folder ID or null' }, { status: 400 });
     }
 
-    // 아이템 업데이트
-    const updatedItem = { ...originalItem };
-    if (name) {
-      updatedItem.name = name;
+    if (maxVersions !== undefined && maxVersions !== null &&
+      !(Number.isInteger(maxVersions) && maxVersions >= 0 && maxVersions <= MAX_VERSIONS_LIMIT)) {
+      return NextResponse.json({ error: `maxVersions must be an integer from 0 to ${MAX_VERSIONS_LIMIT}` }, { status: 400 });
     }
-    if (typeof parentId !== 'undefined') {
-      updatedItem.parentId = parentId;
+
+    // 조회, 중복 체크, 저장을 하나의 트랜잭션으로 처리
+    const actions: ItemAction[] = [];
+    if (typeof name !== 'undefined' || typeof parentId !== 'undefined') actions.push('edit');
+    if (typeof maxVersions !== 'undefined') actions.push('manage');
+    if (metadata) actions.push(getMetadataAction(metadata));
+
+    const result = transaction(() => {
+      const access = getItemAccess(id, walletAddress);
+      if (!access) {
+        return { error: 'Item not found', status: 404 } as const;
+      }
+      const { item: originalItem, role } = access;
+      if (!actions.every(action => canPerform(role, action))) {
+        return { error: `Your role (${role}) does not allow this change`, status: 403 } as const;
+      }
+      if (typeof maxVersions !== 'undefined' && originalItem.type !== 'folder') {
+        return { error: 'maxVersions can only be set on folders', status: 400 } as const;
+      }
+
+      const newName = name ?? originalItem.name;
+      const newParentId = typeof parentId !== 'undefined' ? parentId : originalItem.parentId;
+
+      // 이동할 폴더는 아이템 소유자의 바로가기가 아닌 폴더 중 호출한 지갑이 편집할 수 있는 폴더여야 함 (최상위는 소유자만)
+      if (newParentId !== originalItem.parentId) {
+        const [moveStatus, moveError] = checkMoveDestination(originalItem, newParentId, role, walletAddress);
+        if (moveError) {
+          return { error: moveError.message, status: moveStatus } as const;
+        }
+      }
+
+      // 중복 체크 (이름은 소유자의 폴더 안에서 겹치지 않아야 함)
+      if (hasNameConflict(originalItem.walletAddress, newParentId, { name: newName, fileExtension: originalItem.fileExtension }, id)) {
+        return { error: 'An item with the same name already exists in the destination folder', status: 409 } as const;
+      }
+
+      // 아이템 업데이트
+      let updatedItem = { ...originalItem };
+      if (typeof name !== 'undefined') {
+        updatedItem.name = name;
+      }
+      if (typeof parentId !== 'undefined') {
+        updatedItem.parentId = parentId;
+      }
+      if (maxVersions === null) {
+        delete updatedItem.maxVersions;
+      } else if (typeof maxVersions !== 'undefined') {
+        updatedItem.maxVersions = maxVersions;
+      }
+      if (metadata) {
+        const [withMetadata, applyError] = applyMetadataUpdate(updatedItem, metadata);
+        if (!withMetadata) {
+          return { error: applyError?.message ?? 'Invalid metadata', status: 400 } as const;
+        }
+        updatedItem = withMetadata;
+      }
+
+      updateItem(updatedItem);
+      return { item: updatedItem } as const;
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
-    
-    allItems[itemIndex] = updatedItem;
-    writeFileData(allItems);
-    
-    console.log(`Item ${id} updated:`, { name, parentId });
+    const updatedItem = result.item;
+
+    console.log(`Item ${id} updated by ${walletAddress}:`, { name, parentId, maxVersions, metadata });
     return NextResponse.json({ success: true, item: updatedItem });
 
   } catch (error) {
     console.error('Error in PATCH /api/files/[id]:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+} 
+// 이동할 폴더 확인 - [오류 상태 코드, 오류] 반환 (이동할 수 있으면 [null, null])
+function checkMoveDestination(
+  item: ItemRecord,
+  parentId: string | null,
+  role: ItemRole,
+  walletAddress: string
+): [number, Error] | [null, null] {
+  if (!parentId) {
+    return role === 'owner' ? [null, null] : [403, new Error('You cannot move items to this folder')];
+  }
+  const destination = getItemAccess(parentId, walletAddress);
+  if (!destination || destination.item.type !== 'folder') {
+    return [404, new Error('Destination folder not found')];
+  }
+  if (destination.item.shortcutTo) {
+    return [400, new Error('Cannot move items into a shortcut; move them to the folder it points to')];
+  }
+  // 다른 지갑의 폴더로는 옮길 수 없음 (하위 아이템의 소유자는 폴더의 소유자와 같아야 함)
+  if (destination.item.walletAddress !== item.walletAddress || !canPerform(destination.role, 'edit')) {
+    return [403, new Error('You cannot move items to this folder')];
+  }
+  if (item.type === 'folder' && isInsideFolder(parentId, item.id)) {
+    return [400, new Error('Cannot move a folder into itself or one of its subfolders')];
+  }
+  return [null, null];
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { getItemAccess } from '@/lib/db/items';
+import { getItemVersion } from '@/lib/db/versions';
+
+// GET 요청 처리 - 이전 버전 하나 조회 (root hash와 암호화 파라미터로 다운로드)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { id, versionId } = await params;
+
+    const item = getItemAccess(id, walletAddress)?.item;
+    const version = item ? getItemVersion(id, Number(versionId)) : null;
+
+    if (!item || !version) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ version, name: item.name });
+  } catch (error) {
+    console.error('Error in GET /api/files/[id]/versions/[versionId]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { transaction } from '@/lib/db/database';
+import { getItemAccess } from '@/lib/db/items';
+import { canPerform } from '@/utils/permissions';
+import { getVersionLimit, listItemVersions, restoreItemVersion } from '@/lib/db/versions';
+
+// GET 요청 처리 - 파일의 이전 버전 목록 조회 (최신순, 공유받은 모든 역할 가능)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    const item = getItemAccess(id, walletAddress)?.item;
+    if (!item || item.type !== 'file') {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      item,
+      versions: listItemVersions(id),
+      maxVersions: getVersionLimit(item.parentId),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/files/[id]/versions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST 요청 처리 - 이전 버전을 현재 버전으로 복원 (현재 내용은 이전 버전으로 보관, editor 이상)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { id } = await params;
+    const { versionId } = await request.json();
+
+    if (!Number.isInteger(versionId)) {
+      return NextResponse.json({ error: 'versionId is required' }, { status: 400 });
+    }
+
+    const result = transaction(() => {
+      const access = getItemAccess(id, walletAddress);
+      if (!access || access.item.type !== 'file') {
+        return null;
+      }
+      if (!canPerform(access.role, 'edit')) {
+        return { forbidden: true } as const;
+      }
+      return { item: restoreItemVersion(access.item, versionId) };
+    });
+
+    if (result && 'forbidden' in result) {
+      return NextResponse.json({ error: 'Your role does not allow restoring versions' }, { status: 403 });
+    }
+    const item = result?.item;
+    if (!item) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    console.log(`Item ${id} restored to version ${versionId}`);
+    return NextResponse.json({ success: true, item });
+  } catch (error) {
+    console.error('Error in POST /api/files/[id]/versions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
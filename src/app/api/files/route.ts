@@ -1,133 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
-
-// Item(파일 또는 폴더) 데이터 타입 정의
-interface ItemRecord {
-  id: string;
-  type: 'file' | 'folder';
-  name: string;
-  parentId: string | null; // null이면 최상위
-  walletAddress: string;
-  uploadDate: string;
-
-  // 파일 전용 속성
-  fileExtension?: string;
-  fileSize?: number;
-  rootHash?: string;
-  networkType?: string;
-
-  // 공유 기능 속성
-  sharedWith?: string[]; // 공유된 지갑 주소 목록
-  sharedBy?: string; // 공유해준 지갑 주소
-}
-
-// 데이터 파일 경로
-const DATA_FILE_PATH = path.join(process.cwd(), 'data', 'files.json');
-
-// Validation constants
-const MAX_FILE_SIZE = 5120 * 1024 * 1024; // 5GB (5120MB)
-const ALLOWED_EXTENSIONS = [
-  // 문서
-  'txt', 'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'csv', 'rtf',
-  // 이미지
-  'jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg', 'webp', 'ico', 'tiff', 'tif',
-  // 비디오
-  'mp4', 'avi', 'mov', 'wmv', 'flv', 'webm', 'mkv', 'm4v',
-  // 오디오
-  'mp3', 'wav', 'flac', 'aac', 'ogg', 'wma', 'm4a',
-  // 압축
-  'zip', 'rar', '7z', 'tar', 'gz', 'bz2',
-  // 코드/개발
-  'js', 'ts', 'jsx', 'tsx', 'html', 'css', 'scss', 'json', 'xml', 'yaml', 'yml',
-  // 기타
-  'log', 'md', 'sql', 'sh', 'bat', 'ps1', 'py', 'java', 'cpp', 'c', 'h', 'php', 'rb', 'go', 'rs'
-];
-const MAX_NAME_LENGTH = 255;
+import { isEncryptionParams } from '@/lib/0g/encryption';
+import { requireSession } from '@/lib/auth/session';
+import { getTrashCutoff } from '@/utils/storage';
+import { parsePageParams } from '@/utils/pagination';
+import { parseSearchParams } from '@/utils/search';
+import { transaction } from '@/lib/db/database';
+import {
+  ItemRecord,
+  listFolderItems,
+  getOwnedItem,
+  getItemAccess,
+  findNameConflict,
+  itemExists,
+  insertItem,
+  updateItem,
+  trashItemTree,
+  purgeExpiredTrash,
+  unshareItemTree,
+} from '@/lib/db/items';
+import { addItemVersion } from '@/lib/db/versions';
+import { DEFAULT_SHARE_ROLE, SHARE_ROLES, canPerform, isShareRole } from '@/utils/permissions';
+import { validateFileExtension, validateFileName, validateItemId, validateItemSize } from '@/utils/itemValidation';
 
 // Input validation functions
 function validateWalletAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
 
-function validateFileName(name: string): boolean {
-  return name.length > 0 && name.length <= MAX_NAME_LENGTH && !/[<>:"/\\|?*]/.test(name);
-}
-
-function validateFileExtension(extension: string): boolean {
-  return ALLOWED_EXTENSIONS.includes(extension.toLowerCase());
-}
-
-function validateFileSize(size: number): boolean {
-  return size > 0 && size <= MAX_FILE_SIZE;
-}
-
-// 데이터 디렉토리 생성
-function ensureDataDirectory() {
-  const dataDir = path.dirname(DATA_FILE_PATH);
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
-}
-
-// 파일에서 데이터 읽기
-function readFileData(): ItemRecord[] {
-  try {
-    ensureDataDirectory();
-    if (!fs.existsSync(DATA_FILE_PATH)) {
-      return [];
-    }
-    const data = fs.readFileSync(DATA_FILE_PATH, 'utf-8');
-    if (!data) return [];
-    return JSON.parse(data);
-  } catch (error) {
-    console.error('Error reading file data:', error);
-    return [];
-  }
-}
-
-// 파일에 데이터 쓰기
-function writeFileData(data: ItemRecord[]) {
-  try {
-    ensureDataDirectory();
-    fs.writeFileSync(DATA_FILE_PATH, JSON.stringify(data));
-  } catch (error) {
-    console.error('Error writing file data:', error);
-    throw error;
-  }
+// 저장한 아이템에 DB trigger가 매긴 revision을 붙임 (클라이언트가 같은 revision으로 저장해 동기화에서 충돌로 보지 않도록)
+function withRevision(item: ItemRecord): ItemRecord {
+  return getOwnedItem(item.id, item.walletAddress) ?? item;
 }
 
-// GET 요청 처리 - 특정 폴더의 아이템 리스트 조회
+// GET 요청 처리 - 특정 폴더의 아이템 리스트를 페이지 단위로 조회
 export async function GET(request: NextRequest) {
   try {
+    // 호출자 주소는 요청 파라미터가 아닌 로그인 세션에서 가져옴
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get('walletAddress');
     const parentId = searchParams.get('parentId') || null;
 
-    if (!walletAddress) {
-      return NextResponse.json({ error: 'Wallet address is required' }, { status: 400 });
+    const [options, optionsError] = parsePageParams(searchParams);
+    if (!options) {
+      return NextResponse.json({ error: optionsError?.message }, { status: 400 });
     }
 
-    if (!validateWalletAddress(walletAddress)) {
-      return NextResponse.json({ error: 'Invalid wallet address format' }, { status: 400 });
+    // 태그, 별표 등 검색 필터로 폴더 목록을 좁힐 수 있음
+    const [filters, filterError] = parseSearchParams(searchParams);
+    if (!filters) {
+      return NextResponse.json({ error: filterError?.message }, { status: 400 });
     }
 
-    const allItems = readFileData();
-    const userItems = allItems.filter(item =>
-      (item.walletAddress.toLowerCase() === walletAddress.toLowerCase() ||
-       (item.sharedWith && item.sharedWith.includes(walletAddress.toLowerCase()))) &&
-      item.parentId === parentId
-    );
-
-    // 폴더를 파일보다 먼저, 그 다음 이름순으로 정렬
-    userItems.sort((a, b) => {
-      if (a.type !== b.type) {
-        return a.type === 'folder' ? -1 : 1;
-      }
-      return a.name.localeCompare(b.name);
-    });
+    // 소유하거나 공유받은 아이템 (폴더 우선, 요청한 정렬 기준)
+    const [page, pageError] = listFolderItems(walletAddress, parentId, options, filters);
+    if (!page) {
+      return NextResponse.json({ error: pageError?.message }, { status: 400 });
+    }
 
-    return NextResponse.json({ items: userItems });
+    return NextResponse.json({ items: page.items, nextCursor: page.nextCursor, total: page.total });
   } catch (error) {
     console.error('Error in GET /api/files:', error);
     return NextResponse.json(
@@ -138,20 +70,20 @@ export async function GET(request: NextRequest) {
 }
 
 // POST 요청 처리 - 새 파일 또는 폴더 정보 저장
+// 다른 지갑의 폴더에 추가하려면 editor 이상의 역할이 필요하고, 아이템은 폴더 소유자의 것이 됨 (업로드한 지갑은 uploadedBy)
 export async function POST(request: NextRequest) {
   try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
     const body = await request.json();
-    const { walletAddress, type, name, parentId = null, ...fileProps } = body;
+    const { id: clientId, type, name, parentId = null, ...fileProps } = body;
 
     // Input validation
-    if (!walletAddress || !type || !name) {
+    if (!type || !name) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
-    if (!validateWalletAddress(walletAddress)) {
-      return NextResponse.json({ error: 'Invalid wallet address format' }, { status: 400 });
-    }
-
     if (!validateFileName(name)) {
       return NextResponse.json({ error: 'Invalid file name' }, { status: 400 });
     }
@@ -160,12 +92,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid item type' }, { status: 400 });
     }
 
-    const allItems = readFileData();
-    
+    if (clientId !== undefined && !validateItemId(clientId)) {
+      return NextResponse.json({ error: 'Invalid item ID' }, { status: 400 });
+    }
+
     let newItem: ItemRecord;
     const commonProps = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      walletAddress: walletAddress.toLowerCase(),
+      id: clientId ?? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      walletAddress,
       name,
       parentId,
       uploadDate: new Date().toISOString(),
@@ -177,11 +111,15 @@ export async function POST(request: NextRequest) {
         type: 'folder',
       };
     } else if (type === 'file') {
-      const { fileExtension, fileSize, rootHash, networkType } = fileProps;
+      const { fileExtension, fileSize, rootHash, networkType, encryption } = fileProps;
       if (!fileExtension || !fileSize || !rootHash || !networkType) {
         return NextResponse.json({ error: 'Missing file-specific fields' }, { status: 400 });
       }
 
+      if (encryption !== undefined && !isEncryptionParams(encryption)) {
+        return NextResponse.json({ error: 'Invalid encryption parameters' }, { status: 400 });
+      }
+
       console.log('Validating file extension:', fileExtension);
       if (!validateFileExtension(fileExtension)) {
         console.log('File extension not allowed:', fileExtension);
@@ -189,7 +127,7 @@ export async function POST(request: NextRequest) {
       }
       console.log('File extension validated successfully:', fileExtension);
 
-      if (!validateFileSize(fileSize)) {
+      if (!validateItemSize(fileSize)) {
         return NextResponse.json({ error: 'File size exceeds limit' }, { status: 400 });
       }
 
@@ -200,28 +138,80 @@ export async function POST(request: NextRequest) {
         fileSize,
         rootHash,
         networkType,
+        uploadedBy: walletAddress,
+        ...(encryption ? { encryption } : {}),
       };
     } else {
       return NextResponse.json({ error: 'Invalid item type' }, { status: 400 });
     }
 
-    // 중복 체크 (같은 폴더 내에 같은 이름의 아이템이 있는지)
-    const existingItem = allItems.find(item =>
-      item.walletAddress.toLowerCase() === walletAddress.toLowerCase() &&
-      item.parentId === parentId &&
-      item.name === name &&
-      (item.type === 'file' ? item.fileExtension === newItem.fileExtension : true)
-    );
+    // 중복 체크와 저장을 하나의 트랜잭션으로 처리 (같은 폴더 내에 같은 이름의 아이템이 있는지)
+    // 같은 이름의 파일이 있으면 기존 파일의 새 버전으로 저장 (이전 내용은 버전 기록에 보관)
+    const result = transaction(() => {
+      if (clientId && itemExists(clientId)) {
+        return { conflict: 'id' } as const;
+      }
 
-    if (existingItem) {
+      // 서버에 아직 없는 폴더(IndexedDB에만 있는 폴더)에 추가하는 경우는 호출한 지갑이 소유자
+      if (parentId && itemExists(parentId)) {
+        const parent = getItemAccess(parentId, walletAddress);
+        if (!parent || parent.item.type !== 'folder') {
+          return { error: 'Parent folder not found', status: 404 } as const;
+        }
+        // 바로가기 안이 아니라 바로가기가 가리키는 폴더에 추가해야 함
+        if (parent.item.shortcutTo) {
+          return { error: 'Cannot add items to a shortcut; add them to the folder it points to', status: 400 } as const;
+        }
+        if (!canPerform(parent.role, 'edit')) {
+          return { error: `Your role (${parent.role}) does not allow adding items to this folder`, status: 403 } as const;
+        }
+        newItem = { ...newItem, walletAddress: parent.item.walletAddress };
+      }
+
+      const existing = findNameConflict(newItem.walletAddress, parentId, newItem);
+      if (existing && (newItem.type === 'folder' || existing.type === 'folder')) {
+        return { conflict: 'name' } as const;
+      }
+      // 바로가기는 새 버전을 받을 수 없음 (내용이 바로가기 뒤에 가려짐)
+      if (existing?.shortcutTo) {
+        return { conflict: 'shortcut' } as const;
+      }
+      if (existing) {
+        const { rootHash, fileSize, fileExtension, networkType, encryption, uploadedBy, uploadDate } = newItem;
+        const item = addItemVersion(existing, {
+          rootHash: rootHash!,
+          fileSize: fileSize!,
+          fileExtension,
+          networkType,
+          encryption,
+          uploadedBy: uploadedBy!,
+          uploadDate,
+        });
+        return { item: withRevision(item), versioned: true } as const;
+      }
+      insertItem(newItem);
+      return { item: withRevision(newItem), versioned: false } as const;
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    if ('conflict' in result) {
+      if (result.conflict === 'id') {
+        return NextResponse.json({ error: 'An item with this ID already exists' }, { status: 409 });
+      }
+      if (result.conflict === 'shortcut') {
+        return NextResponse.json({ error: 'A shortcut with this name already exists in this folder' }, { status: 409 });
+      }
       const itemType = type === 'file' ? 'File' : 'Folder';
       return NextResponse.json({ error: `${itemType} with this name already exists in this folder` }, { status: 409 });
     }
 
-    allItems.push(newItem);
-    writeFileData(allItems);
+    if (result.versioned) {
+      console.log(`Added a new version of item ${result.item.id}`);
+    }
 
-    return NextResponse.json({ success: true, item: newItem });
+    return NextResponse.json({ success: true, item: result.item, versioned: result.versioned });
 
   } catch (error) {
     console.error('Error in POST /api/files:', error);
@@ -232,50 +222,63 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PATCH 요청 처리 - 파일 공유 설정
+// PATCH 요청 처리 - 파일/폴더 공유 설정 (소유자만, 폴더 공유는 나중에 추가된 아이템을 포함한 모든 하위 아이템에 적용)
+// 이미 공유된 지갑에 다시 공유하면 역할만 바뀜
 export async function PATCH(request: NextRequest) {
   try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
     const body = await request.json();
-    const { itemId, walletAddress, action, targetWalletAddress } = body;
+    const { itemId, action, targetWalletAddress, role = DEFAULT_SHARE_ROLE } = body;
 
-    if (!itemId || !walletAddress || !action || !targetWalletAddress) {
+    if (!itemId || !action || !targetWalletAddress) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
-    if (!validateWalletAddress(walletAddress) || !validateWalletAddress(targetWalletAddress)) {
+    if (!validateWalletAddress(targetWalletAddress)) {
       return NextResponse.json({ error: 'Invalid wallet address format' }, { status: 400 });
     }
 
-    const allItems = readFileData();
-    const itemIndex = allItems.findIndex(item => 
-      item.id === itemId && 
-      item.walletAddress.toLowerCase() === walletAddress.toLowerCase()
-    );
+    if (action !== 'share' && action !== 'unshare') {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
 
-    if (itemIndex === -1) {
-      return NextResponse.json({ error: 'Item not found or access denied' }, { status: 404 });
+    if (!isShareRole(role)) {
+      return NextResponse.json({ error: `role must be one of ${SHARE_ROLES.join(', ')}` }, { status: 400 });
     }
 
-    const item = allItems[itemIndex];
+    const target = targetWalletAddress.toLowerCase();
+    const item = transaction(() => {
+      const item = getOwnedItem(itemId, walletAddress);
+      if (!item) {
+        return null;
+      }
+
+      if (action === 'unshare') {
+        // 공유 해제 (폴더는 하위 아이템에 따로 공유한 것까지 모두 해제)
+        const removed = unshareItemTree(item, targetWalletAddress);
+        console.log(`Removed ${removed} share(s) of item ${itemId} and its subtree`);
+        return getOwnedItem(itemId, walletAddress);
+      }
 
-    if (action === 'share') {
       // 공유 설정
       if (!item.sharedWith) {
         item.sharedWith = [];
       }
-      if (!item.sharedWith.includes(targetWalletAddress.toLowerCase())) {
-        item.sharedWith.push(targetWalletAddress.toLowerCase());
-      }
-    } else if (action === 'unshare') {
-      // 공유 해제
-      if (item.sharedWith) {
-        item.sharedWith = item.sharedWith.filter(addr => addr !== targetWalletAddress.toLowerCase());
+      if (!item.sharedWith.includes(target)) {
+        item.sharedWith.push(target);
       }
-    } else {
-      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+      item.shareRoles = { ...item.shareRoles, [target]: role };
+
+      updateItem(item);
+      return item;
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found or access denied' }, { status: 404 });
     }
 
-    writeFileData(allItems);
     return NextResponse.json({ success: true, item });
 
   } catch (error) {
@@ -287,45 +290,45 @@ export async function PATCH(request: NextRequest) {
   }
 }
 
-// DELETE 요청 처리 - 파일 또는 폴더 삭제
+// DELETE 요청 처리 - 파일 또는 폴더를 휴지통으로 이동 (소유자만, 영구 삭제는 /api/trash)
 export async function DELETE(request: NextRequest) {
   try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
     const { searchParams } = new URL(request.url);
     const itemId = searchParams.get('id');
-    const walletAddress = searchParams.get('walletAddress');
 
-    if (!itemId || !walletAddress) {
-      return NextResponse.json({ error: 'Item ID and wallet address are required' }, { status: 400 });
+    if (!itemId) {
+      return NextResponse.json({ error: 'Item ID is required' }, { status: 400 });
     }
 
-    let allItems = readFileData();
-    const itemToDelete = allItems.find(item => item.id === itemId && item.walletAddress.toLowerCase() === walletAddress.toLowerCase());
+    // 폴더인 경우 모든 하위 아이템도 함께 휴지통으로 이동
+    const trashedCount = transaction(() => {
+      const access = getItemAccess(itemId, walletAddress);
+      if (!access) {
+        return 0;
+      }
+      // 공유받은 지갑이 지운 아이템은 소유자의 휴지통으로 가므로 공유받은 지갑은 지울 수 없음
+      return canPerform(access.role, 'manage') ? trashItemTree(access.item) : null;
+    });
 
-    if (!itemToDelete) {
-      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    if (trashedCount === null) {
+      return NextResponse.json({ error: 'Only the owner can delete this item' }, { status: 403 });
     }
-
-    const itemsToDelete = [itemToDelete.id];
-    if (itemToDelete.type === 'folder') {
-      // 폴더인 경우, 모든 하위 아이템을 재귀적으로 찾아서 삭제 목록에 추가
-      const findChildren = (folderId: string) => {
-        const children = allItems.filter(item => item.parentId === folderId);
-        for (const child of children) {
-          itemsToDelete.push(child.id);
-          if (child.type === 'folder') {
-            findChildren(child.id);
-          }
-        }
-      };
-      findChildren(itemToDelete.id);
+    if (trashedCount === 0) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
     }
 
-    const newItems = allItems.filter(item => !itemsToDelete.includes(item.id));
-    writeFileData(newItems);
+    console.log(`Moved ${trashedCount} item(s) to the trash`);
 
-    console.log(`Deleted ${itemsToDelete.length} item(s)`);
+    // 보관 기간이 지난 휴지통 아이템 정리
+    const cutoff = getTrashCutoff();
+    if (cutoff) {
+      purgeExpiredTrash(cutoff);
+    }
 
-    return NextResponse.json({ success: true, message: 'Item(s) deleted successfully' });
+    return NextResponse.json({ success: true, message: 'Item(s) moved to the trash' });
   } catch (error) {
     console.error('Error in DELETE /api/files:', error);
     return NextResponse.json(
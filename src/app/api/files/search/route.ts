@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { searchItems } from '@/lib/db/items';
+import { hasSearchFilters, parseSearchParams } from '@/utils/search';
+
+const DEFAULT_SEARCH_LIMIT = 100;
+const MAX_SEARCH_LIMIT = 500;
+
+// GET 요청 처리 - 드라이브 전체에서 이름, 확장자, 크기, 날짜, 네트워크, root hash, 공유 상태로 검색
+export async function GET(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const [filters, filterError] = parseSearchParams(searchParams);
+    if (!filters) {
+      return NextResponse.json({ error: filterError?.message }, { status: 400 });
+    }
+
+    if (!hasSearchFilters(filters)) {
+      return NextResponse.json({ error: 'At least one search filter is required' }, { status: 400 });
+    }
+
+    const limitParam = Number(searchParams.get('limit') || DEFAULT_SEARCH_LIMIT);
+    if (!Number.isInteger(limitParam) || limitParam < 1) {
+      return NextResponse.json({ error: 'Invalid limit' }, { status: 400 });
+    }
+
+    const { results, total } = searchItems(walletAddress, filters, Math.min(limitParam, MAX_SEARCH_LIMIT));
+
+    return NextResponse.json({ items: results, total });
+  } catch (error) {
+    console.error('Error in GET /api/files/search:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { AccessibleItem, listSharedWithMe } from '@/lib/db/items';
+
+// GET 요청 처리 - 다른 지갑이 나에게 공유한 아이템을 공유한 지갑별로 묶어서 조회
+export async function GET(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const groups = new Map<string, AccessibleItem[]>();
+    for (const item of listSharedWithMe(walletAddress)) {
+      const sharedBy = item.sharedBy ?? item.walletAddress;
+      groups.set(sharedBy, [...(groups.get(sharedBy) ?? []), item]);
+    }
+
+    return NextResponse.json({
+      groups: Array.from(groups, ([sharedBy, items]) => ({ sharedBy, items }))
+        .sort((a, b) => a.sharedBy.localeCompare(b.sharedBy)),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/files/shared:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
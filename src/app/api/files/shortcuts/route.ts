@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { transaction } from '@/lib/db/database';
+import { createShortcut, getItemAccess, getOwnedItem, itemExists } from '@/lib/db/items';
+
+// POST 요청 처리 - 공유받은 아이템의 바로가기를 내 폴더에 추가 (아이템은 복사하지 않음)
+export async function POST(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { targetId, parentId = null } = await request.json();
+
+    if (!targetId || typeof targetId !== 'string') {
+      return NextResponse.json({ error: 'targetId is required' }, { status: 400 });
+    }
+    if (parentId !== null && typeof parentId !== 'string') {
+      return NextResponse.json({ error: 'Invalid parentId' }, { status: 400 });
+    }
+
+    const result = transaction(() => {
+      const target = getItemAccess(targetId, walletAddress);
+      if (!target) {
+        return { error: 'Item not found', status: 404 } as const;
+      }
+      if (target.role === 'owner') {
+        return { error: 'Shortcuts can only point to items shared with you', status: 400 } as const;
+      }
+      if (target.item.shortcutTo) {
+        return { error: 'Cannot create a shortcut to a shortcut', status: 400 } as const;
+      }
+
+      // 서버에 아직 없는 폴더(IndexedDB에만 있는 폴더)는 그대로 허용
+      if (parentId && itemExists(parentId)) {
+        const parent = getOwnedItem(parentId, walletAddress);
+        if (!parent || parent.type !== 'folder' || parent.shortcutTo) {
+          return { error: 'Parent folder not found', status: 404 } as const;
+        }
+      }
+
+      return { item: createShortcut(walletAddress, target.item, parentId) } as const;
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    console.log(`Shortcut ${result.item.id} to item ${targetId} created`);
+    return NextResponse.json({ success: true, item: result.item });
+  } catch (error) {
+    console.error('Error in POST /api/files/shortcuts:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
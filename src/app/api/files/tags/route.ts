@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { listTags } from '@/lib/db/items';
+
+// GET 요청 처리 - 내 아이템에 쓰인 태그와 태그별 아이템 수 조회 (많이 쓰인 순)
+export async function GET(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    return NextResponse.json({ tags: listTags(walletAddress) });
+  } catch (error) {
+    console.error('Error in GET /api/files/tags:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
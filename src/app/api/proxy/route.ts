@@ -1,4 +1,5 @@
 import { NextRequest } from 'next/server';
+import { validateProxyTarget, fetchAllowed, readBodyWithLimit, MAX_PROXY_BODY_BYTES } from '@/lib/proxy/allowlist';
 
 // 상태 코드를 유효한 범위로 제한하는 함수
 function validateStatus(status: number): number {
@@ -10,33 +11,61 @@ function validateStatus(status: number): number {
   return 500;
 }
 
+// 허용되지 않은 프록시 요청 거부 (거부 사유를 기록하고 그대로 반환)
+function rejectRequest(method: string, url: string, reason: Error | null, status: number = 403): Response {
+  const message = reason?.message || 'Request not allowed';
+  console.warn(`[Proxy] Rejected ${method} ${url}: ${message}`);
+  return new Response(
+    JSON.stringify({ error: 'Proxy request rejected', reason: message }),
+    { status }
+  );
+}
+
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const url = searchParams.get('url');
   if (!url) {
     return new Response(JSON.stringify({ error: 'Missing url' }), { status: 400 });
   }
+
+  const [target, targetErr] = await validateProxyTarget(url);
+  if (!target) {
+    return rejectRequest('GET', url, targetErr);
+  }
+
+  // 이어받기를 위해 Range 관련 헤더 전달
+  const requestHeaders: Record<string, string> = {
+    'User-Agent': '0G-Storage-Web/1.0',
+  };
+  for (const name of ['range', 'if-range']) {
+    const value = req.headers.get(name);
+    if (value) {
+      requestHeaders[name === 'range' ? 'Range' : 'If-Range'] = value;
+    }
+  }
   
   const maxRetries = 3;
   let lastError: Error | null = null;
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      console.log(`[Proxy] Starting GET request to: ${url} (attempt ${attempt}/${maxRetries})`);
+      console.log(`[Proxy] Starting GET request to: ${url}${requestHeaders.Range ? ` (${requestHeaders.Range})` : ''} (attempt ${attempt}/${maxRetries})`);
       
       // 30분 타임아웃으로 단일 요청
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 1800000); // 30 minutes
       
-      const response = await fetch(url, {
+      const [response, redirectErr] = await fetchAllowed(target, {
         method: 'GET',
         signal: controller.signal,
-        headers: {
-          'User-Agent': '0G-Storage-Web/1.0',
-        }
+        headers: requestHeaders
       });
       
       clearTimeout(timeoutId);
+
+      if (!response) {
+        return rejectRequest('GET', url, redirectErr);
+      }
       
       // 응답 상태 확인
       if (!response.ok) {
@@ -144,7 +173,8 @@ export async function GET(req: NextRequest) {
       const responseHeaders = new Headers(response.headers);
       responseHeaders.set('Access-Control-Allow-Origin', '*');
       responseHeaders.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      responseHeaders.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      responseHeaders.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, Range, If-Range');
+      responseHeaders.set('Access-Control-Expose-Headers', 'Content-Length, Content-Range, Accept-Ranges');
       
       // Content-Length가 있는 경우 유지
       const contentLength = response.headers.get('content-length');
@@ -237,6 +267,17 @@ export async function POST(req: NextRequest) {
   if (!url) {
     return new Response(JSON.stringify({ error: 'Missing url' }), { status: 400 });
   }
+
+  const [target, targetErr] = await validateProxyTarget(url);
+  if (!target) {
+    return rejectRequest('POST', url, targetErr);
+  }
+
+  // 요청 본문 가져오기 (재시도 시에도 재사용, 크기 제한 초과 시 거부)
+  const [body, bodyErr] = await readBodyWithLimit(req, MAX_PROXY_BODY_BYTES);
+  if (!body) {
+    return rejectRequest('POST', url, bodyErr, 413);
+  }
   
   const maxRetries = 3;
   let lastError: Error | null = null;
@@ -245,9 +286,6 @@ export async function POST(req: NextRequest) {
     try {
       console.log(`[Proxy] Starting POST request to: ${url} (attempt ${attempt}/${maxRetries})`);
       
-      // 요청 본문 가져오기
-      const body = await req.arrayBuffer();
-      
       // 30분 타임아웃으로 단일 요청
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 1800000); // 30 minutes
@@ -273,7 +311,7 @@ export async function POST(req: NextRequest) {
       
       console.log(`[Proxy] POST headers:`, headers);
       
-      const response = await fetch(url, {
+      const [response, redirectErr] = await fetchAllowed(target, {
         method: 'POST',
         body: body,
         signal: controller.signal,
@@ -281,6 +319,10 @@ export async function POST(req: NextRequest) {
       });
       
       clearTimeout(timeoutId);
+
+      if (!response) {
+        return rejectRequest('POST', url, redirectErr);
+      }
       
       // 응답 상태 확인
       if (!response.ok) {
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { revokeShareLink } from '@/lib/db/shareLinks';
+
+// DELETE 요청 처리 - 공유 링크 폐기 (목록과 사용 횟수는 남김)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    const link = revokeShareLink(id, walletAddress);
+    if (!link) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    console.log(`Share link ${id} revoked`);
+    return NextResponse.json({ success: true, link });
+  } catch (error) {
+    console.error('Error in DELETE /api/share-links/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { getOwnedItem } from '@/lib/db/items';
+import { createShareLink, listShareLinks } from '@/lib/db/shareLinks';
+import { MAX_SHARE_LINK_DOWNLOADS, MAX_SHARE_LINK_PASSWORD_LENGTH } from '@/utils/shareLinks';
+
+// GET 요청 처리 - 아이템의 공유 링크 목록과 사용 횟수 조회
+export async function GET(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const itemId = new URL(request.url).searchParams.get('itemId');
+    if (!itemId) {
+      return NextResponse.json({ error: 'itemId is required' }, { status: 400 });
+    }
+
+    if (!getOwnedItem(itemId, walletAddress)) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ links: listShareLinks(itemId) });
+  } catch (error) {
+    console.error('Error in GET /api/share-links:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST 요청 처리 - 공유 링크 생성 (만료 시각, 비밀번호, 최대 다운로드 수는 선택)
+export async function POST(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { itemId, expiresAt, password, maxDownloads } = await request.json();
+
+    if (!itemId || typeof itemId !== 'string') {
+      return NextResponse.json({ error: 'itemId is required' }, { status: 400 });
+    }
+
+    if (expiresAt !== undefined && expiresAt !== null) {
+      const time = typeof expiresAt === 'string' ? Date.parse(expiresAt) : NaN;
+      if (Number.isNaN(time) || time <= Date.now()) {
+        return NextResponse.json({ error: 'expiresAt must be a future date' }, { status: 400 });
+      }
+    }
+
+    if (password !== undefined && password !== null &&
+      (typeof password !== 'string' || password.length === 0 || password.length > MAX_SHARE_LINK_PASSWORD_LENGTH)) {
+      return NextResponse.json({ error: `password must be 1 to ${MAX_SHARE_LINK_PASSWORD_LENGTH} characters` }, { status: 400 });
+    }
+
+    if (maxDownloads !== undefined && maxDownloads !== null &&
+      !(Number.isInteger(maxDownloads) && maxDownloads >= 1 && maxDownloads <= MAX_SHARE_LINK_DOWNLOADS)) {
+      return NextResponse.json({ error: `maxDownloads must be an integer from 1 to ${MAX_SHARE_LINK_DOWNLOADS}` }, { status: 400 });
+    }
+
+    const item = getOwnedItem(itemId, walletAddress);
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+    if (item.type !== 'file' || !item.rootHash) {
+      return NextResponse.json({ error: 'Only files can be shared by link' }, { status: 400 });
+    }
+    // 암호화 키는 소유자의 지갑 서명에서 만들어지므로 링크로 받은 사람은 복호화할 수 없음
+    if (item.encryption) {
+      return NextResponse.json({ error: 'Encrypted files cannot be shared by link' }, { status: 400 });
+    }
+
+    const link = await createShareLink(itemId, walletAddress, {
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      password: password || null,
+      maxDownloads: maxDownloads ?? null,
+    });
+
+    console.log(`Share link created for item ${itemId}:`, { expiresAt: link.expiresAt, hasPassword: link.hasPassword, maxDownloads: link.maxDownloads });
+    return NextResponse.json({ success: true, link });
+  } catch (error) {
+    console.error('Error in POST /api/share-links:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnedItem } from '@/lib/db/items';
+import { getShareLink, checkShareLinkPassword, consumeShareLinkDownload, ShareLink } from '@/lib/db/shareLinks';
+import { getShareLinkStatus } from '@/utils/shareLinks';
+
+// 로그인 없이 링크 ID만으로 접근하는 공개 API (공유 페이지에서 사용)
+
+const STATUS_ERRORS = {
+  expired: 'This link has expired',
+  exhausted: 'This link has reached its download limit',
+  revoked: 'This link has been revoked',
+} as const;
+
+// 링크와 링크가 가리키는 파일 (휴지통에 있거나 삭제된 파일은 없음으로 처리)
+function resolveLink(id: string): [ShareLink | null, ReturnType<typeof getOwnedItem>] {
+  const link = getShareLink(id);
+  const item = link ? getOwnedItem(link.itemId, link.createdBy) : null;
+  return [link, item];
+}
+
+// GET 요청 처리 - 링크 정보 조회 (root hash는 비밀번호 확인과 다운로드 횟수 차감 후 POST로만 제공)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const [link, item] = resolveLink(id);
+    if (!link || !item) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    const status = getShareLinkStatus(link);
+    if (status !== 'active') {
+      return NextResponse.json({ error: STATUS_ERRORS[status], status }, { status: 410 });
+    }
+
+    return NextResponse.json({
+      name: item.name,
+      fileExtension: item.fileExtension,
+      fileSize: item.fileSize,
+      requiresPassword: link.hasPassword,
+      expiresAt: link.expiresAt,
+      remainingDownloads: link.maxDownloads !== null ? link.maxDownloads - link.downloadCount : null,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/share/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST 요청 처리 - 비밀번호 확인 후 다운로드 1회를 차감하고 다운로드에 필요한 정보 제공
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { password } = await request.json().catch(() => ({}));
+
+    const [link, item] = resolveLink(id);
+    if (!link || !item || !item.rootHash) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    const status = getShareLinkStatus(link);
+    if (status !== 'active') {
+      return NextResponse.json({ error: STATUS_ERRORS[status], status }, { status: 410 });
+    }
+
+    const passwordCheck = await checkShareLinkPassword(id, typeof password === 'string' ? password : undefined);
+    if (passwordCheck.lockedUntil) {
+      const retryAfter = Math.max(1, Math.ceil((Date.parse(passwordCheck.lockedUntil) - Date.now()) / 1000));
+      return NextResponse.json(
+        { error: 'Too many incorrect passwords. Try again later', lockedUntil: passwordCheck.lockedUntil },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+    if (!passwordCheck.valid) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 });
+    }
+
+    // 동시에 들어온 요청이 마지막 다운로드를 먼저 가져갔을 수 있음
+    if (!consumeShareLinkDownload(id)) {
+      return NextResponse.json({ error: STATUS_ERRORS.exhausted, status: 'exhausted' }, { status: 410 });
+    }
+
+    console.log(`Share link ${id} used (${link.downloadCount + 1}${link.maxDownloads !== null ? `/${link.maxDownloads}` : ''})`);
+    return NextResponse.json({
+      rootHash: item.rootHash,
+      name: item.name,
+      fileExtension: item.fileExtension,
+      fileSize: item.fileSize,
+      networkType: item.networkType,
+    });
+  } catch (error) {
+    console.error('Error in POST /api/share/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { applyItemChange, listItemChanges } from '@/lib/db/sync';
+import { MAX_SYNC_BATCH, SyncChange } from '@/utils/sync';
+
+// GET 요청 처리 - since 이후에 바뀐 지갑의 아이템 (휴지통과 삭제 포함)
+export async function GET(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const since = Number(new URL(request.url).searchParams.get('since') ?? 0);
+    if (!Number.isInteger(since) || since < 0) {
+      return NextResponse.json({ error: 'since must be a non-negative integer' }, { status: 400 });
+    }
+
+    return NextResponse.json(listItemChanges(walletAddress, since, MAX_SYNC_BATCH));
+  } catch (error) {
+    console.error('Error in GET /api/sync:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST 요청 처리 - 클라이언트에서 바뀐 아이템 반영 (아이템마다 revision으로 충돌 확인)
+export async function POST(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { changes } = await request.json();
+
+    if (!Array.isArray(changes) || changes.length > MAX_SYNC_BATCH) {
+      return NextResponse.json({ error: `changes must be an array of at most ${MAX_SYNC_BATCH} changes` }, { status: 400 });
+    }
+    const invalid = (changes as SyncChange[]).some(change =>
+      !change || typeof change.id !== 'string' || !Number.isInteger(change.baseRevision) ||
+      typeof change.changedAt !== 'string' || Number.isNaN(Date.parse(change.changedAt))
+    );
+    if (invalid) {
+      return NextResponse.json({ error: 'Each change needs an id, baseRevision and changedAt' }, { status: 400 });
+    }
+
+    const results = (changes as SyncChange[]).map(change => applyItemChange(walletAddress, change));
+
+    const conflicts = results.filter(result => result.status === 'conflict' || result.conflict).length;
+    console.log(`Sync push from ${walletAddress}: ${results.length} change(s), ${conflicts} conflict(s)`);
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error in POST /api/sync:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { transaction } from '@/lib/db/database';
+import { restoreTrashedItem, deleteTrashedItem } from '@/lib/db/items';
+
+// POST 요청 처리 - 휴지통에서 원래 위치로 복원 (없어진 상위 폴더는 다시 생성)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    const item = transaction(() => restoreTrashedItem(id, walletAddress));
+
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found in trash' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, item });
+  } catch (error) {
+    console.error('Error in POST /api/trash/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE 요청 처리 - 휴지통의 아이템 영구 삭제
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    const deletedCount = transaction(() => deleteTrashedItem(id, walletAddress));
+
+    if (deletedCount === 0) {
+      return NextResponse.json({ error: 'Item not found in trash' }, { status: 404 });
+    }
+
+    console.log(`Permanently deleted ${deletedCount} item(s)`);
+
+    return NextResponse.json({ success: true, deletedCount });
+  } catch (error) {
+    console.error('Error in DELETE /api/trash/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
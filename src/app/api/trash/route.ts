@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/auth/session';
+import { transaction } from '@/lib/db/database';
+import { listTrashedItems, emptyTrash, purgeExpiredTrash } from '@/lib/db/items';
+import { TRASH_RETENTION_DAYS, getTrashCutoff } from '@/utils/storage';
+
+// GET 요청 처리 - 휴지통 목록 조회 (보관 기간이 지난 아이템은 먼저 영구 삭제)
+export async function GET(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const cutoff = getTrashCutoff();
+    if (cutoff) {
+      purgeExpiredTrash(cutoff);
+    }
+
+    const items = listTrashedItems(walletAddress);
+
+    return NextResponse.json({ items, retentionDays: TRASH_RETENTION_DAYS > 0 ? TRASH_RETENTION_DAYS : null });
+  } catch (error) {
+    console.error('Error in GET /api/trash:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE 요청 처리 - 휴지통 비우기
+export async function DELETE(request: NextRequest) {
+  try {
+    const [walletAddress, authError] = requireSession(request);
+    if (authError) return authError;
+
+    const deletedCount = transaction(() => emptyTrash(walletAddress));
+
+    console.log(`Emptied trash: ${deletedCount} item(s) deleted`);
+
+    return NextResponse.json({ success: true, deletedCount });
+  } catch (error) {
+    console.error('Error in DELETE /api/trash:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,273 @@
+'use client';
+
+import { Providers } from '@/app/providers';
+import { useEffect, useState, useRef } from 'react';
+import { useNetwork, NetworkType } from '@/app/providers';
+import { useDownload } from '@/hooks/useDownload';
+
+interface SharePageProps {
+  params: {
+    linkId: string;
+  };
+}
+
+interface SharedFileInfo {
+  name: string;
+  fileExtension?: string;
+  fileSize?: number;
+  requiresPassword: boolean;
+  expiresAt: string | null;
+  remainingDownloads: number | null;
+}
+
+// 이름에 확장자가 없으면 붙임 (중복 방지)
+const withExtension = (name: string, fileExtension?: string) =>
+  fileExtension && !name.toLowerCase().endsWith('.' + fileExtension.toLowerCase())
+    ? `${name}.${fileExtension}`
+    : name;
+
+function ActualSharePage({ params }: SharePageProps) {
+  const { linkId } = params;
+  const { networkType } = useNetwork();
+  const [status, setStatus] = useState<'loading' | 'password' | 'downloading' | 'success' | 'error'>('loading');
+  const [error, setError] = useState<string>('');
+  const [fileInfo, setFileInfo] = useState<SharedFileInfo | null>(null);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+
+  // 다운로드가 이미 시작되었는지 추적하는 ref
+  const downloadStartedRef = useRef(false);
+
+  // useDownload 훅 사용
+  const { downloadFile, error: downloadError, downloadStatus } = useDownload();
+
+  // 서버에서 비밀번호 확인과 다운로드 횟수 차감을 거친 뒤에만 root hash를 받음
+  const startDownload = async (linkPassword?: string) => {
+    // 이미 다운로드가 시작되었으면 중복 실행 방지
+    if (downloadStartedRef.current) {
+      return;
+    }
+    downloadStartedRef.current = true;
+
+    try {
+      setStatus('downloading');
+      const response = await fetch(`/api/share/${encodeURIComponent(linkId)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: linkPassword }),
+      });
+      const data = await response.json();
+
+      if (response.status === 401 || response.status === 429) {
+        // 비밀번호를 다시 입력할 수 있도록 함 (429는 너무 많이 틀려 잠시 잠긴 경우)
+        downloadStartedRef.current = false;
+        setPasswordError(data.error || 'Incorrect password');
+        setStatus('password');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Download failed');
+      }
+
+      console.log('[SharePage] Starting download for share link:', linkId);
+      const success = await downloadFile(
+        data.rootHash,
+        withExtension(data.name, data.fileExtension),
+        true,
+        undefined,
+        (data.networkType as NetworkType | undefined) || networkType
+      );
+
+      if (success) {
+        setStatus('success');
+        console.log('[SharePage] File download initiated successfully');
+      } else {
+        setStatus('error');
+        setError(downloadError || 'Download failed');
+      }
+    } catch (error) {
+      console.error('[SharePage] Error during download:', error);
+      setError(error instanceof Error ? error.message : 'Download failed');
+      setStatus('error');
+    }
+  };
+
+  useEffect(() => {
+    const resolveShareLink = async () => {
+      try {
+        // 만료, 폐기, 다운로드 한도 초과는 서버가 410으로 알려줌
+        const response = await fetch(`/api/share/${encodeURIComponent(linkId)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Share link not found');
+        }
+
+        setFileInfo(data);
+        if (data.requiresPassword) {
+          setStatus('password');
+        } else {
+          await startDownload();
+        }
+      } catch (error) {
+        console.error('[SharePage] Error resolving share link:', error);
+        setError(error instanceof Error ? error.message : 'Share link not found');
+        setStatus('error');
+      }
+    };
+
+    resolveShareLink();
+  }, [linkId]); // startDownload는 ref로 중복 실행을 막으므로 제외
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError('');
+    startDownload(password);
+  };
+
+  const fileName = fileInfo ? withExtension(fileInfo.name, fileInfo.fileExtension) : '';
+
+  // 다운로드 상태에 따른 메시지 표시
+  useEffect(() => {
+    if (downloadStatus) {
+      console.log('[SharePage] Download status:', downloadStatus);
+    }
+  }, [downloadStatus]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md w-full text-center">
+        <div className="mb-6">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-blue-100 flex items-center justify-center">
+            {status === 'loading' && (
+              <svg className="w-8 h-8 text-blue-600 animate-spin" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+            )}
+            {status === 'password' && (
+              <svg className="w-8 h-8 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+            )}
+            {status === 'downloading' && (
+              <svg className="w-8 h-8 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+            )}
+            {status === 'success' && (
+              <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            )}
+            {status === 'error' && (
+              <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            )}
+          </div>
+          
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {status === 'loading' && 'Preparing Download...'}
+            {status === 'password' && 'Password Required'}
+            {status === 'downloading' && 'Downloading File...'}
+            {status === 'success' && 'Download Complete!'}
+            {status === 'error' && 'Download Failed'}
+          </h1>
+          
+          <p className="text-gray-600">
+            {status === 'loading' && 'Please wait while we prepare your file for download.'}
+            {status === 'password' && 'Enter the password for this link to download the file.'}
+            {status === 'downloading' && 'Your file is being downloaded automatically.'}
+            {status === 'success' && 'The file has been downloaded to your device.'}
+            {status === 'error' && 'There was an error downloading the file.'}
+          </p>
+        </div>
+
+        {fileInfo && (status === 'password' || status === 'downloading') && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg text-left">
+            <p className="text-sm text-blue-800 break-all">
+              <strong>File:</strong> {fileName}
+            </p>
+            {fileInfo.fileSize !== undefined && (
+              <p className="text-xs text-blue-700 mt-1">{(fileInfo.fileSize / (1024 * 1024)).toFixed(2)} MB</p>
+            )}
+            {fileInfo.expiresAt && (
+              <p className="text-xs text-blue-700 mt-1">Link expires {new Date(fileInfo.expiresAt).toLocaleString()}</p>
+            )}
+          </div>
+        )}
+
+        {status === 'password' && (
+          <form onSubmit={handlePasswordSubmit} className="mb-6 flex flex-col gap-2">
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {passwordError && <p className="text-sm text-red-600">{passwordError}</p>}
+            <button
+              type="submit"
+              disabled={!password}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              Download
+            </button>
+          </form>
+        )}
+
+        {status === 'success' && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm text-green-800">
+              <strong>File:</strong> {fileName}
+            </p>
+            <p className="text-xs text-green-700 mt-1">
+              The download should start automatically. If it doesn't, check your browser's download settings.
+            </p>
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">
+              <strong>Error:</strong> {error}
+            </p>
+            <p className="text-xs text-red-700 mt-1">
+              The link may have expired, been revoked or reached its download limit. Ask the owner for a new link.
+            </p>
+          </div>
+        )}
+
+        {downloadStatus && status === 'downloading' && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-sm text-blue-800">
+              <strong>Status:</strong> {downloadStatus}
+            </p>
+          </div>
+        )}
+
+        {/* Logo와 DRIVE 텍스트 */}
+        <div className="mt-8 flex items-center justify-center">
+          <img
+            src="/logo.png"
+            alt="Drive Logo"
+            width={24}
+            height={24}
+            className="mr-2"
+          />
+          <span className="text-lg font-bold text-gray-700">DRIVE</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function SharePage({ params }: SharePageProps) {
+  return (
+    <Providers>
+      <ActualSharePage params={params} />
+    </Providers>
+  );
+} 
\ No newline at end of file
@@ -1,12 +1,39 @@
 import React, { useState } from 'react';
 import { useWallet } from '@/hooks/useWallet';
-import { useBackup } from '@/hooks/useBackup';
+import { useBackup, BackupPreview } from '@/hooks/useBackup';
+import { useFileList } from '@/hooks/useFileList';
+import type { BackupSnapshot } from '@/utils/backups';
+import type { ConflictResolution, ImportMode } from '@/utils/backupImport';
+import type { FileMeta } from '@/utils/indexeddb';
+
+const IMPORT_MODES: { mode: ImportMode, label: string, description: string }[] = [
+  { mode: 'merge', label: 'Merge', description: 'Add items that are only in the backup; keep everything else in your drive' },
+  { mode: 'replace', label: 'Replace', description: 'Make your drive match the backup; items not in the backup are moved to the trash' },
+  { mode: 'subfolder', label: 'Restore into a new folder', description: 'Copy the whole backup into a new folder without touching your drive' },
+];
+
+// 미리 보기 목록에 보여줄 이름 수
+const PREVIEW_NAMES = 5;
+
+const previewNames = (items: FileMeta[]) =>
+  items.slice(0, PREVIEW_NAMES).map(item => item.name).join(', ') +
+  (items.length > PREVIEW_NAMES ? ` and ${items.length - PREVIEW_NAMES} more` : '');
 
 export function BackupButtons() {
   const { isConnected } = useWallet();
-  const { exportBackup, importBackup, loading, error, status } = useBackup();
+  const { exportBackup, previewBackup, importBackup, listBackups, pinBackup, deleteBackup, loading, error, status } = useBackup();
+  const { formatFileSize, formatDate } = useFileList();
   const [showModal, setShowModal] = useState(false);
   const [modalType, setModalType] = useState<'export' | 'import'>('export');
+  // 복원할 스냅샷 선택 (null이면 아직 목록을 불러오는 중)
+  const [backups, setBackups] = useState<BackupSnapshot[] | null>(null);
+  const [listError, setListError] = useState('');
+  // pick: 스냅샷 선택, preview: 비교 결과와 가져오기 방식 선택, restore: 가져오는 중/결과
+  const [importStep, setImportStep] = useState<'pick' | 'preview' | 'restore'>('pick');
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [resolution, setResolution] = useState<ConflictResolution>('current');
+  const [busyBackupId, setBusyBackupId] = useState<number | null>(null);
 
   const handleExport = async () => {
     setModalType('export');
@@ -19,17 +46,206 @@ export function BackupButtons() {
     }
   };
 
+  // 가져오기는 바로 복원하지 않고 스냅샷 목록부터 보여줌
   const handleImport = async () => {
     setModalType('import');
     setShowModal(true);
-    
-    const result = await importBackup();
+    setImportStep('pick');
+    setPreview(null);
+    setBackups(null);
+    setListError('');
+
+    try {
+      setBackups(await listBackups());
+    } catch (err) {
+      setListError(err instanceof Error ? err.message : String(err));
+      setBackups([]);
+    }
+  };
+
+  const handlePreview = async (backup: BackupSnapshot) => {
+    setImportStep('preview');
+    setImportMode('merge');
+    setResolution('current');
+    setPreview(await previewBackup(backup));
+  };
+
+  const handleRestore = async () => {
+    if (!preview) return;
+    if (importMode === 'replace' && preview.diff.deletions.length > 0 &&
+      !confirm(`${preview.diff.deletions.length} item(s) that are not in the backup will be moved to the trash. Continue?`)) return;
+    setImportStep('restore');
+
+    const result = await importBackup(preview, importMode, resolution);
     if (result) {
       // 성공 시 3초 후 모달 닫기
       setTimeout(() => setShowModal(false), 3000);
     }
   };
 
+  const handleTogglePin = async (backup: BackupSnapshot) => {
+    setBusyBackupId(backup.id);
+    try {
+      const updated = await pinBackup(backup.id, !backup.pinned);
+      setBackups(prev => prev && prev.map(b => (b.id === updated.id ? updated : b)));
+    } catch (err) {
+      alert(`Failed to update backup: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusyBackupId(null);
+    }
+  };
+
+  const handleDeleteBackup = async (backup: BackupSnapshot) => {
+    if (!confirm(`Delete the backup from ${formatDate(backup.createdAt)}? It will no longer be listed for restore.`)) return;
+    setBusyBackupId(backup.id);
+    try {
+      await deleteBackup(backup.id);
+      setBackups(prev => prev && prev.filter(b => b.id !== backup.id));
+    } catch (err) {
+      alert(`Failed to delete backup: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusyBackupId(null);
+    }
+  };
+
+  // 이전 내보내기/복원의 결과는 스냅샷을 고르는 동안 보여주지 않음
+  const showResult = modalType === 'export' || importStep !== 'pick';
+
+  const renderImportPreview = () => {
+    if (!preview) return null;
+    const { diff } = preview;
+
+    return (
+      <div className="space-y-4 text-sm">
+        <div>
+          <p className="font-medium text-gray-900">Backup from {formatDate(preview.backup.createdAt)}</p>
+          <p className="text-xs text-gray-500">Compared with your drive:</p>
+        </div>
+        <ul className="space-y-2 text-xs">
+          <li>
+            <span className="font-semibold text-green-700">{diff.additions.length} only in the backup</span>
+            {diff.additions.length > 0 && <p className="text-gray-500 truncate">{previewNames(diff.additions)}</p>}
+          </li>
+          <li>
+            <span className="font-semibold text-red-700">{diff.deletions.length} only in your drive</span>
+            {diff.deletions.length > 0 && <p className="text-gray-500 truncate">{previewNames(diff.deletions)}</p>}
+          </li>
+          <li>
+            <span className="font-semibold text-yellow-700">{diff.conflicts.length} changed since the backup</span>
+            {diff.conflicts.slice(0, PREVIEW_NAMES).map(conflict => (
+              <p key={conflict.current.id} className="text-gray-500 truncate">
+                {conflict.current.name} ({conflict.fields.join(', ')})
+              </p>
+            ))}
+            {diff.conflicts.length > PREVIEW_NAMES && <p className="text-gray-500">and {diff.conflicts.length - PREVIEW_NAMES} more</p>}
+          </li>
+          <li className="text-gray-500">{diff.unchanged} unchanged</li>
+        </ul>
+
+        <fieldset className="space-y-2">
+          {IMPORT_MODES.map(option => (
+            <label key={option.mode} className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="importMode"
+                checked={importMode === option.mode}
+                onChange={() => setImportMode(option.mode)}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        {importMode === 'merge' && diff.conflicts.length > 0 && (
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            For changed items keep
+            <select
+              value={resolution}
+              onChange={(e) => setResolution(e.target.value as ConflictResolution)}
+              className="p-1 border border-gray-300 rounded-md"
+            >
+              <option value="current">the version in my drive</option>
+              <option value="backup">the version in the backup</option>
+            </select>
+          </label>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setImportStep('pick')}
+            className="px-3 py-1.5 text-xs rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100"
+          >
+            Back
+          </button>
+          <button
+            onClick={handleRestore}
+            className="px-3 py-1.5 text-xs rounded-md text-white bg-brand-primary hover:bg-brand-primary-dark"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderBackupPicker = () => {
+    if (backups === null) {
+      return <div className="py-8 text-center text-gray-600">Loading backups...</div>;
+    }
+    if (listError) {
+      return <p className="text-sm text-red-700">{listError}</p>;
+    }
+    if (backups.length === 0) {
+      return <p className="py-4 text-sm text-gray-600 text-center">No backups found for this wallet.</p>;
+    }
+
+    return (
+      <ul className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
+        {backups.map(backup => (
+          <li key={backup.id} className="py-3 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900">
+                {backup.pinned && <span className="mr-1" title="Pinned">📌</span>}
+                {formatDate(backup.createdAt)}
+              </p>
+              <p className="text-xs text-gray-500 truncate" title={backup.rootHash}>
+                {backup.itemCount} item{backup.itemCount === 1 ? '' : 's'} · {formatFileSize(backup.size)} · {backup.networkType}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0 text-xs">
+              <button
+                onClick={() => handleTogglePin(backup)}
+                disabled={busyBackupId === backup.id}
+                className="px-2 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                title={backup.pinned ? 'Unpin (may be removed when newer backups are made)' : 'Pin (never removed automatically)'}
+              >
+                {backup.pinned ? 'Unpin' : 'Pin'}
+              </button>
+              <button
+                onClick={() => handleDeleteBackup(backup)}
+                disabled={busyBackupId === backup.id}
+                className="px-2 py-1 rounded-md border border-gray-300 text-red-600 hover:bg-red-50 disabled:opacity-50"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => handlePreview(backup)}
+                disabled={busyBackupId === backup.id}
+                className="px-2 py-1 rounded-md text-white bg-brand-primary hover:bg-brand-primary-dark disabled:opacity-50"
+              >
+                Restore
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
   if (!isConnected) {
     return null;
   }
@@ -74,6 +290,9 @@ export function BackupButtons() {
               </button>
             </div>
 
+            {modalType === 'import' && importStep === 'pick' && renderBackupPicker()}
+            {modalType === 'import' && importStep === 'preview' && !loading && renderImportPreview()}
+
             {loading && (
               <div className="flex items-center justify-center py-8">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
@@ -81,7 +300,7 @@ export function BackupButtons() {
               </div>
             )}
 
-            {error && (
+            {showResult && error && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
                 <div className="flex">
                   <svg className="w-5 h-5 text-red-400 mt-0.5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -95,7 +314,7 @@ export function BackupButtons() {
               </div>
             )}
 
-            {!loading && !error && status && (
+            {showResult && !loading && !error && status && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                 <div className="flex">
                   <svg className="w-5 h-5 text-green-400 mt-0.5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
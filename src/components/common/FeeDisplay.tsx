@@ -7,12 +7,14 @@ interface FeeDisplayProps {
   size: number;
   error?: string | null;
   onRetry?: () => void;
+  hashProgress?: number | null; // root hash 계산 진행률 (0~1)
+  onCancel?: () => void;
 }
 
 /**
  * A component for displaying fee information for a file upload
  */
-export function FeeDisplay({ feeInfo, size, error, onRetry }: FeeDisplayProps) {
+export function FeeDisplay({ feeInfo, size, error, onRetry, hashProgress, onCancel }: FeeDisplayProps) {
   if (error) {
     return (
       <div className="mt-4 p-4 bg-red-100 border border-red-200 rounded-lg text-sm text-red-800">
@@ -33,7 +35,21 @@ export function FeeDisplay({ feeInfo, size, error, onRetry }: FeeDisplayProps) {
   return (
     <div className="mt-4 p-4 border border-brand-border rounded-lg bg-brand-background">
       <h3 className="text-sm font-semibold text-brand-text mb-3">Estimated Storage Fee</h3>
-      {feeInfo.isLoading ? (
+      {feeInfo.isLoading && hashProgress != null ? (
+        <div className="text-sm text-brand-text-secondary">
+          <div className="flex items-center justify-between">
+            <span>Computing root hash... {Math.round(hashProgress * 100)}%</span>
+            {onCancel && (
+              <button onClick={onCancel} className="text-xs font-semibold underline hover:text-brand-text">
+                Cancel
+              </button>
+            )}
+          </div>
+          <div className="mt-2 w-full bg-brand-border rounded-full h-1.5">
+            <div className="bg-brand-primary h-1.5 rounded-full transition-all" style={{ width: `${Math.round(hashProgress * 100)}%` }} />
+          </div>
+        </div>
+      ) : feeInfo.isLoading ? (
         <div className="flex items-center text-sm text-brand-text-secondary">
           <svg className="animate-spin -ml-1 mr-3 h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
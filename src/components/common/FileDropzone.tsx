@@ -1,21 +1,43 @@
 import React, { useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
+import { hasFolderStructure } from '@/utils/folderTree';
 
 interface FileDropzoneProps {
   onFileDrop: (file: File) => void;
+  onFilesDrop?: (files: File[]) => void; // 여러 파일이나 폴더를 놓으면 호출 (지정 시 다중 선택·폴더 선택 허용)
   disabled?: boolean;
 }
 
-export function FileDropzone({ onFileDrop, disabled }: FileDropzoneProps) {
+export function FileDropzone({ onFileDrop, onFilesDrop, disabled }: FileDropzoneProps) {
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles && acceptedFiles.length > 0) {
+    if (!acceptedFiles || acceptedFiles.length === 0) {
+      return;
+    }
+    if (onFilesDrop && (acceptedFiles.length > 1 || hasFolderStructure(acceptedFiles))) {
+      onFilesDrop(acceptedFiles);
+    } else {
       onFileDrop(acceptedFiles[0]);
     }
-  }, [onFileDrop]);
+  }, [onFileDrop, onFilesDrop]);
+
+  // 폴더 선택은 react-dropzone이 지원하지 않으므로 webkitdirectory input을 직접 사용
+  const selectFolder = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.webkitdirectory = true;
+    input.onchange = () => {
+      const files = Array.from(input.files ?? []);
+      if (files.length > 0) {
+        onFilesDrop?.(files);
+      }
+    };
+    input.click();
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    multiple: false,
+    multiple: !!onFilesDrop,
     disabled: disabled
   });
 
@@ -37,11 +59,25 @@ export function FileDropzone({ onFileDrop, disabled }: FileDropzoneProps) {
           <path strokeLinecap="round" strokeLinejoin="round" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
         </svg>
         {isDragActive ? (
-          <p className="text-lg font-semibold text-brand-primary">Drop the file here...</p>
+          <p className="text-lg font-semibold text-brand-primary">{onFilesDrop ? 'Drop the files here...' : 'Drop the file here...'}</p>
         ) : (
           <>
-            <p className="text-lg font-semibold">Drag & drop a file here, or click to select</p>
-            <p className="text-sm mt-1">Select a single file to upload to 0G Storage.</p>
+            <p className="text-lg font-semibold">{onFilesDrop ? 'Drag & drop files here, or click to select' : 'Drag & drop a file here, or click to select'}</p>
+            <p className="text-sm mt-1">
+              {onFilesDrop
+                ? 'Drop several files or whole folders at once to add them to the upload queue.'
+                : 'Select a single file to upload to 0G Storage.'}
+            </p>
+            {onFilesDrop && (
+              <button
+                type="button"
+                onClick={selectFolder}
+                disabled={disabled}
+                className="mt-3 text-sm font-semibold text-brand-primary underline hover:text-brand-primary-dark"
+              >
+                Select a folder
+              </button>
+            )}
           </>
         )}
       </div>
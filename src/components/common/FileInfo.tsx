@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
 import { formatFileSize, truncateString } from '@/utils/format';
+import type { FileMeta } from '@/utils/indexeddb';
+import { VersionHistory } from './VersionHistory';
+import { MetadataEditor } from './MetadataEditor';
 
 interface FileInfoProps {
   fileInfo: {
@@ -8,13 +11,17 @@ interface FileInfoProps {
     type?: string;
   };
   rootHash?: string | null;
+  existingFile?: FileMeta | null; // 저장된 아이템 (업로드 시에는 같은 폴더의 같은 이름 파일로, 업로드하면 이 파일의 새 버전이 됨)
+  editMetadata?: boolean | 'comment'; // 저장된 아이템의 태그, 별표, 설명, 속성 편집기 표시 ('comment'면 태그와 설명만)
   onClear: () => void;
 }
 
 /**
- * A component for displaying file information and root hash
+ * A component for displaying file information and root hash,
+ * plus the version history when the file is (or will become a new version of) a stored file
+ * and, when requested, the metadata editor of the stored item
  */
-export function FileInfo({ fileInfo, rootHash, onClear }: FileInfoProps) {
+export function FileInfo({ fileInfo, rootHash, existingFile, editMetadata, onClear }: FileInfoProps) {
   const [copySuccess, setCopySuccess] = useState(false);
 
   // Function to copy text to clipboard
@@ -35,9 +42,11 @@ export function FileInfo({ fileInfo, rootHash, onClear }: FileInfoProps) {
           <p className="font-semibold text-brand-text truncate min-w-0 text-[0.7rem] font-sans" title={fileInfo.name}>
             {fileInfo.name}
           </p>
-          <p className="text-brand-text-secondary text-[0.7rem] font-sans">
-            {formatFileSize(fileInfo.size)}
-          </p>
+          {existingFile?.type !== 'folder' && (
+            <p className="text-brand-text-secondary text-[0.7rem] font-sans">
+              {formatFileSize(fileInfo.size)}
+            </p>
+          )}
         </div>
         <button
           onClick={onClear}
@@ -55,6 +64,10 @@ export function FileInfo({ fileInfo, rootHash, onClear }: FileInfoProps) {
           <p className="text-brand-text-secondary break-all text-[0.7rem] font-sans">{rootHash}</p>
         </div>
       )}
+
+      {existingFile && editMetadata && <MetadataEditor key={existingFile.id} item={existingFile} commentOnly={editMetadata === 'comment'} />}
+
+      {existingFile?.type === 'file' && <VersionHistory file={existingFile} />}
     </div>
   );
 } 
\ No newline at end of file
@@ -1,10 +1,23 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import Image from 'next/image';
 import { useFileList, Item, Breadcrumb } from '@/hooks/useFileList';
 import { useDownload } from '@/hooks/useDownload';
 import { useWallet } from '@/hooks/useWallet';
+import { useShare } from '@/hooks/useShare';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import { useOfflineContent } from '@/hooks/useOfflineContent';
 import { ShareModal } from './ShareModal';
 import { BackupButtons } from './BackupButtons';
+import { SyncStatus } from './SyncStatus';
+import { TrashView } from './TrashView';
+import { SharedWithMeView } from './SharedWithMeView';
+import { SearchResults } from './SearchResults';
+import { SearchFilterPanel, SearchForm, EMPTY_SEARCH_FORM, buildSearchFilters } from './SearchFilterPanel';
+import { FileInfo } from './FileInfo';
+import { MAX_VERSIONS_LIMIT } from '@/utils/storage';
+import { PathSegment, hasSearchFilters } from '@/utils/search';
+import type { SortKey } from '@/utils/pagination';
+import { ItemAction, canPerform, getCallerRole } from '@/utils/permissions';
 
 interface FileListProps {
   className?: string;
@@ -26,6 +39,16 @@ const getIcon = (item: Item) => {
   return iconMap[ext] || iconMap.default;
 };
 
+// 가상 스크롤을 위해 모든 행을 같은 높이로 고정 (px)
+const ROW_HEIGHT = 52;
+
+const SORT_OPTIONS: { key: SortKey, label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'size', label: 'Size' },
+  { key: 'uploadDate', label: 'Date' },
+  { key: 'type', label: 'Type' },
+];
+
 // 메모이제이션된 로고 컴포넌트
 const MemoizedLogo = React.memo(() => {
   return (
@@ -46,11 +69,17 @@ MemoizedLogo.displayName = 'MemoizedLogo';
 export function FileList({ className = '', onUploadClick }: FileListProps) {
   const { 
     items, loading, error, deleteItem, updateItem, addFolder,
-    formatFileSize, formatDate, navigateToFolder, breadcrumbs, currentFolderId, refresh
+    formatFileSize, formatDate, navigateToFolder, navigateToPath, breadcrumbs, currentFolderId, refresh,
+    sort, setSort, total, hasMore, loadingMore, loadMore, updateMetadata
   } = useFileList();
   
   const { downloadFile, loading: downloadLoading } = useDownload();
-  const { isConnected } = useWallet();
+  const { isConnected, address } = useWallet();
+  const { getSharedItem } = useShare();
+  const offline = useOfflineContent();
+
+  // 공유받은 아이템은 역할이 허용하는 작업만 보여줌
+  const can = (item: Item, action: ItemAction) => canPerform(getCallerRole(item, address), action);
 
   const [deletingItemId, setDeletingItemId] = useState<string | null>(null);
   const [editingItem, setEditingItem] = useState<Item | null>(null);
@@ -62,10 +91,69 @@ export function FileList({ className = '', onUploadClick }: FileListProps) {
   const [dragOverHome, setDragOverHome] = useState(false);
   const [shareModalOpen, setShareModalOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
-  const [copyMessage, setCopyMessage] = useState('');
+  const [showTrash, setShowTrash] = useState(false);
+  const [showShared, setShowShared] = useState(false);
+  // 폴더 바로가기로 연 공유 폴더 (null이면 공유받은 항목 전체)
+  const [sharedFolder, setSharedFolder] = useState<Breadcrumb | null>(null);
+  const [detailsItemId, setDetailsItemId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchForm, setSearchForm] = useState<SearchForm>(EMPTY_SEARCH_FORM);
+  const [showSearchFilters, setShowSearchFilters] = useState(false);
+
+  const [searchFilters, searchError] = useMemo(() => buildSearchFilters(searchQuery, searchForm), [searchQuery, searchForm]);
+  const isSearching = searchFilters !== null && hasSearchFilters(searchFilters);
+
+  // 화면에 보이는 행만 렌더링하고, 끝에 가까워지면 다음 페이지를 불러옴
+  const handleEndReached = useCallback(() => {
+    if (hasMore && !loadingMore) {
+      loadMore();
+    }
+  }, [hasMore, loadingMore, loadMore]);
+
+  const { containerRef, onScroll, scrollToTop, start, end, paddingTop, paddingBottom } = useVirtualList({
+    count: items.length,
+    rowHeight: ROW_HEIGHT,
+    onEndReached: handleEndReached,
+  });
+
+  // 폴더나 정렬이 바뀌면 첫 페이지부터 다시 보여주므로 맨 위로 스크롤
+  useEffect(() => {
+    scrollToTop();
+  }, [currentFolderId, sort, scrollToTop]);
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setSearchForm(EMPTY_SEARCH_FORM);
+    setShowSearchFilters(false);
+  };
+
+  // 검색 결과에서 폴더 경로를 클릭하면 검색을 닫고 해당 폴더로 이동
+  const handleSearchNavigate = (path: PathSegment[]) => {
+    clearSearch();
+    navigateToPath(path);
+  };
+
+  // 버전 복원이나 메타데이터 변경 후에도 최신 상태를 보여주기 위해 ID로 찾음
+  const detailsItem = items.find(item => item.id === detailsItemId);
+
+  const handleToggleStar = async (item: Item) => {
+    try {
+      await updateMetadata(item.id, { starred: !item.starred });
+    } catch (err) {
+      alert(`Failed to update star: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // 태그를 클릭하면 드라이브 전체에서 그 태그가 붙은 아이템을 보여줌
+  const showTag = (tag: string) => {
+    setSearchQuery('');
+    setSearchForm({ ...EMPTY_SEARCH_FORM, tag });
+    setShowTrash(false);
+    setShowShared(false);
+  };
 
   const handleDelete = async (item: Item) => {
-    if (!confirm(`Are you sure you want to delete "${item.name}"? This will also delete all its contents.`)) return;
+    if (!confirm(`Move "${item.name}" to the trash? Its contents are moved too and can be restored from the trash.`)) return;
     setDeletingItemId(item.id);
     try {
       await deleteItem(item.id);
@@ -76,15 +164,70 @@ export function FileList({ className = '', onUploadClick }: FileListProps) {
     }
   };
 
+  // 폴더 안 파일마다 보관할 이전 버전 수 설정 (비워두면 상위 폴더 설정을 따름)
+  const handleSetMaxVersions = async (folder: Item) => {
+    const input = prompt(
+      `How many previous versions should files in "${folder.name}" keep? (0-${MAX_VERSIONS_LIMIT}, leave empty to use the parent folder's setting)`,
+      folder.maxVersions !== undefined ? String(folder.maxVersions) : ''
+    );
+    if (input === null) return;
+    const value = input.trim() === '' ? null : Number(input);
+    if (value !== null && !(Number.isInteger(value) && value >= 0 && value <= MAX_VERSIONS_LIMIT)) {
+      alert(`Please enter a whole number from 0 to ${MAX_VERSIONS_LIMIT}.`);
+      return;
+    }
+    try {
+      await updateItem(folder.id, { maxVersions: value });
+    } catch (err) {
+      alert(`Failed to update version limit: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // 바로가기는 열 때마다 서버에서 원본과 현재 권한을 확인 (공유가 해제되었으면 열 수 없음)
+  const openShortcut = async (shortcut: Item) => {
+    const [target, targetError] = await getSharedItem(shortcut.shortcutTo!);
+    if (!target) {
+      alert(`Cannot open "${shortcut.name}": ${targetError?.message}`);
+      return;
+    }
+    if (target.type === 'folder') {
+      setSharedFolder({ id: target.id, name: target.name });
+      setShowShared(true);
+      setShowTrash(false);
+    } else {
+      await handleDownload(target);
+    }
+  };
+
+  const handleOpen = (item: Item) => {
+    if (item.shortcutTo) {
+      openShortcut(item);
+    } else if (item.type === 'folder') {
+      navigateToFolder(item.id);
+    }
+  };
+
   const handleDownload = async (item: Item) => {
     if (item.type !== 'file' || !item.rootHash) return;
     try {
       const fileName = `${item.name}.${item.fileExtension}`;
-      await downloadFile(item.rootHash, fileName);
+      await downloadFile(item.rootHash, fileName, true, item.encryption);
+      // 받은 내용은 캐시에 저장되므로 표시를 갱신
+      offline.refreshCached();
     } catch (err) {
       alert(`Failed to download file: ${err instanceof Error ? err.message : String(err)}`);
     }
   };
+
+  // 현재 폴더 또는 상위 폴더가 오프라인으로 지정되어 있으면 이 폴더의 아이템은 모두 오프라인
+  const offlineFolder = breadcrumbs.find(crumb => crumb.id !== null && offline.offlineIds.has(crumb.id));
+
+  const handleToggleOffline = async (item: Item) => {
+    const [, offlineError] = await offline.toggleOffline(item);
+    if (offlineError) {
+      alert(`Failed to update offline setting: ${offlineError.message}`);
+    }
+  };
   
   const startEditing = (item: Item) => {
     setEditingItem(item);
@@ -113,6 +256,8 @@ export function FileList({ className = '', onUploadClick }: FileListProps) {
 
   const startCreatingFolder = () => {
     cancelEditing();
+    setShowTrash(false);
+    setShowShared(false);
     setIsCreatingFolder(true);
     setNewFolderName('');
   };
@@ -148,9 +293,12 @@ export function FileList({ className = '', onUploadClick }: FileListProps) {
     }
   };
   
+  // 폴더 바로가기에는 파일을 옮길 수 없음
+  const isDropTarget = (item: Item) => item.type === 'folder' && !item.shortcutTo && can(item, 'edit');
+
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>, targetItem: Item) => {
     e.preventDefault();
-    if (draggedItem && targetItem.type === 'folder' && targetItem.id !== draggedItem.id) {
+    if (draggedItem && isDropTarget(targetItem) && targetItem.id !== draggedItem.id) {
         setDragOverTarget(targetItem.id);
     }
   };
@@ -163,7 +311,7 @@ export function FileList({ className = '', onUploadClick }: FileListProps) {
     e.preventDefault();
     setDragOverTarget(null);
     
-    if (draggedItem && targetItem.type === 'folder' && draggedItem.id !== targetItem.id) {
+    if (draggedItem && isDropTarget(targetItem) && draggedItem.id !== targetItem.id) {
       try {
         console.log('[FileList] Moving file:', draggedItem.name, 'to folder:', targetItem.name);
         console.log('[FileList] Current folder ID:', currentFolderId);
@@ -231,29 +379,10 @@ export function FileList({ className = '', onUploadClick }: FileListProps) {
     }
   };
 
-  // 공유 버튼 클릭 시 rootHash와 파일명으로 링크 생성 및 복사
-  const handleShare = async (item: Item) => {
-    if (!item.rootHash) {
-      setCopyMessage('No shareable link available.');
-      setTimeout(() => setCopyMessage(''), 2000);
-      return;
-    }
-    // 파일명과 확장자를 URL에 포함 (중복 방지)
-    let fileName = item.name;
-    if (
-      item.fileExtension &&
-      !item.name.toLowerCase().endsWith('.' + item.fileExtension.toLowerCase())
-    ) {
-      fileName = `${item.name}.${item.fileExtension}`;
-    }
-    const url = `https://0gdrive.xyz/share/${item.rootHash}?name=${encodeURIComponent(fileName)}`;
-    try {
-      await navigator.clipboard.writeText(url);
-      setCopyMessage('Download link copied to clipboard!');
-    } catch (e) {
-      setCopyMessage('Failed to copy to clipboard.');
-    }
-    setTimeout(() => setCopyMessage(''), 2000);
+  // 공유 버튼 클릭 시 공유 모달 열기 (지갑 공유와 공유 링크 관리)
+  const handleShare = (item: Item) => {
+    setSelectedItem(item);
+    setShareModalOpen(true);
   };
 
   const Breadcrumbs = () => (
@@ -285,14 +414,73 @@ export function FileList({ className = '', onUploadClick }: FileListProps) {
     </nav>
   );
 
-  const Header = () => (
+  // 검색 입력이 렌더마다 다시 마운트되어 포커스를 잃지 않도록 컴포넌트가 아닌 render 함수로 사용
+  const renderHeader = () => (
     <div className="p-4 border-b border-brand-border flex justify-between items-center">
       <div className="flex items-center">
         <MemoizedLogo />
         <h1 className="text-xl font-bold text-brand-text">Drive</h1>
       </div>
       <div className="flex items-center space-x-2">
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => {
+            setSearchQuery(e.target.value);
+            setShowTrash(false);
+            setShowShared(false);
+          }}
+          onKeyDown={(e) => e.key === 'Escape' && clearSearch()}
+          disabled={!isConnected}
+          placeholder="Search drive"
+          aria-label="Search drive"
+          className="w-32 sm:w-48 md:w-64 px-3 py-1.5 border border-brand-border rounded-md text-xs bg-brand-surface text-brand-text focus:ring-brand-primary focus:border-brand-primary disabled:opacity-50"
+        />
+        <button
+          onClick={() => {
+            setSearchForm({ ...searchForm, starred: searchForm.starred ? '' : 'true' });
+            setShowTrash(false);
+            setShowShared(false);
+          }}
+          disabled={!isConnected}
+          className={`inline-flex items-center px-3 py-1.5 border border-brand-border text-xs font-medium rounded-md text-brand-text-secondary hover:bg-brand-background disabled:opacity-50 ${searchForm.starred ? 'bg-brand-background' : 'bg-brand-surface'}`}
+        >
+          <span className="mr-1 text-yellow-500">★</span> Starred
+        </button>
+        <button
+          onClick={() => {
+            setShowSearchFilters(!showSearchFilters);
+            setShowTrash(false);
+            setShowShared(false);
+          }}
+          disabled={!isConnected}
+          className={`inline-flex items-center px-3 py-1.5 border border-brand-border text-xs font-medium rounded-md text-brand-text-secondary hover:bg-brand-background disabled:opacity-50 ${showSearchFilters ? 'bg-brand-background' : 'bg-brand-surface'}`}
+        >
+          <span className="mr-1">⚙️</span> Filters
+        </button>
+        <SyncStatus />
         <BackupButtons />
+        <button
+          onClick={() => {
+            setShowShared(!showShared);
+            setSharedFolder(null);
+            setShowTrash(false);
+          }}
+          disabled={!isConnected}
+          className={`inline-flex items-center px-3 py-1.5 border border-brand-border text-xs font-medium rounded-md text-brand-text-secondary hover:bg-brand-background disabled:opacity-50 ${showShared ? 'bg-brand-background' : 'bg-brand-surface'}`}
+        >
+          <span className="mr-1">👥</span> Shared
+        </button>
+        <button
+          onClick={() => {
+            setShowTrash(!showTrash);
+            setShowShared(false);
+          }}
+          disabled={!isConnected}
+          className={`inline-flex items-center px-3 py-1.5 border border-brand-border text-xs font-medium rounded-md text-brand-text-secondary hover:bg-brand-background disabled:opacity-50 ${showTrash ? 'bg-brand-background' : 'bg-brand-surface'}`}
+        >
+          <span className="mr-1">🗑️</span> Trash
+        </button>
         <button
           onClick={startCreatingFolder}
           disabled={!isConnected || isCreatingFolder}
@@ -327,156 +515,307 @@ export function FileList({ className = '', onUploadClick }: FileListProps) {
 
   return (
     <div className={`bg-brand-surface rounded-lg shadow-sm border border-brand-border w-full mx-auto px-2 sm:px-4 md:px-6 lg:px-8 xl:px-10 2xl:px-12 ${className}`}>
-      <Header />
-      
-      <div className="p-4 border-b border-brand-border">
-          <Breadcrumbs/>
-      </div>
+      {renderHeader()}
 
-      {isCreatingFolder && (
-        <div className="p-4 bg-brand-background border-b border-brand-border">
-          <form onSubmit={handleCreateFolder} className="flex flex-col sm:flex-row items-stretch gap-2">
-            <span className="text-2xl sm:mr-3">📁</span>
-            <input
-              type="text"
-              value={newFolderName}
-              onChange={(e) => setNewFolderName(e.target.value)}
-              onBlur={cancelCreateFolder}
-              placeholder="Folder Name"
-              className="flex-1 p-2 border border-brand-border rounded-md focus:ring-brand-primary focus:border-brand-primary min-w-0"
-              autoFocus
-            />
-            <button type="submit" className="px-4 py-2 bg-brand-primary text-white rounded-md text-sm font-semibold w-full sm:w-auto">Create</button>
-            <button type="button" onClick={cancelCreateFolder} className="px-4 py-2 bg-brand-surface text-brand-text-secondary border border-brand-border rounded-md text-sm w-full sm:w-auto">Cancel</button>
-          </form>
-        </div>
+      {showSearchFilters && !showTrash && !showShared && (
+        <SearchFilterPanel form={searchForm} onChange={setSearchForm} error={searchError?.message} />
       )}
-      
-      <div className="min-h-[200px]">
-        {loading ? renderLoading() : error ? renderError() : items.length === 0 && !isCreatingFolder ? renderEmptyState() : (
-          <table className="w-full font-sans">
-            <colgroup>
-              <col style={{ width: '50%' }} />
-              <col style={{ width: '15%' }} />
-              <col style={{ width: '15%' }} />
-              <col style={{ width: '20%' }} />
-            </colgroup>
-            <thead className="bg-brand-background text-[0.7rem] font-sans">
-              <tr>
-                <th className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-left font-medium text-brand-text-secondary uppercase tracking-wider text-[0.7rem] font-sans">Name</th>
-                <th className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-right font-medium text-brand-text-secondary uppercase tracking-wider text-[0.7rem] font-sans">Size</th>
-                <th className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-left font-medium text-brand-text-secondary uppercase tracking-wider text-[0.7rem] font-sans">Date</th>
-                <th className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-right font-medium text-brand-text-secondary uppercase tracking-wider text-[0.7rem] font-sans">Actions</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-brand-border text-[0.7rem] font-sans">
-              {items.map(item => (
-                <tr
-                  key={item.id}
-                  draggable={item.type === 'file'}
-                  onDragStart={(e) => handleDragStart(e, item)}
-                  onDragOver={(e) => handleDragOver(e, item)}
-                  onDragLeave={handleDragLeave}
-                  onDrop={(e) => handleDrop(e, item)}
-                  onDragEnd={handleDragEnd}
-                  className={`
-                    transition-colors duration-200
-                    ${item.type === 'file' ? 'cursor-grab active:cursor-grabbing' : ''} 
-                    hover:bg-brand-background 
-                    ${dragOverTarget === item.id ? 'bg-brand-secondary-light border-2 border-brand-primary' : ''}
-                    ${draggedItem?.id === item.id ? 'opacity-50' : ''}
-                  `}
-                  onDoubleClick={() => item.type === 'folder' && navigateToFolder(item.id)}
+
+      {showShared ? (
+        <SharedWithMeView
+          key={sharedFolder?.id ?? 'shared'}
+          initialFolder={sharedFolder}
+          onClose={() => {
+            setShowShared(false);
+            setSharedFolder(null);
+          }}
+        />
+      ) : showTrash ? (
+        <TrashView onClose={() => setShowTrash(false)} />
+      ) : isSearching ? (
+        <SearchResults filters={searchFilters!} onNavigate={handleSearchNavigate} />
+      ) : (
+        <>
+          <div className="p-4 border-b border-brand-border flex flex-wrap items-center justify-between gap-2">
+              <Breadcrumbs/>
+              <div className="flex items-center gap-1 text-xs text-brand-text-secondary">
+                {offline.pendingCount > 0 ? (
+                  <span className="mr-2 text-brand-primary">
+                    Saving {offline.pendingCount} file{offline.pendingCount === 1 ? '' : 's'} for offline use...
+                  </span>
+                ) : offline.error && (
+                  <span className="mr-2 text-red-500">{offline.error}</span>
+                )}
+                <span className="mr-1">{total} item{total === 1 ? '' : 's'}</span>
+                <select
+                  value={sort.sortBy}
+                  onChange={(e) => setSort({ ...sort, sortBy: e.target.value as SortKey })}
+                  aria-label="Sort by"
+                  className="p-1 border border-brand-border rounded-md bg-brand-surface text-brand-text"
                 >
-                  <td className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 min-w-0 max-w-0">
-                    <div className="flex items-center min-w-0">
-                      <span className={`text-xl sm:text-2xl mr-1 sm:mr-2 md:mr-3 shrink-0 transition-all duration-200 ${
-                        dragOverTarget === item.id && item.type === 'folder' ? 'scale-110 text-brand-primary' : ''
-                      }`}>
-                        {getIcon(item)}
-                      </span>
-                      {editingItem?.id === item.id ? (
-                        <form onSubmit={handleRename}>
-                          <input
-                            type="text"
-                            value={editingName}
-                            onChange={(e) => setEditingName(e.target.value)}
-                            onBlur={handleRename}
-                            className="p-1 border border-brand-border rounded-md focus:ring-brand-primary focus:border-brand-primary w-full min-w-0 text-xs sm:text-sm"
-                            autoFocus
-                          />
-                        </form>
-                      ) : (
-                        <>
-                          <h4 className={`text-xs sm:text-sm font-medium text-brand-text truncate min-w-0 transition-colors duration-200 ${
-                            dragOverTarget === item.id && item.type === 'folder' ? 'text-brand-primary font-semibold' : ''
-                          }`} title={item.name}>
-                            {item.name}
-                            {item.type === 'file' && item.fileExtension && !item.name.toLowerCase().endsWith('.' + item.fileExtension.toLowerCase()) && `.${item.fileExtension}`}
-                          </h4>
-                        </>
-                      )}
-                    </div>
-                  </td>
-                  <td className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-right">
-                    {item.type === 'file' ? formatFileSize(item.fileSize) : ''}
-                  </td>
-                  <td className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-xs sm:text-sm text-brand-text-secondary whitespace-nowrap">{formatDate(item.uploadDate)}</td>
-                  <td className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-right">
-                    <div className="flex flex-row items-center justify-end gap-1 sm:gap-2">
-                      <button onClick={() => startEditing(item)} className="p-1 text-brand-text-secondary hover:text-brand-primary rounded-full">
-                        <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L16.732 3.732z" /></svg>
-                      </button>
-                      <button
-                        onClick={() => handleShare(item)}
-                        className="p-1 text-pink-500 hover:bg-pink-500 hover:text-white bg-transparent rounded-full transition-colors"
-                        title="다운로드 링크 복사"
-                      >
-                        <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.367 2.684 3 3 0 00-5.367-2.684z" /></svg>
-                      </button>
-                      {item.type === 'file' && (
-                        <button
-                          onClick={() => handleDownload(item)}
-                          disabled={downloadLoading}
-                          className="p-1 text-brand-text-secondary hover:text-brand-primary rounded-full disabled:opacity-50"
-                          title={item.rootHash ? `Download using root hash: ${item.rootHash}` : 'No root hash available'}
-                        >
-                          <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-                        </button>
-                      )}
-                      <button onClick={() => handleDelete(item)} disabled={deletingItemId === item.id} className="p-1 text-brand-text-secondary hover:text-red-500 rounded-full disabled:opacity-50">
-                        <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        )}
-      </div>
+                  {SORT_OPTIONS.map(option => (
+                    <option key={option.key} value={option.key}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setSort({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+                  className="w-7 h-7 flex items-center justify-center rounded-md border border-brand-border hover:bg-brand-background"
+                  aria-label={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+                  title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+                >
+                  {sort.direction === 'asc' ? '↑' : '↓'}
+                </button>
+              </div>
+          </div>
 
-      {draggedItem && currentFolderId !== null && (
-        <div
-          onDragOver={handleDragOverHome}
-          onDragLeave={handleDragLeaveHome}
-          onDrop={handleDropOnHome}
-          className={`
-            p-4 text-center border-t-2 border-dashed transition-colors
-            ${dragOverHome ? 'border-brand-primary bg-brand-secondary-light' : 'border-transparent'}
-          `}
-        >
-          <div className="flex flex-col items-center justify-center text-brand-text-secondary">
-            <span className="text-3xl mb-1">🏠</span>
-            <p className="text-sm font-medium">Move to Home</p>
+          {isCreatingFolder && (
+            <div className="p-4 bg-brand-background border-b border-brand-border">
+              <form onSubmit={handleCreateFolder} className="flex flex-col sm:flex-row items-stretch gap-2">
+                <span className="text-2xl sm:mr-3">📁</span>
+                <input
+                  type="text"
+                  value={newFolderName}
+                  onChange={(e) => setNewFolderName(e.target.value)}
+                  onBlur={cancelCreateFolder}
+                  placeholder="Folder Name"
+                  className="flex-1 p-2 border border-brand-border rounded-md focus:ring-brand-primary focus:border-brand-primary min-w-0"
+                  autoFocus
+                />
+                <button type="submit" className="px-4 py-2 bg-brand-primary text-white rounded-md text-sm font-semibold w-full sm:w-auto">Create</button>
+                <button type="button" onClick={cancelCreateFolder} className="px-4 py-2 bg-brand-surface text-brand-text-secondary border border-brand-border rounded-md text-sm w-full sm:w-auto">Cancel</button>
+              </form>
+            </div>
+          )}
+      
+          <div ref={containerRef} onScroll={onScroll} className="min-h-[200px] max-h-[70vh] overflow-y-auto">
+            {loading ? renderLoading() : error ? renderError() : items.length === 0 && !isCreatingFolder ? renderEmptyState() : (
+              <table className="w-full font-sans">
+                <colgroup>
+                  <col style={{ width: '50%' }} />
+                  <col style={{ width: '15%' }} />
+                  <col style={{ width: '15%' }} />
+                  <col style={{ width: '20%' }} />
+                </colgroup>
+                <thead className="sticky top-0 z-10 bg-brand-background text-[0.7rem] font-sans">
+                  <tr>
+                    <th className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-left font-medium text-brand-text-secondary uppercase tracking-wider text-[0.7rem] font-sans">Name</th>
+                    <th className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-right font-medium text-brand-text-secondary uppercase tracking-wider text-[0.7rem] font-sans">Size</th>
+                    <th className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-left font-medium text-brand-text-secondary uppercase tracking-wider text-[0.7rem] font-sans">Date</th>
+                    <th className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-right font-medium text-brand-text-secondary uppercase tracking-wider text-[0.7rem] font-sans">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-brand-border text-[0.7rem] font-sans">
+                  {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+                  {items.slice(start, end).map(item => (
+                    <tr
+                      key={item.id}
+                      style={{ height: ROW_HEIGHT }}
+                      draggable={item.type === 'file' && can(item, 'edit')}
+                      onDragStart={(e) => handleDragStart(e, item)}
+                      onDragOver={(e) => handleDragOver(e, item)}
+                      onDragLeave={handleDragLeave}
+                      onDrop={(e) => handleDrop(e, item)}
+                      onDragEnd={handleDragEnd}
+                      className={`
+                        transition-colors duration-200
+                        ${item.type === 'file' ? 'cursor-grab active:cursor-grabbing' : ''} 
+                        hover:bg-brand-background 
+                        ${dragOverTarget === item.id ? 'bg-brand-secondary-light border-2 border-brand-primary' : ''}
+                        ${draggedItem?.id === item.id ? 'opacity-50' : ''}
+                      `}
+                      onDoubleClick={() => handleOpen(item)}
+                    >
+                      <td className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 min-w-0 max-w-0">
+                        <div className="flex items-center min-w-0">
+                          <span className={`text-xl sm:text-2xl mr-1 sm:mr-2 md:mr-3 shrink-0 transition-all duration-200 ${
+                            dragOverTarget === item.id && item.type === 'folder' ? 'scale-110 text-brand-primary' : ''
+                          }`}>
+                            {getIcon(item)}
+                          </span>
+                          {item.shortcutTo && (
+                            <span className="mr-1 shrink-0 text-brand-text-secondary" title="Shortcut to an item shared with you">↗</span>
+                          )}
+                          {editingItem?.id === item.id ? (
+                            <form onSubmit={handleRename}>
+                              <input
+                                type="text"
+                                value={editingName}
+                                onChange={(e) => setEditingName(e.target.value)}
+                                onBlur={handleRename}
+                                className="p-1 border border-brand-border rounded-md focus:ring-brand-primary focus:border-brand-primary w-full min-w-0 text-xs sm:text-sm"
+                                autoFocus
+                              />
+                            </form>
+                          ) : (
+                            <>
+                              <h4 className={`text-xs sm:text-sm font-medium text-brand-text truncate min-w-0 transition-colors duration-200 ${
+                                dragOverTarget === item.id && item.type === 'folder' ? 'text-brand-primary font-semibold' : ''
+                              }`} title={item.name}>
+                                {item.name}
+                                {item.type === 'file' && item.fileExtension && !item.name.toLowerCase().endsWith('.' + item.fileExtension.toLowerCase()) && `.${item.fileExtension}`}
+                              </h4>
+                              {item.tags?.slice(0, 3).map(tag => (
+                                <button
+                                  key={tag}
+                                  onClick={() => showTag(tag)}
+                                  className="ml-1 shrink-0 px-1.5 rounded-full bg-brand-secondary-light text-brand-text-secondary hover:text-brand-primary"
+                                  title={`Show items tagged #${tag}`}
+                                >
+                                  #{tag}
+                                </button>
+                              ))}
+                              {(item.tags?.length ?? 0) > 3 && (
+                                <span className="ml-1 shrink-0 text-brand-text-secondary">+{item.tags!.length - 3}</span>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-right">
+                        {item.type === 'file' ? formatFileSize(item.fileSize) : ''}
+                      </td>
+                      <td className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-xs sm:text-sm text-brand-text-secondary whitespace-nowrap">{formatDate(item.uploadDate)}</td>
+                      <td className="px-1 sm:px-2 md:px-3 lg:px-4 py-3 text-right">
+                        <div className="flex flex-row items-center justify-end gap-1 sm:gap-2">
+                          {can(item, 'edit') && (
+                            <button
+                              onClick={() => handleToggleStar(item)}
+                              className={`p-1 rounded-full text-xs sm:text-sm leading-none ${item.starred ? 'text-yellow-500' : 'text-brand-text-secondary hover:text-yellow-500'}`}
+                              title={item.starred ? 'Remove star' : 'Star'}
+                            >
+                              {item.starred ? '★' : '☆'}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setDetailsItemId(item.id)}
+                            className="p-1 text-brand-text-secondary hover:text-brand-primary rounded-full"
+                            title="Details (tags, description, properties)"
+                          >
+                            <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                          </button>
+                          {can(item, 'edit') && (
+                            <button onClick={() => startEditing(item)} className="p-1 text-brand-text-secondary hover:text-brand-primary rounded-full">
+                              <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L16.732 3.732z" /></svg>
+                            </button>
+                          )}
+                          {can(item, 'manage') && !item.shortcutTo && (
+                            <button
+                              onClick={() => handleShare(item)}
+                              className="p-1 text-pink-500 hover:bg-pink-500 hover:text-white bg-transparent rounded-full transition-colors"
+                              title="공유"
+                            >
+                              <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.367 2.684 3 3 0 00-5.367-2.684z" /></svg>
+                            </button>
+                          )}
+                          {item.shortcutTo ? null : item.type === 'file' ? (
+                            <button
+                              onClick={() => setDetailsItemId(item.id)}
+                              className="p-1 text-brand-text-secondary hover:text-brand-primary rounded-full"
+                              title={`Version history${item.versions?.length ? ` (${item.versions.length} previous)` : ''}`}
+                            >
+                              <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                            </button>
+                          ) : can(item, 'manage') && (
+                            <button
+                              onClick={() => handleSetMaxVersions(item)}
+                              className="p-1 text-brand-text-secondary hover:text-brand-primary rounded-full"
+                              title={`Versions kept per file${item.maxVersions !== undefined ? `: ${item.maxVersions}` : ''}`}
+                            >
+                              <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>
+                            </button>
+                          )}
+                          {!item.shortcutTo && (
+                            <button
+                              onClick={() => handleToggleOffline(item)}
+                              disabled={!!offlineFolder}
+                              className={`p-1 rounded-full disabled:cursor-default ${
+                                offlineFolder || offline.offlineIds.has(item.id) ? 'text-green-600' : 'text-brand-text-secondary hover:text-brand-primary'
+                              } ${offlineFolder ? 'opacity-60' : ''}`}
+                              title={
+                                offlineFolder ? `Available offline with "${offlineFolder.name}"`
+                                  : offline.offlineIds.has(item.id) ? 'Available offline (click to stop keeping it on this device)'
+                                  : `Make available offline${item.type === 'folder' ? ' (all files in this folder)' : ''}`
+                              }
+                            >
+                              <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" /></svg>
+                            </button>
+                          )}
+                          {item.type === 'file' && (
+                            <button
+                              onClick={() => (item.shortcutTo ? openShortcut(item) : handleDownload(item))}
+                              disabled={downloadLoading}
+                              className="p-1 text-brand-text-secondary hover:text-brand-primary rounded-full disabled:opacity-50"
+                              title={item.shortcutTo ? 'Download the shared file' : item.rootHash ? `Download using root hash: ${item.rootHash}${offline.isCached(item) ? ' (saved on this device)' : ''}` : 'No root hash available'}
+                            >
+                              <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                            </button>
+                          )}
+                          {can(item, 'manage') && (
+                            <button onClick={() => handleDelete(item)} disabled={deletingItemId === item.id} className="p-1 text-brand-text-secondary hover:text-red-500 rounded-full disabled:opacity-50">
+                              <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+                  {loadingMore && (
+                    <tr>
+                      <td colSpan={4} className="p-3 text-center text-brand-text-secondary">Loading more...</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
           </div>
-        </div>
-      )}
 
-      {copyMessage && (
-        <div className="p-2 text-center text-green-700 bg-green-50 border border-green-200 rounded mb-2 text-sm">
-          {copyMessage}
-        </div>
+          {draggedItem && currentFolderId !== null && (
+            <div
+              onDragOver={handleDragOverHome}
+              onDragLeave={handleDragLeaveHome}
+              onDrop={handleDropOnHome}
+              className={`
+                p-4 text-center border-t-2 border-dashed transition-colors
+                ${dragOverHome ? 'border-brand-primary bg-brand-secondary-light' : 'border-transparent'}
+              `}
+            >
+              <div className="flex flex-col items-center justify-center text-brand-text-secondary">
+                <span className="text-3xl mb-1">🏠</span>
+                <p className="text-sm font-medium">Move to Home</p>
+              </div>
+            </div>
+          )}
+
+          {detailsItem && (
+            <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" onClick={() => setDetailsItemId(null)}>
+              <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <FileInfo
+                  fileInfo={{ name: detailsItem.name, size: detailsItem.fileSize ?? 0 }}
+                  existingFile={detailsItem}
+                  editMetadata={can(detailsItem, 'edit') || (can(detailsItem, 'comment') && 'comment')}
+                  onClear={() => setDetailsItemId(null)}
+                />
+              </div>
+            </div>
+          )}
+
+          {selectedItem && (
+            <ShareModal
+              isOpen={shareModalOpen}
+              onClose={() => {
+                setShareModalOpen(false);
+                setSelectedItem(null);
+              }}
+              itemId={selectedItem.id}
+              itemName={selectedItem.name}
+              sharedWith={selectedItem.sharedWith}
+              shareRoles={selectedItem.shareRoles}
+              onShareUpdate={() => refresh(currentFolderId)}
+              file={selectedItem}
+            />
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { useFileListContext } from '@/context/FileListContext';
+import type { FileMeta } from '@/utils/indexeddb';
+import { MAX_TAGS, normalizeTag, parseMetadataUpdate } from '@/utils/metadata';
+
+interface MetadataEditorProps {
+  item: FileMeta;
+  commentOnly?: boolean; // commenter 역할: 태그와 설명만 편집
+}
+
+interface PropertyRow {
+  key: string;
+  value: string;
+}
+
+const toRows = (properties?: Record<string, string>): PropertyRow[] =>
+  Object.entries(properties ?? {}).map(([key, value]) => ({ key, value }));
+
+const inputClass = 'p-1 border border-brand-border rounded-md bg-brand-surface text-brand-text focus:ring-brand-primary focus:border-brand-primary min-w-0';
+
+/**
+ * Editor for an item's tags, starred flag, description and custom key/value properties
+ * (render with key={item.id} so switching items starts from that item's values)
+ */
+export function MetadataEditor({ item, commentOnly }: MetadataEditorProps) {
+  const { updateMetadata } = useFileListContext();
+  const [tags, setTags] = useState<string[]>(item.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+  const [description, setDescription] = useState(item.description ?? '');
+  const [rows, setRows] = useState<PropertyRow[]>(toRows(item.properties));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string, isError: boolean } | null>(null);
+
+  const addTag = () => {
+    const tag = normalizeTag(tagInput);
+    if (tag && !tags.includes(tag)) {
+      setTags([...tags, tag]);
+    }
+    setTagInput('');
+  };
+
+  const handleToggleStar = async () => {
+    try {
+      await updateMetadata(item.id, { starred: !item.starred });
+    } catch (err) {
+      alert(`Failed to update star: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleSave = async () => {
+    // 지운 속성은 null로 보내 삭제
+    const properties: Record<string, string | null> = {};
+    for (const key of Object.keys(item.properties ?? {})) {
+      properties[key] = null;
+    }
+    for (const row of rows) {
+      if (row.key.trim()) {
+        properties[row.key.trim()] = row.value;
+      }
+    }
+
+    const [update, error] = parseMetadataUpdate(
+      commentOnly ? { tags, description: description || null } : { tags, description: description || null, properties }
+    );
+    if (!update) {
+      setMessage({ text: error?.message ?? 'Invalid metadata', isError: true });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateMetadata(item.id, update);
+      setMessage({ text: 'Saved', isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), isError: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-brand-border space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-brand-text">Details</p>
+        {!commentOnly && (
+          <button
+            onClick={handleToggleStar}
+            className={`px-2 py-1 rounded-md border border-brand-border hover:bg-brand-surface ${item.starred ? 'text-yellow-500' : 'text-brand-text-secondary'}`}
+          >
+            {item.starred ? '★ Starred' : '☆ Star'}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <p className="text-brand-text-secondary mb-1">Tags</p>
+        <div className="flex flex-wrap items-center gap-1">
+          {tags.map(tag => (
+            <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded-full bg-brand-secondary-light text-brand-text">
+              #{tag}
+              <button onClick={() => setTags(tags.filter(t => t !== tag))} className="ml-1 hover:text-red-500" aria-label={`Remove tag ${tag}`}>×</button>
+            </span>
+          ))}
+          {tags.length < MAX_TAGS && (
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  addTag();
+                }
+              }}
+              onBlur={addTag}
+              placeholder="Add tag"
+              className={`${inputClass} w-24`}
+            />
+          )}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-brand-text-secondary mb-1">Description</p>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          className={`${inputClass} w-full`}
+        />
+      </div>
+
+      {!commentOnly && <div>
+        <div className="flex items-center justify-between mb-1">
+          <p className="text-brand-text-secondary">Properties</p>
+          <button onClick={() => setRows([...rows, { key: '', value: '' }])} className="text-brand-primary hover:underline">
+            + Add property
+          </button>
+        </div>
+        {rows.length === 0 && <p className="text-brand-text-secondary">No properties.</p>}
+        {rows.map((row, index) => (
+          <div key={index} className="flex items-center gap-1 mb-1">
+            <input
+              type="text"
+              value={row.key}
+              onChange={(e) => setRows(rows.map((r, i) => (i === index ? { ...r, key: e.target.value } : r)))}
+              placeholder="Key"
+              className={`${inputClass} w-1/3`}
+            />
+            <input
+              type="text"
+              value={row.value}
+              onChange={(e) => setRows(rows.map((r, i) => (i === index ? { ...r, value: e.target.value } : r)))}
+              placeholder="Value"
+              className={`${inputClass} flex-1`}
+            />
+            <button onClick={() => setRows(rows.filter((_, i) => i !== index))} className="px-1 text-brand-text-secondary hover:text-red-500" aria-label="Remove property">×</button>
+          </div>
+        ))}
+      </div>}
+
+      <div className="flex items-center justify-end gap-2">
+        {message && <span className={message.isError ? 'text-red-500' : 'text-green-600'}>{message.text}</span>}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1 rounded-md text-white bg-brand-primary hover:bg-brand-primary-dark disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
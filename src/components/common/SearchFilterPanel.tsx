@@ -0,0 +1,149 @@
+import React from 'react';
+import { SearchFilters, parseSearchParams } from '@/utils/search';
+
+// 입력 폼 값 (모두 문자열, 빈 문자열은 필터 없음)
+export interface SearchForm {
+  type: string;
+  extension: string;
+  minSizeMb: string;
+  maxSizeMb: string;
+  uploadedAfter: string; // YYYY-MM-DD
+  uploadedBefore: string; // YYYY-MM-DD
+  networkType: string;
+  rootHash: string;
+  status: string;
+  tag: string;
+  starred: string; // '' 또는 'true'
+}
+
+export const EMPTY_SEARCH_FORM: SearchForm = {
+  type: '', extension: '', minSizeMb: '', maxSizeMb: '',
+  uploadedAfter: '', uploadedBefore: '', networkType: '', rootHash: '', status: '', tag: '', starred: ''
+};
+
+const MB = 1024 * 1024;
+
+const toBytes = (mb: string) => (mb.trim() !== '' && Number.isFinite(Number(mb)) ? String(Number(mb) * MB) : mb);
+
+/**
+ * Turns the search box and the filter form into search filters, validated like the search API's query parameters
+ * @param query The text in the search box
+ * @param form The filter form
+ * @returns The filters, or an error describing the first invalid field
+ */
+export function buildSearchFilters(query: string, form: SearchForm): [SearchFilters | null, Error | null] {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string) => {
+    if (value.trim() !== '') params.set(key, value);
+  };
+
+  set('q', query);
+  set('type', form.type);
+  set('extension', form.extension);
+  set('minSize', toBytes(form.minSizeMb));
+  set('maxSize', toBytes(form.maxSizeMb));
+  // 날짜는 로컬 시간 기준 하루 전체를 포함
+  set('uploadedAfter', form.uploadedAfter && `${form.uploadedAfter}T00:00:00`);
+  set('uploadedBefore', form.uploadedBefore && `${form.uploadedBefore}T23:59:59.999`);
+  set('networkType', form.networkType);
+  set('rootHash', form.rootHash);
+  set('status', form.status);
+  set('tag', form.tag);
+  set('starred', form.starred);
+
+  return parseSearchParams(params);
+}
+
+interface SearchFilterPanelProps {
+  form: SearchForm;
+  onChange: (form: SearchForm) => void;
+  error?: string | null;
+}
+
+const inputClass = 'p-1.5 border border-brand-border rounded-md text-xs bg-brand-surface text-brand-text focus:ring-brand-primary focus:border-brand-primary min-w-0';
+
+/**
+ * Advanced search filters shown under the FileList header
+ */
+export function SearchFilterPanel({ form, onChange, error }: SearchFilterPanelProps) {
+  const update = (field: keyof SearchForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => onChange({ ...form, [field]: e.target.value });
+
+  return (
+    <div className="p-4 bg-brand-background border-b border-brand-border text-xs text-brand-text-secondary">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <label className="flex flex-col gap-1">
+          Type
+          <select value={form.type} onChange={update('type')} className={inputClass}>
+            <option value="">Any</option>
+            <option value="file">Files</option>
+            <option value="folder">Folders</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Extension
+          <input type="text" value={form.extension} onChange={update('extension')} placeholder="pdf" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Min size (MB)
+          <input type="number" min="0" step="any" value={form.minSizeMb} onChange={update('minSizeMb')} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Max size (MB)
+          <input type="number" min="0" step="any" value={form.maxSizeMb} onChange={update('maxSizeMb')} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Uploaded from
+          <input type="date" value={form.uploadedAfter} onChange={update('uploadedAfter')} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Uploaded to
+          <input type="date" value={form.uploadedBefore} onChange={update('uploadedBefore')} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Network
+          <select value={form.networkType} onChange={update('networkType')} className={inputClass}>
+            <option value="">Any</option>
+            <option value="standard">Standard</option>
+            <option value="turbo">Turbo</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Sharing
+          <select value={form.status} onChange={update('status')} className={inputClass}>
+            <option value="">Any</option>
+            <option value="owned">Owned by me</option>
+            <option value="shared-by-me">Shared by me</option>
+            <option value="shared-with-me">Shared with me</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Tag
+          <input type="text" value={form.tag} onChange={update('tag')} placeholder="tag" className={inputClass} />
+        </label>
+        <label className="flex items-end gap-1 pb-1.5">
+          <input
+            type="checkbox"
+            checked={form.starred === 'true'}
+            onChange={(e) => onChange({ ...form, starred: e.target.checked ? 'true' : '' })}
+          />
+          Starred only
+        </label>
+        <label className="flex flex-col gap-1 col-span-2 sm:col-span-1">
+          Root hash prefix
+          <input type="text" value={form.rootHash} onChange={update('rootHash')} placeholder="0x..." className={`${inputClass} font-mono`} />
+        </label>
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_SEARCH_FORM)}
+            className="w-full px-3 py-1.5 border border-brand-border rounded-md bg-brand-surface hover:bg-brand-background"
+          >
+            Clear filters
+          </button>
+        </div>
+      </div>
+      {error && <p className="mt-2 text-red-500">{error}</p>}
+    </div>
+  );
+}
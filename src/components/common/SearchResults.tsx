@@ -0,0 +1,74 @@
+import React from 'react';
+import { useSearch } from '@/hooks/useSearch';
+import { useFileList } from '@/hooks/useFileList';
+import type { FileSearchResult } from '@/utils/indexeddb';
+import type { PathSegment, SearchFilters } from '@/utils/search';
+
+interface SearchResultsProps {
+  filters: SearchFilters;
+  onNavigate: (path: PathSegment[]) => void;
+}
+
+/**
+ * Drive-wide search results, shown in place of the file list.
+ * Each result shows the folders above it as breadcrumbs; clicking a folder in
+ * the path (or a result) opens that folder.
+ */
+export function SearchResults({ filters, onNavigate }: SearchResultsProps) {
+  const { results, total, loading, error } = useSearch(filters);
+  const { formatFileSize, formatDate } = useFileList();
+
+  // 폴더는 그 폴더를 열고, 파일은 파일이 있는 폴더를 염
+  const openResult = (item: FileSearchResult) =>
+    onNavigate(item.type === 'folder' ? [...item.path, { id: item.id, name: item.name }] : item.path);
+
+  const renderPath = (path: PathSegment[]) => (
+    <nav className="flex flex-wrap items-center text-[0.65rem] text-brand-text-secondary">
+      <button onClick={() => onNavigate([])} className="hover:text-brand-primary">Home</button>
+      {path.map((segment, index) => (
+        <React.Fragment key={segment.id}>
+          <span className="mx-1">/</span>
+          <button onClick={() => onNavigate(path.slice(0, index + 1))} className="hover:text-brand-primary">
+            {segment.name}
+          </button>
+        </React.Fragment>
+      ))}
+    </nav>
+  );
+
+  return (
+    <div className="min-h-[200px]">
+      <div className="p-4 border-b border-brand-border text-xs sm:text-sm text-brand-text-secondary">
+        {loading ? 'Searching...' : total > results.length
+          ? `Showing ${results.length} of ${total} results`
+          : `${total} result${total === 1 ? '' : 's'}`}
+      </div>
+
+      {error ? (
+        <div className="p-6 text-center text-red-500">Error: {error}</div>
+      ) : !loading && results.length === 0 ? (
+        <div className="p-6 text-center text-brand-text-secondary">No items match your search.</div>
+      ) : (
+        <ul className="divide-y divide-brand-border text-[0.7rem] font-sans">
+          {results.map(item => (
+            <li key={item.id} className="px-1 sm:px-2 md:px-3 lg:px-4 py-2 flex items-center justify-between gap-2 hover:bg-brand-background">
+              <div className="flex items-center min-w-0">
+                <span className="mr-2 text-lg">{item.type === 'folder' ? '📁' : '📄'}</span>
+                <div className="min-w-0">
+                  <button onClick={() => openResult(item)} className="block truncate text-left text-brand-text hover:text-brand-primary" title={item.name}>
+                    {item.name}
+                  </button>
+                  {renderPath(item.path)}
+                </div>
+              </div>
+              <div className="flex gap-4 shrink-0 text-brand-text-secondary">
+                <span>{item.type === 'file' ? formatFileSize(item.fileSize ?? 0) : '-'}</span>
+                <span>{formatDate(item.uploadDate)}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useShare } from '@/hooks/useShare';
+import type { FileMeta } from '@/utils/indexeddb';
+import { ShareLink, getShareLinkStatus, getShareLinkUrl } from '@/utils/shareLinks';
+import { DEFAULT_SHARE_ROLE, SHARE_ROLES, SHARE_ROLE_LABELS, ShareRole } from '@/utils/permissions';
 
 interface ShareModalProps {
   isOpen: boolean;
@@ -7,35 +10,104 @@ interface ShareModalProps {
   itemId: string;
   itemName: string;
   sharedWith?: string[];
+  shareRoles?: Record<string, ShareRole>; // 공유된 지갑별 역할 (없는 주소는 viewer)
   onShareUpdate: () => void;
-  rootHash?: string; // root hash 추가
+  file?: FileMeta; // 링크로 공유할 파일 (폴더나 암호화된 파일은 링크 공유 불가)
 }
 
-export function ShareModal({ isOpen, onClose, itemId, itemName, sharedWith = [], onShareUpdate, rootHash }: ShareModalProps) {
+const STATUS_LABELS = {
+  active: 'Active',
+  expired: 'Expired',
+  exhausted: 'Limit reached',
+  revoked: 'Revoked',
+} as const;
+
+const formatLinkDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const ROLE_DESCRIPTIONS: Record<ShareRole, string> = {
+  viewer: 'Can view and download',
+  commenter: 'Can also edit tags and description',
+  editor: 'Can also upload, rename and move items',
+};
+
+export function ShareModal({ isOpen, onClose, itemId, itemName, sharedWith = [], shareRoles = {}, onShareUpdate, file }: ShareModalProps) {
   const [walletAddress, setWalletAddress] = useState('');
+  const [role, setRole] = useState<ShareRole>(DEFAULT_SHARE_ROLE);
+  // 공유/해제 응답으로 받은 최신 공유 목록 (처음에는 props 값)
+  const [shares, setShares] = useState({ sharedWith, shareRoles });
   const [error, setError] = useState('');
-  const [copySuccess, setCopySuccess] = useState(false);
-  const { shareFile, unshareFile, loading } = useShare();
-
-  // 공유 URL 생성
-  const generateShareUrl = () => {
-    if (!rootHash) return '';
-    const baseUrl = typeof window !== 'undefined' ? window.location.origin : 'https://0gdrive.xyz';
-    return `${baseUrl}/share/${rootHash}`;
-  };
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiresAt, setExpiresAt] = useState('');
+  const [password, setPassword] = useState('');
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const { shareFile, unshareFile, listShareLinks, createShareLink, revokeShareLink, loading } = useShare();
+
+  const canShareByLink = file?.type === 'file' && !!file.rootHash && !file.encryption;
+  const isFolder = file?.type === 'folder';
+
+  // 모달이 열릴 때 링크 목록과 사용 횟수를 새로 불러옴
+  useEffect(() => {
+    if (!isOpen || !canShareByLink) {
+      setLinks([]);
+      return;
+    }
+    listShareLinks(itemId)
+      .then(setLinks)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load share links'));
+  }, [isOpen, canShareByLink, itemId, listShareLinks]);
 
   // 클립보드에 복사
-  const copyToClipboard = async (text: string) => {
+  const copyToClipboard = async (linkId: string) => {
     try {
-      await navigator.clipboard.writeText(text);
-      setCopySuccess(true);
-      setTimeout(() => setCopySuccess(false), 2000);
+      await navigator.clipboard.writeText(getShareLinkUrl(linkId));
+      setCopiedLinkId(linkId);
+      setTimeout(() => setCopiedLinkId(null), 2000);
     } catch (err) {
       console.error('Failed to copy to clipboard:', err);
       setError('클립보드 복사에 실패했습니다.');
     }
   };
 
+  const handleCreateLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setError('');
+
+    const limit = maxDownloads.trim() ? Number(maxDownloads) : null;
+    if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+      setError('Max downloads must be a positive whole number.');
+      return;
+    }
+
+    try {
+      const link = await createShareLink(file, {
+        // datetime-local 값은 로컬 시간
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        password: password || null,
+        maxDownloads: limit,
+      });
+      setLinks([link, ...links]);
+      setExpiresAt('');
+      setPassword('');
+      setMaxDownloads('');
+      await copyToClipboard(link.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share link');
+    }
+  };
+
+  const handleRevokeLink = async (linkId: string) => {
+    if (!confirm('Revoke this link? Anyone using it will no longer be able to download the file.')) return;
+    try {
+      const revoked = await revokeShareLink(linkId);
+      setLinks(links.map(link => (link.id === linkId ? revoked : link)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke share link');
+    }
+  };
+
   const handleShare = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -51,7 +123,8 @@ export function ShareModal({ isOpen, onClose, itemId, itemName, sharedWith = [],
     }
 
     try {
-      await shareFile(itemId, walletAddress.trim());
+      const { item } = await shareFile(itemId, walletAddress.trim(), role);
+      setShares({ sharedWith: item.sharedWith ?? [], shareRoles: item.shareRoles ?? {} });
       setWalletAddress('');
       onShareUpdate();
     } catch (err) {
@@ -59,24 +132,34 @@ export function ShareModal({ isOpen, onClose, itemId, itemName, sharedWith = [],
     }
   };
 
+  const handleRoleChange = async (targetAddress: string, newRole: ShareRole) => {
+    setError('');
+    try {
+      const { item } = await shareFile(itemId, targetAddress, newRole);
+      setShares({ sharedWith: item.sharedWith ?? [], shareRoles: item.shareRoles ?? {} });
+      onShareUpdate();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '역할 변경에 실패했습니다.');
+    }
+  };
+
   const handleUnshare = async (targetAddress: string) => {
     try {
-      await unshareFile(itemId, targetAddress);
+      const { item } = await unshareFile(itemId, targetAddress);
+      setShares({ sharedWith: item?.sharedWith ?? [], shareRoles: item?.shareRoles ?? {} });
       onShareUpdate();
     } catch (err) {
       setError(err instanceof Error ? err.message : '공유 해제에 실패했습니다.');
     }
   };
 
-  const shareUrl = generateShareUrl();
-
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-lg font-semibold text-gray-900">Share File</h2>
+          <h2 className="text-lg font-semibold text-gray-900">{isFolder ? 'Share Folder' : 'Share File'}</h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-600"
@@ -88,33 +171,98 @@ export function ShareModal({ isOpen, onClose, itemId, itemName, sharedWith = [],
         </div>
 
         <div className="mb-4">
-          <p className="text-sm text-gray-600 mb-2">File: {itemName}</p>
+          <p className="text-sm text-gray-600 mb-2">{isFolder ? 'Folder' : 'File'}: {itemName}</p>
         </div>
 
-        {/* 공유 URL 섹션 */}
-        {rootHash && (
+        {/* 공유 링크 섹션 */}
+        {canShareByLink && (
           <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-            <h3 className="text-sm font-medium text-blue-900 mb-2">Public Share Link</h3>
-            <div className="flex items-center space-x-2">
-              <input
-                type="text"
-                value={shareUrl}
-                readOnly
-                className="flex-1 px-3 py-2 text-sm border border-blue-300 rounded-md bg-white text-blue-900"
-              />
+            <h3 className="text-sm font-medium text-blue-900 mb-2">Share Links</h3>
+            <form onSubmit={handleCreateLink} className="grid grid-cols-2 gap-2 text-xs text-blue-900">
+              <label className="flex flex-col gap-1 col-span-2">
+                Expires (optional)
+                <input
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  className="px-2 py-1 border border-blue-300 rounded-md bg-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Password (optional)
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                  className="px-2 py-1 border border-blue-300 rounded-md bg-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Max downloads (optional)
+                <input
+                  type="number"
+                  min="1"
+                  value={maxDownloads}
+                  onChange={(e) => setMaxDownloads(e.target.value)}
+                  className="px-2 py-1 border border-blue-300 rounded-md bg-white"
+                />
+              </label>
               <button
-                onClick={() => copyToClipboard(shareUrl)}
-                className="px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors"
+                type="submit"
+                disabled={loading}
+                className="col-span-2 px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors disabled:opacity-50"
               >
-                {copySuccess ? 'Copied!' : 'Copy'}
+                Create link
               </button>
-            </div>
+            </form>
+
+            {links.length > 0 && (
+              <ul className="mt-3 space-y-2 max-h-48 overflow-y-auto">
+                {links.map(link => {
+                  const status = getShareLinkStatus(link);
+                  return (
+                    <li key={link.id} className="p-2 bg-white border border-blue-200 rounded text-xs">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-mono text-blue-900 truncate" title={getShareLinkUrl(link.id)}>
+                          {link.hasPassword && <span className="mr-1" title="Password protected">🔒</span>}
+                          /share/{link.id}
+                        </span>
+                        <span className={`shrink-0 px-1.5 rounded ${status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                          {STATUS_LABELS[status]}
+                        </span>
+                      </div>
+                      <div className="mt-1 flex items-center justify-between gap-2 text-gray-600">
+                        <span>
+                          Used {link.downloadCount}{link.maxDownloads !== null ? ` / ${link.maxDownloads}` : ''} time{link.downloadCount === 1 && link.maxDownloads === null ? '' : 's'}
+                          {link.expiresAt && ` · ${status === 'expired' ? 'Expired' : 'Expires'} ${formatLinkDate(link.expiresAt)}`}
+                        </span>
+                        {status === 'active' && (
+                          <span className="shrink-0 flex gap-2">
+                            <button onClick={() => copyToClipboard(link.id)} className="text-blue-600 hover:text-blue-800">
+                              {copiedLinkId === link.id ? 'Copied!' : 'Copy'}
+                            </button>
+                            <button onClick={() => handleRevokeLink(link.id)} disabled={loading} className="text-red-600 hover:text-red-800 disabled:opacity-50">
+                              Revoke
+                            </button>
+                          </span>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
             <p className="text-xs text-blue-700 mt-2">
-              Anyone with this link can download the file directly.
+              Anyone with an active link (and its password, if set) can download the file.
             </p>
           </div>
         )}
 
+        {file?.encryption && (
+          <p className="mb-4 text-xs text-gray-500">Encrypted files cannot be shared by link: only your wallet can decrypt them.</p>
+        )}
+
         <form onSubmit={handleShare} className="mb-6">
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -128,6 +276,23 @@ export function ShareModal({ isOpen, onClose, itemId, itemName, sharedWith = [],
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500"
               disabled={loading}
             />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as ShareRole)}
+              className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+              disabled={loading}
+            >
+              {SHARE_ROLES.map(shareRole => (
+                <option key={shareRole} value={shareRole}>
+                  {SHARE_ROLE_LABELS[shareRole]} - {ROLE_DESCRIPTIONS[shareRole]}
+                </option>
+              ))}
+            </select>
+            {isFolder && (
+              <p className="text-xs text-gray-500 mt-1">
+                Everything inside this folder is shared too, including items added later. Removing a wallet revokes access to the whole folder.
+              </p>
+            )}
           </div>
           
           {error && (
@@ -145,15 +310,25 @@ export function ShareModal({ isOpen, onClose, itemId, itemName, sharedWith = [],
           </button>
         </form>
 
-        {sharedWith.length > 0 && (
+        {shares.sharedWith.length > 0 && (
           <div>
             <h3 className="text-sm font-medium text-gray-700 mb-2">Shared Wallets</h3>
             <div className="space-y-2">
-              {sharedWith.map((address, index) => (
-                <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+              {shares.sharedWith.map((address, index) => (
+                <div key={index} className="flex items-center justify-between gap-2 p-2 bg-gray-50 rounded">
                   <span className="text-sm text-gray-600 font-mono">
                     {address.slice(0, 6)}...{address.slice(-4)}
                   </span>
+                  <select
+                    value={shares.shareRoles[address] ?? DEFAULT_SHARE_ROLE}
+                    onChange={(e) => handleRoleChange(address, e.target.value as ShareRole)}
+                    disabled={loading}
+                    className="ml-auto px-1 py-0.5 border border-gray-300 rounded text-xs disabled:opacity-50"
+                  >
+                    {SHARE_ROLES.map(shareRole => (
+                      <option key={shareRole} value={shareRole}>{SHARE_ROLE_LABELS[shareRole]}</option>
+                    ))}
+                  </select>
                   <button
                     onClick={() => handleUnshare(address)}
                     disabled={loading}
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { useSharedItems } from '@/hooks/useSharedItems';
+import { useFileList, Item, Breadcrumb } from '@/hooks/useFileList';
+import { useShare } from '@/hooks/useShare';
+import { useDownload } from '@/hooks/useDownload';
+import { useWallet } from '@/hooks/useWallet';
+import { SHARE_ROLE_LABELS } from '@/utils/permissions';
+
+interface SharedWithMeViewProps {
+  onClose: () => void;
+  initialFolder?: Breadcrumb | null; // 바로가기로 연 공유 폴더
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Items other wallets shared with the connected wallet, grouped by sharer and shown in place of the file list.
+ * Shared folders can be browsed, files downloaded, and any item added to the current folder as a shortcut.
+ */
+export function SharedWithMeView({ onClose, initialFolder }: SharedWithMeViewProps) {
+  const [path, setPath] = useState<Breadcrumb[]>(initialFolder ? [initialFolder] : []);
+  const folderId = path.length > 0 ? path[path.length - 1].id : null;
+  const { groups, items, hasMore, loading, error, loadMore } = useSharedItems(folderId);
+  const { formatFileSize, formatDate, currentFolderId, breadcrumbs, addFile } = useFileList();
+  const { addShortcut } = useShare();
+  const { address } = useWallet();
+  const { downloadFile, loading: downloadLoading } = useDownload();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const currentFolderName = breadcrumbs[breadcrumbs.length - 1]?.name ?? 'Home';
+
+  const handleOpen = (item: Item) => {
+    setPath([...path, { id: item.id, name: item.name }]);
+  };
+
+  const handleDownload = async (item: Item) => {
+    if (!item.rootHash) return;
+    try {
+      const fileName = `${item.name}.${item.fileExtension}`;
+      await downloadFile(item.rootHash, fileName, true, item.encryption);
+    } catch (err) {
+      alert(`Failed to download file: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleAddShortcut = async (item: Item) => {
+    setBusyId(item.id);
+    const [shortcut, shortcutError] = await addShortcut(item.id, currentFolderId);
+    if (shortcut && address) {
+      // 바로가기도 내 드라이브의 아이템이므로 IndexedDB에 저장 (IndexedDB는 연결된 주소 그대로 조회)
+      await addFile({ ...shortcut, walletAddress: address });
+      setMessage(`Added a shortcut to "${item.name}" in ${currentFolderName}`);
+      setTimeout(() => setMessage(''), 3000);
+    } else {
+      alert(`Failed to add shortcut: ${shortcutError?.message}`);
+    }
+    setBusyId(null);
+  };
+
+  const renderItem = (item: Item) => (
+    <li key={item.id} className="px-2 py-3 flex items-center justify-between gap-3">
+      <div
+        className={`flex items-center min-w-0 ${item.type === 'folder' ? 'cursor-pointer' : ''}`}
+        onDoubleClick={() => item.type === 'folder' && handleOpen(item)}
+      >
+        <span className="text-xl mr-2 shrink-0">{item.type === 'folder' ? '📁' : '📄'}</span>
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-brand-text truncate" title={item.name}>
+            {item.name}
+            {item.type === 'file' && item.fileExtension && !item.name.toLowerCase().endsWith('.' + item.fileExtension.toLowerCase()) && `.${item.fileExtension}`}
+          </p>
+          <p className="text-xs text-brand-text-secondary truncate">
+            {item.role && item.role !== 'owner' && `${SHARE_ROLE_LABELS[item.role]} · `}
+            {item.type === 'file' && `${formatFileSize(item.fileSize)} · `}
+            {formatDate(item.uploadDate)}
+          </p>
+        </div>
+      </div>
+      <div className="flex gap-2 shrink-0 text-xs">
+        {item.type === 'folder' ? (
+          <button
+            onClick={() => handleOpen(item)}
+            className="px-2 py-1 rounded-md border border-brand-border text-brand-text-secondary hover:bg-brand-background"
+          >
+            Open
+          </button>
+        ) : (
+          <button
+            onClick={() => handleDownload(item)}
+            disabled={downloadLoading || !item.rootHash}
+            className="px-2 py-1 rounded-md border border-brand-border text-brand-text-secondary hover:bg-brand-background disabled:opacity-50"
+          >
+            Download
+          </button>
+        )}
+        <button
+          onClick={() => handleAddShortcut(item)}
+          disabled={busyId === item.id}
+          className="px-2 py-1 rounded-md text-white bg-brand-primary hover:bg-brand-primary-dark disabled:opacity-50"
+          title={`Add a shortcut to ${currentFolderName}`}
+        >
+          Add to My Drive
+        </button>
+      </div>
+    </li>
+  );
+
+  const isEmpty = folderId === null ? groups.length === 0 : items.length === 0;
+
+  return (
+    <div>
+      <div className="p-4 border-b border-brand-border flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => (path.length > 0 ? setPath(path.slice(0, -1)) : onClose())}
+          className="w-7 h-7 flex items-center justify-center rounded-full border border-brand-border hover:bg-brand-background text-xs"
+          aria-label={path.length > 0 ? 'Back' : 'Back to files'}
+        >
+          {'<'}
+        </button>
+        <nav className="flex items-center text-xs sm:text-sm text-brand-text-secondary gap-1">
+          <button
+            onClick={() => setPath([])}
+            className={`font-semibold ${path.length === 0 ? 'text-brand-text' : 'hover:underline'}`}
+          >
+            Shared with me
+          </button>
+          {path.map((folder, index) => (
+            <React.Fragment key={folder.id ?? index}>
+              <span>/</span>
+              <button
+                onClick={() => setPath(path.slice(0, index + 1))}
+                className={index === path.length - 1 ? 'text-brand-text font-semibold' : 'hover:underline'}
+              >
+                {folder.name}
+              </button>
+            </React.Fragment>
+          ))}
+        </nav>
+      </div>
+
+      {message && (
+        <div className="p-2 text-center text-green-700 bg-green-50 border-b border-green-200 text-sm">{message}</div>
+      )}
+
+      <div className="min-h-[200px]">
+        {loading && isEmpty ? (
+          <div className="p-6 text-center text-brand-text-secondary">Loading...</div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-500">Error: {error}</div>
+        ) : isEmpty ? (
+          <div className="p-6 text-center text-brand-text-secondary">
+            {folderId === null ? 'Nothing has been shared with you yet.' : 'This folder is empty.'}
+          </div>
+        ) : folderId === null ? (
+          groups.map(group => (
+            <div key={group.sharedBy}>
+              <h3 className="px-2 pt-3 text-xs font-semibold text-brand-text-secondary" title={group.sharedBy}>
+                From {shortAddress(group.sharedBy)}
+              </h3>
+              <ul className="divide-y divide-brand-border">{group.items.map(renderItem)}</ul>
+            </div>
+          ))
+        ) : (
+          <>
+            <ul className="divide-y divide-brand-border">{items.map(renderItem)}</ul>
+            {hasMore && (
+              <button
+                onClick={loadMore}
+                disabled={loading}
+                className="w-full p-3 text-center text-xs text-brand-text-secondary hover:bg-brand-background disabled:opacity-50"
+              >
+                {loading ? 'Loading more...' : 'Load more'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useWallet } from '@/hooks/useWallet';
+import { useFileList } from '@/hooks/useFileList';
+import type { SyncState } from '@/utils/sync';
+
+const STATE_LABELS: Record<SyncState, { icon: string, label: string, color: string }> = {
+  idle: { icon: '✓', label: 'Synced', color: 'text-green-600' },
+  pending: { icon: '↻', label: 'Not synced', color: 'text-yellow-600' },
+  syncing: { icon: '↻', label: 'Syncing...', color: 'text-brand-primary' },
+  offline: { icon: '⚠', label: 'Offline', color: 'text-brand-text-secondary' },
+  error: { icon: '⚠', label: 'Sync failed', color: 'text-red-500' },
+};
+
+/**
+ * Header indicator for the server sync: shows the state and the number of unsent changes,
+ * syncs on click (signing in if needed), and lists the conflicts resolved and the changes rejected by the last sync.
+ */
+export function SyncStatus() {
+  const { isConnected } = useWallet();
+  const { sync, formatDate } = useFileList();
+  const { state, pendingCount, lastSyncedAt, conflicts, rejected, error, syncNow, dismissConflicts } = sync;
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  if (!isConnected) return null;
+
+  const { icon, label, color } = STATE_LABELS[state];
+  const title = [
+    error && state === 'error' ? `Error: ${error}` : null,
+    pendingCount > 0 ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync` : null,
+    lastSyncedAt ? `Last synced ${formatDate(lastSyncedAt)}` : 'Not synced yet',
+    state === 'offline' ? 'Changes are kept on this device until you are back online' : 'Click to sync now',
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        onClick={syncNow}
+        disabled={state === 'syncing' || state === 'offline'}
+        title={title}
+        className={`inline-flex items-center px-3 py-1.5 border border-brand-border text-xs font-medium rounded-md bg-brand-surface hover:bg-brand-background disabled:cursor-default ${color}`}
+      >
+        <span className={`mr-1 ${state === 'syncing' ? 'animate-spin' : ''}`}>{icon}</span>
+        {label}
+        {pendingCount > 0 && state !== 'syncing' && ` (${pendingCount})`}
+      </button>
+      {conflicts.length > 0 && (
+        <button
+          onClick={() => setShowConflicts(!showConflicts)}
+          className="ml-1 px-2 py-1.5 text-xs rounded-md border border-yellow-300 bg-yellow-50 text-yellow-700"
+          title="Items changed both here and on the server"
+        >
+          {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+        </button>
+      )}
+      {rejected.length > 0 && (
+        <button
+          onClick={() => setShowConflicts(!showConflicts)}
+          className="ml-1 px-2 py-1.5 text-xs rounded-md border border-red-300 bg-red-50 text-red-600"
+          title="Changes the server did not accept"
+        >
+          {rejected.length} rejected
+        </button>
+      )}
+      {showConflicts && (conflicts.length > 0 || rejected.length > 0) && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-72 p-3 rounded-md border border-brand-border bg-brand-surface shadow-lg text-xs">
+          {conflicts.length > 0 && (
+            <>
+              <p className="mb-2 text-brand-text-secondary">
+                These items were changed both on this device and elsewhere. The most recent change was kept.
+              </p>
+              <ul className="mb-2 max-h-48 overflow-y-auto divide-y divide-brand-border">
+                {conflicts.map(conflict => (
+                  <li key={conflict.id} className="py-1.5 flex justify-between gap-2">
+                    <span className="truncate text-brand-text" title={conflict.name}>{conflict.name}</span>
+                    <span className="shrink-0 text-brand-text-secondary">
+                      {conflict.winner === 'local' ? 'kept this device' : 'kept server'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {rejected.length > 0 && (
+            <>
+              <p className="mb-2 text-brand-text-secondary">
+                The server did not accept these changes. Items on the server were restored to the server&apos;s version.
+              </p>
+              <ul className="mb-2 max-h-48 overflow-y-auto divide-y divide-brand-border">
+                {rejected.map(rejection => (
+                  <li key={rejection.id} className="py-1.5" title={rejection.error}>
+                    <div className="flex justify-between gap-2">
+                      <span className="truncate text-brand-text">{rejection.name}</span>
+                      <span className="shrink-0 text-brand-text-secondary">
+                        {rejection.restored ? 'restored from server' : 'only on this device'}
+                      </span>
+                    </div>
+                    <p className="truncate text-red-500">{rejection.error}</p>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          <button
+            onClick={() => {
+              dismissConflicts();
+              setShowConflicts(false);
+            }}
+            className="w-full px-2 py-1 rounded-md border border-brand-border text-brand-text-secondary hover:bg-brand-background"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { useTrash } from '@/hooks/useTrash';
+import { useFileList } from '@/hooks/useFileList';
+import type { FileMeta } from '@/utils/indexeddb';
+import { TRASH_RETENTION_DAYS } from '@/utils/storage';
+
+interface TrashViewProps {
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 원래 위치 표시 (예: "Home / Photos / 2024")
+const getOriginalLocation = (item: FileMeta) =>
+  ['Home', ...(item.originalPath ?? []).map(location => location.name)].join(' / ');
+
+// 자동 영구 삭제까지 남은 일수
+const getDaysLeft = (item: FileMeta) => {
+  const expiresAt = new Date(item.deletedAt!).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+};
+
+/**
+ * The trash of the connected wallet, shown in place of the file list.
+ * Items can be restored to their original folder or deleted forever.
+ */
+export function TrashView({ onClose }: TrashViewProps) {
+  const { items, loading, error, restore, deleteForever, emptyTrash } = useTrash();
+  const { formatFileSize, formatDate, currentFolderId, refresh } = useFileList();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const handleRestore = async (item: FileMeta) => {
+    setBusyId(item.id);
+    const [restored, restoreErr] = await restore(item.id);
+    setBusyId(null);
+    if (!restored) {
+      alert(`Failed to restore: ${restoreErr?.message}`);
+      return;
+    }
+    // 복원된 아이템이나 다시 만든 폴더가 현재 폴더에 있을 수 있으므로 목록 갱신
+    refresh(currentFolderId);
+    setMessage(restored.name === item.name ? `Restored "${item.name}"` : `Restored "${item.name}" as "${restored.name}"`);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleDeleteForever = async (item: FileMeta) => {
+    if (!confirm(`Delete "${item.name}" forever? This cannot be undone.`)) return;
+    setBusyId(item.id);
+    const [, deleteErr] = await deleteForever(item.id);
+    setBusyId(null);
+    if (deleteErr) {
+      alert(`Failed to delete: ${deleteErr.message}`);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm('Delete everything in the trash forever? This cannot be undone.')) return;
+    const [, emptyErr] = await emptyTrash();
+    if (emptyErr) {
+      alert(`Failed to empty trash: ${emptyErr.message}`);
+    }
+  };
+
+  return (
+    <div>
+      <div className="p-4 border-b border-brand-border flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onClose}
+            className="w-7 h-7 flex items-center justify-center rounded-full border border-brand-border hover:bg-brand-background text-xs"
+            aria-label="Back to files"
+          >
+            {'<'}
+          </button>
+          <h2 className="text-sm font-semibold text-brand-text">Trash</h2>
+          <span className="text-xs text-brand-text-secondary">
+            {TRASH_RETENTION_DAYS > 0
+              ? `Items are deleted forever after ${TRASH_RETENTION_DAYS} days.`
+              : 'Items stay here until you delete them.'}
+          </span>
+        </div>
+        <button
+          onClick={handleEmptyTrash}
+          disabled={items.length === 0}
+          className="px-3 py-1.5 border border-brand-border text-xs font-medium rounded-md text-red-600 bg-brand-surface hover:bg-red-50 disabled:opacity-50"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      {message && (
+        <div className="p-2 text-center text-green-700 bg-green-50 border-b border-green-200 text-sm">{message}</div>
+      )}
+
+      <div className="min-h-[200px]">
+        {loading && items.length === 0 ? (
+          <div className="p-6 text-center text-brand-text-secondary">Loading...</div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-500">Error: {error}</div>
+        ) : items.length === 0 ? (
+          <div className="p-6 text-center text-brand-text-secondary">The trash is empty.</div>
+        ) : (
+          <ul className="divide-y divide-brand-border">
+            {items.map(item => (
+              <li key={item.id} className="px-2 py-3 flex items-center justify-between gap-3">
+                <div className="flex items-center min-w-0">
+                  <span className="text-xl mr-2 shrink-0">{item.type === 'folder' ? '📁' : '📄'}</span>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-brand-text truncate" title={item.name}>
+                      {item.name}
+                      {item.type === 'file' && item.fileExtension && !item.name.toLowerCase().endsWith('.' + item.fileExtension.toLowerCase()) && `.${item.fileExtension}`}
+                    </p>
+                    <p className="text-xs text-brand-text-secondary truncate">
+                      {item.type === 'file' && `${formatFileSize(item.fileSize)} · `}
+                      From {getOriginalLocation(item)} · Deleted {formatDate(item.deletedAt!)}
+                      {TRASH_RETENTION_DAYS > 0 && ` · ${getDaysLeft(item)} day(s) left`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0 text-xs">
+                  <button
+                    onClick={() => handleRestore(item)}
+                    disabled={busyId === item.id}
+                    className="px-2 py-1 rounded-md text-white bg-brand-primary hover:bg-brand-primary-dark disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDeleteForever(item)}
+                    disabled={busyId === item.id}
+                    className="px-2 py-1 rounded-md border border-brand-border text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
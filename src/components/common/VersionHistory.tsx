@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import type { NetworkType } from '@/app/providers';
+import { useDownload } from '@/hooks/useDownload';
+import { useWallet } from '@/hooks/useWallet';
+import { useFileListContext } from '@/context/FileListContext';
+import { FileMeta, FileVersion, getVersionLimit, restoreFileVersion } from '@/utils/indexeddb';
+import { formatFileSize, truncateString } from '@/utils/format';
+
+interface VersionHistoryProps {
+  file: FileMeta;
+}
+
+const formatVersionDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * The version history of a file: the current version and the previous ones kept
+ * when a file with the same name was uploaded again, each with download and restore
+ */
+export function VersionHistory({ file }: VersionHistoryProps) {
+  const { address } = useWallet();
+  const { currentFolderId, refresh } = useFileListContext();
+  const { downloadFile, loading: downloadLoading } = useDownload();
+  const [maxVersions, setMaxVersions] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address) {
+      return;
+    }
+    getVersionLimit(address, file.parentId).then(setMaxVersions).catch(error => {
+      console.error('[VersionHistory] Failed to read version limit:', error);
+    });
+  }, [address, file.parentId]);
+
+  const versions = file.versions ?? [];
+
+  // 이전 버전은 확장자가 다를 수 있으므로 버전의 확장자로 파일명 생성
+  const getFileName = (extension?: string) =>
+    extension && !file.name.toLowerCase().endsWith('.' + extension.toLowerCase()) ? `${file.name}.${extension}` : file.name;
+
+  const handleDownload = async (version: Pick<FileVersion, 'rootHash' | 'fileExtension' | 'encryption' | 'networkType'>) => {
+    try {
+      await downloadFile(version.rootHash, getFileName(version.fileExtension), true, version.encryption, version.networkType as NetworkType | undefined);
+    } catch (err) {
+      alert(`Failed to download version: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleRestore = async (version: FileVersion) => {
+    if (!address) return;
+    if (!confirm(`Restore the version from ${formatVersionDate(version.uploadDate)}? The current version is kept in the history.`)) return;
+    setRestoringId(version.id);
+    try {
+      const restored = await restoreFileVersion(file.id, version.id, address);
+      if (!restored) {
+        throw new Error('Version not found');
+      }
+      await refresh(currentFolderId);
+    } catch (err) {
+      alert(`Failed to restore version: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const rows = [
+    { key: 'current', label: 'Current', content: { ...file, rootHash: file.rootHash ?? '', fileSize: file.fileSize ?? 0, uploadedBy: file.uploadedBy ?? file.walletAddress }, version: null },
+    ...versions.map((version, index) => ({ key: version.id, label: `v${versions.length - index}`, content: version, version })),
+  ];
+
+  return (
+    <div className="mt-3 pt-3 border-t border-brand-border">
+      <div className="flex items-center justify-between mb-2">
+        <p className="font-semibold text-brand-text">Version history</p>
+        {maxVersions !== null && (
+          <p className="text-brand-text-secondary">Keeps up to {maxVersions} previous version{maxVersions === 1 ? '' : 's'}</p>
+        )}
+      </div>
+      <ul className="divide-y divide-brand-border max-h-48 overflow-y-auto">
+        {rows.map(({ key, label, content, version }) => (
+          <li key={key} className="py-2 flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-brand-text">
+                <span className="font-semibold">{label}</span> · {formatVersionDate(content.uploadDate)} · {formatFileSize(content.fileSize)}
+                {content.encryption && <span className="ml-1" title="Encrypted">🔒</span>}
+              </p>
+              <p className="text-brand-text-secondary truncate" title={content.rootHash}>
+                by {truncateString(content.uploadedBy, 6, 4)} · {truncateString(content.rootHash, 10, 6)}
+              </p>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <button
+                onClick={() => handleDownload(content)}
+                disabled={downloadLoading || !content.rootHash}
+                className="px-2 py-1 rounded-md border border-brand-border text-brand-text-secondary hover:bg-brand-surface disabled:opacity-50"
+              >
+                Download
+              </button>
+              {version && (
+                <button
+                  onClick={() => handleRestore(version)}
+                  disabled={restoringId !== null}
+                  className="px-2 py-1 rounded-md text-white bg-brand-primary hover:bg-brand-primary-dark disabled:opacity-50"
+                >
+                  {restoringId === version.id ? 'Restoring...' : 'Restore'}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {versions.length === 0 && (
+        <p className="mt-1 text-brand-text-secondary">No previous versions yet. Uploading a file with the same name here adds one.</p>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useNetwork } from '@/app/providers';
 import { useWallet } from '@/hooks/useWallet';
 import { useDownload } from '@/hooks/useDownload';
+import { formatDuration, formatFileSize, truncateString } from '@/utils/format';
 
 /**
  * A component that allows users to download files from 0G Storage using root hash
@@ -21,7 +22,11 @@ export function DownloadCard() {
     loading: downloadLoading,
     error: downloadError,
     downloadStatus,
-    downloadFile
+    progress,
+    pendingDownloads,
+    downloadFile,
+    resumeDownload,
+    discardDownload
   } = useDownload();
   
   // Handle download form submission
@@ -113,6 +118,41 @@ export function DownloadCard() {
         </div>
       </form>
       
+      {/* Interrupted downloads that can be resumed */}
+      {pendingDownloads.length > 0 && (
+        <div className="mt-6 border border-gray-200 rounded-md divide-y divide-gray-100">
+          <p className="px-3 py-2 text-sm font-medium text-gray-700">Interrupted downloads</p>
+          {pendingDownloads.map(pending => (
+            <div key={pending.rootHash} className="px-3 py-2 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-900 truncate">{pending.fileName}</p>
+                <p className="text-xs text-gray-500">
+                  {truncateString(pending.rootHash, 10, 6)} · {formatFileSize(pending.fileHandle ? pending.writtenBytes ?? 0 : Math.min(pending.completedSegments * pending.segmentSize, pending.totalSize))} / {formatFileSize(pending.totalSize)}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => resumeDownload(pending.rootHash)}
+                  disabled={downloadLoading}
+                  className="text-xs px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300"
+                >
+                  Resume
+                </button>
+                <button
+                  type="button"
+                  onClick={() => discardDownload(pending.rootHash)}
+                  disabled={downloadLoading}
+                  className="text-xs px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      
       {/* Download Status */}
       {downloadStatus && (
         <div className={`mt-4 p-3 rounded-md ${
@@ -130,6 +170,28 @@ export function DownloadCard() {
             )}
             <p className="text-sm">{downloadStatus}</p>
           </div>
+          {progress && !downloadStatus.includes('complete') && (
+            <div className="mt-2">
+              {progress.totalBytes > 0 && (
+                <div className="w-full bg-blue-100 rounded-full h-1.5">
+                  <div
+                    className="bg-blue-600 h-1.5 rounded-full transition-all"
+                    style={{ width: `${Math.round((progress.receivedBytes / progress.totalBytes) * 100)}%` }}
+                  />
+                </div>
+              )}
+              <div className="flex justify-between text-xs mt-1">
+                <span>
+                  {formatFileSize(progress.receivedBytes)}
+                  {progress.totalBytes > 0 && ` / ${formatFileSize(progress.totalBytes)}`}
+                </span>
+                <span>
+                  {progress.bytesPerSecond >= 1 && `${formatFileSize(Math.round(progress.bytesPerSecond))}/s`}
+                  {progress.etaSeconds !== null && ` · ${formatDuration(progress.etaSeconds)} left`}
+                </span>
+              </div>
+            </div>
+          )}
         </div>
       )}
       
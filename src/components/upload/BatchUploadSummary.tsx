@@ -0,0 +1,104 @@
+import React from 'react';
+import { FeeDisplay } from '@/components/common/FeeDisplay';
+import type { FeeInfo } from '@/lib/0g/fees';
+import type { ConflictPolicy } from '@/hooks/useFolderUpload';
+import { FolderNode, FolderTreeStats } from '@/utils/folderTree';
+import { formatFileSize } from '@/utils/format';
+
+interface BatchUploadSummaryProps {
+  tree: FolderNode;
+  stats: FolderTreeStats;
+  policy: ConflictPolicy;
+  onPolicyChange: (policy: ConflictPolicy) => void;
+  feeInfo: FeeInfo;
+  feeError?: string;
+  onRetryFees: () => void;
+  onClear: () => void;
+  error?: string;
+}
+
+const POLICY_OPTIONS: { value: ConflictPolicy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep existing files and do not upload the new ones. Folders with the same name are merged.' },
+  { value: 'rename', label: 'Rename', description: 'Upload with a new name such as "report (1).pdf". Folders with the same name get a new name too.' },
+  { value: 'version', label: 'New version', description: 'Upload as a new version of the existing file; earlier versions stay in its history. Folders with the same name are merged.' },
+];
+
+/**
+ * Summary of a multi-file or folder selection before it is queued:
+ * folder/file counts, name collision policy and the combined fee estimate
+ */
+export function BatchUploadSummary({
+  tree,
+  stats,
+  policy,
+  onPolicyChange,
+  feeInfo,
+  feeError,
+  onRetryFees,
+  onClear,
+  error,
+}: BatchUploadSummaryProps) {
+  const topLevel = [
+    ...tree.folders.map(folder => `📁 ${folder.name}`),
+    ...tree.files.map(file => file.name),
+  ];
+
+  return (
+    <div>
+      <div className="p-4 border border-brand-border rounded-lg">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-brand-text">
+              {stats.files} file{stats.files === 1 ? '' : 's'}
+              {stats.folders > 0 && ` in ${stats.folders} folder${stats.folders === 1 ? '' : 's'}`}
+            </p>
+            <p className="text-xs text-brand-text-secondary mt-1">{formatFileSize(stats.bytes)} in total</p>
+          </div>
+          <button onClick={onClear} className="text-xs font-semibold text-brand-text-secondary underline hover:text-brand-text">
+            Clear
+          </button>
+        </div>
+        <ul className="mt-3 text-xs text-brand-text-secondary space-y-0.5 max-h-24 overflow-y-auto">
+          {topLevel.slice(0, 20).map(name => (
+            <li key={name} className="truncate">{name}</li>
+          ))}
+          {topLevel.length > 20 && <li>and {topLevel.length - 20} more...</li>}
+        </ul>
+      </div>
+
+      <fieldset className="mt-4">
+        <legend className="text-sm font-semibold text-brand-text mb-2">If a name already exists</legend>
+        <div className="space-y-2">
+          {POLICY_OPTIONS.map(option => (
+            <label key={option.value} className="flex items-start gap-2 text-xs text-brand-text-secondary cursor-pointer">
+              <input
+                type="radio"
+                name="conflict-policy"
+                value={option.value}
+                checked={policy === option.value}
+                onChange={() => onPolicyChange(option.value)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-semibold text-brand-text">{option.label}</span>
+                <br />
+                {option.description}
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <FeeDisplay feeInfo={feeInfo} size={stats.bytes} error={feeError} onRetry={onRetryFees} />
+      <p className="mt-2 text-xs text-brand-text-secondary">
+        Each file is submitted separately, so your wallet asks for one confirmation per file.
+      </p>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-100 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
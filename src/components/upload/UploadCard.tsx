@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { FileList } from '@/components/common/FileList';
 import { UploadModal } from './UploadModal';
+import { UploadQueuePanel } from './UploadQueuePanel';
 import { FileListProvider } from '@/context/FileListContext';
 
 /**
@@ -25,6 +26,7 @@ export function UploadCard() {
           isOpen={isModalOpen} 
           onClose={handleCloseModal} 
         />
+        <UploadQueuePanel />
         <FileList onUploadClick={handleOpenModal} />
       </div>
     </FileListProvider>
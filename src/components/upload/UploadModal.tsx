@@ -3,12 +3,16 @@ import { useNetwork } from '@/app/providers';
 import { useWallet } from '@/hooks/useWallet';
 import { useFees } from '@/hooks/useFees';
 import { useUpload } from '@/hooks/useUpload';
+import { ConflictPolicy, useFolderUpload } from '@/hooks/useFolderUpload';
 import { FileDropzone } from '@/components/common/FileDropzone';
 import { FileInfo } from '@/components/common/FileInfo';
 import { FeeDisplay } from '@/components/common/FeeDisplay';
 import { TransactionStatus } from '@/components/common/TransactionStatus';
-import { addFileMeta } from '@/utils/indexeddb';
+import { BatchUploadSummary } from './BatchUploadSummary';
+import { saveUploadedFileMeta } from '@/utils/indexeddb';
 import { useFileListContext } from '@/context/FileListContext';
+import type { EncryptionParams } from '@/lib/0g/encryption';
+import { FolderNode, FolderTreeStats, buildFolderTree, getFolderTreeStats } from '@/utils/folderTree';
 
 interface UploadModalProps {
   isOpen: boolean;
@@ -20,24 +24,93 @@ interface FileInfoState {
   size: number;
   blob?: any;
   originalFile?: File;
+  uploadFile?: File; // 실제 업로드되는 파일 (암호화 시 암호문)
+  encryption?: EncryptionParams;
+}
+
+// 여러 파일 또는 폴더 선택 (대기열에 넣기 전 요약)
+interface BatchState {
+  files: File[];
+  tree: FolderNode;
+  stats: FolderTreeStats;
 }
 
 export function UploadModal({ isOpen, onClose }: UploadModalProps) {
   const { isConnected, address: walletAddress } = useWallet();
-  const { currentFolderId, refresh } = useFileListContext();
+  const { items, currentFolderId, refresh } = useFileListContext();
   const [fileInfo, setFileInfo] = useState<FileInfoState | null>(null);
-  const { feeInfo, error: feeError, rootHash: feeRootHash, submission, flowContract, calculateFeesForFile, blob } = useFees();
-  const { loading: uploadLoading, error: uploadError, uploadStatus, txHash, rootHash, alreadyExists, uploadFile, resetUploadState } = useUpload();
+  const { feeInfo, error: feeError, hashProgress, cancelCalculation, rootHash: feeRootHash, submission, flowContract, calculateFeesForFile, zgFile: blob } = useFees();
+  const { loading: uploadLoading, error: uploadError, uploadStatus, txHash, rootHash, alreadyExists, prepareFile, uploadFile, resetUploadState } = useUpload();
+  const [encryptEnabled, setEncryptEnabled] = useState(false);
+  const [preparing, setPreparing] = useState(false);
+  const [batch, setBatch] = useState<BatchState | null>(null);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('rename');
+  const { feeInfo: batchFeeInfo, feeError: batchFeeError, uploading: batchUploading, error: batchError, estimateFees, uploadTree, resetFolderUpload } = useFolderUpload();
+
+  // 현재 폴더에 같은 이름의 파일이 있으면 업로드 시 그 파일의 새 버전이 됨
+  const existingFile = fileInfo ? items.find(item => item.type === 'file' && item.name === fileInfo.name) ?? null : null;
+
+  // 암호화 여부에 따라 업로드할 파일을 준비한 뒤 (암호문 기준) 수수료와 root hash 계산
+  const prepareAndCalculate = async (file: File, encrypt: boolean) => {
+    setPreparing(true);
+    const prepared = await prepareFile(file, encrypt);
+    setPreparing(false);
+    if (!prepared) {
+      return;
+    }
+    setFileInfo(prev => prev && prev.originalFile === file
+      ? { ...prev, uploadFile: prepared.file, encryption: prepared.encryption }
+      : prev);
+    calculateFeesForFile(prepared.file, isConnected);
+  };
 
   const handleFileDrop = (file: File) => {
     if (rootHash) {
       resetUploadState();
     }
     setFileInfo({ name: file.name, size: file.size, originalFile: file });
-    calculateFeesForFile(file, isConnected);
+    prepareAndCalculate(file, encryptEnabled);
+  };
+
+  // 여러 파일이나 폴더는 폴더 구조와 전체 수수료를 먼저 보여준 뒤 대기열에 넣음
+  const handleFilesDrop = (files: File[]) => {
+    const tree = buildFolderTree(files);
+    setBatch({ files, tree, stats: getFolderTreeStats(tree) });
+    estimateFees(files, encryptEnabled);
+  };
+
+  const handleClearBatch = () => {
+    setBatch(null);
+    resetFolderUpload();
+  };
+
+  // 폴더를 만들고 파일을 대기열에 넣은 뒤 모달을 닫음 (진행 상황은 대기열 패널에 표시)
+  const handleBatchUpload = async () => {
+    if (!batch) {
+      return;
+    }
+    const [result] = await uploadTree(batch.tree, currentFolderId, conflictPolicy, encryptEnabled);
+    await refresh(currentFolderId);
+    if (result) {
+      console.log('[UploadModal] Batch queued:', result);
+      setBatch(null);
+      onClose();
+    }
+  };
+
+  const handleEncryptToggle = (enabled: boolean) => {
+    setEncryptEnabled(enabled);
+    if (batch) {
+      estimateFees(batch.files, enabled);
+    }
+    if (fileInfo?.originalFile) {
+      setFileInfo({ ...fileInfo, uploadFile: undefined, encryption: undefined });
+      prepareAndCalculate(fileInfo.originalFile, enabled);
+    }
   };
 
   const handleClearFile = () => {
+    cancelCalculation();
     setFileInfo(null);
     resetUploadState();
   };
@@ -77,10 +150,12 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
           fileSize: fileInfo.originalFile.size,
           rootHash: feeRootHash || uploadResult, // feeRootHash를 우선 사용
           networkType: 'standard',
+          ...(fileInfo.encryption ? { encryption: fileInfo.encryption } : {}),
         };
         
-        await addFileMeta(meta);
-        console.log('[UploadModal] File metadata saved to IndexedDB:', meta);
+        // 같은 이름의 파일이 있으면 그 파일의 새 버전으로 저장
+        const saved = await saveUploadedFileMeta(meta);
+        console.log('[UploadModal] File metadata saved to IndexedDB:', saved);
         
         // 파일리스트 갱신
         await refresh(currentFolderId);
@@ -93,10 +168,13 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
 
   useEffect(() => {
     if (!isOpen) {
+      cancelCalculation();
       setFileInfo(null);
+      setBatch(null);
+      resetFolderUpload();
       resetUploadState();
     }
-  }, [isOpen, resetUploadState]);
+  }, [isOpen, resetUploadState, cancelCalculation, resetFolderUpload]);
 
   // 모달이 닫혀있으면 렌더링하지 않음
   if (!isOpen) {
@@ -114,8 +192,26 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
         </div>
         
         <div className="p-8 overflow-y-auto">
-          {!fileInfo && <FileDropzone onFileDrop={handleFileDrop} disabled={uploadLoading} />}
-          {fileInfo && <FileInfo fileInfo={fileInfo} rootHash={feeRootHash} onClear={handleClearFile} />}
+          {!fileInfo && !batch && <FileDropzone onFileDrop={handleFileDrop} onFilesDrop={handleFilesDrop} disabled={uploadLoading} />}
+          {batch && (
+            <BatchUploadSummary
+              tree={batch.tree}
+              stats={batch.stats}
+              policy={conflictPolicy}
+              onPolicyChange={setConflictPolicy}
+              feeInfo={batchFeeInfo}
+              feeError={batchFeeError}
+              onRetryFees={() => estimateFees(batch.files, encryptEnabled)}
+              onClear={handleClearBatch}
+              error={batchError}
+            />
+          )}
+          {fileInfo && <FileInfo fileInfo={fileInfo} rootHash={feeRootHash} existingFile={existingFile} onClear={handleClearFile} />}
+          {fileInfo && existingFile && !rootHash && (
+            <p className="mt-2 text-xs text-brand-text-secondary">
+              &quot;{fileInfo.name}&quot; already exists in this folder. Uploading adds a new version; the current one stays in the version history.
+            </p>
+          )}
           
           {fileInfo && rootHash && (
             <button
@@ -137,7 +233,24 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
             </button>
           )}
 
-          {fileInfo && !rootHash && <FeeDisplay feeInfo={feeInfo} error={feeError} onRetry={() => fileInfo.originalFile && calculateFeesForFile(fileInfo.originalFile, isConnected)} size={fileInfo.size} />}
+          {!rootHash && (
+            <label className="mt-4 flex items-start gap-2 text-xs text-brand-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={encryptEnabled}
+                onChange={(e) => handleEncryptToggle(e.target.checked)}
+                disabled={uploadLoading || preparing || batchUploading}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-semibold text-brand-text">Encrypt before upload</span>
+                <br />
+                The file is encrypted in your browser with a key derived from your wallet signature. Only this wallet can decrypt it.
+              </span>
+            </label>
+          )}
+
+          {fileInfo && !rootHash && <FeeDisplay feeInfo={preparing ? { ...feeInfo, isLoading: true } : feeInfo} hashProgress={hashProgress} onCancel={cancelCalculation} error={feeError} onRetry={() => fileInfo.originalFile && prepareAndCalculate(fileInfo.originalFile, encryptEnabled)} size={fileInfo.uploadFile?.size ?? fileInfo.size} />}
           
           <TransactionStatus uploadStatus={uploadStatus} txHash={txHash} explorerUrl={""} alreadyExists={alreadyExists} />
            
@@ -184,7 +297,7 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
         
         <div className="p-6 border-t border-brand-border flex-shrink-0">
           {fileInfo && !rootHash && (
-            <button onClick={handleUpload} disabled={!isConnected || feeInfo.isLoading || uploadLoading} className="w-full py-3 px-4 rounded-lg font-semibold text-white flex items-center justify-center transition-colors disabled:opacity-50 bg-brand-primary hover:bg-brand-primary-dark disabled:bg-brand-primary-light">
+            <button onClick={handleUpload} disabled={!isConnected || feeInfo.isLoading || uploadLoading || preparing || !fileInfo.uploadFile} className="w-full py-3 px-4 rounded-lg font-semibold text-white flex items-center justify-center transition-colors disabled:opacity-50 bg-brand-primary hover:bg-brand-primary-dark disabled:bg-brand-primary-light">
               {uploadLoading ? (
                 <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -198,7 +311,12 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
               {uploadLoading ? 'Uploading...' : 'Upload Now'}
             </button>
           )}
-           {(!fileInfo || rootHash) && (
+          {batch && (
+            <button onClick={handleBatchUpload} disabled={!isConnected || batchUploading || batchFeeInfo.isLoading} className="w-full py-3 px-4 rounded-lg font-semibold text-white flex items-center justify-center transition-colors disabled:opacity-50 bg-brand-primary hover:bg-brand-primary-dark disabled:bg-brand-primary-light">
+              {batchUploading ? 'Creating folders...' : `Add ${batch.stats.files} file${batch.stats.files === 1 ? '' : 's'} to upload queue`}
+            </button>
+          )}
+           {((!fileInfo && !batch) || rootHash) && (
              <button onClick={onClose} className="w-full py-3 px-4 rounded-lg font-semibold text-brand-text-secondary bg-brand-background hover:bg-border transition-colors">
               Close
             </button>
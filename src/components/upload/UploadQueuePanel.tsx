@@ -0,0 +1,128 @@
+import React, { useCallback } from 'react';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { useFileListContext } from '@/context/FileListContext';
+import { UploadItemStatus, UploadQueueItem, canCancelUpload, canPauseUpload } from '@/lib/0g/uploadQueue';
+import { formatFileSize, truncateString } from '@/utils/format';
+
+const STATUS_LABELS: Record<UploadItemStatus, string> = {
+  queued: 'Queued',
+  paused: 'Paused',
+  hashing: 'Hashing',
+  'awaiting-signature': 'Awaiting signature',
+  submitting: 'Submitting',
+  uploading: 'Uploading segments',
+  verifying: 'Verifying',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+/**
+ * A panel listing every upload in the queue with its state and controls
+ * Hidden while the queue is empty
+ */
+export function UploadQueuePanel() {
+  const { currentFolderId, refresh } = useFileListContext();
+
+  // 업로드가 끝난 파일이 현재 폴더에 있으면 목록 갱신
+  const handleItemDone = useCallback((item: UploadQueueItem) => {
+    if (item.parentId === currentFolderId) {
+      refresh(currentFolderId);
+    }
+  }, [currentFolderId, refresh]);
+
+  const { items, concurrency, setConcurrency, pause, resume, cancel, pauseAll, resumeAll, clearFinished } = useUploadQueue(handleItemDone);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const hasPausable = items.some(item => canPauseUpload(item.status));
+  const hasPaused = items.some(item => item.status === 'paused');
+
+  return (
+    <div className="mb-4 bg-brand-surface rounded-lg shadow-sm border border-brand-border">
+      <div className="p-3 border-b border-brand-border flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold text-brand-text">
+          Uploads <span className="text-brand-text-secondary font-normal">({doneCount}/{items.length} done)</span>
+        </h2>
+        <div className="flex items-center gap-2 text-xs">
+          <label className="text-brand-text-secondary" htmlFor="upload-concurrency">Parallel</label>
+          <select
+            id="upload-concurrency"
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            className="border border-brand-border rounded-md px-1 py-0.5 bg-brand-surface"
+          >
+            {CONCURRENCY_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          {hasPausable && (
+            <button onClick={pauseAll} className="px-2 py-1 border border-brand-border rounded-md text-brand-text-secondary hover:bg-brand-background">
+              Pause all
+            </button>
+          )}
+          {hasPaused && (
+            <button onClick={resumeAll} className="px-2 py-1 border border-brand-border rounded-md text-brand-text-secondary hover:bg-brand-background">
+              Resume all
+            </button>
+          )}
+          {doneCount > 0 && (
+            <button onClick={clearFinished} className="px-2 py-1 border border-brand-border rounded-md text-brand-text-secondary hover:bg-brand-background">
+              Clear finished
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="divide-y divide-brand-border max-h-72 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="px-3 py-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-brand-text truncate">
+                  {item.encrypt && <span className="mr-1" title="Encrypted">🔒</span>}
+                  {item.fileName}
+                </p>
+                <p className="text-xs text-brand-text-secondary">
+                  {formatFileSize(item.fileSize)} · {STATUS_LABELS[item.status]}
+                  {(item.status === 'hashing' || item.status === 'uploading') && ` ${Math.round(item.progress * 100)}%`}
+                  {item.status === 'done' && item.rootHash && ` · ${truncateString(item.rootHash, 10, 6)}`}
+                  {item.status === 'done' && item.alreadyExists && ' (already in storage)'}
+                </p>
+                {item.status === 'failed' && item.error && (
+                  <p className="text-xs text-red-600 break-words">{item.error}</p>
+                )}
+              </div>
+              <div className="flex gap-2 flex-shrink-0 text-xs">
+                {canPauseUpload(item.status) && (
+                  <button onClick={() => pause(item.id)} className="px-2 py-1 rounded-md border border-brand-border text-brand-text-secondary hover:bg-brand-background">
+                    Pause
+                  </button>
+                )}
+                {(item.status === 'paused' || item.status === 'failed') && (
+                  <button onClick={() => resume(item.id)} className="px-2 py-1 rounded-md text-white bg-brand-primary hover:bg-brand-primary-dark">
+                    {item.status === 'failed' ? 'Retry' : 'Resume'}
+                  </button>
+                )}
+                {canCancelUpload(item.status) && item.status !== 'done' && (
+                  <button onClick={() => cancel(item.id)} className="px-2 py-1 rounded-md border border-brand-border text-brand-text-secondary hover:bg-brand-background">
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+            {(item.status === 'hashing' || item.status === 'uploading') && (
+              <div className="mt-1 w-full bg-brand-border rounded-full h-1">
+                <div className="bg-brand-primary h-1 rounded-full transition-all" style={{ width: `${Math.round(item.progress * 100)}%` }} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
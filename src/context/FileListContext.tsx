@@ -3,6 +3,12 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { useWallet } from '@/hooks/useWallet';
 import { useIndexedDB } from '@/hooks/useIndexedDB';
+import { useSync } from '@/hooks/useSync';
+import type { EncryptionParams } from '@/lib/0g/encryption';
+import type { FileVersion } from '@/utils/indexeddb';
+import type { ListSort } from '@/utils/pagination';
+import type { MetadataUpdate } from '@/utils/metadata';
+import type { ItemRole, ShareRole } from '@/utils/permissions';
 
 export interface Item {
   id: string;
@@ -15,8 +21,20 @@ export interface Item {
   fileSize?: number;
   rootHash?: string;
   networkType?: string;
+  encryption?: EncryptionParams;
   sharedWith?: string[];
+  shareRoles?: Record<string, ShareRole>;
   sharedBy?: string;
+  role?: ItemRole;
+  uploadedBy?: string;
+  shortcutTo?: string;
+  versions?: FileVersion[];
+  maxVersions?: number;
+  tags?: string[];
+  starred?: boolean;
+  description?: string;
+  properties?: Record<string, string>;
+  revision?: number;
 }
 
 export interface Breadcrumb {
@@ -28,16 +46,25 @@ interface FileListContextType {
   items: Item[];
   loading: boolean;
   error: string | null;
+  sort: ListSort;
+  setSort: (sort: ListSort) => Promise<void>;
+  total: number; // 현재 폴더의 전체 아이템 수 (items는 지금까지 불러온 페이지)
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMore: () => Promise<void>;
   breadcrumbs: Breadcrumb[];
   currentFolderId: string | null;
   navigateToFolder: (folderId: string | null) => Promise<void>;
+  navigateToPath: (path: { id: string, name: string }[]) => Promise<void>;
   addFile: (meta: Item) => Promise<void>;
   addFolder: (name: string) => Promise<Item>;
   deleteItem: (itemId: string) => Promise<boolean>;
-  updateItem: (itemId: string, { name, parentId }: { name?: string, parentId?: string | null }) => Promise<Item>;
+  updateItem: (itemId: string, { name, parentId, maxVersions }: { name?: string, parentId?: string | null, maxVersions?: number | null }) => Promise<Item>;
+  updateMetadata: (itemId: string, update: MetadataUpdate) => Promise<Item>;
   formatFileSize: (bytes?: number) => string;
   formatDate: (dateString: string) => string;
   refresh: (parentId?: string | null) => void;
+  sync: ReturnType<typeof useSync>; // 서버와의 동기화 상태
 }
 
 const FileListContext = createContext<FileListContextType | undefined>(undefined);
@@ -46,7 +73,12 @@ export function FileListProvider({ children }: { children: ReactNode }) {
   const { address } = useWallet();
   const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
   const [breadcrumbs, setBreadcrumbs] = useState<Breadcrumb[]>([{ id: null, name: 'Home' }]);
-  const { files: items, loading, error, addFile, updateFile, deleteFile, refresh } = useIndexedDB(address ?? '');
+  const {
+    files: items, loading, error, sort, setSort, total, hasMore, loadingMore, loadMore,
+    addFile, updateFile, updateMetadata: updateFileMetadata, deleteFile, refresh
+  } = useIndexedDB(address ?? '');
+  // 서버에서 받은 변경이 반영되면 현재 폴더를 다시 불러옴
+  const sync = useSync(() => refresh(currentFolderId));
 
   const navigateToFolder = useCallback(async (folderId: string | null) => {
     if (folderId === currentFolderId) return;
@@ -75,6 +107,14 @@ export function FileListProvider({ children }: { children: ReactNode }) {
     await refresh(folderId);
   }, [currentFolderId, items, breadcrumbs, refresh]);
 
+  // 검색 결과처럼 현재 폴더 밖의 폴더로 바로 이동 (path: 최상위부터 이동할 폴더까지)
+  const navigateToPath = useCallback(async (path: { id: string, name: string }[]) => {
+    const folderId = path.length > 0 ? path[path.length - 1].id : null;
+    setBreadcrumbs([{ id: null, name: 'Home' }, ...path]);
+    setCurrentFolderId(folderId);
+    await refresh(folderId);
+  }, [refresh]);
+
   const addFolder = useCallback(async (name: string) => {
     if (!address) throw new Error('Wallet not connected');
     const folder: Item = {
@@ -98,12 +138,18 @@ export function FileListProvider({ children }: { children: ReactNode }) {
     return true;
   }, [address, currentFolderId, deleteFile]);
   
-  const updateItem = useCallback(async (itemId: string, { name, parentId }: { name?: string, parentId?: string | null }) => {
+  const updateItem = useCallback(async (itemId: string, { name, parentId, maxVersions }: { name?: string, parentId?: string | null, maxVersions?: number | null }) => {
     if (!address) throw new Error('Wallet not connected');
     const item = items.find(i => i.id === itemId);
     if (!item) throw new Error('Item not found');
     
     const updated = { ...item, name: name ?? item.name, parentId: parentId ?? item.parentId };
+    // 폴더의 버전 보관 수 (null이면 상위 폴더 설정을 따름)
+    if (maxVersions === null) {
+      delete updated.maxVersions;
+    } else if (maxVersions !== undefined) {
+      updated.maxVersions = maxVersions;
+    }
     console.log('[FileListContext] Updating item:', { 
       itemId, 
       oldParentId: item.parentId, 
@@ -138,6 +184,13 @@ export function FileListProvider({ children }: { children: ReactNode }) {
     return updated;
   }, [address, items, updateFile, refresh, currentFolderId, navigateToFolder]);
 
+  const updateMetadata = useCallback(async (itemId: string, update: MetadataUpdate) => {
+    if (!address) throw new Error('Wallet not connected');
+    const updated = await updateFileMetadata(itemId, update);
+    if (!updated) throw new Error('Item not found');
+    return updated;
+  }, [address, updateFileMetadata]);
+
   const formatFileSize = useCallback((bytes?: number): string => {
     if (!bytes) return '0 Bytes';
     if (bytes === 0) return '0 Bytes';
@@ -164,8 +217,9 @@ export function FileListProvider({ children }: { children: ReactNode }) {
   }, [address]);
 
   const value = {
-    items, loading, error, breadcrumbs, currentFolderId, navigateToFolder,
-    addFile, addFolder, deleteItem, updateItem, formatFileSize, formatDate, refresh
+    items, loading, error, sort, setSort, total, hasMore, loadingMore, loadMore,
+    breadcrumbs, currentFolderId, navigateToFolder, navigateToPath,
+    addFile, addFolder, deleteItem, updateItem, updateMetadata, formatFileSize, formatDate, refresh, sync
   };
 
   return <FileListContext.Provider value={value}>{children}</FileListContext.Provider>;
@@ -1,6 +1,7 @@
-import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
-import { useAccount, useConnect, useBalance } from 'wagmi';
+import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react';
+import { useAccount, useConnect, useBalance, useSignMessage } from 'wagmi';
 import { zgTestnet } from '@/config';
+import { buildSignInMessage, SIGN_IN_STATEMENT } from '@/lib/auth/message';
 
 // Types for our wallet context
 interface WalletContextType {
@@ -14,6 +15,10 @@ interface WalletContextType {
     loading: boolean;
   };
   connect: () => void;
+  isAuthenticated: boolean;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>;
 }
 
 // Create the context with a default value
@@ -28,6 +33,10 @@ const WalletContext = createContext<WalletContextType>({
     loading: true,
   },
   connect: () => {},
+  isAuthenticated: false,
+  signIn: async () => {},
+  signOut: async () => {},
+  authFetch: (input, init) => fetch(input, init),
 });
 
 // Hook to use the wallet context
@@ -38,8 +47,14 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const [isHydrated, setIsHydrated] = useState(false);
   
   // Wagmi hooks - only used after hydration
-  const { address, isConnected, isConnecting } = useAccount();
+  const { address, isConnected, isConnecting, chainId, status } = useAccount();
   const { connect: wagmiConnect, connectors } = useConnect();
+  const { signMessageAsync } = useSignMessage();
+
+  // Sign-In with Ethereum 세션 (httpOnly 쿠키이므로 서버에서 확인한 주소만 보관)
+  const [sessionAddress, setSessionAddress] = useState<string | null>(null);
+  const sessionAddressRef = useRef<string | null>(null);
+  const signInPromise = useRef<Promise<void> | null>(null);
   
   // Only fetch balance if we're hydrated and connected
   const shouldFetchBalance = isHydrated && isConnected && !!address;
@@ -57,6 +72,110 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     setIsHydrated(true);
   }, []);
   
+  const updateSession = useCallback((next: string | null) => {
+    sessionAddressRef.current = next;
+    setSessionAddress(next);
+  }, []);
+
+  // Restore an existing session after hydration
+  useEffect(() => {
+    if (!isHydrated) return;
+    fetch('/api/auth/session')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => updateSession(data?.address ?? null))
+      .catch(() => updateSession(null));
+  }, [isHydrated, updateSession]);
+
+  const signOut = useCallback(async () => {
+    updateSession(null);
+    try {
+      await fetch('/api/auth/session', { method: 'DELETE' });
+    } catch (error) {
+      console.warn('[WalletContext] Failed to clear session:', error);
+    }
+  }, [updateSession]);
+
+  // 지갑 연결 해제 또는 계정 변경 시 이전 지갑의 세션 종료
+  useEffect(() => {
+    if (!isHydrated || !sessionAddress) return;
+    if (status === 'disconnected' || (address && address.toLowerCase() !== sessionAddress)) {
+      console.log('[WalletContext] Wallet changed, signing out');
+      signOut();
+    }
+  }, [isHydrated, status, address, sessionAddress, signOut]);
+
+  // Sign in by signing an EIP-4361 message with the connected wallet
+  const signIn = useCallback(async () => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+    // 동시에 여러 요청이 로그인을 시도해도 서명 요청은 한 번만
+    if (signInPromise.current) {
+      return signInPromise.current;
+    }
+
+    signInPromise.current = (async () => {
+      const nonceResponse = await fetch('/api/auth/nonce');
+      if (!nonceResponse.ok) {
+        throw new Error('Failed to get sign-in nonce');
+      }
+      const { nonce } = await nonceResponse.json();
+
+      const message = buildSignInMessage({
+        domain: window.location.host,
+        address,
+        statement: SIGN_IN_STATEMENT,
+        uri: window.location.origin,
+        version: '1',
+        chainId: chainId ?? zgTestnet.id,
+        nonce,
+        issuedAt: new Date().toISOString(),
+      });
+      const signature = await signMessageAsync({ message });
+
+      const verifyResponse = await fetch('/api/auth/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ message, signature }),
+      });
+      if (!verifyResponse.ok) {
+        const error = await verifyResponse.json().catch(() => ({}));
+        throw new Error(error.error || 'Sign-in failed');
+      }
+
+      const data = await verifyResponse.json();
+      console.log('[WalletContext] Signed in:', data.address);
+      updateSession(data.address);
+    })();
+
+    try {
+      await signInPromise.current;
+    } finally {
+      signInPromise.current = null;
+    }
+  }, [address, chainId, signMessageAsync, updateSession]);
+
+  // fetch wrapper for authenticated API routes: signs in first if needed and once more if the session expired
+  const authFetch = useCallback(async (input: string, init?: RequestInit) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+    if (sessionAddressRef.current !== address.toLowerCase()) {
+      await signIn();
+    }
+
+    const response = await fetch(input, init);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    updateSession(null);
+    await signIn();
+    return fetch(input, init);
+  }, [address, signIn, updateSession]);
+
   // Simplified connect function
   const connect = () => {
     if (!isHydrated) return;
@@ -79,6 +198,10 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       loading: isBalanceLoading,
     },
     connect,
+    isAuthenticated: !!address && sessionAddress === address.toLowerCase(),
+    signIn,
+    signOut,
+    authFetch,
   };
   
   return (
@@ -1,23 +1,32 @@
 import { useState, useCallback } from 'react';
 import { useWallet } from '@/hooks/useWallet';
-import { useNetwork } from '@/app/providers';
+import { useNetwork, NetworkType } from '@/app/providers';
 import { getProvider, getSigner } from '@/lib/0g/fees';
 import { uploadToStorage } from '@/lib/0g/uploader';
 import { getNetworkConfig } from '@/lib/0g/network';
-import { Blob as OGBlob } from '@0glabs/0g-ts-sdk';
-import { getAllFileMeta, addFileMeta, deleteFileMeta } from '@/utils/indexeddb';
+import { createZgFile } from '@/lib/0g/blob';
+import { FileMeta, getWalletFileMeta, putFileMetaBatch, deleteFileMeta } from '@/utils/indexeddb';
 import { useFileListContext } from '@/context/FileListContext';
+import type { BackupSnapshot } from '@/utils/backups';
+import { BackupDiff, ConflictResolution, ImportMode, diffBackup, planBackupImport } from '@/utils/backupImport';
+
+// 다운로드한 백업과 현재 드라이브의 비교 결과 (가져오기 전에 미리 보기)
+export interface BackupPreview {
+  backup: BackupSnapshot;
+  items: FileMeta[];
+  diff: BackupDiff;
+}
 
 export function useBackup() {
-  const { address: walletAddress } = useWallet();
+  const { address: walletAddress, authFetch } = useWallet();
   const { networkType } = useNetwork();
   const { refresh } = useFileListContext();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [status, setStatus] = useState('');
 
-  // IndexedDB 데이터를 백업하고 0G Storage에 업로드
-  const exportBackup = useCallback(async () => {
+  // IndexedDB 데이터를 백업하고 0G Storage에 업로드 (서버에는 새 스냅샷으로 기록)
+  const exportBackup = useCallback(async (): Promise<BackupSnapshot | null> => {
     if (!walletAddress) {
       setError('Wallet not connected.');
       return null;
@@ -28,9 +37,9 @@ export function useBackup() {
     setStatus('Preparing backup data...');
 
     try {
-      // 1. IndexedDB에서 모든 파일 메타데이터 가져오기
+      // 1. IndexedDB에서 모든 폴더의 파일 메타데이터 가져오기 (휴지통 제외, parentId로 폴더 구조 유지)
       console.log('[useBackup] Exporting backup data...');
-      const allFiles = await getAllFileMeta(walletAddress, null);
+      const allFiles = await getWalletFileMeta(walletAddress);
       
       if (allFiles.length === 0) {
         setError('No files to backup.');
@@ -43,7 +52,7 @@ export function useBackup() {
         networkType,
         files: allFiles,
         exportDate: new Date().toISOString(),
-        version: '1.0'
+        version: '2.0' // 1.0은 최상위 아이템만 포함
       };
 
       setStatus('Uploading backup to 0G Storage...');
@@ -52,9 +61,11 @@ export function useBackup() {
       const jsonString = JSON.stringify(backupData, null, 2);
       const browserBlob = new Blob([jsonString], { type: 'application/json' });
       
-      // 브라우저 Blob을 File 객체로 변환하여 0G SDK Blob 생성
-      const file = new File([browserBlob], 'backup.json', { type: 'application/json' });
-      const blob = new OGBlob(file);
+      // 업로드와 같은 Blob 기반 0G 파일로 변환 (세그먼트 단위로 읽음)
+      const [blob, blobErr] = await createZgFile(browserBlob, 'backup.json');
+      if (!blob) {
+        throw new Error(`Failed to prepare backup file: ${blobErr?.message}`);
+      }
       
       // 4. 0G Storage에 업로드
       const network = getNetworkConfig(networkType);
@@ -79,24 +90,18 @@ export function useBackup() {
         throw new Error(uploadErr?.message || 'Backup upload failed');
       }
 
-      // 5. 백엔드에 백업 정보 저장
+      // 5. 백엔드에 백업 스냅샷 기록
       setStatus('Saving backup information...');
-      const backupInfo = {
-        walletAddress,
-        rootHash: uploadResult.rootHash,
-        fileName: `backup-${walletAddress.substring(0, 8)}-${new Date().toISOString().split('T')[0]}.json`,
-        fileCount: allFiles.length,
-        exportDate: new Date().toISOString()
-      };
-
-      const backupResponse = await fetch('/api/backup', {
+      const backupResponse = await authFetch('/api/backup', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          walletAddress,
-          backupData: backupInfo
+          rootHash: uploadResult.rootHash,
+          itemCount: allFiles.length,
+          networkType,
+          size: browserBlob.size
         })
       });
 
@@ -104,10 +109,11 @@ export function useBackup() {
         throw new Error('Failed to save backup information');
       }
 
+      const { backup } = await backupResponse.json();
       setStatus('Backup completed!');
-      console.log('[useBackup] Backup exported successfully:', backupInfo);
+      console.log('[useBackup] Backup exported successfully:', backup);
       
-      return backupInfo;
+      return backup;
     } catch (error) {
       console.error('[useBackup] Export error:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -116,38 +122,25 @@ export function useBackup() {
     } finally {
       setLoading(false);
     }
-  }, [walletAddress, networkType, refresh]);
+  }, [walletAddress, networkType, refresh, authFetch]);
 
-  // 백업 데이터를 가져와서 IndexedDB에 복원
-  const importBackup = useCallback(async () => {
+  // 선택한 백업 스냅샷을 다운로드하여 현재 드라이브와 비교 (아직 아무것도 바꾸지 않음)
+  const previewBackup = useCallback(async (backup: BackupSnapshot): Promise<BackupPreview | null> => {
     if (!walletAddress) {
       setError('Wallet not connected.');
-      return false;
+      return null;
     }
 
     setLoading(true);
     setError('');
-    setStatus('Retrieving backup data...');
+    setStatus('Downloading backup file...');
 
     try {
-      // 1. 백엔드에서 백업 정보 가져오기
-      const backupResponse = await fetch(`/api/backup?walletAddress=${walletAddress}`);
-      
-      if (!backupResponse.ok) {
-        if (backupResponse.status === 404) {
-          throw new Error('No backup data found for this wallet.');
-        }
-        throw new Error('Failed to retrieve backup data');
-      }
-
-      const backupInfo = await backupResponse.json();
-      console.log('[useBackup] Backup info retrieved:', backupInfo);
+      console.log('[useBackup] Previewing backup:', backup);
 
-      setStatus('Downloading backup file...');
-
-      // 2. 0G Storage에서 백업 파일 다운로드
-      const network = getNetworkConfig(networkType);
-      const downloadUrl = `/api/proxy?url=${encodeURIComponent(`${network.storageRpc}/file?root=${backupInfo.backup.rootHash}`)}`;
+      // 1. 백업 파일을 올린 네트워크의 0G Storage에서 다운로드
+      const network = getNetworkConfig(backup.networkType as NetworkType);
+      const downloadUrl = `/api/proxy?url=${encodeURIComponent(`${network.storageRpc}/file?root=${backup.rootHash}`)}`;
       
       const downloadResponse = await fetch(downloadUrl);
       
@@ -164,29 +157,61 @@ export function useBackup() {
         throw new Error('Invalid backup data format');
       }
 
-      setStatus('Restoring IndexedDB...');
+      // 2. 현재 드라이브와 비교
+      setStatus('Comparing with your drive...');
+      const items = backupData.files as FileMeta[];
+      const diff = diffBackup(await getWalletFileMeta(walletAddress), items);
+      console.log('[useBackup] Backup diff:', {
+        additions: diff.additions.length,
+        deletions: diff.deletions.length,
+        conflicts: diff.conflicts.length,
+        unchanged: diff.unchanged,
+      });
 
-      // 3. 기존 데이터 삭제 (선택사항)
-      const existingFiles = await getAllFileMeta(walletAddress, null);
-      for (const file of existingFiles) {
-        await deleteFileMeta(file.id, walletAddress);
-      }
+      setStatus('');
+      return { backup, items, diff };
+    } catch (error) {
+      console.error('[useBackup] Preview error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setError(errorMessage);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [walletAddress]);
 
-      // 4. 백업 데이터를 IndexedDB에 복원
-      for (const file of backupData.files) {
-        // ID를 새로 생성하여 중복 방지
-        const newFile = {
-          ...file,
-          id: crypto.randomUUID(),
-          importDate: new Date().toISOString()
-        };
-        await addFileMeta(newFile);
+  // 미리 본 백업을 선택한 방식으로 IndexedDB에 가져오기
+  const importBackup = useCallback(async (preview: BackupPreview, mode: ImportMode, resolution: ConflictResolution = 'current') => {
+    if (!walletAddress) {
+      setError('Wallet not connected.');
+      return false;
+    }
+
+    setLoading(true);
+    setError('');
+    setStatus('Restoring IndexedDB...');
+
+    try {
+      // 미리 보기 이후 드라이브가 바뀌었을 수 있으므로 현재 상태로 다시 계획
+      const current = await getWalletFileMeta(walletAddress);
+      const plan = planBackupImport(current, preview.items, mode, {
+        walletAddress,
+        resolution,
+        folderName: `Restored backup ${preview.backup.createdAt.split('T')[0]}`,
+      });
+
+      // 1. 백업 아이템 저장 (폴더 구조는 parentId로 그대로 유지)
+      await putFileMetaBatch(walletAddress, plan.put);
+
+      // 2. replace: 백업에 없는 아이템은 휴지통으로 (휴지통에서 복원 가능)
+      for (const id of plan.trash) {
+        await deleteFileMeta(id, walletAddress);
       }
 
-      setStatus('Restore completed!');
-      console.log('[useBackup] Backup imported successfully');
+      setStatus(`Restore completed! ${plan.put.length} item(s) restored${plan.trash.length > 0 ? `, ${plan.trash.length} moved to the trash` : ''}.`);
+      console.log('[useBackup] Backup imported successfully', { mode, put: plan.put.length, trash: plan.trash.length });
 
-      // 5. 파일 리스트 갱신
+      // 3. 파일 리스트 갱신
       await refresh();
 
       return true;
@@ -198,11 +223,53 @@ export function useBackup() {
     } finally {
       setLoading(false);
     }
-  }, [walletAddress, networkType, refresh]);
+  }, [walletAddress, refresh]);
+
+  // 지갑의 백업 스냅샷 목록 (최신순)
+  const listBackups = useCallback(async (): Promise<BackupSnapshot[]> => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    const response = await authFetch('/api/backup');
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Failed to load backups');
+    }
+    const { backups } = await response.json();
+    return backups;
+  }, [walletAddress, authFetch]);
+
+  // 스냅샷 고정/해제 (고정하면 오래되어도 자동으로 지워지지 않음)
+  const pinBackup = useCallback(async (id: number, pinned: boolean): Promise<BackupSnapshot> => {
+    const response = await authFetch(`/api/backup/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pinned })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update backup');
+    }
+    return data.backup;
+  }, [authFetch]);
+
+  // 스냅샷 기록 삭제 (0G Storage의 백업 파일은 남음)
+  const deleteBackup = useCallback(async (id: number): Promise<void> => {
+    const response = await authFetch(`/api/backup/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Failed to delete backup');
+    }
+  }, [authFetch]);
 
   return {
     exportBackup,
+    previewBackup,
     importBackup,
+    listBackups,
+    pinBackup,
+    deleteBackup,
     loading,
     error,
     status
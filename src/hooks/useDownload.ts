@@ -1,9 +1,22 @@
-import { useState, useCallback } from 'react';
-import { useNetwork } from '@/app/providers';
-import { downloadByRootHash, downloadByRootHashAPI, downloadBlobAsFile } from '@/lib/0g/downloader';
+import { useState, useCallback, useEffect } from 'react';
+import { useNetwork, NetworkType } from '@/app/providers';
+import { downloadByRootHash, downloadByRootHashToSink } from '@/lib/0g/downloader';
 import { verifyFileOnChain } from '@/lib/0g/verification';
 import { getNetworkConfig } from '@/lib/0g/network';
+import { EncryptionParams } from '@/lib/0g/encryption';
 import { useWallet } from '@/hooks/useWallet';
+import { DownloadState, listDownloadStates, deleteDownloadState } from '@/utils/downloadStore';
+import { FileSink, createFileSink, reopenFileSink } from '@/utils/download';
+import { hasCachedContent } from '@/utils/contentCacheStore';
+
+export interface DownloadProgress {
+  receivedBytes: number;
+  totalBytes: number; // 0이면 전체 크기를 알 수 없음
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+}
+
+const PROGRESS_INTERVAL_MS = 250;
 
 /**
  * Custom hook for handling file downloads from 0G Storage
@@ -15,9 +28,31 @@ export function useDownload() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [downloadStatus, setDownloadStatus] = useState('');
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  // 새로고침 등으로 중단되어 이어받을 수 있는 다운로드 목록
+  const [pendingDownloads, setPendingDownloads] = useState<DownloadState[]>([]);
+
+  const refreshPendingDownloads = useCallback(async () => {
+    try {
+      setPendingDownloads(await listDownloadStates());
+    } catch (error) {
+      console.warn('[useDownload] Failed to load interrupted downloads:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshPendingDownloads();
+  }, [refreshPendingDownloads]);
 
   // Download a file by root hash with retry logic
-  const downloadFile = useCallback(async (rootHash: string, fileName?: string, verifyOnChain: boolean = true) => {
+  const downloadFile = useCallback(async (
+    rootHash: string,
+    fileName?: string,
+    verifyOnChain: boolean = true,
+    encryption?: EncryptionParams,
+    targetNetworkType: NetworkType = networkType,
+    reopenedSink?: FileSink
+  ) => {
     if (!rootHash) {
       setError('Root hash is required');
       return false;
@@ -25,14 +60,39 @@ export function useDownload() {
     
     setLoading(true);
     setError('');
+    setProgress(null);
+    setDownloadStatus('Choosing where to save...');
+    
+    const defaultFileName = `download-${rootHash.substring(0, 8)}.bin`;
+    
+    // 저장 위치는 사용자 클릭 직후(다른 await 전에) 열어야 브라우저가 허용함
+    let sink: FileSink;
+    try {
+      sink = reopenedSink ?? await createFileSink(fileName || defaultFileName, encryption?.originalSize);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        console.log('[useDownload] Save dialog cancelled');
+      } else {
+        console.error('[useDownload] Failed to open download destination:', error);
+        setError(`Failed to open download destination: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      setDownloadStatus('');
+      setLoading(false);
+      return false;
+    }
+    
     setDownloadStatus('Connecting to storage...');
     
+    // 캐시된 내용은 처음 받을 때 확인했고 읽을 때 root hash로 다시 검증하므로 오프라인에서도 바로 제공
+    const cached = await hasCachedContent(rootHash).catch(() => false);
+    
     // Verify on chain first if requested
-    if (verifyOnChain) {
+    if (verifyOnChain && !cached) {
       setDownloadStatus('Verifying file on chain...');
-      const verificationResult = await verifyFileOnChain(rootHash, networkType);
+      const verificationResult = await verifyFileOnChain(rootHash, targetNetworkType);
       
       if (!verificationResult.verified) {
+        await sink.abort('verification failed').catch(() => undefined);
         setError('File verification failed: File not found on chain or verification error');
         setDownloadStatus('');
         setLoading(false);
@@ -50,53 +110,56 @@ export function useDownload() {
     
     try {
       // 1. Get current network
-      const network = getNetworkConfig(networkType);
-      console.log(`[useDownload] Using network:`, networkType);
+      const network = getNetworkConfig(targetNetworkType);
+      console.log(`[useDownload] Using network:`, targetNetworkType);
       console.log(`[useDownload] Storage RPC:`, network.storageRpc);
       
-      // 2. Download blob from storage using the direct API method
-      setDownloadStatus('Downloading file...');
-      let fileData, downloadErr;
-      
-      // Use the API-based download method
-      [fileData, downloadErr] = await downloadByRootHashAPI(rootHash, network.storageRpc);
+      // 2. Stream the file from storage straight into the sink (encrypted files are decrypted transparently)
+      setDownloadStatus(cached
+        ? 'Reading file from this device...'
+        : encryption ? 'Downloading and decrypting file...' : 'Downloading file...');
+      
+      // 전송 속도는 이번 세션에서 받은 바이트 기준 (이어받기 시 저장된 세그먼트 제외)
+      let baseline: { bytes: number; time: number } | null = null;
+      let lastUpdate = 0;
+      const onProgress = (receivedBytes: number, totalBytes: number) => {
+        const now = Date.now();
+        if (!baseline) {
+          baseline = { bytes: receivedBytes, time: now };
+        }
+        if (now - lastUpdate < PROGRESS_INTERVAL_MS && receivedBytes !== totalBytes) {
+          return;
+        }
+        lastUpdate = now;
+        const elapsed = (now - baseline.time) / 1000;
+        const bytesPerSecond = elapsed > 0 ? (receivedBytes - baseline.bytes) / elapsed : 0;
+        const etaSeconds = totalBytes > 0 && bytesPerSecond > 0
+          ? Math.max(0, (totalBytes - receivedBytes) / bytesPerSecond)
+          : null;
+        setProgress({ receivedBytes, totalBytes, bytesPerSecond, etaSeconds });
+      };
+      
+      const [receivedBytes, downloadErr] = await downloadByRootHashToSink(rootHash, network.storageRpc, sink, encryption, {
+        fileName: fileName || defaultFileName,
+        networkType: targetNetworkType,
+        verifyOnChain,
+        onProgress,
+        useCache: true,
+      });
+      await refreshPendingDownloads();
       
-      // If API download fails, throw the error immediately
+      // If the download fails, throw the error immediately (the sink has already been aborted)
       if (downloadErr) {
         console.log(`[useDownload] API download failed: ${downloadErr.message}`);
         throw downloadErr;
       }
       
-      // If we got here but fileData is null, it's an unexpected error
-      if (!fileData) {
-        console.log('[useDownload] Download error: fileData is null but no error was thrown');
-        throw new Error('File data is null or empty');
-      }
-      
-      // Add additional validation to ensure fileData is an ArrayBuffer
-      if (!(fileData instanceof ArrayBuffer)) {
-        console.log('[useDownload] Download error: fileData is not an ArrayBuffer');
-        throw new Error(`Invalid file data type: ${typeof fileData}`);
-      }
-      
-      if (fileData.byteLength === 0) {
-        console.log('[useDownload] Download error: fileData is empty (zero length)');
+      if (!receivedBytes) {
+        console.log('[useDownload] Download error: no data received');
         throw new Error('Downloaded file is empty');
       }
       
-      console.log(`[useDownload] Successfully downloaded ${fileData.byteLength} bytes`);
-      
-      // 3. Start download
-      setDownloadStatus('Starting download...');
-      const defaultFileName = `download-${rootHash.substring(0, 8)}.bin`;
-      
-      try {
-        downloadBlobAsFile(fileData, fileName || defaultFileName);
-        console.log('[useDownload] File download initiated successfully');
-      } catch (blobError) {
-        console.log('[useDownload] Error in downloadBlobAsFile:', blobError);
-        throw new Error(`Failed to create downloadable file: ${blobError instanceof Error ? blobError.message : String(blobError)}`);
-      }
+      console.log(`[useDownload] Successfully downloaded ${receivedBytes} bytes using ${sink.kind} sink`);
       
       setDownloadStatus('Download complete!');
       
@@ -123,7 +186,9 @@ export function useDownload() {
         userFriendlyMessage = '외부 서버에 문제가 있습니다. 잠시 후 다시 시도해주세요.';
       }
       
-      setError(userFriendlyMessage);
+      // 받은 세그먼트가 저장되어 있으면 이어받기 안내
+      const interrupted = (await listDownloadStates().catch(() => [])).some(d => d.rootHash === rootHash);
+      setError(interrupted ? `${userFriendlyMessage} (진행 상황이 저장되었습니다. 이어받기로 계속할 수 있습니다.)` : userFriendlyMessage);
       setDownloadStatus('');
       
       // 에러 발생 후 5초 뒤에 상태 리셋
@@ -134,12 +199,38 @@ export function useDownload() {
       
       return false;
     }
-  }, [networkType]);
+  }, [networkType, refreshPendingDownloads]);
+
+  // Resume an interrupted download with the settings it was started with
+  const resumeDownload = useCallback(async (rootHash: string) => {
+    const saved = pendingDownloads.find(d => d.rootHash === rootHash);
+    if (!saved) {
+      setError('No interrupted download found for this file');
+      return false;
+    }
+    // 파일에 바로 기록하던 다운로드는 같은 파일을 다시 열어 이어서 기록 (열 수 없으면 저장 위치를 다시 골라 처음부터)
+    const sink = saved.fileHandle ? await reopenFileSink(saved.fileHandle, saved.writtenBytes ?? 0) : null;
+    return downloadFile(saved.rootHash, saved.fileName, saved.verifyOnChain, saved.encryption, saved.networkType, sink ?? undefined);
+  }, [pendingDownloads, downloadFile]);
+
+  // Discard the saved progress of an interrupted download
+  const discardDownload = useCallback(async (rootHash: string) => {
+    try {
+      await deleteDownloadState(rootHash);
+    } catch (error) {
+      console.warn('[useDownload] Failed to discard interrupted download:', error);
+    }
+    await refreshPendingDownloads();
+  }, [refreshPendingDownloads]);
 
   return {
     loading,
     error,
     downloadStatus,
-    downloadFile
+    progress,
+    pendingDownloads,
+    downloadFile,
+    resumeDownload,
+    discardDownload
   };
 } 
\ No newline at end of file
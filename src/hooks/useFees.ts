@@ -1,16 +1,16 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useNetwork } from '@/app/providers';
-import { createZgFile, generateMerkleTree, createSubmission, getRootHash } from '@/lib/0g/blob';
+import { BlobFile, createZgFile, generateMerkleTree, createSubmission, getRootHash } from '@/lib/0g/blob';
 import { getProvider, getSigner, getFlowContract, calculateFees, FeeInfo } from '@/lib/0g/fees';
 import { getNetworkConfig } from '@/lib/0g/network';
-import { ZgFile, MerkleTree } from '@0glabs/0g-ts-sdk';
+import { MerkleTree } from '@0glabs/0g-ts-sdk';
 import { Contract } from 'ethers';
 
 export type { FeeInfo };
 
 /**
  * Custom hook for calculating fees for file uploads
- * Handles ZgFile creation, merkle tree generation, and fee calculation
+ * Handles 0G file creation, merkle tree generation, and fee calculation
  */
 export function useFees() {
   const { networkType } = useNetwork();
@@ -24,17 +24,31 @@ export function useFees() {
     isLoading: false
   });
   const [error, setError] = useState('');
-  const [zgFile, setZgFile] = useState<ZgFile | null>(null);
+  const [zgFile, setZgFile] = useState<BlobFile | null>(null);
   const [tree, setTree] = useState<MerkleTree | null>(null);
   const [rootHash, setRootHash] = useState('');
   const [submission, setSubmission] = useState<any | null>(null);
   const [flowContract, setFlowContract] = useState<Contract | null>(null);
+  // root hash 계산 진행률 (0~1, 계산 중이 아니면 null)
+  const [hashProgress, setHashProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel an in-progress root hash calculation
+  const cancelCalculation = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setHashProgress(null);
+    setFeeInfo(prev => ({ ...prev, isLoading: false }));
+  }, []);
 
   // Calculate fees for a file
   const calculateFeesForFile = useCallback(async (file: File, isWalletConnected: boolean) => {
     if (!file) return;
     
-    // Reset state for new calculation
+    // Reset state for new calculation (이전 계산은 취소)
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setError('');
     setFeeInfo(prev => ({ ...prev, isLoading: true }));
     
@@ -46,19 +60,29 @@ export function useFees() {
     }
     
     try {
-      // 1. Create a ZgFile from the file
+      // 1. Create a Blob-backed 0G file (segments are read lazily, not loaded into memory)
       const [newZgFile, zgFileErr] = await createZgFile(file);
       if (!newZgFile) {
-        setError(`Failed to create ZgFile: ${zgFileErr?.message}`);
+        setError(`Failed to prepare file: ${zgFileErr?.message}`);
         setFeeInfo(prev => ({ ...prev, isLoading: false }));
         return;
       }
       setZgFile(newZgFile);
       
-      // 2. Generate a merkle tree
+      // 2. Hash the file in a Web Worker (merkle tree and submission nodes are cached on the file)
+      setHashProgress(0);
+      const [, computeErr] = await newZgFile.computeHashes({
+        signal: controller.signal,
+        onProgress: (processed, total) => setHashProgress(total > 0 ? processed / total : 1),
+      });
+      setHashProgress(null);
+      if (controller.signal.aborted) {
+        console.log('[useFees] Root hash calculation cancelled');
+        return;
+      }
       const [newTree, treeErr] = await generateMerkleTree(newZgFile);
       if (!newTree) {
-        setError(`Failed to generate merkle tree: ${treeErr?.message}`);
+        setError(`Failed to generate merkle tree: ${(computeErr || treeErr)?.message}`);
         setFeeInfo(prev => ({ ...prev, isLoading: false }));
         await newZgFile.close();
         return;
@@ -113,7 +137,10 @@ export function useFees() {
         return;
       }
       
-      // 8. Update state with all calculation results
+      // 8. Update state with all calculation results (다른 파일로 다시 계산 중이면 무시)
+      if (controller.signal.aborted) {
+        return;
+      }
       setFeeInfo({
         ...fees,
         isLoading: false
@@ -134,6 +161,8 @@ export function useFees() {
   return {
     feeInfo,
     error,
+    hashProgress,
+    cancelCalculation,
     zgFile,
     tree,
     rootHash,
@@ -0,0 +1,207 @@
+import { useState, useCallback, useRef } from 'react';
+import { useNetwork } from '@/app/providers';
+import { useWallet } from '@/hooks/useWallet';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { getProvider, getSigner, getFlowContract, estimateBatchFees, FeeInfo } from '@/lib/0g/fees';
+import { estimateEncryptedSize } from '@/lib/0g/encryption';
+import { getNetworkConfig } from '@/lib/0g/network';
+import type { UploadEntry } from '@/lib/0g/uploadQueue';
+import { FileMeta, addSyncedFileMeta, getAllFileMeta } from '@/utils/indexeddb';
+import { FolderNode, getUniqueName } from '@/utils/folderTree';
+
+// 같은 이름이 이미 있을 때: 건너뛰기 / 새 이름으로 추가 / 기존 파일의 새 버전 (폴더는 skip·version 시 병합)
+export type ConflictPolicy = 'skip' | 'rename' | 'version';
+
+export interface FolderUploadResult {
+  foldersCreated: number;
+  foldersMerged: number;
+  filesQueued: number;
+  filesSkipped: number;
+}
+
+const EMPTY_FEES: FeeInfo = {
+  storageFee: '0',
+  estimatedGas: '0',
+  totalFee: '0',
+  rawStorageFee: BigInt(0),
+  rawGasFee: BigInt(0),
+  rawTotalFee: BigInt(0),
+  isLoading: false
+};
+
+/**
+ * Custom hook for uploading a directory tree (or several loose files) at once
+ * Estimates the combined fee, recreates the folder hierarchy in IndexedDB and /api/files,
+ * and enqueues every file under the matching folder
+ */
+export function useFolderUpload() {
+  const { networkType } = useNetwork();
+  const { address, authFetch } = useWallet();
+  const { enqueueEntries } = useUploadQueue();
+  const [feeInfo, setFeeInfo] = useState<FeeInfo>(EMPTY_FEES);
+  const [feeError, setFeeError] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const estimateIdRef = useRef(0);
+
+  // Estimate the combined fee of all files (one flow submission per file)
+  const estimateFees = useCallback(async (files: File[], encrypt: boolean) => {
+    const estimateId = ++estimateIdRef.current;
+    setFeeError('');
+    setFeeInfo({ ...EMPTY_FEES, isLoading: true });
+
+    try {
+      const [provider, providerErr] = await getProvider();
+      if (!provider) {
+        throw new Error(`Provider error: ${providerErr?.message}`);
+      }
+      const [signer, signerErr] = await getSigner(provider);
+      if (!signer) {
+        throw new Error(`Signer error: ${signerErr?.message}`);
+      }
+
+      const network = getNetworkConfig(networkType);
+      const flowContract = getFlowContract(network.flowAddress, signer);
+      const sizes = files.map(file => (encrypt ? estimateEncryptedSize(file.size) : file.size));
+      const [fees, feeErr] = await estimateBatchFees(sizes, flowContract, provider);
+      if (!fees) {
+        throw new Error(`Fee calculation error: ${feeErr?.message}`);
+      }
+
+      // 다른 선택으로 다시 계산 중이면 무시
+      if (estimateId === estimateIdRef.current) {
+        setFeeInfo(fees);
+      }
+    } catch (error) {
+      console.error('[useFolderUpload] Fee estimation failed:', error);
+      if (estimateId === estimateIdRef.current) {
+        setFeeError(error instanceof Error ? error.message : String(error));
+        setFeeInfo(EMPTY_FEES);
+      }
+    }
+  }, [networkType]);
+
+  // Create a folder in /api/files and IndexedDB with the same ID
+  const createFolder = useCallback(async (name: string, parentId: string | null): Promise<FileMeta> => {
+    const folder: FileMeta = {
+      id: crypto.randomUUID(),
+      type: 'folder',
+      name,
+      parentId,
+      walletAddress: address!,
+      uploadDate: new Date().toISOString(),
+      sharedWith: [],
+    };
+
+    const response = await authFetch('/api/files', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id: folder.id, type: 'folder', name, parentId }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error ? `${body.error}: ${name}` : `Failed to create folder "${name}"`);
+    }
+
+    // 서버에 이미 저장되었으므로 서버의 revision과 함께 저장하고 다시 보내지 않음
+    const { item: saved } = await response.json();
+    await addSyncedFileMeta({ ...folder, revision: saved?.revision });
+    console.log('[useFolderUpload] Folder created:', { name, id: folder.id, parentId });
+    return folder;
+  }, [address, authFetch]);
+
+  // Recreate the tree below parentId and enqueue its files
+  const uploadTree = useCallback(async (
+    tree: FolderNode,
+    parentId: string | null,
+    policy: ConflictPolicy,
+    encrypt: boolean
+  ): Promise<[FolderUploadResult | null, Error | null]> => {
+    if (!address) {
+      return [null, new Error('Wallet not connected')];
+    }
+
+    setUploading(true);
+    setError('');
+    const result: FolderUploadResult = { foldersCreated: 0, foldersMerged: 0, filesQueued: 0, filesSkipped: 0 };
+    const entries: UploadEntry[] = [];
+
+    const placeNode = async (node: FolderNode, targetId: string | null) => {
+      const existing = await getAllFileMeta(address, targetId);
+      const taken = new Set(existing.map(item => item.name));
+
+      for (const folder of node.folders) {
+        const match = existing.find(item => item.name === folder.name);
+        let folderId: string;
+        if (match?.type === 'folder' && policy !== 'rename') {
+          folderId = match.id;
+          result.foldersMerged++;
+        } else {
+          const name = getUniqueName(folder.name, taken, false);
+          taken.add(name);
+          folderId = (await createFolder(name, targetId)).id;
+          result.foldersCreated++;
+        }
+        await placeNode(folder, folderId);
+      }
+
+      for (const file of node.files) {
+        const match = existing.find(item => item.name === file.name);
+        if (!match) {
+          taken.add(file.name);
+          entries.push({ file, parentId: targetId });
+        } else if (policy === 'skip') {
+          result.filesSkipped++;
+        } else if (policy === 'version' && match.type === 'file') {
+          // 업로드가 끝나면 같은 이름의 파일에 새 버전으로 저장됨
+          entries.push({ file, parentId: targetId });
+        } else {
+          const name = getUniqueName(file.name, taken, true);
+          taken.add(name);
+          entries.push({ file, parentId: targetId, name });
+        }
+      }
+    };
+
+    try {
+      await placeNode(tree, parentId);
+
+      if (entries.length > 0) {
+        const [, enqueueErr] = await enqueueEntries(entries, encrypt);
+        if (enqueueErr) {
+          throw enqueueErr;
+        }
+      }
+      result.filesQueued = entries.length;
+      console.log('[useFolderUpload] Folder upload queued:', result);
+      return [result, null];
+    } catch (error) {
+      console.error('[useFolderUpload] Folder upload failed:', error);
+      const err = error instanceof Error ? error : new Error(String(error));
+      setError(err.message);
+      return [null, err];
+    } finally {
+      setUploading(false);
+    }
+  }, [address, createFolder, enqueueEntries]);
+
+  // Reset the estimate and errors (e.g. when the selection is cleared)
+  const resetFolderUpload = useCallback(() => {
+    estimateIdRef.current++;
+    setFeeInfo(EMPTY_FEES);
+    setFeeError('');
+    setError('');
+  }, []);
+
+  return {
+    feeInfo,
+    feeError,
+    uploading,
+    error,
+    estimateFees,
+    uploadTree,
+    resetFolderUpload
+  };
+}
@@ -1,28 +1,70 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import * as idb from '@/utils/indexeddb';
 import type { FileMeta } from '@/utils/indexeddb';
+import { getTrashCutoff } from '@/utils/storage';
+import { DEFAULT_PAGE_SIZE, DEFAULT_SORT, ListSort } from '@/utils/pagination';
+import type { MetadataUpdate } from '@/utils/metadata';
 
 export function useIndexedDB(walletAddress: string) {
   const [files, setFiles] = useState<FileMeta[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sort, setSortState] = useState<ListSort>(DEFAULT_SORT);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
   const lastWalletAddress = useRef<string>('');
   const isInitialized = useRef(false);
+  // 현재 목록의 폴더와 요청 순번 (폴더나 정렬이 바뀐 뒤 도착한 이전 페이지는 버림)
+  const currentParentId = useRef<string | null>(null);
+  const requestId = useRef(0);
 
-  const refresh = useCallback(async (parentId: string | null = null) => {
+  // 폴더의 첫 페이지부터 다시 로드
+  const refresh = useCallback(async (parentId: string | null = null, listSort: ListSort = sort) => {
     if (!walletAddress) return;
     
+    const request = ++requestId.current;
+    currentParentId.current = parentId;
     setLoading(true);
     try {
-      const data = await idb.getAllFileMeta(walletAddress, parentId);
-      setFiles(data);
+      const page = await idb.getFileMetaPage(walletAddress, parentId, { ...listSort, limit: DEFAULT_PAGE_SIZE });
+      if (request !== requestId.current) return;
+      setFiles(page.items);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
       setError(null);
     } catch (e) {
+      if (request !== requestId.current) return;
       setError((e as Error).message);
     } finally {
-      setLoading(false);
+      if (request === requestId.current) setLoading(false);
     }
-  }, [walletAddress]);
+  }, [walletAddress, sort]);
+
+  // 스크롤이 목록 끝에 가까워지면 다음 페이지를 이어 붙임
+  const loadMore = useCallback(async () => {
+    if (!walletAddress || !nextCursor || loadingMore) return;
+
+    const request = requestId.current;
+    setLoadingMore(true);
+    try {
+      const page = await idb.getFileMetaPage(walletAddress, currentParentId.current, { ...sort, cursor: nextCursor, limit: DEFAULT_PAGE_SIZE });
+      if (request !== requestId.current) return;
+      setFiles(prevFiles => [...prevFiles, ...page.items.filter(item => !prevFiles.some(f => f.id === item.id))]);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
+    } catch (e) {
+      if (request !== requestId.current) return;
+      setError((e as Error).message);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [walletAddress, nextCursor, loadingMore, sort]);
+
+  const setSort = useCallback(async (listSort: ListSort) => {
+    setSortState(listSort);
+    await refresh(currentParentId.current, listSort);
+  }, [refresh]);
 
   useEffect(() => {
     if (walletAddress && walletAddress !== lastWalletAddress.current) {
@@ -34,6 +76,14 @@ export function useIndexedDB(walletAddress: string) {
       lastWalletAddress.current = walletAddress;
       isInitialized.current = false;
       refresh(null);
+
+      // 보관 기간이 지난 휴지통 아이템 정리
+      const cutoff = getTrashCutoff();
+      if (cutoff) {
+        idb.purgeTrashedFileMeta(walletAddress, cutoff).catch(e => {
+          console.error('[useIndexedDB] 휴지통 정리 실패:', e);
+        });
+      }
       console.log('[useIndexedDB] DB 초기화 - 새로운 지갑:', walletAddress);
     }
   }, [walletAddress]);
@@ -85,19 +135,36 @@ export function useIndexedDB(walletAddress: string) {
     console.log('[useIndexedDB] update completed for:', meta.name);
   }, [refresh, files]);
 
+  // 태그, 별표, 설명, 속성 변경 - 불러온 페이지를 유지한 채 해당 아이템만 교체
+  const updateMetadata = useCallback(async (id: string, update: MetadataUpdate) => {
+    const updated = await idb.updateFileMetadata(id, walletAddress, update);
+    if (updated) {
+      setFiles(prevFiles => prevFiles.map(f => (f.id === id ? updated : f)));
+    }
+    return updated;
+  }, [walletAddress]);
+
   const deleteFile = useCallback(async (id: string, parentId: string | null) => {
+    // 영구 삭제가 아닌 휴지통으로 이동
     await idb.deleteFileMeta(id, walletAddress);
     await refresh(parentId);
-    console.log('[useIndexedDB] remove', id);
+    console.log('[useIndexedDB] moved to trash', id);
   }, [walletAddress, refresh]);
 
   return {
     files,
     loading,
     error,
+    sort,
+    setSort,
+    total,
+    hasMore: nextCursor !== null,
+    loadingMore,
+    loadMore,
     refresh,
     addFile,
     updateFile,
+    updateMetadata,
     deleteFile,
   };
 } 
\ No newline at end of file
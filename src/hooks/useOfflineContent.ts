@@ -0,0 +1,154 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useNetwork, NetworkType } from '@/app/providers';
+import { useWallet } from '@/hooks/useWallet';
+import { cacheFileContent } from '@/lib/0g/downloader';
+import { getNetworkConfig } from '@/lib/0g/network';
+import { getOfflineItemIds, listCachedContent, setContentPins, setItemOffline } from '@/utils/contentCacheStore';
+import { getWalletFileMeta, FileMeta } from '@/utils/indexeddb';
+import { subscribeSyncQueue } from '@/utils/syncStore';
+import type { Item } from '@/hooks/useFileList';
+
+// 로컬 변경이 이어질 때 한 번만 다시 확인하도록 기다리는 시간
+const RECONCILE_DEBOUNCE_MS = 2 * 1000;
+
+// 아이템 자신이나 상위 폴더 중 하나가 오프라인으로 지정되었는지
+function isMarked(item: FileMeta, byId: Map<string, FileMeta>, marks: Set<string>): boolean {
+  const seen = new Set<string>();
+  for (let current: FileMeta | undefined = item; current && !seen.has(current.id); current = byId.get(current.parentId ?? '')) {
+    if (marks.has(current.id)) {
+      return true;
+    }
+    seen.add(current.id);
+  }
+  return false;
+}
+
+/**
+ * Custom hook for making files and folders available offline on this device
+ * Marked files (and every file inside marked folders, including ones added later) are downloaded into the
+ * content cache and pinned there, so they are never evicted and downloads are served without the network.
+ */
+export function useOfflineContent() {
+  const { networkType } = useNetwork();
+  const { address } = useWallet();
+  const [offlineIds, setOfflineIds] = useState<Set<string>>(new Set());
+  const [cachedHashes, setCachedHashes] = useState<Set<string>>(new Set());
+  const [pendingCount, setPendingCount] = useState(0); // 아직 받지 못한 오프라인 파일 수
+  const [error, setError] = useState<string | null>(null);
+  // 동시에 한 번만 실행하고, 도중에 요청이 오면 끝난 뒤 한 번 더 실행
+  const runningRef = useRef(false);
+  const rerunRef = useRef(false);
+
+  const refreshCached = useCallback(async () => {
+    try {
+      setCachedHashes(new Set((await listCachedContent()).map(entry => entry.rootHash)));
+    } catch (e) {
+      console.warn('[useOfflineContent] Failed to list cached contents:', e);
+    }
+  }, []);
+
+  // 오프라인으로 지정된 파일을 모두 캐시에 고정하고, 없는 내용은 받음
+  const reconcile = useCallback(async () => {
+    if (!address) return;
+    if (runningRef.current) {
+      rerunRef.current = true;
+      return;
+    }
+
+    runningRef.current = true;
+    try {
+      do {
+        rerunRef.current = false;
+        const marks = new Set(await getOfflineItemIds(address));
+        setOfflineIds(marks);
+
+        const items = await getWalletFileMeta(address);
+        const byId = new Map(items.map(item => [item.id, item]));
+        const files = items.filter(item => item.type === 'file' && item.rootHash && !item.shortcutTo && isMarked(item, byId, marks));
+        const missing = new Set(await setContentPins(address, new Set(files.map(file => file.rootHash!))));
+        const toDownload = files.filter(file => missing.delete(file.rootHash!.toLowerCase()));
+
+        let failed = 0;
+        setPendingCount(toDownload.length);
+        for (const [index, file] of toDownload.entries()) {
+          const network = getNetworkConfig((file.networkType as NetworkType) || networkType);
+          const [, cacheErr] = await cacheFileContent(file.rootHash!, network.storageRpc, address);
+          if (cacheErr) {
+            failed++;
+            console.error('[useOfflineContent] Failed to make file available offline:', file.name, cacheErr);
+          }
+          setPendingCount(toDownload.length - index - 1);
+        }
+        setError(failed > 0 ? `${failed} file${failed === 1 ? '' : 's'} could not be made available offline` : null);
+        await refreshCached();
+      } while (rerunRef.current);
+    } catch (e) {
+      console.error('[useOfflineContent] Failed to update offline files:', e);
+      setError((e as Error).message);
+    } finally {
+      runningRef.current = false;
+    }
+  }, [address, networkType, refreshCached]);
+
+  useEffect(() => {
+    setOfflineIds(new Set());
+    setPendingCount(0);
+    setError(null);
+    refreshCached();
+    reconcile();
+  }, [reconcile, refreshCached]);
+
+  // 오프라인 폴더에 파일이 추가되거나 바뀌면 다시 확인, 다시 온라인이 되면 받지 못한 파일을 다시 시도
+  useEffect(() => {
+    if (!address) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(reconcile, RECONCILE_DEBOUNCE_MS);
+    };
+    const unsubscribe = subscribeSyncQueue(walletAddress => {
+      if (walletAddress === address.toLowerCase()) schedule();
+    });
+    window.addEventListener('online', schedule);
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+      window.removeEventListener('online', schedule);
+    };
+  }, [address, reconcile]);
+
+  const toggleOffline = useCallback(async (item: Item) => {
+    if (!address) {
+      return [false, new Error('Wallet not connected')] as const;
+    }
+    try {
+      const offline = !offlineIds.has(item.id);
+      await setItemOffline(address, item.id, offline);
+      setOfflineIds(prev => {
+        const next = new Set(prev);
+        if (offline) {
+          next.add(item.id);
+        } else {
+          next.delete(item.id);
+        }
+        return next;
+      });
+      reconcile();
+      return [offline, null] as const;
+    } catch (e) {
+      console.error('[useOfflineContent] Failed to update offline setting:', e);
+      return [false, e as Error] as const;
+    }
+  }, [address, offlineIds, reconcile]);
+
+  const isCached = useCallback((item: Item) => !!item.rootHash && cachedHashes.has(item.rootHash.toLowerCase()), [cachedHashes]);
+
+  return {
+    offlineIds,
+    pendingCount,
+    error,
+    isCached,
+    toggleOffline,
+    refreshCached,
+  };
+}
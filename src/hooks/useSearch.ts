@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { useWallet } from '@/hooks/useWallet';
+import * as idb from '@/utils/indexeddb';
+import type { FileSearchResult } from '@/utils/indexeddb';
+import { SearchFilters, hasSearchFilters } from '@/utils/search';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_RESULT_LIMIT = 200;
+
+/**
+ * Custom hook for searching the whole drive of the connected wallet
+ * Runs the search shortly after the filters stop changing; no filters means no results
+ * @param filters The search filters
+ */
+export function useSearch(filters: SearchFilters) {
+  const { address } = useWallet();
+  const [results, setResults] = useState<FileSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 필터 객체가 매 렌더마다 새로 만들어져도 내용이 같으면 다시 검색하지 않음
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    const currentFilters: SearchFilters = JSON.parse(filtersKey);
+    if (!address || !hasSearchFilters(currentFilters)) {
+      setResults([]);
+      setTotal(0);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const { results, total } = await idb.searchFileMeta(address, currentFilters, SEARCH_RESULT_LIMIT);
+        if (cancelled) return;
+        setResults(results);
+        setTotal(total);
+        setError(null);
+      } catch (e) {
+        if (cancelled) return;
+        console.error('[useSearch] Search failed:', e);
+        setError((e as Error).message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [address, filtersKey]);
+
+  return {
+    results,
+    total,
+    loading,
+    error
+  };
+}
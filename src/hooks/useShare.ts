@@ -1,27 +1,38 @@
-import { useState } from 'react';
+import { useState, useCallback } from 'react';
 import { useWallet } from './useWallet';
+import { FileMeta, setFileRevisions } from '@/utils/indexeddb';
+import type { Item } from '@/hooks/useFileList';
+import type { ShareLink } from '@/utils/shareLinks';
+import { DEFAULT_SHARE_ROLE, ShareRole } from '@/utils/permissions';
+
+export interface CreateShareLinkOptions {
+  expiresAt?: string | null;
+  password?: string | null;
+  maxDownloads?: number | null;
+}
 
 export const useShare = () => {
   const [loading, setLoading] = useState(false);
-  const { address } = useWallet();
+  const { address, authFetch } = useWallet();
 
-  const shareFile = async (itemId: string, targetWalletAddress: string) => {
+  // 이미 공유된 지갑에 다시 공유하면 역할만 바뀜
+  const shareFile = async (itemId: string, targetWalletAddress: string, role: ShareRole = DEFAULT_SHARE_ROLE) => {
     if (!address) {
       throw new Error('Wallet not connected');
     }
 
     setLoading(true);
     try {
-      const response = await fetch('/api/files', {
+      const response = await authFetch('/api/files', {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           itemId,
-          walletAddress: address,
           action: 'share',
           targetWalletAddress,
+          role,
         }),
       });
 
@@ -43,14 +54,13 @@ export const useShare = () => {
 
     setLoading(true);
     try {
-      const response = await fetch('/api/files', {
+      const response = await authFetch('/api/files', {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           itemId,
-          walletAddress: address,
           action: 'unshare',
           targetWalletAddress,
         }),
@@ -67,9 +77,157 @@ export const useShare = () => {
     }
   };
 
+  // 파일 메타데이터는 IndexedDB에 먼저 저장되므로, 링크를 만들기 전에 서버에도 같은 ID로 등록
+  const ensureServerItem = async (item: FileMeta): Promise<string> => {
+    const existing = await authFetch(`/api/files/${encodeURIComponent(item.id)}`);
+    if (existing.ok) {
+      return item.id;
+    }
+
+    const { id, type, name, parentId, fileExtension, fileSize, rootHash, networkType, encryption } = item;
+    const response = await authFetch('/api/files', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id, type, name, parentId, fileExtension, fileSize, rootHash, networkType, encryption }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to register file');
+    }
+    const { item: saved } = await response.json();
+    // 같은 이름의 파일이 서버에 이미 있으면 그 파일의 새 버전으로 저장되므로, 다른 아이템의 링크를 만들지 않음
+    if (saved.id !== id) {
+      throw new Error('Another file with the same name is already on the server; sync or rename this file before sharing it');
+    }
+    // 대기 중인 동기화가 서버에 방금 만든 아이템을 충돌로 보지 않도록 서버의 revision을 기록
+    if (saved.revision) {
+      await setFileRevisions(address!, new Map([[id, saved.revision]]));
+    }
+    return id;
+  };
+
+  // ShareModal이 effect에서 호출하므로 참조를 고정
+  const listShareLinks = useCallback(async (itemId: string): Promise<ShareLink[]> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    const response = await authFetch(`/api/share-links?itemId=${encodeURIComponent(itemId)}`);
+    // 서버에 아직 등록되지 않은 파일은 링크도 없음
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to load share links');
+    }
+    const { links } = await response.json();
+    return links;
+  }, [address, authFetch]);
+
+  const createShareLink = async (item: FileMeta, options: CreateShareLinkOptions): Promise<ShareLink> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    setLoading(true);
+    try {
+      const itemId = await ensureServerItem(item);
+      const response = await authFetch('/api/share-links', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ itemId, ...options }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create share link');
+      }
+
+      const { link } = await response.json();
+      return link;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revokeShareLink = async (linkId: string): Promise<ShareLink> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    setLoading(true);
+    try {
+      const response = await authFetch(`/api/share-links/${encodeURIComponent(linkId)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to revoke share link');
+      }
+
+      const { link } = await response.json();
+      return link;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 공유받은 아이템을 서버에서 다시 조회 (바로가기를 열 때마다 현재 권한 확인)
+  const getSharedItem = useCallback(async (itemId: string): Promise<[Item | null, Error | null]> => {
+    try {
+      const response = await authFetch(`/api/files/${encodeURIComponent(itemId)}`);
+      if (response.status === 404) {
+        return [null, new Error('This item is no longer shared with you')];
+      }
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        return [null, new Error(error.error || 'Failed to open shared item')];
+      }
+      const { item } = await response.json();
+      return [item, null];
+    } catch (e) {
+      return [null, e instanceof Error ? e : new Error(String(e))];
+    }
+  }, [authFetch]);
+
+  // 공유받은 아이템의 바로가기를 내 폴더에 추가 (서버에 만든 바로가기를 돌려주며, IndexedDB 저장은 호출한 쪽에서)
+  const addShortcut = async (targetId: string, parentId: string | null): Promise<[Item | null, Error | null]> => {
+    setLoading(true);
+    try {
+      const response = await authFetch('/api/files/shortcuts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ targetId, parentId }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        return [null, new Error(error.error || 'Failed to add shortcut')];
+      }
+      const { item } = await response.json();
+      return [item, null];
+    } catch (e) {
+      return [null, e instanceof Error ? e : new Error(String(e))];
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return {
     shareFile,
     unshareFile,
+    getSharedItem,
+    addShortcut,
+    listShareLinks,
+    createShareLink,
+    revokeShareLink,
     loading,
   };
 }; 
\ No newline at end of file
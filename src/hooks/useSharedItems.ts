@@ -0,0 +1,111 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useWallet } from '@/hooks/useWallet';
+import type { Item } from '@/hooks/useFileList';
+
+// 공유해준 지갑별로 묶은 공유받은 아이템
+export interface SharedGroup {
+  sharedBy: string;
+  items: Item[];
+}
+
+/**
+ * Custom hook for the items other wallets shared with the connected wallet
+ * Without a folder it lists the directly shared items grouped by sharer;
+ * with a shared folder it lists that folder's contents page by page (access is checked by the server each time)
+ * @param folderId The shared folder being browsed, or null for the "Shared with me" overview
+ */
+export function useSharedItems(folderId: string | null) {
+  const { address, authFetch } = useWallet();
+  const [groups, setGroups] = useState<SharedGroup[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 폴더를 빠르게 바꿀 때 이전 요청의 응답 무시
+  const requestIdRef = useRef(0);
+
+  const fetchFolderPage = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams({ parentId: folderId! });
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+    const response = await authFetch(`/api/files?${params}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load shared folder');
+    }
+    return data as { items: Item[]; nextCursor: string | null };
+  }, [folderId, authFetch]);
+
+  const refresh = useCallback(async () => {
+    if (!address) {
+      setGroups([]);
+      setItems([]);
+      return;
+    }
+
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    try {
+      if (folderId === null) {
+        const response = await authFetch('/api/files/shared');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load shared items');
+        }
+        if (requestId !== requestIdRef.current) return;
+        setGroups(data.groups);
+        setItems([]);
+        setNextCursor(null);
+      } else {
+        const page = await fetchFolderPage(null);
+        if (requestId !== requestIdRef.current) return;
+        setItems(page.items);
+        setNextCursor(page.nextCursor);
+      }
+      setError(null);
+    } catch (e) {
+      console.error('[useSharedItems] Failed to load shared items:', e);
+      if (requestId === requestIdRef.current) {
+        setError((e as Error).message);
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [address, folderId, authFetch, fetchFolderPage]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const loadMore = useCallback(async () => {
+    if (folderId === null || !nextCursor || loading) return;
+    const requestId = requestIdRef.current;
+    setLoading(true);
+    try {
+      const page = await fetchFolderPage(nextCursor);
+      if (requestId !== requestIdRef.current) return;
+      setItems(prev => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      console.error('[useSharedItems] Failed to load more:', e);
+      setError((e as Error).message);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [folderId, nextCursor, loading, fetchFolderPage]);
+
+  return {
+    groups,
+    items,
+    hasMore: nextCursor !== null,
+    loading,
+    error,
+    refresh,
+    loadMore,
+  };
+}
@@ -0,0 +1,154 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useWallet } from '@/hooks/useWallet';
+import { syncWallet } from '@/lib/sync/engine';
+import { getSyncCursor, getSyncQueue, subscribeSyncQueue } from '@/utils/syncStore';
+import { SYNC_DEBOUNCE_MS, SYNC_INTERVAL_MS, SyncConflict, SyncRejection, SyncState } from '@/utils/sync';
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+/**
+ * Custom hook for syncing the connected wallet's items with the server
+ * Syncs in the background once signed in (periodically, shortly after local changes, and when the connection comes back);
+ * while offline or signed out, changes wait in the queue. syncNow signs in if needed.
+ * @param onRemoteChanges Called after the sync changed items in IndexedDB, to reload the list
+ */
+export function useSync(onRemoteChanges?: () => void) {
+  const { address, isAuthenticated, authFetch } = useWallet();
+  const [state, setState] = useState<SyncState>('idle');
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [rejected, setRejected] = useState<SyncRejection[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // 동시에 한 번만 동기화하고, 도중에 요청이 오면 끝난 뒤 한 번 더 실행
+  const runningRef = useRef(false);
+  const rerunRef = useRef(false);
+  const onRemoteChangesRef = useRef(onRemoteChanges);
+  onRemoteChangesRef.current = onRemoteChanges;
+
+  const updatePending = useCallback(async () => {
+    if (!address) {
+      setPendingCount(0);
+      return 0;
+    }
+    try {
+      const count = (await getSyncQueue(address)).length;
+      setPendingCount(count);
+      return count;
+    } catch (e) {
+      console.error('[useSync] Failed to read the sync queue:', e);
+      return 0;
+    }
+  }, [address]);
+
+  const syncNow = useCallback(async () => {
+    if (!address) return;
+    if (runningRef.current) {
+      rerunRef.current = true;
+      return;
+    }
+    if (!isOnline()) {
+      setState('offline');
+      return;
+    }
+
+    runningRef.current = true;
+    setState('syncing');
+    try {
+      do {
+        rerunRef.current = false;
+        const [result, syncError] = await syncWallet(address, authFetch);
+        if (syncError) {
+          setError(syncError.message);
+          setState(isOnline() ? 'error' : 'offline');
+          return;
+        }
+        setError(null);
+        setLastSyncedAt(new Date().toISOString());
+        if (result!.conflicts.length > 0) {
+          setConflicts(result!.conflicts);
+        }
+        if (result!.rejected.length > 0) {
+          setRejected(result!.rejected);
+        }
+        if (result!.pulled > 0) {
+          onRemoteChangesRef.current?.();
+        }
+      } while (rerunRef.current);
+      setState((await updatePending()) > 0 ? 'pending' : 'idle');
+    } finally {
+      runningRef.current = false;
+      updatePending();
+    }
+  }, [address, authFetch, updatePending]);
+
+  // 지갑이 바뀌면 이전 지갑의 상태 초기화
+  useEffect(() => {
+    setConflicts([]);
+    setRejected([]);
+    setError(null);
+    setLastSyncedAt(null);
+    if (!address) {
+      setState('idle');
+      setPendingCount(0);
+      return;
+    }
+    getSyncCursor(address)
+      .then(cursor => setLastSyncedAt(cursor.lastSyncedAt))
+      .catch(e => console.error('[useSync] Failed to read the sync cursor:', e));
+    updatePending().then(count => setState(!isOnline() ? 'offline' : count > 0 ? 'pending' : 'idle'));
+  }, [address, updatePending]);
+
+  // 로그인되어 있으면 연결 시, 주기적으로, 다시 온라인이 되었을 때 동기화
+  useEffect(() => {
+    if (!address || !isAuthenticated) return;
+    syncNow();
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+    const handleOnline = () => syncNow();
+    const handleOffline = () => setState('offline');
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [address, isAuthenticated, syncNow]);
+
+  // 로컬 변경이 대기열에 들어오면 잠시 모았다가 보냄
+  useEffect(() => {
+    if (!address) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeSyncQueue(walletAddress => {
+      if (walletAddress !== address.toLowerCase()) return;
+      updatePending().then(count => {
+        if (count > 0 && !runningRef.current) {
+          setState(isOnline() ? 'pending' : 'offline');
+        }
+      });
+      if (!isAuthenticated) return;
+      clearTimeout(timer);
+      timer = setTimeout(syncNow, SYNC_DEBOUNCE_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [address, isAuthenticated, syncNow, updatePending]);
+
+  const dismissConflicts = useCallback(() => {
+    setConflicts([]);
+    setRejected([]);
+  }, []);
+
+  return {
+    state,
+    pendingCount,
+    lastSyncedAt,
+    conflicts,
+    rejected,
+    error,
+    syncNow,
+    dismissConflicts,
+  };
+}
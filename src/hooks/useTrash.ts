@@ -0,0 +1,100 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useWallet } from '@/hooks/useWallet';
+import * as idb from '@/utils/indexeddb';
+import type { FileMeta } from '@/utils/indexeddb';
+import { getTrashCutoff } from '@/utils/storage';
+
+/**
+ * Custom hook for the trash of the connected wallet
+ * Lists trashed items (purging the ones past the retention period first) and restores or deletes them
+ */
+export function useTrash() {
+  const { address } = useWallet();
+  const [items, setItems] = useState<FileMeta[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!address) {
+      setItems([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const cutoff = getTrashCutoff();
+      if (cutoff) {
+        await idb.purgeTrashedFileMeta(address, cutoff);
+      }
+      setItems(await idb.getTrashedFileMeta(address));
+      setError(null);
+    } catch (e) {
+      console.error('[useTrash] Failed to load trash:', e);
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Restore an item to its original folder (recreating missing parent folders)
+  const restore = useCallback(async (id: string): Promise<[FileMeta | null, Error | null]> => {
+    if (!address) {
+      return [null, new Error('Wallet not connected')];
+    }
+    try {
+      const restored = await idb.restoreFileMeta(id, address);
+      if (!restored) {
+        return [null, new Error('Item not found in trash')];
+      }
+      await refresh();
+      return [restored, null];
+    } catch (e) {
+      console.error('[useTrash] Restore failed:', e);
+      return [null, e instanceof Error ? e : new Error(String(e))];
+    }
+  }, [address, refresh]);
+
+  // Permanently delete one trashed item and everything trashed with it
+  const deleteForever = useCallback(async (id: string): Promise<[number, Error | null]> => {
+    if (!address) {
+      return [0, new Error('Wallet not connected')];
+    }
+    try {
+      const count = await idb.deleteTrashedFileMeta(id, address);
+      await refresh();
+      return [count, null];
+    } catch (e) {
+      console.error('[useTrash] Delete failed:', e);
+      return [0, e instanceof Error ? e : new Error(String(e))];
+    }
+  }, [address, refresh]);
+
+  // Permanently delete everything in the trash
+  const emptyTrash = useCallback(async (): Promise<[number, Error | null]> => {
+    if (!address) {
+      return [0, new Error('Wallet not connected')];
+    }
+    try {
+      const count = await idb.purgeTrashedFileMeta(address);
+      await refresh();
+      return [count, null];
+    } catch (e) {
+      console.error('[useTrash] Empty trash failed:', e);
+      return [0, e instanceof Error ? e : new Error(String(e))];
+    }
+  }, [address, refresh]);
+
+  return {
+    items,
+    loading,
+    error,
+    refresh,
+    restore,
+    deleteForever,
+    emptyTrash
+  };
+}
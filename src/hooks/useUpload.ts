@@ -4,12 +4,15 @@ import { getProvider, getSigner } from '@/lib/0g/fees';
 import { submitTransaction, uploadToStorage } from '@/lib/0g/uploader';
 import { verifyFileOnChain, submitVerificationTransaction } from '@/lib/0g/verification';
 import { getNetworkConfig, getExplorerUrl } from '@/lib/0g/network';
-import { Indexer, ZgFile } from '@0glabs/0g-ts-sdk';
+import { EncryptionParams, encryptFile, getWalletKey } from '@/lib/0g/encryption';
+import { Indexer } from '@0glabs/0g-ts-sdk';
+import type { BlobFile } from '@/lib/0g/blob';
 import { Contract } from 'ethers';
 import { useFileList } from './useFileList';
 import { addFileMeta } from '@/utils/indexeddb';
 import { useFileListContext } from '@/context/FileListContext';
 import { useWallet } from '@/hooks/useWallet';
+import { validateEncryptedFileSize } from '@/utils/storage';
 
 /**
  * Custom hook for handling file uploads to 0G Storage
@@ -27,9 +30,63 @@ export function useUpload() {
   const [rootHash, setRootHash] = useState('');
   const [alreadyExists, setAlreadyExists] = useState(false);
 
+  // Prepare a file for upload, encrypting it client-side when requested.
+  // The returned file is what must be hashed and uploaded so the merkle root covers the ciphertext.
+  const prepareFile = useCallback(async (
+    file: File,
+    encrypt: boolean
+  ): Promise<{ file: File; encryption?: EncryptionParams } | null> => {
+    if (!encrypt) {
+      return { file };
+    }
+
+    // 서명을 요청하기 전에 크기부터 확인
+    const [isValidSize, sizeErr] = validateEncryptedFileSize(file.size);
+    if (!isValidSize) {
+      setError(sizeErr!.message);
+      return null;
+    }
+
+    setError('');
+    setUploadStatus('Waiting for wallet signature to unlock encryption key...');
+
+    try {
+      const [provider, providerErr] = await getProvider();
+      if (!provider) {
+        throw new Error(`Provider error: ${providerErr?.message}`);
+      }
+
+      const [signer, signerErr] = await getSigner(provider);
+      if (!signer) {
+        throw new Error(`Signer error: ${signerErr?.message}`);
+      }
+
+      const [walletKey, keyErr] = await getWalletKey(signer);
+      if (!walletKey) {
+        throw new Error(`Failed to unlock encryption key: ${keyErr?.message}`);
+      }
+
+      setUploadStatus('Encrypting file...');
+      const [encrypted, encryptErr] = await encryptFile(file, walletKey);
+      if (!encrypted) {
+        throw new Error(`Encryption failed: ${encryptErr?.message}`);
+      }
+
+      console.log('[useUpload] File encrypted for upload:', encrypted.params);
+      setUploadStatus('');
+      return { file: encrypted.file, encryption: encrypted.params };
+    } catch (error) {
+      console.error('[useUpload] Error preparing encrypted file:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setError(errorMessage.includes('user rejected') ? '사용자가 서명을 취소했습니다.' : errorMessage);
+      setUploadStatus('');
+      return null;
+    }
+  }, []);
+
   // Upload a file to 0G Storage
   const uploadFile = useCallback(async (
-    zgFile: ZgFile | null, 
+    zgFile: BlobFile | null, 
     submission: any | null, 
     flowContract: Contract | null, 
     storageFee: bigint,
@@ -51,7 +108,7 @@ export function useUpload() {
     
     try {
       console.log('[useUpload] Starting upload process...');
-      console.log('[useUpload] ZgFile size:', zgFile.size);
+      console.log('[useUpload] File size:', zgFile.size());
       console.log('[useUpload] Storage fee:', storageFee.toString());
       console.log('[useUpload] Pre-calculated root hash:', preCalculatedRootHash);
       
@@ -179,6 +236,7 @@ export function useUpload() {
     txHash,
     rootHash,
     alreadyExists,
+    prepareFile,
     uploadFile,
     resetUploadState,
     getExplorerUrl: getTransactionExplorerUrl
@@ -0,0 +1,101 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useNetwork } from '@/app/providers';
+import { useWallet } from '@/hooks/useWallet';
+import { DEFAULT_UPLOAD_CONCURRENCY, UploadEntry, UploadQueueItem, getUploadQueue } from '@/lib/0g/uploadQueue';
+
+const CONCURRENCY_STORAGE_KEY = '0gdrive_upload_concurrency';
+
+function loadConcurrency(): number {
+  try {
+    const saved = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+    return saved > 0 ? saved : DEFAULT_UPLOAD_CONCURRENCY;
+  } catch {
+    return DEFAULT_UPLOAD_CONCURRENCY;
+  }
+}
+
+/**
+ * Custom hook for the multi-file upload queue
+ * Exposes the queued uploads of the connected wallet and the queue controls
+ * @param onItemDone Called when an upload finishes and its metadata has been saved
+ */
+export function useUploadQueue(onItemDone?: (item: UploadQueueItem) => void) {
+  const { networkType } = useNetwork();
+  const { address } = useWallet();
+  const [allItems, setAllItems] = useState<UploadQueueItem[]>([]);
+  const [concurrency, setConcurrencyState] = useState(DEFAULT_UPLOAD_CONCURRENCY);
+
+  useEffect(() => {
+    const queue = getUploadQueue();
+    const saved = loadConcurrency();
+    queue.setConcurrency(saved);
+    setConcurrencyState(saved);
+    queue.load();
+    return queue.subscribe(setAllItems);
+  }, []);
+
+  useEffect(() => {
+    getUploadQueue().setWalletAddress(address ?? null);
+  }, [address]);
+
+  useEffect(() => {
+    if (!onItemDone) {
+      return;
+    }
+    return getUploadQueue().onItemDone(onItemDone);
+  }, [onItemDone]);
+
+  // 현재 지갑으로 대기열에 넣은 항목만 표시
+  const items = useMemo(
+    () => allItems.filter(item => !!address && item.walletAddress.toLowerCase() === address.toLowerCase()),
+    [allItems, address]
+  );
+
+  // Add files to the queue for the current folder
+  const enqueueFiles = useCallback(async (files: File[], parentId: string | null, encrypt: boolean) => {
+    if (!address) {
+      return [null, new Error('Wallet not connected')] as const;
+    }
+    return getUploadQueue().enqueue(files.map(file => ({ file })), { walletAddress: address, parentId, networkType, encrypt });
+  }, [address, networkType]);
+
+  // Add files that each carry their own folder, name or file to replace (folder uploads)
+  const enqueueEntries = useCallback(async (entries: UploadEntry[], encrypt: boolean) => {
+    if (!address) {
+      return [null, new Error('Wallet not connected')] as const;
+    }
+    return getUploadQueue().enqueue(entries, { walletAddress: address, parentId: null, networkType, encrypt });
+  }, [address, networkType]);
+
+  const setConcurrency = useCallback((value: number) => {
+    const queue = getUploadQueue();
+    queue.setConcurrency(value);
+    setConcurrencyState(queue.getConcurrency());
+    try {
+      localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(queue.getConcurrency()));
+    } catch (error) {
+      console.warn('[useUploadQueue] Failed to save concurrency:', error);
+    }
+  }, []);
+
+  const pause = useCallback((id: string) => getUploadQueue().pause(id), []);
+  const resume = useCallback((id: string) => getUploadQueue().resume(id), []);
+  const cancel = useCallback((id: string) => getUploadQueue().cancel(id), []);
+  const pauseAll = useCallback(() => getUploadQueue().pauseAll(), []);
+  const resumeAll = useCallback(() => getUploadQueue().resumeAll(), []);
+  const clearFinished = useCallback(() => getUploadQueue().clearFinished(), []);
+
+  return {
+    items,
+    concurrency,
+    setConcurrency,
+    enqueueFiles,
+    enqueueEntries,
+    pause,
+    resume,
+    cancel,
+    pauseAll,
+    resumeAll,
+    clearFinished
+  };
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { UIEvent } from 'react';
+
+interface VirtualListOptions {
+  count: number; // 지금까지 불러온 행 수
+  rowHeight: number; // px, 모든 행이 같은 높이여야 함
+  overscan?: number; // 화면 위아래로 더 그려둘 행 수
+  endThreshold?: number; // 남은 행이 이 수 이하가 되면 onEndReached 호출
+  onEndReached?: () => void;
+}
+
+/**
+ * Custom hook for rendering only the rows of a long list that are in view
+ * Attach containerRef (a callback ref, so the element may mount later) and onScroll to the
+ * scrolling element, render rows [start, end) and pad the rest with paddingTop / paddingBottom
+ */
+export function useVirtualList({ count, rowHeight, overscan = 10, endThreshold = 20, onEndReached }: VirtualListOptions) {
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    if (!container) return;
+
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const onScroll = useCallback((e: UIEvent<HTMLElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  const scrollToTop = useCallback(() => {
+    if (container) {
+      container.scrollTop = 0;
+    }
+    setScrollTop(0);
+  }, [container]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  useEffect(() => {
+    if (onEndReached && count > 0 && end >= count - endThreshold) {
+      onEndReached();
+    }
+  }, [end, count, endThreshold, onEndReached]);
+
+  return {
+    containerRef: setContainer,
+    onScroll,
+    scrollToTop,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, (count - end) * rowHeight)
+  };
+}
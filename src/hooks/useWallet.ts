@@ -11,7 +11,10 @@ export function useWallet() {
     isConnected,
     isConnecting, 
     isHydrated,
-    connect
+    connect,
+    isAuthenticated,
+    signIn,
+    authFetch
   } = useWalletContext();
   
   // These functions are for backward compatibility
@@ -35,6 +38,9 @@ export function useWallet() {
     status: isConnecting ? 'connecting' : isConnected ? 'connected' : 'disconnected',
     initializing: !isHydrated,
     directWalletAddress: address,
-    forceReconnectWallet
+    forceReconnectWallet,
+    isAuthenticated,
+    signIn,
+    authFetch
   };
 } 
\ No newline at end of file
@@ -1,27 +1,111 @@
-import { ZgFile, MerkleTree } from '@0glabs/0g-ts-sdk';
+import { Blob as ZgBlob, MerkleTree, DEFAULT_SEGMENT_SIZE } from '@0glabs/0g-ts-sdk';
+import { validateFileSize } from '@/utils/storage';
+import { FileHashes, treeFromHashes } from './merkle';
+import { HashOptions, hashBlob } from './hashing';
+
+type SubmissionResult = Awaited<ReturnType<ZgBlob['createSubmission']>>;
+
+// 인덱서 업로드 중 SDK가 파일을 사용하는 시점을 알려주는 콜백 (업로드 단계 표시용)
+export interface UploadObserver {
+  onSubmission?: () => void; // flow 컨트랙트 제출 직전
+  onSegmentRead?: (segmentIndex: number) => void; // 노드로 보낼 세그먼트를 읽을 때
+}
+
+/**
+ * A 0G file backed by a browser Blob.
+ * Segments are read lazily with Blob.slice() while the merkle tree is built and while
+ * the indexer uploads, so the whole file is never loaded into memory.
+ * Hashing runs in a Web Worker (see hashing.ts) and the result is cached.
+ */
+export class BlobFile extends ZgBlob {
+  name: string;
+  uploadObserver: UploadObserver | null = null;
+  private hashes: FileHashes | null = null;
+  private tree: MerkleTree | null = null;
+
+  constructor(blob: Blob, name: string) {
+    // File([blob])는 데이터를 복사하지 않고 같은 Blob을 참조
+    super(blob instanceof File ? blob : new File([blob], name));
+    this.name = name;
+  }
+
+  /**
+   * Computes the root hash, segment roots and submission nodes off the main thread
+   * @param options Progress callback and abort signal
+   * @returns The hashes and any error
+   */
+  async computeHashes(options: HashOptions = {}): Promise<[FileHashes | null, Error | null]> {
+    if (this.hashes) {
+      return [this.hashes, null];
+    }
+    const [hashes, hashErr] = await hashBlob(this.blob!, options);
+    if (!hashes) {
+      return [null, hashErr];
+    }
+    this.hashes = hashes;
+    this.tree = treeFromHashes(hashes);
+    return [hashes, null];
+  }
+
+  // 수수료 계산, 제출 생성, 업로드에서 반복 호출되므로 트리는 한 번만 계산
+  async merkleTree(): Promise<[MerkleTree | null, Error | null]> {
+    const [, hashErr] = await this.computeHashes();
+    return this.tree ? [this.tree, null] : [null, hashErr];
+  }
+
+  // submission 노드도 워커에서 계산한 값을 사용 (SDK 기본 구현은 파일을 다시 읽음)
+  async createSubmission(tags: Parameters<ZgBlob['createSubmission']>[0]): Promise<SubmissionResult> {
+    const [hashes, hashErr] = await this.computeHashes();
+    if (!hashes) {
+      return [null, hashErr];
+    }
+    this.uploadObserver?.onSubmission?.();
+    return [{ length: this.size(), tags, nodes: hashes.nodes.map(node => ({ ...node })) }, null];
+  }
+
+  // SDK는 세그먼트 단위(offset = index * DEFAULT_SEGMENT_SIZE)로 읽어서 업로드함
+  iterateWithOffsetAndBatch(offset: number, batch: number, flowPadding: boolean) {
+    if (this.uploadObserver?.onSegmentRead && offset % DEFAULT_SEGMENT_SIZE === 0) {
+      this.uploadObserver.onSegmentRead(offset / DEFAULT_SEGMENT_SIZE);
+    }
+    return super.iterateWithOffsetAndBatch(offset, batch, flowPadding);
+  }
+
+  /**
+   * Releases the cached hashes (kept for compatibility with ZgFile.close)
+   */
+  async close(): Promise<void> {
+    this.hashes = null;
+    this.tree = null;
+    this.uploadObserver = null;
+  }
+}
 
 /**
- * Creates a ZgFile object from a file
- * @param file The file to create a ZgFile from
- * @returns The ZgFile object and any error
+ * Creates a Blob-backed 0G file from a browser file or blob
+ * @param file The file (or blob) to create the 0G file from
+ * @param name The file name, defaults to file.name for File objects
+ * @returns The BlobFile object and any error
  */
-export async function createZgFile(file: File): Promise<[ZgFile | null, Error | null]> {
+export async function createZgFile(file: Blob, name?: string): Promise<[BlobFile | null, Error | null]> {
   try {
-    // Create a temporary file with the data
-    const tempFile = new File([await file.arrayBuffer()], file.name);
-    const zgFile = await ZgFile.fromFilePath(file.name);
-    return [zgFile, null];
+    const [isValidSize, sizeErr] = validateFileSize(file.size);
+    if (!isValidSize) {
+      return [null, sizeErr];
+    }
+    const fileName = name || (file instanceof File ? file.name : 'file');
+    return [new BlobFile(file, fileName), null];
   } catch (error) {
     return [null, error instanceof Error ? error : new Error(String(error))];
   }
 }
 
 /**
- * Generates a Merkle tree from a ZgFile
- * @param zgFile The ZgFile to generate a Merkle tree from
+ * Generates a Merkle tree from a 0G file
+ * @param zgFile The BlobFile to generate a Merkle tree from
  * @returns A promise that resolves to the Merkle tree and any error
  */
-export async function generateMerkleTree(zgFile: ZgFile): Promise<[MerkleTree | null, Error | null]> {
+export async function generateMerkleTree(zgFile: BlobFile): Promise<[MerkleTree | null, Error | null]> {
   try {
     const [tree, treeErr] = await zgFile.merkleTree();
     if (treeErr !== null || !tree) {
@@ -51,14 +135,14 @@ export function getRootHash(tree: MerkleTree): [string | null, Error | null] {
 }
 
 /**
- * Creates a submission for upload from a ZgFile
- * @param zgFile The ZgFile to create a submission from
+ * Creates a submission for upload from a 0G file
+ * @param zgFile The BlobFile to create a submission from
  * @returns A promise that resolves to the submission and any error
  */
-export async function createSubmission(zgFile: ZgFile): Promise<[any | null, Error | null]> {
+export async function createSubmission(zgFile: BlobFile): Promise<[any | null, Error | null]> {
   try {
     console.log('[createSubmission] Starting submission creation...');
-    console.log('[createSubmission] ZgFile size:', zgFile.size);
+    console.log('[createSubmission] File size:', zgFile.size());
     console.log('[createSubmission] ZgFile type:', typeof zgFile);
     
     // Generate a unique tag using timestamp and random value
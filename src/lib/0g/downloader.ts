@@ -1,17 +1,559 @@
 import { Indexer, ZgFile } from '@0glabs/0g-ts-sdk';
+import { EncryptionParams, createDecryptingSink, getCipherOffset, getWalletKeyFromBrowser } from './encryption';
+import type { NetworkType } from '@/app/providers';
+import {
+  DownloadState,
+  MAX_SAVED_DOWNLOAD_BYTES,
+  getDownloadState,
+  startDownloadState,
+  saveSegment,
+  getSegment,
+  setDownloadWrittenBytes,
+  deleteDownloadState,
+} from '@/utils/downloadStore';
+import { FileSink, createBufferSink, createDiscardSink } from '@/utils/download';
+import {
+  ContentCacheWriter,
+  createContentCacheWriter,
+  deleteCachedContent,
+  getCachedContent,
+  hasCachedContent,
+} from '@/utils/contentCacheStore';
+import { StreamHasher, createStreamHasher, hashBlob } from './hashing';
+
+const SEGMENT_SIZE = 8 * 1024 * 1024; // 8MB (Range 요청 단위)
+const SEGMENT_RETRIES = 3;
+
+export interface DownloadOptions {
+  fileName?: string; // 이어받기 목록에 표시할 파일 이름
+  networkType?: NetworkType;
+  verifyOnChain?: boolean;
+  verifyIntegrity?: boolean; // 받은 데이터의 root hash를 워커에서 계산해 비교 (기본 true)
+  useCache?: boolean; // 캐시에 있으면 캐시에서 읽고, 없으면 받은 내용(검증된 경우)을 캐시에 저장
+  cachePinnedBy?: string; // 캐시에 저장할 때 오프라인으로 지정한 지갑 (지우지 않고, 캐시 한도보다 커도 저장)
+  onProgress?: (receivedBytes: number, totalBytes: number) => void; // totalBytes는 알 수 없으면 0
+}
+
+// 이어받기 방식: file은 기록하던 파일을 다시 열어서, segments는 IndexedDB에 저장한 세그먼트로 이어받고, none은 저장하지 않음
+type ResumeMode = 'file' | 'segments' | 'none';
+
+type SegmentResult =
+  | { partial: true; data: ArrayBuffer; total: number }
+  | { partial: false; response: Response }; // 서버가 Range를 무시하고 전체 파일을 보낸 경우
+
+/**
+ * Downloads a file from 0G storage by root hash and streams it into a sink,
+ * so the file is never held in memory as a whole.
+ * When the storage node honors Range requests the file is fetched in segments, so an interrupted
+ * download continues where it stopped: a file-system sink keeps what was written (the file is
+ * reopened with reopenFileSink), other sinks replay segments saved to IndexedDB (files up to
+ * MAX_SAVED_DOWNLOAD_BYTES). The sink is closed on success and aborted on failure.
+ * 
+ * @param rootHash The root hash of the file to download
+ * @param storageRpc The storage RPC URL to connect to
+ * @param sink Where the (decrypted) file data is written
+ * @param encryption Encryption parameters if the file was encrypted before upload
+ * @param options Progress callback and details saved for resuming
+ * @returns The number of bytes received and any error
+ */
+export async function downloadByRootHashToSink(
+  rootHash: string,
+  storageRpc: string,
+  sink: FileSink,
+  encryption?: EncryptionParams,
+  options: DownloadOptions = {}
+): Promise<[number | null, Error | null]> {
+  if (options.useCache) {
+    const [cachedBytes, cacheErr] = await readFromContentCache(rootHash, sink, encryption, options.onProgress);
+    if (cachedBytes !== null || cacheErr) {
+      return [cachedBytes, cacheErr];
+    }
+  }
+
+  // file-system 싱크는 기록한 파일에서 이어받고, 서비스 워커/메모리 싱크만 세그먼트를 저장
+  const mode: ResumeMode = sink.kind === 'file-system' && sink.fileHandle ? 'file'
+    : sink.kind === 'service-worker' || sink.kind === 'memory' ? 'segments' : 'none';
+  // 다시 연 파일은 기록된 (평문) 위치부터 이어서 받음 (암호화된 파일은 청크 경계에서 확정되므로 그 청크부터)
+  const resumeFrom = encryption && sink.startOffset
+    ? getCipherOffset(encryption, sink.startOffset)
+    : { chunk: 0, offset: sink.startOffset ?? 0 };
+
+  // 중단될 때 파일에 확정할 수 있도록 싱크에 기록한 (평문) 바이트 수를 추적
+  let committed = sink.startOffset ?? 0;
+  const tracked: FileSink = {
+    ...sink,
+    write: async (chunk) => {
+      await sink.write(chunk);
+      committed += chunk.byteLength;
+    },
+  };
+  const [target, targetErr] = await withDecryption(tracked, encryption, resumeFrom.chunk);
+  if (!target) {
+    return [null, targetErr];
+  }
+
+  // 이미 기록한 데이터는 되돌릴 수 없으므로 기록 여부를 추적, 받은 (암호문) 데이터는 해시 계산용으로 워커에 전달
+  // 이어받은 암호화 파일은 앞부분의 암호문이 없으므로 해시 대신 청크마다의 AES-GCM 인증으로 확인
+  let written = 0;
+  const hasher = options.verifyIntegrity === false || (encryption && resumeFrom.offset > 0) ? null : createStreamHasher();
+  // 받은 (암호문) 데이터는 IndexedDB 캐시에 조각 단위로 기록하고, 검증이 끝난 뒤에 캐시에 추가
+  const cacheWriter: ContentCacheWriter | null = options.useCache && hasher
+    ? await createContentCacheWriter(rootHash, options.cachePinnedBy).catch(cacheErr => {
+      console.warn('Content cache unavailable:', cacheErr);
+      return null;
+    })
+    : null;
+  const counted: FileSink = {
+    ...target,
+    write: async (chunk) => {
+      hasher?.update(chunk);
+      await cacheWriter?.write(chunk);
+      await target.write(chunk);
+      written += chunk.byteLength;
+    },
+  };
+
+  let received: number | null = null;
+  let fetchErr: Error | null = null;
+  if (resumeFrom.offset > 0 && hasher) {
+    // 해시와 캐시는 처음부터의 데이터가 필요하므로 파일에 이미 기록된 부분을 다시 읽음
+    fetchErr = await replayWrittenFile(sink.fileHandle!, resumeFrom.offset, hasher, cacheWriter);
+  }
+  if (!fetchErr) {
+    [received, fetchErr] = await streamByRootHashResumable(rootHash, storageRpc, counted, encryption, options, mode, resumeFrom.offset);
+  }
+  if (received === null && written === 0 && resumeFrom.offset === 0) {
+    // 저장된 진행 상태가 있으면 이어받을 수 있도록 에러를 그대로 반환, 없으면 기존 방식으로 재시도
+    const saved = mode !== 'none' && await getDownloadState(rootHash).catch(() => undefined);
+    if (!saved) {
+      console.log(`Resumable download unavailable (${fetchErr?.message}), falling back to full download`);
+      [received, fetchErr] = await streamByRootHash(rootHash, storageRpc, counted, () => written > 0, options.onProgress);
+    }
+  }
+
+  try {
+    if (received === null) {
+      throw fetchErr || new Error('Download failed');
+    }
+    if (hasher) {
+      // sink를 닫기 전에 검증하여 손상된 데이터가 저장되지 않도록 함
+      const [hashes, hashErr] = await hasher.finish();
+      if (!hashes) {
+        console.warn('Could not verify downloaded data:', hashErr);
+        await cacheWriter?.discard().catch(() => undefined);
+      } else if (hashes.rootHash.toLowerCase() !== rootHash.toLowerCase()) {
+        throw new Error(`Integrity check failed: downloaded data hashes to ${hashes.rootHash}, expected ${rootHash}`);
+      } else {
+        console.log('Downloaded data matches the root hash');
+        await cacheWriter?.commit();
+      }
+    }
+    await counted.close();
+    console.log(`Download complete, received ${received} bytes`);
+    return [received, null];
+  } catch (error) {
+    hasher?.cancel();
+    await cacheWriter?.discard().catch(() => undefined);
+    if (mode !== 'file' || received !== null || !(await keepPartialFile(rootHash, sink, committed))) {
+      await sink.abort(error).catch(abortErr => console.log('Failed to abort download sink:', abortErr));
+    }
+    return [null, error instanceof Error ? error : new Error(String(error))];
+  }
+}
+
+// 이어서 기록하는 파일의 앞부분을 읽어 해시 계산과 캐시에 전달
+async function replayWrittenFile(
+  handle: FileSystemFileHandle,
+  length: number,
+  hasher: StreamHasher,
+  cacheWriter: ContentCacheWriter | null
+): Promise<Error | null> {
+  try {
+    const file = await handle.getFile();
+    for (let offset = 0; offset < length; offset += SEGMENT_SIZE) {
+      const chunk = new Uint8Array(await file.slice(offset, Math.min(offset + SEGMENT_SIZE, length)).arrayBuffer());
+      hasher.update(chunk);
+      await cacheWriter?.write(chunk);
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
+
+// 중단된 file-system 다운로드: 기록한 부분을 파일에 확정하고 그 크기를 저장하여 같은 파일에 이어서 받을 수 있도록 함
+// (새로고침처럼 확정하지 못하고 끝나면 파일은 마지막으로 확정한 상태로 남음)
+async function keepPartialFile(rootHash: string, sink: FileSink, writtenBytes: number): Promise<boolean> {
+  try {
+    const state = await getDownloadState(rootHash);
+    if (!state?.fileHandle) {
+      return false;
+    }
+    await sink.close();
+    await setDownloadWrittenBytes(rootHash, writtenBytes);
+    console.log(`Kept ${writtenBytes} bytes of the interrupted download in ${state.fileName}`);
+    return true;
+  } catch (error) {
+    console.log('Failed to keep the interrupted download:', error);
+    return false;
+  }
+}
+
+// 암호화된 파일은 지갑 서명으로 파생한 키로 받는 즉시 청크 단위 복호화
+async function withDecryption(
+  sink: FileSink,
+  encryption?: EncryptionParams,
+  firstChunk: number = 0
+): Promise<[FileSink | null, Error | null]> {
+  if (!encryption) {
+    return [sink, null];
+  }
+  const [walletKey, keyErr] = await getWalletKeyFromBrowser();
+  if (!walletKey) {
+    await sink.abort(keyErr);
+    return [null, new Error(`Failed to unlock decryption key: ${keyErr?.message}`)];
+  }
+  return [createDecryptingSink(sink, encryption, walletKey, firstChunk), null];
+}
+
+/**
+ * Writes a file from the content cache into a sink, after checking the cached data still hashes to the root hash
+ * (a damaged entry is removed). The sink is closed on success and aborted on failure.
+ * @param rootHash The root hash of the file
+ * @param sink Where the (decrypted) file data is written
+ * @param encryption Encryption parameters if the file was encrypted before upload
+ * @param onProgress Progress callback
+ * @returns The number of bytes written, or null without an error if the file is not (validly) cached
+ */
+export async function readFromContentCache(
+  rootHash: string,
+  sink: FileSink,
+  encryption?: EncryptionParams,
+  onProgress?: (receivedBytes: number, totalBytes: number) => void
+): Promise<[number | null, Error | null]> {
+  const data = await getCachedContent(rootHash).catch(error => {
+    console.warn('Failed to read the content cache:', error);
+    return undefined;
+  });
+  if (!data) {
+    return [null, null];
+  }
+
+  const [hashes, hashErr] = await hashBlob(data);
+  if (!hashes) {
+    console.warn('Could not verify cached content, downloading instead:', hashErr);
+    return [null, null];
+  }
+  if (hashes.rootHash.toLowerCase() !== rootHash.toLowerCase()) {
+    console.warn(`Cached content hashes to ${hashes.rootHash}, expected ${rootHash}; removing it`);
+    await deleteCachedContent(rootHash).catch(() => undefined);
+    return [null, null];
+  }
+
+  const [target, targetErr] = await withDecryption(sink, encryption);
+  if (!target) {
+    return [null, targetErr];
+  }
+  try {
+    for (let offset = 0; offset < data.size; offset += SEGMENT_SIZE) {
+      await target.write(new Uint8Array(await data.slice(offset, offset + SEGMENT_SIZE).arrayBuffer()));
+      onProgress?.(Math.min(offset + SEGMENT_SIZE, data.size), data.size);
+    }
+    await target.close();
+    console.log(`Served ${data.size} bytes of ${rootHash} from the content cache`);
+    return [data.size, null];
+  } catch (error) {
+    await sink.abort(error).catch(abortErr => console.log('Failed to abort download sink:', abortErr));
+    return [null, error instanceof Error ? error : new Error(String(error))];
+  }
+}
+
+/**
+ * Downloads a file into the content cache only (used to make files available offline).
+ * Nothing is cached unless the downloaded data matches the root hash.
+ * @param rootHash The root hash of the file
+ * @param storageRpc The storage RPC URL to connect to
+ * @param pinnedBy The wallet that made the file available offline
+ * @returns Whether the content is now cached, and any error
+ */
+export async function cacheFileContent(
+  rootHash: string,
+  storageRpc: string,
+  pinnedBy: string
+): Promise<[boolean, Error | null]> {
+  const [, downloadErr] = await downloadByRootHashToSink(rootHash, storageRpc, createDiscardSink(), undefined, {
+    fileName: `offline-${rootHash.substring(0, 8)}.bin`,
+    useCache: true,
+    cachePinnedBy: pinnedBy,
+  });
+  if (downloadErr) {
+    return [false, downloadErr];
+  }
+  const cached = await hasCachedContent(rootHash).catch(() => false);
+  return cached ? [true, null] : [false, new Error('Downloaded content could not be verified, so it was not cached')];
+}
 
 /**
  * Downloads a file from 0G storage by root hash using direct API call
- * This is an alternative to using the SDK which may have compatibility issues
+ * This is an alternative to using the SDK which may have compatibility issues.
+ * Prefer downloadByRootHashToSink for large files; this collects the file in memory.
  * 
  * @param rootHash The root hash of the file to download
  * @param storageRpc The storage RPC URL to connect to
+ * @param encryption Encryption parameters if the file was encrypted before upload
+ * @param options Progress callback and details saved for resuming
  * @returns A promise that resolves to the file data (ArrayBuffer) and any error
  */
 export async function downloadByRootHashAPI(
   rootHash: string, 
-  storageRpc: string
+  storageRpc: string,
+  encryption?: EncryptionParams,
+  options: DownloadOptions = {}
 ): Promise<[ArrayBuffer | null, Error | null]> {
+  const { sink, getData } = createBufferSink();
+  const [, downloadErr] = await downloadByRootHashToSink(rootHash, storageRpc, sink, encryption, options);
+  if (downloadErr) {
+    return [null, downloadErr];
+  }
+  return [await getData(), null];
+}
+
+// Content-Range: bytes <start>-<end>/<total>
+function parseContentRange(header: string | null): { start: number; end: number; total: number } | null {
+  const match = header?.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  return { start: parseInt(match[1], 10), end: parseInt(match[2], 10), total: parseInt(match[3], 10) };
+}
+
+// 스토리지 노드가 파일 대신 JSON 에러({ code, message })를 보냈는지 확인
+function looksLikeErrorResponse(chunk: Uint8Array): boolean {
+  const firstChars = new TextDecoder('utf-8').decode(chunk.subarray(0, 100)).trim();
+  return firstChars.startsWith('{') && (firstChars.includes('"code"') || firstChars.includes('"message"'));
+}
+
+// 응답 본문을 받는 대로 sink에 기록 (전체를 메모리에 모으지 않음)
+async function pipeResponse(
+  response: Response,
+  sink: FileSink,
+  onProgress?: (receivedBytes: number, totalBytes: number) => void
+): Promise<number> {
+  const total = parseInt(response.headers.get('content-length') || '', 10) || 0;
+  if (!response.body) {
+    const data = new Uint8Array(await response.arrayBuffer());
+    if (looksLikeErrorResponse(data)) {
+      throw new Error('Received an error response instead of a file');
+    }
+    await sink.write(data);
+    onProgress?.(data.byteLength, total);
+    return data.byteLength;
+  }
+
+  const reader = response.body.getReader();
+  let received = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (received === 0 && looksLikeErrorResponse(value)) {
+        throw new Error('Received an error response instead of a file');
+      }
+      await sink.write(value);
+      received += value.byteLength;
+      onProgress?.(received, total);
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+  if (total && received !== total) {
+    throw new Error(`Download truncated: received ${received} of ${total} bytes`);
+  }
+  return received;
+}
+
+// 지정한 바이트 범위를 요청. 서버가 Range를 무시하고 200으로 전체 파일을 보내면 본문을 읽지 않고 응답을 반환
+async function fetchSegment(
+  proxyUrl: string,
+  start: number,
+  end: number
+): Promise<[SegmentResult | null, Error | null]> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= SEGMENT_RETRIES; attempt++) {
+    try {
+      const response = await fetch(proxyUrl, { headers: { Range: `bytes=${start}-${end}` } });
+
+      if (response.status === 200) {
+        return [{ partial: false, response }, null];
+      }
+
+      if (response.status === 206) {
+        const range = parseContentRange(response.headers.get('content-range'));
+        if (!range || range.start !== start) {
+          return [null, new Error(`Unexpected Content-Range: ${response.headers.get('content-range')}`)];
+        }
+        const data = await response.arrayBuffer();
+        if (data.byteLength === range.end - range.start + 1) {
+          return [{ partial: true, data, total: range.total }, null];
+        }
+        lastError = new Error(`Segment truncated: received ${data.byteLength} of ${range.end - range.start + 1} bytes`);
+      } else if (response.status === 416) {
+        return [null, new Error('Requested range not satisfiable')];
+      } else {
+        lastError = new Error(`Segment request failed with status ${response.status}`);
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+    }
+
+    if (attempt < SEGMENT_RETRIES) {
+      console.log(`Segment ${start}-${end} failed (${lastError?.message}), retrying in ${attempt * 2} seconds...`);
+      await new Promise(resolve => setTimeout(resolve, attempt * 2000));
+    }
+  }
+  return [null, lastError];
+}
+
+// Range 요청으로 세그먼트 단위 다운로드, 진행 상태를 IndexedDB에 저장하여 새로고침 후에도 이어받기
+// startOffset은 다시 연 파일에 이미 기록된 (암호문 기준) 위치
+async function streamByRootHashResumable(
+  rootHash: string,
+  storageRpc: string,
+  sink: FileSink,
+  encryption: EncryptionParams | undefined,
+  options: DownloadOptions,
+  mode: ResumeMode,
+  startOffset: number
+): Promise<[number | null, Error | null]> {
+  try {
+    if (!rootHash) {
+      return [null, new Error('Root hash is required')];
+    }
+
+    const proxyUrl = `/api/proxy?url=${encodeURIComponent(`${storageRpc}/file?root=${rootHash}`)}`;
+    let state: DownloadState | undefined = mode === 'none' ? undefined : await getDownloadState(rootHash);
+
+    if (state && state.storageRpc !== storageRpc) {
+      console.log('Saved download used a different storage network, starting over');
+      state = undefined;
+    }
+
+    let offset = 0;
+    if (startOffset > 0) {
+      if (!state?.fileHandle) {
+        return [null, new Error('Saved download progress is missing, please restart the download')];
+      }
+      console.log(`Resuming download of ${rootHash} at byte ${startOffset}`);
+      offset = startOffset;
+    } else if (mode === 'segments' && state && !state.fileHandle) {
+      // 이전에 받은 세그먼트를 하나씩 읽어 새 sink에 다시 기록
+      console.log(`Resuming download of ${rootHash} at segment ${state.completedSegments}`);
+      for (let index = 0; index < state.completedSegments; index++) {
+        const saved = await getSegment(rootHash, index);
+        if (!saved) {
+          await deleteDownloadState(rootHash);
+          return [null, new Error('Saved download progress is incomplete, please restart the download')];
+        }
+        await sink.write(new Uint8Array(saved));
+      }
+      offset = state.completedSegments * state.segmentSize;
+    } else {
+      state = undefined;
+    }
+
+    if (!state) {
+      // 첫 세그먼트로 Range 지원 여부와 전체 크기 확인
+      const [first, firstErr] = await fetchSegment(proxyUrl, 0, SEGMENT_SIZE - 1);
+      if (!first) {
+        return [null, firstErr];
+      }
+      if (!first.partial) {
+        console.log('Storage node ignored Range, streaming full file');
+        return [await pipeResponse(first.response, sink, options.onProgress), null];
+      }
+      if (looksLikeErrorResponse(new Uint8Array(first.data))) {
+        return [null, new Error('Received an error response instead of a file')];
+      }
+      if (mode === 'segments' && first.total > MAX_SAVED_DOWNLOAD_BYTES) {
+        console.log(`File is larger than ${MAX_SAVED_DOWNLOAD_BYTES} bytes, downloading without saving segments`);
+        mode = 'none';
+      }
+
+      state = {
+        rootHash,
+        fileName: options.fileName || `download-${rootHash.substring(0, 8)}.bin`,
+        networkType: options.networkType || 'standard',
+        storageRpc,
+        totalSize: first.total,
+        segmentSize: SEGMENT_SIZE,
+        completedSegments: 0,
+        verifyOnChain: options.verifyOnChain ?? true,
+        encryption,
+        updatedAt: new Date().toISOString(),
+        ...(mode === 'file' ? { fileHandle: sink.fileHandle, writtenBytes: 0 } : {}),
+      };
+      if (mode !== 'none') {
+        await startDownloadState(state);
+      }
+      if (mode === 'segments') {
+        state = await saveSegment(state, first.data);
+      }
+      await sink.write(new Uint8Array(first.data));
+      offset = first.data.byteLength;
+    }
+
+    const totalSize = state.totalSize;
+    options.onProgress?.(Math.min(offset, totalSize), totalSize);
+
+    while (offset < totalSize) {
+      const end = Math.min(offset + state.segmentSize, totalSize) - 1;
+
+      const [segment, segmentErr] = await fetchSegment(proxyUrl, offset, end);
+      if (!segment) {
+        return [null, new Error(`Download interrupted at ${offset} of ${totalSize} bytes: ${segmentErr?.message}`)];
+      }
+      if (!segment.partial || segment.total !== totalSize) {
+        // 서버 응답이 저장된 진행 상태와 맞지 않으면 저장된 진행 상태를 버림
+        if (mode !== 'none') {
+          await deleteDownloadState(rootHash);
+        }
+        if (!segment.partial) {
+          await segment.response.body?.cancel();
+        }
+        return [null, new Error('Storage node response no longer matches the saved download, please restart the download')];
+      }
+
+      // 진행 상태를 먼저 저장하여 sink 기록 중 중단되어도 이어받을 수 있도록 함
+      if (mode === 'segments') {
+        state = await saveSegment(state, segment.data);
+      }
+      await sink.write(new Uint8Array(segment.data));
+      offset = end + 1;
+      options.onProgress?.(offset, totalSize);
+    }
+
+    if (mode !== 'none') {
+      await deleteDownloadState(rootHash);
+    }
+    console.log(`Segmented download successful, received ${totalSize - startOffset} of ${totalSize} bytes`);
+    return [totalSize, null];
+  } catch (error) {
+    console.error('Resumable download error:', error);
+    return [null, error instanceof Error ? error : new Error(String(error))];
+  }
+}
+
+// 프록시/직접 연결로 root hash에 해당하는 원본(암호문 포함) 데이터를 sink로 스트리밍
+// 일부라도 기록된 뒤 실패하면 되돌릴 수 없으므로 다른 방법으로 재시도하지 않음
+async function streamByRootHash(
+  rootHash: string, 
+  storageRpc: string,
+  sink: FileSink,
+  hasWritten: () => boolean,
+  onProgress?: (receivedBytes: number, totalBytes: number) => void
+): Promise<[number | null, Error | null]> {
   try {
     console.log(`API Download by root hash: ${rootHash} from ${storageRpc}`);
     
@@ -28,40 +570,18 @@ export async function downloadByRootHashAPI(
       const proxyResponse = await fetch(proxyUrl);
       
       if (proxyResponse.ok) {
-        // 프록시 성공 시 스트림 방식으로 처리
-        if (proxyResponse.body && window.ReadableStream) {
-          const reader = proxyResponse.body.getReader();
-          const chunks = [];
-          let receivedLength = 0;
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            chunks.push(value);
-            receivedLength += value.length;
-          }
-          let chunksAll = new Uint8Array(receivedLength);
-          let position = 0;
-          for (let chunk of chunks) {
-            chunksAll.set(chunk, position);
-            position += chunk.length;
-          }
-          const fileData = chunksAll.buffer;
-          if (fileData && fileData.byteLength > 0) {
-            console.log(`Proxy download successful, received ${fileData.byteLength} bytes`);
-            return [fileData, null];
-          }
-        }
-        
-        // fallback: arrayBuffer 방식
-        const fileData = await proxyResponse.arrayBuffer();
-        if (fileData && fileData.byteLength > 0) {
-          console.log(`Proxy download successful, received ${fileData.byteLength} bytes`);
-          return [fileData, null];
+        const received = await pipeResponse(proxyResponse, sink, onProgress);
+        if (received > 0) {
+          console.log(`Proxy download successful, received ${received} bytes`);
+          return [received, null];
         }
       } else {
         console.log(`Proxy failed with status ${proxyResponse.status}, trying direct connection...`);
       }
     } catch (proxyError) {
+      if (hasWritten()) {
+        return [null, proxyError instanceof Error ? proxyError : new Error(String(proxyError))];
+      }
       console.log(`Proxy error: ${proxyError}, trying direct connection...`);
     }
     
@@ -85,13 +605,16 @@ export async function downloadByRootHashAPI(
       });
       
       if (jsonpResponse.ok) {
-        const fileData = await jsonpResponse.arrayBuffer();
-        if (fileData && fileData.byteLength > 0) {
-          console.log(`Direct download successful, received ${fileData.byteLength} bytes`);
-          return [fileData, null];
+        const received = await pipeResponse(jsonpResponse, sink, onProgress);
+        if (received > 0) {
+          console.log(`Direct download successful, received ${received} bytes`);
+          return [received, null];
         }
       }
     } catch (directError) {
+      if (hasWritten()) {
+        return [null, directError instanceof Error ? directError : new Error(String(directError))];
+      }
       console.log(`Direct connection failed: ${directError}`);
     }
     
@@ -109,15 +632,15 @@ export async function downloadByRootHashAPI(
         }
       });
       
-      clearTimeout(timeoutId);
-      
       if (retryResponse.ok) {
-        const fileData = await retryResponse.arrayBuffer();
-        if (fileData && fileData.byteLength > 0) {
-          console.log(`Retry download successful, received ${fileData.byteLength} bytes`);
-          return [fileData, null];
+        const received = await pipeResponse(retryResponse, sink, onProgress);
+        clearTimeout(timeoutId);
+        if (received > 0) {
+          console.log(`Retry download successful, received ${received} bytes`);
+          return [received, null];
         }
       } else {
+        clearTimeout(timeoutId);
         // JSON 에러 응답인지 확인
         const contentType = retryResponse.headers.get('content-type');
         if (contentType && contentType.includes('application/json')) {
@@ -156,6 +679,9 @@ export async function downloadByRootHashAPI(
       if (retryError instanceof Error && retryError.name === 'AbortError') {
         return [null, new Error('다운로드 타임아웃 - 파일이 너무 크거나 서버가 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요.')];
       }
+      if (hasWritten()) {
+        return [null, retryError instanceof Error ? retryError : new Error(String(retryError))];
+      }
     }
     
     // 모든 방법 실패
@@ -221,57 +747,3 @@ export async function downloadByRootHash(
     return [null, error instanceof Error ? error : new Error(String(error))];
   }
 }
-
-/**
- * Creates a downloadable file from raw file data
- * @param fileData The file data as ArrayBuffer
- * @param fileName The file name
- */
-export function downloadBlobAsFile(fileData: ArrayBuffer, fileName: string): void {
-  try {
-    // Additional validation to prevent "Cannot read properties of null (reading 'length')" error
-    if (!fileData) {
-      console.log('downloadBlobAsFile: fileData is null or undefined');
-      throw new Error('File data is null or undefined');
-    }
-    
-    if (!(fileData instanceof ArrayBuffer)) {
-      console.log('downloadBlobAsFile: fileData is not an ArrayBuffer:', typeof fileData);
-      throw new Error(`Invalid file data type: ${typeof fileData}`);
-    }
-    
-    // Check if the ArrayBuffer has data
-    if (fileData.byteLength === 0) {
-      console.log('downloadBlobAsFile: fileData is empty (zero length)');
-      throw new Error('File data is empty');
-    }
-    
-    // Create a text decoder to check if the file looks like JSON
-    const decoder = new TextDecoder('utf-8');
-    const firstChars = decoder.decode(fileData.slice(0, Math.min(100, fileData.byteLength)));
-    
-    // Simple check to detect if this might be a JSON error response
-    if (firstChars.trim().startsWith('{') && 
-        (firstChars.includes('"code"') || firstChars.includes('"message"'))) {
-      console.log('downloadBlobAsFile: Data appears to be a JSON error response:', firstChars);
-      throw new Error('Received an error response instead of a file');
-    }
-    
-    // Create a blob from the array buffer
-    const byteArray = new Uint8Array(fileData);
-    const blob = new Blob([byteArray]);
-    const url = URL.createObjectURL(blob);
-    
-    // Create a link element and trigger download
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName || `download-${Date.now()}.bin`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  } catch (error) {
-    console.log('Error creating downloadable file:', error);
-    throw error;
-  }
-} 
\ No newline at end of file
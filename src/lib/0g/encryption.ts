@@ -0,0 +1,383 @@
+import { validateEncryptedFileSize } from '@/utils/storage';
+import { getProvider, getSigner } from './fees';
+
+export interface EncryptionParams {
+  algorithm: 'AES-GCM';
+  version: 1;
+  salt: string; // hex, per-file HKDF salt
+  iv: string; // hex, 12-byte base IV (chunk index is mixed into the last 4 bytes)
+  chunkSize: number; // plaintext bytes per encrypted chunk
+  originalSize: number; // plaintext size in bytes
+}
+
+const ENCRYPTION_VERSION = 1;
+const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1MB
+const TAG_LENGTH = 16; // AES-GCM authentication tag (bytes)
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const KEY_INFO = new TextEncoder().encode('0gdrive-file-key-v1');
+
+// 지갑 주소별 서명 기반 키 캐시 (세션 동안 서명 요청은 한 번만)
+const walletKeyCache = new Map<string, CryptoKey>();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Builds the message the wallet signs to unlock file encryption keys
+ * @param address The wallet address
+ * @returns The message to sign
+ */
+export function getKeyDerivationMessage(address: string): string {
+  return [
+    '0G Drive file encryption',
+    '',
+    'Sign this message to unlock the encryption keys for your files.',
+    'This does not send a transaction or cost any gas.',
+    '',
+    `Wallet: ${address.toLowerCase()}`,
+  ].join('\n');
+}
+
+/**
+ * Gets (or creates) the HKDF base key derived from a wallet signature
+ * @param signer The ethers signer
+ * @returns The base key and any error
+ */
+export async function getWalletKey(signer: any): Promise<[CryptoKey | null, Error | null]> {
+  try {
+    const address: string = (await signer.getAddress()).toLowerCase();
+    const cached = walletKeyCache.get(address);
+    if (cached) {
+      return [cached, null];
+    }
+
+    const signature: string = await signer.signMessage(getKeyDerivationMessage(address));
+    const keyMaterial = await crypto.subtle.digest('SHA-256', fromHex(signature));
+    const baseKey = await crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveKey']);
+
+    walletKeyCache.set(address, baseKey);
+    return [baseKey, null];
+  } catch (error) {
+    return [null, error instanceof Error ? error : new Error(String(error))];
+  }
+}
+
+/**
+ * Gets the wallet key using the injected browser wallet
+ * @returns The base key and any error
+ */
+export async function getWalletKeyFromBrowser(): Promise<[CryptoKey | null, Error | null]> {
+  const [provider, providerErr] = await getProvider();
+  if (!provider) {
+    return [null, providerErr || new Error('Failed to get provider')];
+  }
+  const [signer, signerErr] = await getSigner(provider);
+  if (!signer) {
+    return [null, signerErr || new Error('Failed to get signer')];
+  }
+  return getWalletKey(signer);
+}
+
+/**
+ * Forgets cached wallet keys (e.g. on wallet disconnect)
+ */
+export function clearWalletKeys(): void {
+  walletKeyCache.clear();
+}
+
+async function deriveFileKey(baseKey: CryptoKey, salt: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: KEY_INFO },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// 청크 인덱스를 base IV의 마지막 4바이트에 XOR하여 청크별 고유 IV 생성
+function chunkIv(baseIv: Uint8Array, index: number): Uint8Array {
+  const iv = new Uint8Array(baseIv);
+  iv[8] ^= (index >>> 24) & 0xff;
+  iv[9] ^= (index >>> 16) & 0xff;
+  iv[10] ^= (index >>> 8) & 0xff;
+  iv[11] ^= index & 0xff;
+  return iv;
+}
+
+// 청크 순서 변경 및 잘라내기를 막기 위해 인덱스와 마지막 청크 여부를 AAD로 사용
+function chunkAad(index: number, isLast: boolean): Uint8Array {
+  const aad = new Uint8Array(5);
+  new DataView(aad.buffer).setUint32(0, index);
+  aad[4] = isLast ? 1 : 0;
+  return aad;
+}
+
+function numChunks(size: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+/**
+ * Returns the ciphertext size for a plaintext of the given size
+ * @param params The encryption parameters
+ * @returns The encrypted size in bytes
+ */
+export function getEncryptedSize(params: EncryptionParams): number {
+  return params.originalSize + numChunks(params.originalSize, params.chunkSize) * TAG_LENGTH;
+}
+
+/**
+ * Returns the ciphertext size a plaintext of the given size will have with the default chunk size
+ * (used to estimate fees before anything is encrypted)
+ * @param originalSize The plaintext size in bytes
+ * @returns The encrypted size in bytes
+ */
+export function estimateEncryptedSize(originalSize: number): number {
+  return originalSize + numChunks(originalSize, DEFAULT_CHUNK_SIZE) * TAG_LENGTH;
+}
+
+/**
+ * Encrypts a file with a per-file key derived from the wallet key.
+ * The file is processed in chunks so each chunk can be decrypted independently.
+ * The ciphertext is kept by the browser until the upload finishes, so files larger than
+ * MAX_ENCRYPTED_FILE_SIZE are rejected.
+ * @param file The plaintext file
+ * @param baseKey The wallet base key from getWalletKey
+ * @returns The encrypted file, its encryption parameters and any error
+ */
+export async function encryptFile(
+  file: File,
+  baseKey: CryptoKey
+): Promise<[{ file: File; params: EncryptionParams } | null, Error | null]> {
+  try {
+    const [isValidSize, sizeErr] = validateEncryptedFileSize(file.size);
+    if (!isValidSize) {
+      return [null, sizeErr];
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const baseIv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const key = await deriveFileKey(baseKey, salt);
+
+    const chunkSize = DEFAULT_CHUNK_SIZE;
+    const total = numChunks(file.size, chunkSize);
+    // 청크마다 Blob으로 감싸서 브라우저가 필요하면 디스크로 내보낼 수 있게 함
+    const parts: Blob[] = [];
+
+    for (let index = 0; index < total; index++) {
+      const plain = await file.slice(index * chunkSize, (index + 1) * chunkSize).arrayBuffer();
+      const cipher = await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv: chunkIv(baseIv, index),
+          additionalData: chunkAad(index, index === total - 1),
+          tagLength: TAG_LENGTH * 8,
+        },
+        key,
+        plain
+      );
+      parts.push(new Blob([cipher]));
+    }
+
+    const params: EncryptionParams = {
+      algorithm: 'AES-GCM',
+      version: ENCRYPTION_VERSION,
+      salt: toHex(salt),
+      iv: toHex(baseIv),
+      chunkSize,
+      originalSize: file.size,
+    };
+
+    const encrypted = new File(parts, file.name, { type: 'application/octet-stream' });
+    console.log('[encryptFile] Encrypted file:', { name: file.name, originalSize: file.size, encryptedSize: encrypted.size });
+    return [{ file: encrypted, params }, null];
+  } catch (error) {
+    return [null, error instanceof Error ? error : new Error(String(error))];
+  }
+}
+
+/**
+ * Decrypts data produced by encryptFile
+ * @param data The ciphertext
+ * @param params The encryption parameters stored with the file metadata
+ * @param baseKey The wallet base key from getWalletKey
+ * @returns The plaintext and any error
+ */
+export async function decryptData(
+  data: ArrayBuffer,
+  params: EncryptionParams,
+  baseKey: CryptoKey
+): Promise<[ArrayBuffer | null, Error | null]> {
+  try {
+    if (params.version !== ENCRYPTION_VERSION || params.algorithm !== 'AES-GCM') {
+      return [null, new Error(`Unsupported encryption format: ${params.algorithm} v${params.version}`)];
+    }
+    if (data.byteLength !== getEncryptedSize(params)) {
+      return [null, new Error('Encrypted data size does not match the stored encryption parameters')];
+    }
+
+    const key = await deriveFileKey(baseKey, fromHex(params.salt));
+    const baseIv = fromHex(params.iv);
+    const total = numChunks(params.originalSize, params.chunkSize);
+    const cipherChunkSize = params.chunkSize + TAG_LENGTH;
+    const output = new Uint8Array(params.originalSize);
+
+    for (let index = 0; index < total; index++) {
+      const start = index * cipherChunkSize;
+      const plain = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: chunkIv(baseIv, index),
+          additionalData: chunkAad(index, index === total - 1),
+          tagLength: TAG_LENGTH * 8,
+        },
+        key,
+        data.slice(start, Math.min(start + cipherChunkSize, data.byteLength))
+      );
+      output.set(new Uint8Array(plain), index * params.chunkSize);
+    }
+
+    return [output.buffer, null];
+  } catch (error) {
+    // AES-GCM 인증 실패 시 OperationError 발생 (잘못된 지갑 또는 변조된 데이터)
+    if (error instanceof Error && error.name === 'OperationError') {
+      return [null, new Error('Failed to decrypt file: wrong wallet or corrupted data')];
+    }
+    return [null, error instanceof Error ? error : new Error(String(error))];
+  }
+}
+
+// 복호화 스트림이 평문을 내보낼 대상 (utils/download의 FileSink와 같은 형태)
+export interface ChunkSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: (reason?: unknown) => Promise<void>;
+}
+
+/**
+ * Wraps a sink so ciphertext written to it is decrypted chunk by chunk.
+ * Only one encrypted chunk is held in memory at a time.
+ * @param sink The sink that receives the plaintext
+ * @param params The encryption parameters stored with the file metadata
+ * @param baseKey The wallet base key from getWalletKey
+ * @param firstChunk The chunk the ciphertext starts at (when continuing an interrupted download)
+ * @returns A sink that accepts ciphertext
+ */
+export function createDecryptingSink<T extends ChunkSink>(sink: T, params: EncryptionParams, baseKey: CryptoKey, firstChunk: number = 0): T {
+  if (params.version !== ENCRYPTION_VERSION || params.algorithm !== 'AES-GCM') {
+    throw new Error(`Unsupported encryption format: ${params.algorithm} v${params.version}`);
+  }
+
+  const keyPromise = deriveFileKey(baseKey, fromHex(params.salt));
+  const baseIv = fromHex(params.iv);
+  const total = numChunks(params.originalSize, params.chunkSize);
+  const cipherChunkSize = params.chunkSize + TAG_LENGTH;
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  let index = firstChunk;
+
+  const takePending = (size: number): Uint8Array => {
+    const out = new Uint8Array(size);
+    let offset = 0;
+    while (offset < size) {
+      const piece = pending[0];
+      const take = Math.min(piece.byteLength, size - offset);
+      out.set(piece.subarray(0, take), offset);
+      offset += take;
+      if (take === piece.byteLength) {
+        pending.shift();
+      } else {
+        pending[0] = piece.subarray(take);
+      }
+    }
+    pendingBytes -= size;
+    return out;
+  };
+
+  const decryptChunk = async (cipher: Uint8Array) => {
+    if (index >= total) {
+      throw new Error('Encrypted data size does not match the stored encryption parameters');
+    }
+    try {
+      const plain = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: chunkIv(baseIv, index),
+          additionalData: chunkAad(index, index === total - 1),
+          tagLength: TAG_LENGTH * 8,
+        },
+        await keyPromise,
+        cipher
+      );
+      index++;
+      await sink.write(new Uint8Array(plain));
+    } catch (error) {
+      // AES-GCM 인증 실패 시 OperationError 발생 (잘못된 지갑 또는 변조된 데이터)
+      if (error instanceof Error && error.name === 'OperationError') {
+        throw new Error('Failed to decrypt file: wrong wallet or corrupted data');
+      }
+      throw error;
+    }
+  };
+
+  return {
+    ...sink,
+    write: async (chunk: Uint8Array) => {
+      pending.push(chunk);
+      pendingBytes += chunk.byteLength;
+      // 마지막 청크는 크기가 다를 수 있으므로 close에서 처리
+      while (pendingBytes >= cipherChunkSize && index < total - 1) {
+        await decryptChunk(takePending(cipherChunkSize));
+      }
+    },
+    close: async () => {
+      if (index !== total - 1 || pendingBytes !== getEncryptedSize(params) - index * cipherChunkSize) {
+        throw new Error('Encrypted data size does not match the stored encryption parameters');
+      }
+      await decryptChunk(takePending(pendingBytes));
+      await sink.close();
+    },
+    abort: async (reason?: unknown) => {
+      pending = [];
+      pendingBytes = 0;
+      await sink.abort(reason);
+    },
+  };
+}
+
+/**
+ * Returns where the ciphertext of a plaintext offset starts
+ * @param params The encryption parameters
+ * @param plainOffset A plaintext offset at a chunk boundary
+ * @returns The chunk index and the ciphertext offset
+ */
+export function getCipherOffset(params: EncryptionParams, plainOffset: number): { chunk: number; offset: number } {
+  const chunk = Math.floor(plainOffset / params.chunkSize);
+  return { chunk, offset: chunk * (params.chunkSize + TAG_LENGTH) };
+}
+
+/**
+ * Checks that a value has the shape of EncryptionParams
+ * @param value The value to check
+ * @returns Whether the value is valid encryption parameters
+ */
+export function isEncryptionParams(value: any): value is EncryptionParams {
+  return !!value &&
+    value.algorithm === 'AES-GCM' &&
+    value.version === ENCRYPTION_VERSION &&
+    typeof value.salt === 'string' && /^[a-fA-F0-9]{32}$/.test(value.salt) &&
+    typeof value.iv === 'string' && /^[a-fA-F0-9]{24}$/.test(value.iv) &&
+    Number.isInteger(value.chunkSize) && value.chunkSize > 0 &&
+    Number.isInteger(value.originalSize) && value.originalSize >= 0;
+}
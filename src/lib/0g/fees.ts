@@ -1,5 +1,12 @@
-import { calculatePrice, getMarketContract, FixedPriceFlow__factory } from '@0glabs/0g-ts-sdk';
-import { BrowserProvider, Contract, formatEther } from 'ethers';
+import {
+  calculatePrice,
+  getMarketContract,
+  FixedPriceFlow__factory,
+  computePaddedSize,
+  numSplits,
+  DEFAULT_CHUNK_SIZE,
+} from '@0glabs/0g-ts-sdk';
+import { BrowserProvider, Contract, ZeroHash, formatEther } from 'ethers';
 
 export interface FeeInfo {
   storageFee: string;
@@ -110,4 +117,82 @@ export async function calculateFees(
   } catch (error) {
     return [null, error instanceof Error ? error : new Error(String(error))];
   }
-} 
\ No newline at end of file
+} 
+
+// 가스 추정이 실패했을 때 submission 하나당 사용하는 값
+const FALLBACK_SUBMIT_GAS = BigInt(2000000);
+
+// flow padding 후 청크 수 = submission 노드들이 차지하는 sector 수 (2^height의 합)
+function paddedChunks(size: number): number {
+  return computePaddedSize(numSplits(size, DEFAULT_CHUNK_SIZE))[0];
+}
+
+// root 없이 크기만 같은 submission (가스 추정용)
+function sizeOnlySubmission(size: number) {
+  const nodes: { root: string; height: number }[] = [];
+  const [padded, nextPow2] = computePaddedSize(numSplits(size, DEFAULT_CHUNK_SIZE));
+  let remaining = padded;
+  for (let nodeChunks = nextPow2; remaining > 0; nodeChunks /= 2) {
+    if (remaining >= nodeChunks) {
+      nodes.push({ root: ZeroHash, height: Math.log2(nodeChunks) });
+      remaining -= nodeChunks;
+    }
+  }
+  return { length: size, tags: '0x', nodes };
+}
+
+/**
+ * Estimates the combined fees for uploading several files (one flow submission each).
+ * The storage fee only depends on each file's padded size, so the files do not need to be hashed.
+ * @param fileSizes The sizes of the data to upload (ciphertext sizes for encrypted files)
+ * @param flowContract The flow contract
+ * @param provider The Ethereum provider
+ * @returns A promise that resolves to the combined fee information and any error
+ */
+export async function estimateBatchFees(
+  fileSizes: number[],
+  flowContract: Contract,
+  provider: BrowserProvider
+): Promise<[FeeInfo | null, Error | null]> {
+  try {
+    const sizes = fileSizes.filter(size => size > 0);
+    const marketAddr = await flowContract.market();
+    const market = getMarketContract(marketAddr, provider);
+    const pricePerSector: bigint = await market.pricePerSector();
+
+    const sectors = sizes.reduce((total, size) => total + BigInt(paddedChunks(size)), BigInt(0));
+    const storageFee = sectors * pricePerSector;
+
+    const feeData = await provider.getFeeData();
+    const gasPrice = feeData.gasPrice || BigInt(0);
+
+    // 가장 큰 파일 기준으로 한 번만 추정하여 파일 수만큼 곱함
+    let gasPerSubmission = FALLBACK_SUBMIT_GAS;
+    if (sizes.length > 0) {
+      const largest = sizes.reduce((max, size) => Math.max(max, size), 0);
+      try {
+        gasPerSubmission = await flowContract.submit.estimateGas(sizeOnlySubmission(largest), {
+          value: BigInt(paddedChunks(largest)) * pricePerSector,
+          gasPrice: gasPrice * BigInt(5),
+        });
+      } catch (error) {
+        console.warn('[estimateBatchFees] Gas estimation failed, using fallback:', error);
+      }
+    }
+
+    const estimatedGasFee = gasPerSubmission * gasPrice * BigInt(sizes.length);
+    const totalFee = storageFee + estimatedGasFee;
+
+    return [{
+      storageFee: formatEther(storageFee),
+      estimatedGas: formatEther(estimatedGasFee),
+      totalFee: formatEther(totalFee),
+      rawStorageFee: storageFee,
+      rawGasFee: estimatedGasFee,
+      rawTotalFee: totalFee,
+      isLoading: false
+    }, null];
+  } catch (error) {
+    return [null, error instanceof Error ? error : new Error(String(error))];
+  }
+}
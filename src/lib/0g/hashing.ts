@@ -0,0 +1,190 @@
+import { FileHashes, HashProgressCallback, SegmentHasher, hashBlobInSlices } from './merkle';
+
+export type { FileHashes, HashProgressCallback };
+
+export interface HashOptions {
+  onProgress?: HashProgressCallback;
+  signal?: AbortSignal;
+}
+
+export interface StreamHasher {
+  update: (chunk: Uint8Array) => void;
+  finish: () => Promise<[FileHashes | null, Error | null]>;
+  cancel: () => void;
+}
+
+interface HashJob {
+  resolve: (hashes: FileHashes) => void;
+  reject: (error: Error) => void;
+  onProgress?: HashProgressCallback;
+}
+
+// 워커 로드 실패 등으로 메인 스레드에서 다시 계산해야 하는 경우
+const WORKER_FAILED = 'HashWorkerError';
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextJobId = 1;
+const jobs = new Map<number, HashJob>();
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function abortError(): Error {
+  return new DOMException('Hashing cancelled', 'AbortError');
+}
+
+function handleWorkerMessage(event: MessageEvent) {
+  const msg = event.data || {};
+  const job = jobs.get(msg.id);
+  if (!job) {
+    return;
+  }
+
+  if (msg.type === 'progress') {
+    job.onProgress?.(msg.processed, msg.total);
+  } else if (msg.type === 'result') {
+    jobs.delete(msg.id);
+    job.resolve(msg.hashes);
+  } else if (msg.type === 'error') {
+    jobs.delete(msg.id);
+    const error = new Error(msg.message);
+    error.name = msg.name;
+    job.reject(error);
+  }
+}
+
+// 워커는 한 번만 생성하여 재사용, 생성/로드에 실패하면 이후 요청은 메인 스레드에서 처리
+function getWorker(): Worker | null {
+  if (workerUnavailable || typeof window === 'undefined' || typeof Worker === 'undefined') {
+    return null;
+  }
+  if (worker) {
+    return worker;
+  }
+
+  try {
+    worker = new Worker(new URL('./merkle.worker.ts', import.meta.url));
+    worker.onmessage = handleWorkerMessage;
+    worker.onerror = (event) => {
+      console.warn('[hashing] Hash worker failed, falling back to the main thread:', event.message);
+      workerUnavailable = true;
+      worker?.terminate();
+      worker = null;
+      const failed = new Error('Hash worker failed');
+      failed.name = WORKER_FAILED;
+      jobs.forEach(job => job.reject(failed));
+      jobs.clear();
+    };
+    return worker;
+  } catch (error) {
+    console.warn('[hashing] Could not start hash worker, hashing on the main thread:', error);
+    workerUnavailable = true;
+    return null;
+  }
+}
+
+function startJob(target: Worker, id: number, onProgress?: HashProgressCallback, signal?: AbortSignal): Promise<FileHashes> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      target.postMessage({ type: 'cancel', id });
+      jobs.delete(id);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    jobs.set(id, {
+      onProgress,
+      resolve: (hashes) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(hashes);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    });
+  });
+}
+
+/**
+ * Computes the 0G root hash, segment roots and submission nodes of a Blob.
+ * Runs in a Web Worker when available and falls back to the main thread otherwise.
+ * @param blob The data to hash
+ * @param options Progress callback and abort signal
+ * @returns The hashes and any error (an AbortError if cancelled)
+ */
+export async function hashBlob(blob: Blob, options: HashOptions = {}): Promise<[FileHashes | null, Error | null]> {
+  const { onProgress, signal } = options;
+  try {
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    const target = getWorker();
+    if (target) {
+      const id = nextJobId++;
+      const result = startJob(target, id, onProgress, signal);
+      target.postMessage({ type: 'hash-blob', id, blob });
+      try {
+        return [await result, null];
+      } catch (error) {
+        if (!(error instanceof Error && error.name === WORKER_FAILED)) {
+          throw error;
+        }
+      }
+    }
+
+    // 메인 스레드에서는 조각을 읽을 때마다 이벤트 루프에 양보하여 UI가 멈추지 않도록 함
+    const hashes = await hashBlobInSlices(blob, onProgress, () => !!signal?.aborted, true);
+    return [hashes, null];
+  } catch (error) {
+    return [null, toError(error)];
+  }
+}
+
+/**
+ * Creates a hasher for data that arrives in pieces (e.g. a download stream).
+ * Chunks are copied to the worker, so the caller may reuse its buffers.
+ * @returns The stream hasher
+ */
+export function createStreamHasher(): StreamHasher {
+  const target = getWorker();
+  if (!target) {
+    const hasher = new SegmentHasher();
+    return {
+      update: (chunk) => hasher.update(chunk),
+      finish: async () => {
+        try {
+          return [hasher.finish(), null];
+        } catch (error) {
+          return [null, toError(error)];
+        }
+      },
+      cancel: () => {},
+    };
+  }
+
+  const id = nextJobId++;
+  const controller = new AbortController();
+  const result = startJob(target, id, undefined, controller.signal);
+  // finish 전에 실패해도 처리되지 않은 rejection이 되지 않도록 함
+  result.catch(() => undefined);
+  target.postMessage({ type: 'stream-start', id });
+
+  return {
+    update: (chunk) => {
+      const copy = chunk.slice();
+      target.postMessage({ type: 'stream-chunk', id, chunk: copy.buffer }, [copy.buffer]);
+    },
+    finish: async () => {
+      target.postMessage({ type: 'stream-end', id });
+      try {
+        return [await result, null];
+      } catch (error) {
+        return [null, toError(error)];
+      }
+    },
+    cancel: () => controller.abort(),
+  };
+}
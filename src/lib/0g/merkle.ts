@@ -0,0 +1,158 @@
+import {
+  Blob as ZgBlob,
+  MerkleTree,
+  computePaddedSize,
+  numSplits,
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_SEGMENT_SIZE,
+  DEFAULT_SEGMENT_MAX_CHUNKS,
+} from '@0glabs/0g-ts-sdk';
+
+// 워커와 메인 스레드 사이에 주고받는 해시 결과 (구조화 복제 가능)
+export interface FileHashes {
+  rootHash: string;
+  fileSize: number;
+  segmentRoots: string[]; // 패딩을 포함한 세그먼트별 root (업로드 proof용 트리 재구성)
+  nodes: { root: string; height: number }[]; // flow 컨트랙트 submission 노드
+}
+
+export type HashProgressCallback = (processedBytes: number, totalBytes: number) => void;
+
+const READ_SIZE = 4 * 1024 * 1024; // Blob에서 한 번에 읽는 크기
+
+function buildTree(leaves: string[]): MerkleTree {
+  const tree = new MerkleTree();
+  leaves.forEach(leaf => tree.addLeafByHash(leaf));
+  tree.build();
+  return tree;
+}
+
+/**
+ * Computes the 0G merkle root incrementally from data fed in order.
+ * Produces the same segment roots, root hash and submission nodes as the SDK's
+ * AbstractFile.merkleTree() / createSubmission(), while holding at most one segment in memory.
+ */
+export class SegmentHasher {
+  private buffer = new Uint8Array(DEFAULT_SEGMENT_SIZE);
+  private filled = 0;
+  private size = 0;
+  private segmentRoots: string[] = [];
+
+  get processedBytes(): number {
+    return this.size;
+  }
+
+  /**
+   * Feeds the next bytes of the file
+   * @param data The data
+   */
+  update(data: Uint8Array): void {
+    this.size += data.byteLength;
+    let offset = 0;
+    while (offset < data.byteLength) {
+      const take = Math.min(data.byteLength - offset, DEFAULT_SEGMENT_SIZE - this.filled);
+      this.buffer.set(data.subarray(offset, offset + take), this.filled);
+      this.filled += take;
+      offset += take;
+      if (this.filled === DEFAULT_SEGMENT_SIZE) {
+        this.segmentRoots.push(ZgBlob.segmentRoot(this.buffer));
+        this.filled = 0;
+      }
+    }
+  }
+
+  /**
+   * Pads the data like the SDK's flow padding and returns the hashes
+   * @returns The root hash, segment roots and submission nodes
+   */
+  finish(): FileHashes {
+    if (this.size === 0) {
+      throw new Error('Cannot compute the root hash of an empty file');
+    }
+
+    const chunks = numSplits(this.size, DEFAULT_CHUNK_SIZE);
+    const [paddedChunks, chunksNextPow2] = computePaddedSize(chunks);
+    const paddedSize = paddedChunks * DEFAULT_CHUNK_SIZE;
+    const lastSegmentStart = Math.floor((paddedSize - 1) / DEFAULT_SEGMENT_SIZE) * DEFAULT_SEGMENT_SIZE;
+
+    // 남은 데이터 뒤를 0으로 채우며 세그먼트 완성 (마지막 세그먼트는 청크 단위로 짧을 수 있음)
+    let segmentStart = this.segmentRoots.length * DEFAULT_SEGMENT_SIZE;
+    let lastSegment = new Uint8Array(0);
+    while (segmentStart < paddedSize) {
+      const length = Math.min(DEFAULT_SEGMENT_SIZE, paddedSize - segmentStart);
+      const segment = this.buffer.subarray(0, length);
+      segment.fill(0, this.filled);
+      this.segmentRoots.push(ZgBlob.segmentRoot(segment));
+      if (segmentStart === lastSegmentStart) {
+        lastSegment = segment.slice();
+      }
+      this.filled = 0;
+      segmentStart += length;
+    }
+
+    // submission 노드: 세그먼트 이상 크기는 세그먼트 root로, 작은 노드는 마지막 세그먼트 데이터로 계산
+    const nodes: FileHashes['nodes'] = [];
+    let remaining = paddedChunks;
+    let nodeChunks = chunksNextPow2;
+    let offset = 0;
+    while (remaining > 0) {
+      if (remaining >= nodeChunks) {
+        let root: string;
+        if (nodeChunks >= DEFAULT_SEGMENT_MAX_CHUNKS) {
+          const first = offset / DEFAULT_SEGMENT_SIZE;
+          root = buildTree(this.segmentRoots.slice(first, first + nodeChunks / DEFAULT_SEGMENT_MAX_CHUNKS)).rootHash()!;
+        } else {
+          const start = offset - lastSegmentStart;
+          root = ZgBlob.segmentRoot(lastSegment.subarray(start, start + nodeChunks * DEFAULT_CHUNK_SIZE));
+        }
+        nodes.push({ root, height: Math.log2(nodeChunks) });
+        remaining -= nodeChunks;
+        offset += nodeChunks * DEFAULT_CHUNK_SIZE;
+      }
+      nodeChunks /= 2;
+    }
+
+    const rootHash = buildTree(this.segmentRoots).rootHash();
+    if (!rootHash) {
+      throw new Error('Failed to get root hash');
+    }
+    return { rootHash, fileSize: this.size, segmentRoots: this.segmentRoots, nodes };
+  }
+}
+
+/**
+ * Rebuilds the merkle tree used for upload proofs from precomputed segment roots
+ * @param hashes The hashes from SegmentHasher
+ * @returns The merkle tree
+ */
+export function treeFromHashes(hashes: FileHashes): MerkleTree {
+  return buildTree(hashes.segmentRoots);
+}
+
+/**
+ * Hashes a Blob by reading it in slices
+ * @param blob The data to hash
+ * @param onProgress Called after each slice
+ * @param isCancelled Checked between slices
+ * @param yieldBetweenReads Whether to give the event loop a turn between slices (main-thread use)
+ * @returns The file hashes
+ */
+export async function hashBlobInSlices(
+  blob: Blob,
+  onProgress?: HashProgressCallback,
+  isCancelled?: () => boolean,
+  yieldBetweenReads: boolean = false
+): Promise<FileHashes> {
+  const hasher = new SegmentHasher();
+  for (let offset = 0; offset < blob.size; offset += READ_SIZE) {
+    if (isCancelled?.()) {
+      throw new DOMException('Hashing cancelled', 'AbortError');
+    }
+    hasher.update(new Uint8Array(await blob.slice(offset, offset + READ_SIZE).arrayBuffer()));
+    onProgress?.(hasher.processedBytes, blob.size);
+    if (yieldBetweenReads) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  return hasher.finish();
+}
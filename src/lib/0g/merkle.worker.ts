@@ -0,0 +1,70 @@
+import { SegmentHasher, hashBlobInSlices } from './merkle';
+
+// 메인 스레드를 막지 않도록 root hash 계산을 처리하는 Web Worker
+// 요청: hash-blob / stream-start / stream-chunk / stream-end / cancel
+// 응답: progress / result / error
+const ctx: Worker = self as any;
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const cancelled = new Set<number>();
+const streams = new Map<number, SegmentHasher>();
+
+function postError(id: number, error: unknown) {
+  const name = error instanceof Error ? error.name : 'Error';
+  const message = error instanceof Error ? error.message : String(error);
+  ctx.postMessage({ type: 'error', id, name, message });
+}
+
+ctx.addEventListener('message', async (event: MessageEvent) => {
+  const msg = event.data || {};
+  const id: number = msg.id;
+
+  switch (msg.type) {
+    case 'hash-blob': {
+      let lastProgress = 0;
+      try {
+        const hashes = await hashBlobInSlices(
+          msg.blob,
+          (processed, total) => {
+            const now = Date.now();
+            if (now - lastProgress >= PROGRESS_INTERVAL_MS || processed === total) {
+              lastProgress = now;
+              ctx.postMessage({ type: 'progress', id, processed, total });
+            }
+          },
+          () => cancelled.has(id)
+        );
+        ctx.postMessage({ type: 'result', id, hashes });
+      } catch (error) {
+        postError(id, error);
+      } finally {
+        cancelled.delete(id);
+      }
+      break;
+    }
+    case 'stream-start':
+      streams.set(id, new SegmentHasher());
+      break;
+    case 'stream-chunk':
+      streams.get(id)?.update(new Uint8Array(msg.chunk));
+      break;
+    case 'stream-end': {
+      const hasher = streams.get(id);
+      streams.delete(id);
+      try {
+        if (!hasher) {
+          throw new Error('Unknown hashing stream');
+        }
+        ctx.postMessage({ type: 'result', id, hashes: hasher.finish() });
+      } catch (error) {
+        postError(id, error);
+      }
+      break;
+    }
+    case 'cancel':
+      cancelled.add(id);
+      streams.delete(id);
+      break;
+  }
+});
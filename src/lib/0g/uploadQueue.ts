@@ -0,0 +1,441 @@
+import type { NetworkType } from '@/app/providers';
+import { createZgFile } from './blob';
+import { encryptFile, getWalletKeyFromBrowser, EncryptionParams } from './encryption';
+import { getProvider, getSigner } from './fees';
+import { getNetworkConfig } from './network';
+import { uploadToStorage } from './uploader';
+import { submitVerificationTransaction } from './verification';
+import { saveUploadedFileMeta } from '@/utils/indexeddb';
+import { validateEncryptedFileSize } from '@/utils/storage';
+import {
+  UploadItemStatus,
+  UploadQueueItem,
+  addUploadItems,
+  deleteUploadItems,
+  getUploadFile,
+  listUploadItems,
+  putUploadItem,
+} from '@/utils/uploadQueueStore';
+
+export type { UploadItemStatus, UploadQueueItem };
+
+export interface EnqueueOptions {
+  walletAddress: string;
+  parentId: string | null; // 항목에 parentId가 없을 때 사용
+  networkType: NetworkType;
+  encrypt: boolean;
+  verifyOnChain?: boolean;
+}
+
+// 대기열에 넣을 파일 하나 (폴더 업로드는 파일마다 폴더와 이름이 다를 수 있음)
+export interface UploadEntry {
+  file: File;
+  parentId?: string | null;
+  name?: string;
+}
+
+type ItemsListener = (items: UploadQueueItem[]) => void;
+type DoneListener = (item: UploadQueueItem) => void;
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 2;
+
+// 새로고침으로 중단된 항목: 해시 계산 중이면 다시 대기, 서명 이후 단계면 재시도가 필요하도록 실패 처리
+const INTERRUPTED_STATUSES: UploadItemStatus[] = ['awaiting-signature', 'submitting', 'uploading', 'verifying'];
+
+/**
+ * Whether an item can be paused (only before the wallet is asked to sign)
+ * @param status The item status
+ */
+export function canPauseUpload(status: UploadItemStatus): boolean {
+  return status === 'queued' || status === 'hashing';
+}
+
+/**
+ * Whether an item can be cancelled. Once a transaction has been requested the SDK upload
+ * cannot be stopped, so the wallet prompt has to be rejected instead.
+ * @param status The item status
+ */
+export function canCancelUpload(status: UploadItemStatus): boolean {
+  return !INTERRUPTED_STATUSES.includes(status);
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Uploads many files to 0G Storage with a concurrency limit.
+ * Items go through queued → hashing → awaiting-signature → submitting → uploading → verifying → done
+ * (or failed), and their state is persisted in IndexedDB so the queue survives a page reload.
+ * Only items queued by the currently connected wallet are started.
+ */
+export class UploadQueue {
+  private items: UploadQueueItem[] = [];
+  private files = new Map<string, File>();
+  private running = new Map<string, AbortController>();
+  private listeners = new Set<ItemsListener>();
+  private doneListeners = new Set<DoneListener>();
+  private walletAddress: string | null = null;
+  private loaded: Promise<void> | null = null;
+
+  constructor(private concurrency: number = DEFAULT_UPLOAD_CONCURRENCY) {}
+
+  /**
+   * Restores the queue saved in IndexedDB (runs once)
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.restore();
+    }
+    return this.loaded;
+  }
+
+  private async restore() {
+    try {
+      const saved = await listUploadItems();
+      const now = new Date().toISOString();
+      this.items = saved.map(item => {
+        if (item.status === 'hashing') {
+          return { ...item, status: 'queued' as const, progress: 0, updatedAt: now };
+        }
+        if (INTERRUPTED_STATUSES.includes(item.status)) {
+          return { ...item, status: 'failed' as const, progress: 0, error: 'Interrupted by a page reload', updatedAt: now };
+        }
+        return item;
+      });
+      await Promise.all(this.items.filter((item, i) => item !== saved[i]).map(item => putUploadItem(item)));
+      console.log('[UploadQueue] Restored upload queue:', this.items.length);
+    } catch (error) {
+      console.warn('[UploadQueue] Failed to restore upload queue:', error);
+    }
+    this.notify();
+    this.pump();
+  }
+
+  getItems(): UploadQueueItem[] {
+    return this.items;
+  }
+
+  /**
+   * Subscribes to queue changes
+   * @param listener Called with the current items on every change
+   * @returns The unsubscribe function
+   */
+  subscribe(listener: ItemsListener): () => void {
+    this.listeners.add(listener);
+    listener(this.items);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribes to completed uploads (e.g. to refresh the file list)
+   * @param listener Called after an item's metadata has been saved
+   * @returns The unsubscribe function
+   */
+  onItemDone(listener: DoneListener): () => void {
+    this.doneListeners.add(listener);
+    return () => {
+      this.doneListeners.delete(listener);
+    };
+  }
+
+  setWalletAddress(address: string | null) {
+    this.walletAddress = address ? address.toLowerCase() : null;
+    this.pump();
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Adds files to the end of the queue
+   * @param uploads The files to upload, optionally with their own folder or name
+   * @param options Where and how to upload them
+   * @returns The new items and any error
+   */
+  async enqueue(uploads: UploadEntry[], options: EnqueueOptions): Promise<[UploadQueueItem[] | null, Error | null]> {
+    try {
+      await this.load();
+      const now = new Date().toISOString();
+      const entries = uploads.map(({ file, parentId, name }) => ({
+        file,
+        item: {
+          id: crypto.randomUUID(),
+          fileName: name ?? file.name,
+          fileSize: file.size,
+          walletAddress: options.walletAddress,
+          parentId: parentId !== undefined ? parentId : options.parentId,
+          networkType: options.networkType,
+          encrypt: options.encrypt,
+          verifyOnChain: options.verifyOnChain ?? true,
+          status: 'queued' as const,
+          progress: 0,
+          createdAt: now,
+          updatedAt: now,
+        },
+      }));
+
+      await addUploadItems(entries);
+      entries.forEach(({ item, file }) => this.files.set(item.id, file));
+      this.items = [...this.items, ...entries.map(entry => entry.item)];
+      console.log('[UploadQueue] Enqueued files:', entries.length);
+      this.notify();
+      this.pump();
+      return [entries.map(entry => entry.item), null];
+    } catch (error) {
+      console.error('[UploadQueue] Failed to enqueue files:', error);
+      return [null, toError(error)];
+    }
+  }
+
+  pause(id: string) {
+    const item = this.find(id);
+    if (!item || !canPauseUpload(item.status)) {
+      return;
+    }
+    this.running.get(id)?.abort();
+    this.update(id, { status: 'paused', progress: 0 });
+  }
+
+  // 일시정지했거나 실패한 항목을 다시 대기열에 넣음
+  resume(id: string) {
+    const item = this.find(id);
+    if (!item || (item.status !== 'paused' && item.status !== 'failed')) {
+      return;
+    }
+    this.update(id, { status: 'queued', progress: 0, error: undefined });
+    this.pump();
+  }
+
+  async cancel(id: string) {
+    const item = this.find(id);
+    if (!item || !canCancelUpload(item.status)) {
+      return;
+    }
+    this.running.get(id)?.abort();
+    await this.remove([id]);
+  }
+
+  pauseAll() {
+    this.items.filter(item => canPauseUpload(item.status)).forEach(item => this.pause(item.id));
+  }
+
+  resumeAll() {
+    this.items.filter(item => item.status === 'paused').forEach(item => this.resume(item.id));
+  }
+
+  // 완료된 항목을 목록에서 제거
+  async clearFinished() {
+    await this.remove(this.items.filter(item => item.status === 'done').map(item => item.id));
+  }
+
+  private find(id: string): UploadQueueItem | undefined {
+    return this.items.find(item => item.id === id);
+  }
+
+  private async remove(ids: string[]) {
+    if (ids.length === 0) {
+      return;
+    }
+    this.items = this.items.filter(item => !ids.includes(item.id));
+    ids.forEach(id => this.files.delete(id));
+    this.notify();
+    try {
+      await deleteUploadItems(ids);
+    } catch (error) {
+      console.warn('[UploadQueue] Failed to remove upload items:', error);
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.items));
+  }
+
+  // 진행률만 바뀐 경우는 IndexedDB에 쓰지 않음
+  private update(id: string, patch: Partial<UploadQueueItem>) {
+    const current = this.find(id);
+    if (!current) {
+      return;
+    }
+    const changed = Object.keys(patch).some(
+      key => key !== 'progress' && patch[key as keyof UploadQueueItem] !== current[key as keyof UploadQueueItem]
+    );
+    const next: UploadQueueItem = { ...current, ...patch, updatedAt: changed ? new Date().toISOString() : current.updatedAt };
+    this.items = this.items.map(item => (item.id === id ? next : item));
+    this.notify();
+    if (changed) {
+      putUploadItem(next).catch(error => console.warn('[UploadQueue] Failed to save upload state:', error));
+    }
+  }
+
+  // 동시 업로드 수 한도까지 대기 중인 항목을 시작
+  private pump() {
+    if (!this.walletAddress) {
+      return;
+    }
+    const waiting = this.items.filter(
+      item => item.status === 'queued' && item.walletAddress.toLowerCase() === this.walletAddress && !this.running.has(item.id)
+    );
+    while (this.running.size < this.concurrency && waiting.length > 0) {
+      const item = waiting.shift()!;
+      const controller = new AbortController();
+      this.running.set(item.id, controller);
+      this.process(item, controller.signal).finally(() => {
+        this.running.delete(item.id);
+        this.pump();
+      });
+    }
+  }
+
+  private async process(item: UploadQueueItem, signal: AbortSignal) {
+    const { id } = item;
+    try {
+      const file = this.files.get(id) ?? await getUploadFile(id);
+      if (!file) {
+        throw new Error('The file for this upload is no longer available');
+      }
+
+      // 1. 암호화: 지갑 서명으로 키를 연 뒤 암호문을 업로드 (root hash도 암호문 기준)
+      let uploadBlob: File = file;
+      let encryption: EncryptionParams | undefined;
+      if (item.encrypt) {
+        const [isValidSize, sizeErr] = validateEncryptedFileSize(file.size);
+        if (!isValidSize) {
+          throw sizeErr;
+        }
+        this.update(id, { status: 'awaiting-signature', progress: 0 });
+        const [walletKey, keyErr] = await getWalletKeyFromBrowser();
+        if (!walletKey) {
+          throw new Error(`Failed to unlock encryption key: ${keyErr?.message}`);
+        }
+        if (signal.aborted) {
+          return;
+        }
+        this.update(id, { status: 'hashing', progress: 0 });
+        const [encrypted, encryptErr] = await encryptFile(file, walletKey);
+        if (!encrypted) {
+          throw new Error(`Encryption failed: ${encryptErr?.message}`);
+        }
+        uploadBlob = encrypted.file;
+        encryption = encrypted.params;
+      }
+      if (signal.aborted) {
+        return;
+      }
+
+      // 2. Root hash 계산 (워커)
+      this.update(id, { status: 'hashing', progress: 0 });
+      const [zgFile, zgFileErr] = await createZgFile(uploadBlob, item.fileName);
+      if (!zgFile) {
+        throw zgFileErr || new Error('Failed to prepare file');
+      }
+      const [hashes, hashErr] = await zgFile.computeHashes({
+        signal,
+        onProgress: (processed, total) => this.update(id, { progress: total > 0 ? processed / total : 1 }),
+      });
+      if (signal.aborted) {
+        return;
+      }
+      if (!hashes) {
+        throw hashErr || new Error('Failed to compute root hash');
+      }
+      this.update(id, { rootHash: hashes.rootHash, encryption, progress: 1 });
+
+      // 3. 대기열에 넣은 지갑으로만 업로드
+      const [provider, providerErr] = await getProvider();
+      if (!provider) {
+        throw new Error(`Provider error: ${providerErr?.message}`);
+      }
+      const [signer, signerErr] = await getSigner(provider);
+      if (!signer) {
+        throw new Error(`Signer error: ${signerErr?.message}`);
+      }
+      if ((await signer.getAddress()).toLowerCase() !== item.walletAddress.toLowerCase()) {
+        throw new Error('The connected wallet is not the wallet this upload was queued with');
+      }
+
+      // 4. 서명 → 제출 → 세그먼트 업로드
+      const network = getNetworkConfig(item.networkType);
+      this.update(id, { status: 'awaiting-signature', progress: 0 });
+      const [uploadResult, uploadErr] = await uploadToStorage(
+        zgFile,
+        network.storageRpc,
+        network.l1Rpc,
+        signer,
+        (phase, progress) => this.update(id, { status: phase, progress: progress ?? 0 })
+      );
+      if (!uploadResult.success) {
+        throw uploadErr || new Error('Upload failed');
+      }
+
+      // 5. 온체인 검증 (실패해도 업로드는 완료된 것으로 처리)
+      const rootHash = hashes.rootHash;
+      if (item.verifyOnChain && !uploadResult.alreadyExists) {
+        this.update(id, { status: 'verifying', progress: 0 });
+        const [verifyTx, verifyErr] = await submitVerificationTransaction(rootHash, item.networkType);
+        if (verifyErr) {
+          console.warn('[UploadQueue] On-chain verification warning:', verifyErr);
+        } else {
+          console.log('[UploadQueue] On-chain verification successful:', verifyTx);
+        }
+      }
+
+      // 6. 메타데이터 저장 (같은 이름의 파일이 있으면 그 파일의 새 버전으로)
+      await saveUploadedFileMeta({
+        id: crypto.randomUUID(),
+        name: item.fileName,
+        type: 'file',
+        parentId: item.parentId,
+        walletAddress: item.walletAddress,
+        uploadDate: new Date().toISOString(),
+        fileExtension: item.fileName.split('.').pop(),
+        fileSize: item.fileSize,
+        rootHash,
+        networkType: item.networkType,
+        ...(encryption ? { encryption } : {}),
+      });
+
+      this.update(id, { status: 'done', progress: 1, alreadyExists: uploadResult.alreadyExists, error: undefined });
+      this.files.delete(id);
+      console.log('[UploadQueue] Upload complete:', item.fileName, rootHash);
+      const done = this.find(id);
+      if (done) {
+        this.doneListeners.forEach(listener => listener(done));
+      }
+    } catch (error) {
+      // 일시정지/취소로 중단된 경우 상태는 이미 바뀌어 있음
+      if (signal.aborted) {
+        return;
+      }
+      const message = toError(error).message;
+      console.error('[UploadQueue] Upload failed:', item.fileName, error);
+      this.update(id, {
+        status: 'failed',
+        progress: 0,
+        error: message.includes('user rejected') ? '사용자가 서명을 취소했습니다.' : message,
+      });
+    }
+  }
+}
+
+let sharedQueue: UploadQueue | null = null;
+
+/**
+ * Gets the app-wide upload queue. It outlives component remounts (e.g. on network change)
+ * so uploads in flight keep reporting to whoever renders the queue next.
+ * @returns The upload queue
+ */
+export function getUploadQueue(): UploadQueue {
+  if (!sharedQueue) {
+    sharedQueue = new UploadQueue();
+  }
+  return sharedQueue;
+}
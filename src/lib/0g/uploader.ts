@@ -1,6 +1,47 @@
-import { Indexer, ZgFile } from '@0glabs/0g-ts-sdk';
+import { Indexer } from '@0glabs/0g-ts-sdk';
+import type { BlobFile } from './blob';
 import { Contract } from 'ethers';
 
+// 인덱서 업로드 중 단계: 지갑 서명 대기 → 트랜잭션 제출(확정 대기) → 세그먼트 업로드
+export type UploadPhase = 'awaiting-signature' | 'submitting' | 'uploading';
+
+/**
+ * Called when the indexer upload moves to another phase
+ * @param phase The new phase
+ * @param progress Fraction of segments handed to storage nodes (uploading phase only)
+ */
+export type UploadPhaseCallback = (phase: UploadPhase, progress?: number) => void;
+
+/**
+ * Reports the upload phases of the SDK uploader, which has no progress hooks of its own.
+ * The flow submission and segment reads are observed on the BlobFile and the signer's
+ * sendTransaction resolves once the wallet has signed and broadcast the transaction.
+ * @param zgFile The file being uploaded
+ * @param signer The signer passed to the indexer
+ * @param onPhase The phase callback
+ */
+function observeUploadPhases(zgFile: BlobFile, signer: any, onPhase: UploadPhaseCallback) {
+  const totalSegments = Math.max(1, zgFile.numSegments());
+  const readSegments = new Set<number>();
+
+  zgFile.uploadObserver = {
+    onSubmission: () => onPhase('awaiting-signature'),
+    onSegmentRead: (segmentIndex) => {
+      readSegments.add(segmentIndex);
+      onPhase('uploading', Math.min(1, readSegments.size / totalSegments));
+    },
+  };
+
+  if (typeof signer?.sendTransaction === 'function') {
+    const sendTransaction = signer.sendTransaction.bind(signer);
+    signer.sendTransaction = async (tx: any) => {
+      const response = await sendTransaction(tx);
+      onPhase('submitting');
+      return response;
+    };
+  }
+}
+
 /**
  * Submits a transaction to the flow contract
  * @param flowContract The flow contract
@@ -72,21 +113,23 @@ export async function submitTransaction(
 
 /**
  * Uploads a file to 0G storage
- * @param zgFile The ZgFile to upload
+ * @param zgFile The Blob-backed 0G file to upload
  * @param storageRpc The storage RPC URL
  * @param l1Rpc The L1 RPC URL
  * @param signer The signer
+ * @param onPhase Optional callback for the signature / submission / segment upload phases
  * @returns A promise that resolves to upload result with root hash and any error
  */
 export async function uploadToStorage(
-  zgFile: ZgFile, 
+  zgFile: BlobFile, 
   storageRpc: string, 
   l1Rpc: string, 
-  signer: any
+  signer: any,
+  onPhase?: UploadPhaseCallback
 ): Promise<[{ success: boolean; rootHash?: string; alreadyExists: boolean }, Error | null]> {
   try {
     console.log('[uploadToStorage] Starting upload process...');
-    console.log('[uploadToStorage] ZgFile size:', zgFile.size);
+    console.log('[uploadToStorage] File size:', zgFile.size());
     console.log('[uploadToStorage] Storage RPC:', storageRpc);
     console.log('[uploadToStorage] L1 RPC:', l1Rpc);
     console.log('[uploadToStorage] Signer address:', await signer.getAddress());
@@ -94,6 +137,10 @@ export async function uploadToStorage(
     const indexer = new Indexer(storageRpc);
     console.log('[uploadToStorage] Indexer created successfully');
     
+    if (onPhase) {
+      observeUploadPhases(zgFile, signer, onPhase);
+    }
+    
     // Generate unique tag for this upload
     // Ensure it's a valid hex string with even length
     const timestamp = Date.now();
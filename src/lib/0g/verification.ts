@@ -1,4 +1,5 @@
-import { ZgFile } from '@0glabs/0g-ts-sdk';
+import type { BlobFile } from './blob';
+import type { HashOptions } from './hashing';
 import { ethers } from 'ethers';
 import { getSigner, getProvider } from './fees';
 import { getNetworkConfig } from './network';
@@ -55,28 +56,25 @@ export async function verifyFileOnChain(
 
 /**
  * Verifies the integrity of a file by comparing its computed root hash with the on-chain record
- * @param zgFile The ZgFile instance to verify
+ * @param zgFile The BlobFile instance to verify
  * @param networkType The network type to use for verification
+ * @param options Progress callback and abort signal for the hashing
  * @returns Promise<VerificationResult>
  */
 export async function verifyFileIntegrity(
-  zgFile: ZgFile,
-  networkType: NetworkType
+  zgFile: BlobFile,
+  networkType: NetworkType,
+  options: HashOptions = {}
 ): Promise<VerificationResult> {
   try {
-    // Generate merkle tree and get root hash
-    const [tree, treeErr] = await zgFile.merkleTree();
-    if (treeErr || !tree) {
-      throw new Error(treeErr ? treeErr.message : 'Failed to generate merkle tree');
-    }
-    
-    const rootHash = tree.rootHash();
-    if (!rootHash) {
-      throw new Error('Failed to get root hash from merkle tree');
+    // Compute the root hash in a Web Worker
+    const [hashes, hashErr] = await zgFile.computeHashes(options);
+    if (!hashes) {
+      throw hashErr || new Error('Failed to compute root hash');
     }
     
     // Verify the root hash on-chain
-    return await verifyFileOnChain(rootHash, networkType);
+    return await verifyFileOnChain(hashes.rootHash, networkType);
   } catch (error) {
     return {
       verified: false,
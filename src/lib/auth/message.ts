@@ -0,0 +1,69 @@
+// Sign-In with Ethereum (EIP-4361) 메시지 생성/파싱 (클라이언트와 서버 공용)
+
+export interface SignInMessage {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+}
+
+export const SIGN_IN_STATEMENT = 'Sign in to 0G Drive to manage your files. This does not send a transaction or cost any gas.';
+
+/**
+ * Builds the EIP-4361 message the wallet signs to sign in
+ * @param fields The message fields
+ * @returns The message text
+ */
+export function buildSignInMessage(fields: SignInMessage): string {
+  return [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  ].join('\n');
+}
+
+/**
+ * Parses a message produced by buildSignInMessage
+ * @param message The signed message text
+ * @returns The message fields, or null if the message is malformed
+ */
+export function parseSignInMessage(message: string): SignInMessage | null {
+  const lines = message.split('\n');
+  const header = lines[0]?.match(/^(.+) wants you to sign in with your Ethereum account:$/);
+  if (!header || lines.length !== 10 || lines[2] !== '' || lines[4] !== '') {
+    return null;
+  }
+
+  const field = (line: string, name: string) => line.startsWith(`${name}: `) ? line.slice(name.length + 2) : null;
+  const uri = field(lines[5], 'URI');
+  const version = field(lines[6], 'Version');
+  const chainId = field(lines[7], 'Chain ID');
+  const nonce = field(lines[8], 'Nonce');
+  const issuedAt = field(lines[9], 'Issued At');
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(lines[1]) || !uri || version !== '1' || !chainId || !/^\d+$/.test(chainId) || !nonce || !issuedAt) {
+    return null;
+  }
+
+  return {
+    domain: header[1],
+    address: lines[1],
+    statement: lines[3],
+    uri,
+    version,
+    chainId: parseInt(chainId, 10),
+    nonce,
+    issuedAt,
+  };
+}
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 32;
+
+// 이벤트 루프를 막지 않도록 libuv 스레드 풀에서 실행되는 비동기 scrypt 사용
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/**
+ * Hashes a password with scrypt and a random salt
+ * @param password The password
+ * @returns The hash in the form "scrypt$<salt>$<key>" (base64url)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+}
+
+/**
+ * Checks a password against a hash made by hashPassword (constant-time comparison)
+ * @param password The password to check
+ * @param hash The stored hash
+ * @returns Whether the password matches
+ */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, salt, key] = hash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64url');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64url'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const SESSION_COOKIE = '0gdrive_session';
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24시간
+
+interface SessionPayload {
+  address: string;
+  expiresAt: number;
+}
+
+// Validate and get session signing secret from environment
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is required');
+  }
+  if (secret.length < 32) {
+    throw new Error('SESSION_SECRET must be at least 32 characters');
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', getSessionSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Creates a signed session token for a wallet address
+ * @param address The authenticated wallet address
+ * @returns The token (base64url payload + HMAC-SHA256 signature)
+ */
+export function createSessionToken(address: string): string {
+  const payload: SessionPayload = {
+    address: address.toLowerCase(),
+    expiresAt: Date.now() + SESSION_TTL_MS,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verifies a session token's signature and expiry
+ * @param token The session token
+ * @returns The session payload, or null if the token is invalid or expired
+ */
+export function verifySessionToken(token: string): SessionPayload | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: SessionPayload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    return payload.expiresAt > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the wallet address of the signed-in caller
+ * @param request The incoming request
+ * @returns The lowercase wallet address, or null if there is no valid session
+ */
+export function getSessionAddress(request: NextRequest): string | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? verifySessionToken(token)?.address ?? null : null;
+}
+
+/**
+ * Requires a valid session for an API route
+ * @param request The incoming request
+ * @returns The caller's wallet address, or a 401 response to return as-is
+ */
+export function requireSession(request: NextRequest): [string, null] | [null, NextResponse] {
+  const address = getSessionAddress(request);
+  if (!address) {
+    return [null, NextResponse.json({ error: 'Authentication required' }, { status: 401 })];
+  }
+  return [address, null];
+}
+
+/**
+ * Sets the session cookie on a response
+ * @param response The response
+ * @param address The authenticated wallet address
+ */
+export function setSessionCookie(response: NextResponse, address: string): void {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(address), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+/**
+ * Clears the session cookie on a response
+ * @param response The response
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
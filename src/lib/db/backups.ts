@@ -0,0 +1,118 @@
+import { getDb, transaction } from './database';
+import { MAX_BACKUP_SNAPSHOTS } from '@/utils/backups';
+import type { BackupSnapshot } from '@/utils/backups';
+
+export type { BackupSnapshot } from '@/utils/backups';
+
+interface BackupRow {
+  id: number;
+  wallet_address: string;
+  root_hash: string;
+  item_count: number;
+  network_type: string;
+  size: number;
+  created_at: string;
+  pinned: number;
+}
+
+export interface BackupInput {
+  rootHash: string;
+  itemCount: number;
+  networkType: string;
+  size: number;
+}
+
+function rowToBackup(row: BackupRow): BackupSnapshot {
+  return {
+    id: row.id,
+    walletAddress: row.wallet_address,
+    rootHash: row.root_hash,
+    itemCount: row.item_count,
+    networkType: row.network_type,
+    size: row.size,
+    createdAt: row.created_at,
+    pinned: row.pinned === 1,
+  };
+}
+
+function getBackupRow(id: number, walletAddress: string): BackupRow | undefined {
+  return getDb().prepare('SELECT * FROM backups WHERE id = ? AND wallet_address = ?')
+    .get(id, walletAddress.toLowerCase()) as BackupRow | undefined;
+}
+
+/**
+ * Records a new backup snapshot and drops the oldest unpinned snapshots beyond the limit
+ * @param walletAddress The wallet that made the backup
+ * @param input The backup file's root hash, item count, network and size
+ * @returns The new snapshot
+ */
+export function createBackup(walletAddress: string, input: BackupInput): BackupSnapshot {
+  const address = walletAddress.toLowerCase();
+
+  return transaction(() => {
+    const db = getDb();
+    const { lastInsertRowid } = db.prepare(`
+      INSERT INTO backups (wallet_address, root_hash, item_count, network_type, size, created_at, pinned)
+      VALUES (?, ?, ?, ?, ?, ?, 0)
+    `).run(address, input.rootHash, input.itemCount, input.networkType, input.size, new Date().toISOString());
+
+    // 고정한 스냅샷은 개수에 포함하지 않음
+    const pruned = db.prepare(`
+      DELETE FROM backups WHERE id IN (
+        SELECT id FROM backups WHERE wallet_address = ? AND pinned = 0
+        ORDER BY created_at DESC, id DESC LIMIT -1 OFFSET ?
+      )
+    `).run(address, MAX_BACKUP_SNAPSHOTS);
+    if (pruned.changes > 0) {
+      console.log(`[db] Removed ${pruned.changes} old backup snapshot(s) for ${address}`);
+    }
+
+    return rowToBackup(getBackupRow(Number(lastInsertRowid), address)!);
+  });
+}
+
+/**
+ * Lists a wallet's backup snapshots, newest first
+ * @param walletAddress The wallet address
+ */
+export function listBackups(walletAddress: string): BackupSnapshot[] {
+  const rows = getDb().prepare('SELECT * FROM backups WHERE wallet_address = ? ORDER BY created_at DESC, id DESC')
+    .all(walletAddress.toLowerCase()) as BackupRow[];
+  return rows.map(rowToBackup);
+}
+
+/**
+ * Gets one of a wallet's backup snapshots
+ * @param id The snapshot ID
+ * @param walletAddress The wallet address
+ * @returns The snapshot, or null if the wallet has no such snapshot
+ */
+export function getBackup(id: number, walletAddress: string): BackupSnapshot | null {
+  const row = getBackupRow(id, walletAddress);
+  return row ? rowToBackup(row) : null;
+}
+
+/**
+ * Pins or unpins a snapshot (pinned snapshots are never removed automatically)
+ * @param id The snapshot ID
+ * @param walletAddress The wallet address
+ * @param pinned Whether to pin the snapshot
+ * @returns The updated snapshot, or null if the wallet has no such snapshot
+ */
+export function setBackupPinned(id: number, walletAddress: string, pinned: boolean): BackupSnapshot | null {
+  getDb().prepare('UPDATE backups SET pinned = ? WHERE id = ? AND wallet_address = ?')
+    .run(pinned ? 1 : 0, id, walletAddress.toLowerCase());
+  return getBackup(id, walletAddress);
+}
+
+/**
+ * Deletes a snapshot record (the backup file stays on 0G Storage)
+ * @param id The snapshot ID
+ * @param walletAddress The wallet address
+ * @returns Whether a snapshot was deleted
+ */
+export function deleteBackup(id: number, walletAddress: string): boolean {
+  const result = getDb().prepare('DELETE FROM backups WHERE id = ? AND wallet_address = ?')
+    .run(id, walletAddress.toLowerCase());
+  return result.changes > 0;
+}
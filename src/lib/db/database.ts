@@ -0,0 +1,51 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { runMigrations } from './migrations';
+import { importLegacyStore, reencryptItems } from './importer';
+
+// 데이터베이스 파일 경로 (DATABASE_PATH로 변경 가능)
+const DATABASE_PATH = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', '0gdrive.db');
+
+// 개발 모드의 핫 리로드에서도 연결을 하나만 유지하기 위해 global에 보관
+const globalForDb = globalThis as unknown as { ogdriveDb?: Database.Database };
+
+function openDatabase(): Database.Database {
+  const dataDir = path.dirname(DATABASE_PATH);
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+
+  const db = new Database(DATABASE_PATH);
+  // WAL: 읽기와 쓰기가 서로를 막지 않음 / busy_timeout: 다른 프로세스의 쓰기 잠금 대기
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  db.pragma('foreign_keys = ON');
+
+  const version = runMigrations(db);
+  importLegacyStore(db);
+  reencryptItems(db);
+
+  console.log(`[db] Opened ${DATABASE_PATH} (schema v${version})`);
+  return db;
+}
+
+/**
+ * Gets the shared database connection, opening and migrating it on first use
+ * @returns The database connection
+ */
+export function getDb(): Database.Database {
+  if (!globalForDb.ogdriveDb) {
+    globalForDb.ogdriveDb = openDatabase();
+  }
+  return globalForDb.ogdriveDb;
+}
+
+/**
+ * Runs a function inside a write transaction (BEGIN IMMEDIATE), rolling back if it throws
+ * @param fn The function to run
+ * @returns The function's result
+ */
+export function transaction<T>(fn: () => T): T {
+  return getDb().transaction(fn).immediate();
+}
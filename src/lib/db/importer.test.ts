@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 임시 DB 파일에서 테스트
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), '0gdrive-importer-'));
+const OLD_KEY = '0123456789abcdef0123456789abcdef';
+const NEW_KEY = 'fedcba9876543210fedcba9876543210';
+vi.stubEnv('DATABASE_PATH', path.join(dataDir, 'test.db'));
+vi.stubEnv('AES_SECRET_KEY', OLD_KEY);
+vi.stubEnv('AES_KEY_VERSION', '1');
+
+let database: typeof import('./database');
+let items: typeof import('./items');
+let importer: typeof import('./importer');
+
+const WALLET = '0x00000000000000000000000000000000000000a1';
+
+beforeAll(async () => {
+  database = await import('./database');
+  items = await import('./items');
+  importer = await import('./importer');
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('reencryptItems', () => {
+  it('rotates the key without bumping revisions or writing to the change journal', () => {
+    const db = database.getDb();
+    items.insertItem({ id: 'a', type: 'folder', name: 'Reports', parentId: null, walletAddress: WALLET, uploadDate: new Date().toISOString() });
+    items.updateItem({ ...items.getOwnedItem('a', WALLET)!, name: 'Reports 2026' });
+
+    const readState = () => ({
+      revision: db.prepare('SELECT revision FROM items WHERE id = ?').pluck().get('a'),
+      changes: db.prepare('SELECT * FROM item_changes ORDER BY seq').all(),
+    });
+    const before = readState();
+    const payload = db.prepare('SELECT payload FROM items WHERE id = ?').pluck().get('a');
+
+    vi.stubEnv('AES_SECRET_KEY', NEW_KEY);
+    vi.stubEnv('AES_KEY_VERSION', '2');
+    vi.stubEnv('AES_PREVIOUS_KEYS', `1:${OLD_KEY}`);
+    expect(importer.reencryptItems(db)).toBe(1);
+
+    expect(db.prepare('SELECT payload FROM items WHERE id = ?').pluck().get('a')).not.toBe(payload);
+    expect(readState()).toEqual(before);
+    expect(items.getOwnedItem('a', WALLET)?.name).toBe('Reports 2026');
+
+    // 이후의 변경은 계속 revision을 올리고 변경 기록에 남음
+    items.updateItem({ ...items.getOwnedItem('a', WALLET)!, name: 'Archive' });
+    expect(readState().revision).toBe((before.revision as number) + 1);
+  });
+});
@@ -0,0 +1,83 @@
+import type Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { encrypt, decrypt, isEncrypted, needsReencryption } from '@/utils/crypto';
+import { ItemRecord, writeItem } from './records';
+
+// 이전 버전에서 사용하던 JSON 메타데이터 저장소
+export const LEGACY_DATA_FILE_PATH = path.join(process.cwd(), 'data', 'files.json');
+
+/**
+ * Imports items from the legacy data/files.json store (plaintext or encrypted) into an empty database.
+ * The JSON file is renamed to files.json.imported afterwards so it is never imported twice.
+ * @param db The database connection
+ * @returns The number of imported items
+ */
+export function importLegacyStore(db: Database.Database): number {
+  if (!fs.existsSync(LEGACY_DATA_FILE_PATH)) {
+    return 0;
+  }
+
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM items').get() as { count: number };
+  if (count > 0) {
+    console.warn(`[db] Skipping import of ${LEGACY_DATA_FILE_PATH}: database already contains items`);
+    return 0;
+  }
+
+  const data = fs.readFileSync(LEGACY_DATA_FILE_PATH, 'utf-8');
+  // 복호화 실패 시 빈 데이터베이스로 시작하지 않도록 에러를 그대로 전달
+  const items: ItemRecord[] = data.trim() ? JSON.parse(isEncrypted(data) ? decrypt(data) : data) : [];
+
+  db.transaction(() => {
+    for (const item of items) {
+      writeItem(db, item);
+    }
+  })();
+
+  fs.renameSync(LEGACY_DATA_FILE_PATH, `${LEGACY_DATA_FILE_PATH}.imported`);
+  console.log(`[db] Imported ${items.length} item(s) from ${LEGACY_DATA_FILE_PATH}`);
+  return items.length;
+}
+
+// payload 컬럼을 암호화하여 저장하는 테이블 (rowid로 갱신)
+const ENCRYPTED_TABLES = ['items', 'item_versions'] as const;
+
+// 키만 바뀐 것은 아이템의 변경이 아니므로 revision을 올리고 변경 기록에 남기는 trigger를 지웠다가 그대로 다시 만듦
+// (트랜잭션 안에서만 호출. 다른 연결에는 trigger가 없는 순간이 보이지 않음)
+function withoutChangeTracking<T>(db: Database.Database, fn: () => T): T {
+  const trigger = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'trigger' AND name = 'items_after_update'")
+    .pluck().get() as string | undefined;
+  if (!trigger) {
+    return fn();
+  }
+  db.exec('DROP TRIGGER items_after_update');
+  const result = fn();
+  db.exec(trigger);
+  return result;
+}
+
+/**
+ * Re-encrypts the payloads of items and their previous versions written with a key other than the current one (key rotation).
+ * Every table is updated in one transaction, so the old key can be dropped once this has run.
+ * Revisions and the change journal are left as they are, so syncing clients see no changes.
+ * @param db The database connection
+ * @returns The number of re-encrypted rows
+ */
+export function reencryptItems(db: Database.Database): number {
+  const counts = db.transaction(() => withoutChangeTracking(db, () => ENCRYPTED_TABLES.map(table => {
+    const rows = db.prepare(`SELECT rowid AS row_id, payload FROM ${table}`).all() as { row_id: number; payload: string }[];
+    const stale = rows.filter(row => needsReencryption(row.payload));
+    const update = db.prepare(`UPDATE ${table} SET payload = ? WHERE rowid = ?`);
+    for (const row of stale) {
+      const plaintext = isEncrypted(row.payload) ? decrypt(row.payload) : row.payload;
+      update.run(encrypt(plaintext), row.row_id);
+    }
+    return stale.length;
+  })))();
+
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total > 0) {
+    console.log(`[db] Re-encrypted ${counts[0]} item(s) and ${counts[1]} previous version(s) with the current key`);
+  }
+  return total;
+}
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ItemRecord } from './items';
+
+// 임시 DB 파일에서 테스트
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), '0gdrive-items-'));
+vi.stubEnv('DATABASE_PATH', path.join(dataDir, 'test.db'));
+vi.stubEnv('AES_SECRET_KEY', '0123456789abcdef0123456789abcdef');
+
+let items: typeof import('./items');
+
+const OWNER = '0x00000000000000000000000000000000000000a1';
+const COLLABORATOR = '0x00000000000000000000000000000000000000b2';
+let nextId = 0;
+
+function insert(name: string, parentId: string | null, walletAddress = OWNER): ItemRecord {
+  const item: ItemRecord = {
+    id: `item-${++nextId}`,
+    type: 'folder',
+    name,
+    parentId,
+    walletAddress,
+    uploadDate: new Date().toISOString(),
+  };
+  items.insertItem(item);
+  return item;
+}
+
+const exists = (item: ItemRecord) => items.itemExists(item.id);
+
+beforeAll(async () => {
+  items = await import('./items');
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('trash', () => {
+  // 소유자의 폴더 안에 있는 다른 지갑의 아이템
+  function trashSharedFolder() {
+    const folder = insert('Shared', null);
+    const child = insert('Added by a collaborator', folder.id, COLLABORATOR);
+    expect(items.trashItemTree(folder)).toBe(2);
+    return { folder, child };
+  }
+
+  it('deletes the items of other wallets trashed with a folder', () => {
+    const { folder, child } = trashSharedFolder();
+
+    expect(items.deleteTrashedItem(folder.id, COLLABORATOR)).toBe(0);
+    expect(items.deleteTrashedItem(folder.id, OWNER)).toBe(2);
+    expect(exists(folder) || exists(child)).toBe(false);
+  });
+
+  it('empties only what the wallet moved to the trash, with everything trashed with it', () => {
+    const { folder, child } = trashSharedFolder();
+    const own = insert('Collaborator folder', null, COLLABORATOR);
+    items.trashItemTree(own);
+
+    expect(items.emptyTrash(COLLABORATOR)).toBe(1);
+    expect([exists(folder), exists(child), exists(own)]).toEqual([true, true, false]);
+
+    expect(items.emptyTrash(OWNER)).toBe(2);
+    expect(exists(folder) || exists(child)).toBe(false);
+  });
+});
@@ -0,0 +1,530 @@
+import { randomUUID } from 'crypto';
+import { getDb } from './database';
+import { ITEM_SELECT, ItemLocation, ItemRecord, ItemRow, rowToItem, writeItem } from './records';
+import { getUniqueName } from '@/utils/folderTree';
+import { PathSegment, SearchFilters, getItemPath, matchesSearch } from '@/utils/search';
+import { Page, PageOptions, paginateItems } from '@/utils/pagination';
+import { countTags } from '@/utils/metadata';
+import { DEFAULT_SHARE_ROLE, ItemRole, ShareRole, getStrongestRole } from '@/utils/permissions';
+
+export type { ItemRecord, ItemLocation } from './records';
+
+// 호출한 지갑의 역할을 함께 담은 아이템 (응답 전용, 저장하지 않음)
+export interface AccessibleItem extends ItemRecord {
+  role: ItemRole;
+}
+
+/**
+ * Adds the wallet's role to an item for a response; items of other wallets also get sharedBy (their owner)
+ * @param item The item
+ * @param role The wallet's role on it
+ */
+export function toAccessibleItem(item: ItemRecord, role: ItemRole): AccessibleItem {
+  return role === 'owner' ? { ...item, role } : { ...item, role, sharedBy: item.walletAddress };
+}
+
+export interface ItemAccess {
+  item: ItemRecord;
+  role: ItemRole;
+}
+
+// 폴더를 파일보다 먼저, 그 다음 이름순으로 정렬 (이름은 암호화되어 있으므로 복호화 후 정렬)
+function sortItems(items: ItemRecord[]): ItemRecord[] {
+  return items.sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === 'folder' ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+// 폴더를 공유하면 그 아래의 모든 아이템(나중에 추가된 아이템 포함)에 접근 권한이 상속됨
+// 공유 목록(item_shares)은 공유한 아이템에만 저장하고, 접근 확인 시 상위 폴더를 거슬러 올라가며 확인
+
+// 아이템 자신과 그 위의 모든 폴더 (휴지통에 있는 폴더에서 끊김, UNION으로 순환 방지)
+const ANCESTOR_CHAIN = `
+  WITH RECURSIVE chain (id, parent_id) AS (
+    SELECT id, parent_id FROM items WHERE id = @id AND deleted_at IS NULL
+    UNION
+    SELECT items.id, items.parent_id FROM items JOIN chain ON items.id = chain.parent_id
+    WHERE items.deleted_at IS NULL
+  )`;
+
+// 지갑에게 공유된 아이템과 그 아래의 모든 아이템
+const SHARED_TREE = `
+  WITH RECURSIVE shared_tree (id) AS (
+    SELECT item_shares.item_id FROM item_shares
+    JOIN items ON items.id = item_shares.item_id AND items.deleted_at IS NULL
+    WHERE item_shares.wallet_address = @address
+    UNION
+    SELECT items.id FROM items JOIN shared_tree ON items.parent_id = shared_tree.id
+    WHERE items.deleted_at IS NULL
+  )`;
+
+// 아이템과 상위 폴더에서 지갑에게 준 역할 중 가장 넓은 역할 (공유되지 않았으면 null)
+function getSharedRole(id: string, address: string): ShareRole | null {
+  const roles = getDb().prepare(`
+    ${ANCESTOR_CHAIN}
+    SELECT role FROM item_shares WHERE wallet_address = @address AND item_id IN (SELECT id FROM chain)
+  `).pluck().all({ id, address }) as ShareRole[];
+  return getStrongestRole(roles);
+}
+
+/**
+ * Lists one page of the items in a folder that a wallet owns or that are shared with it.
+ * Inside a folder shared with the wallet (directly or through a folder above it), every item is listed.
+ * Each item comes with the wallet's role on it.
+ * @param walletAddress The wallet address
+ * @param parentId The folder ID, or null for the root
+ * @param options The sort (folders always come first), the cursor from the previous page and the page size
+ * @param filters Optional filters (tag, starred, ...) that narrow the listing
+ * @returns The page, or an error if the cursor is invalid
+ */
+export function listFolderItems(
+  walletAddress: string,
+  parentId: string | null,
+  options: PageOptions,
+  filters: SearchFilters = {}
+): [Page<AccessibleItem> | null, Error | null] {
+  const address = walletAddress.toLowerCase();
+  const folderRole = parentId !== null ? getSharedRole(parentId, address) : null;
+  const rows = getDb().prepare(`
+    ${ITEM_SELECT}
+    WHERE items.parent_id IS @parentId
+      AND items.deleted_at IS NULL
+      AND (@folderShared = 1
+        OR items.wallet_address = @address
+        OR items.id IN (SELECT item_id FROM item_shares WHERE wallet_address = @address))
+  `).all({ address, parentId, folderShared: folderRole ? 1 : 0 }) as ItemRow[];
+
+  // 이름과 크기는 payload에 암호화되어 있어 SQL로 정렬할 수 없으므로 복호화 후 정렬하고 페이지만 응답
+  const items = rows.map(rowToItem)
+    .filter(item => matchesSearch(item, filters, address))
+    .map(item => toAccessibleItem(item, getRoleIn(item, address, folderRole)));
+  return paginateItems(items, options);
+}
+
+// 폴더 안 아이템에 대한 역할: 소유자, 아니면 폴더에서 상속된 역할과 아이템에 직접 준 역할 중 넓은 쪽
+function getRoleIn(item: ItemRecord, address: string, folderRole: ShareRole | null): ItemRole {
+  if (item.walletAddress === address) {
+    return 'owner';
+  }
+  const direct = item.sharedWith?.includes(address) ? item.shareRoles?.[address] ?? 'viewer' : null;
+  return getStrongestRole([folderRole, direct].filter((role): role is ShareRole => role !== null)) ?? 'viewer';
+}
+
+/**
+ * Lists the items other wallets shared with a wallet directly
+ * (items inside a shared folder are reached by opening the folder)
+ * @param walletAddress The wallet address
+ * @returns The items with the wallet's role and their sharer, folders first, then by name
+ */
+export function listSharedWithMe(walletAddress: string): AccessibleItem[] {
+  const address = walletAddress.toLowerCase();
+  const rows = getDb().prepare(`
+    ${ITEM_SELECT}
+    WHERE items.deleted_at IS NULL
+      AND items.wallet_address != @address
+      AND items.id IN (SELECT item_id FROM item_shares WHERE wallet_address = @address)
+  `).all({ address }) as ItemRow[];
+  return sortItems(rows.map(rowToItem))
+    .map(item => toAccessibleItem(item, getSharedRole(item.id, address) ?? DEFAULT_SHARE_ROLE));
+}
+
+/**
+ * Creates a shortcut to an item shared with a wallet inside one of the wallet's own folders.
+ * The shortcut only stores the target's ID, so nothing is copied and opening it checks the wallet's access again.
+ * It is named after the target, with a " (n)" suffix if the name is taken. Call inside a transaction.
+ * @param walletAddress The wallet creating the shortcut
+ * @param target The shared item, as returned by getItemAccess
+ * @param parentId The wallet's folder to put the shortcut in, or null for the root
+ * @param id The ID to use (the client's IndexedDB ID), or undefined to generate one
+ * @returns The shortcut
+ */
+export function createShortcut(walletAddress: string, target: ItemRecord, parentId: string | null, id?: string): ItemRecord {
+  const taken = new Set(
+    listOwnedChildren(walletAddress, parentId)
+      .filter(child => conflictsWith(child, { name: child.name, fileExtension: target.fileExtension }))
+      .map(child => child.name)
+  );
+  const shortcut: ItemRecord = {
+    id: id ?? randomUUID(),
+    type: target.type,
+    name: getUniqueName(target.name, taken, target.type === 'file'),
+    parentId,
+    walletAddress: walletAddress.toLowerCase(),
+    uploadDate: new Date().toISOString(),
+    ...(target.type === 'file' ? { fileExtension: target.fileExtension } : {}),
+    shortcutTo: target.id,
+  };
+  writeItem(getDb(), shortcut);
+  return shortcut;
+}
+
+/**
+ * Lists the tags used on the items a wallet owns (outside the trash)
+ * @param walletAddress The owner's wallet address
+ * @returns The tags with how many items use them, most used first
+ */
+export function listTags(walletAddress: string): { tag: string; count: number }[] {
+  const rows = getDb().prepare(`${ITEM_SELECT} WHERE items.wallet_address = ? AND items.deleted_at IS NULL`)
+    .all(walletAddress.toLowerCase()) as ItemRow[];
+  return countTags(rows.map(rowToItem));
+}
+
+// 휴지통에 없는, 지갑이 소유한 폴더 내 아이템
+function listOwnedChildren(walletAddress: string, parentId: string | null, excludeId?: string): ItemRecord[] {
+  const rows = getDb().prepare(`
+    ${ITEM_SELECT}
+    WHERE items.wallet_address = ? AND items.parent_id IS ? AND items.id IS NOT ? AND items.deleted_at IS NULL
+  `).all(walletAddress.toLowerCase(), parentId, excludeId ?? null) as ItemRow[];
+  return rows.map(rowToItem);
+}
+
+// 파일은 확장자까지 같은 파일과만, 폴더는 같은 이름의 모든 아이템과 충돌
+function conflictsWith(item: ItemRecord, candidate: { name: string; fileExtension?: string }): boolean {
+  return item.name === candidate.name &&
+    (item.type === 'file' ? item.fileExtension === candidate.fileExtension : true);
+}
+
+// LIKE 패턴의 와일드카드(%, _)와 이스케이프 문자를 글자 그대로 찾도록 (ESCAPE '\'와 함께 사용)
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+export interface SearchResult extends AccessibleItem {
+  path: PathSegment[]; // 최상위부터 상위 폴더까지 (접근할 수 없는 폴더에서 끊김)
+}
+
+/**
+ * Searches every item a wallet owns or that is shared with it (including items inside shared folders), across all folders
+ * @param walletAddress The wallet address
+ * @param filters The search filters
+ * @param limit The maximum number of results to return
+ * @returns The matching items with the wallet's role and their folder paths (folders first, then by name) and the total number of matches
+ */
+export function searchItems(
+  walletAddress: string,
+  filters: SearchFilters,
+  limit: number
+): { results: SearchResult[]; total: number } {
+  const address = walletAddress.toLowerCase();
+  const db = getDb();
+
+  // 평문 컬럼으로 먼저 좁히고, 이름/크기 등 암호화된 속성은 복호화 후 비교
+  const rows = db.prepare(`
+    ${SHARED_TREE}
+    ${ITEM_SELECT}
+    WHERE items.deleted_at IS NULL
+      AND (items.wallet_address = @address OR items.id IN (SELECT id FROM shared_tree))
+      AND (@rootHashPrefix IS NULL OR lower(items.root_hash) LIKE @rootHashPrefix || '%' ESCAPE '\\')
+      AND (@uploadedAfter IS NULL OR items.upload_date >= @uploadedAfter)
+      AND (@uploadedBefore IS NULL OR items.upload_date <= @uploadedBefore)
+  `).all({
+    address,
+    rootHashPrefix: filters.rootHashPrefix ? escapeLike(filters.rootHashPrefix) : null,
+    uploadedAfter: filters.uploadedAfter ?? null,
+    uploadedBefore: filters.uploadedBefore ?? null,
+  }) as ItemRow[];
+
+  const matches = sortItems(rows.map(rowToItem).filter(item => matchesSearch(item, filters, address)));
+
+  // 경로는 이 지갑이 볼 수 있는 폴더까지만 (공유받은 폴더보다 위의 폴더 이름은 노출하지 않음)
+  const sharedIds = new Set(
+    db.prepare(`${SHARED_TREE} SELECT id FROM shared_tree`).pluck().all({ address }) as string[]
+  );
+  const folders = new Map<string, ItemRecord | undefined>();
+  const getFolder = (id: string) => {
+    if (!folders.has(id)) {
+      const row = db.prepare(`${ITEM_SELECT} WHERE items.id = ? AND items.deleted_at IS NULL`).get(id) as ItemRow | undefined;
+      const folder = row ? rowToItem(row) : undefined;
+      const visible = folder && (folder.walletAddress === address || sharedIds.has(folder.id));
+      folders.set(id, visible ? folder : undefined);
+    }
+    return folders.get(id);
+  };
+
+  const results = matches.slice(0, limit).map(item => ({
+    ...toAccessibleItem(item, item.walletAddress === address ? 'owner' : getSharedRole(item.id, address) ?? DEFAULT_SHARE_ROLE),
+    path: getItemPath(item, getFolder),
+  }));
+  return { results, total: matches.length };
+}
+
+/**
+ * Gets an item owned by a wallet
+ * @param id The item ID
+ * @param walletAddress The owner's wallet address
+ * @returns The item, or null if it does not exist, belongs to another wallet or is in the trash
+ */
+export function getOwnedItem(id: string, walletAddress: string): ItemRecord | null {
+  const row = getDb().prepare(`${ITEM_SELECT} WHERE items.id = ? AND items.wallet_address = ? AND items.deleted_at IS NULL`)
+    .get(id, walletAddress.toLowerCase()) as ItemRow | undefined;
+  return row ? rowToItem(row) : null;
+}
+
+/**
+ * Gets an item a wallet owns or that is shared with it, directly or through a folder above it,
+ * together with the wallet's role on it (the broadest role granted on the item or any folder above it)
+ * @param id The item ID
+ * @param walletAddress The wallet address
+ * @returns The item and role, or null if it does not exist, the wallet cannot see it or it is in the trash
+ */
+export function getItemAccess(id: string, walletAddress: string): ItemAccess | null {
+  const address = walletAddress.toLowerCase();
+  const row = getDb().prepare(`${ITEM_SELECT} WHERE items.id = ? AND items.deleted_at IS NULL`).get(id) as ItemRow | undefined;
+  if (!row) {
+    return null;
+  }
+  if (row.wallet_address === address) {
+    return { item: rowToItem(row), role: 'owner' };
+  }
+  const role = getSharedRole(id, address);
+  return role ? { item: rowToItem(row), role } : null;
+}
+
+/**
+ * Stops sharing an item and, for folders, everything below it with a wallet.
+ * Shares made on items inside the folder are removed too, so the whole subtree is revoked. Call inside a transaction.
+ * @param item The item to unshare, as returned by getOwnedItem
+ * @param targetWalletAddress The wallet to stop sharing with
+ * @returns The number of removed shares
+ */
+export function unshareItemTree(item: ItemRecord, targetWalletAddress: string): number {
+  const result = getDb().prepare(`
+    WITH RECURSIVE tree (id) AS (
+      SELECT @id
+      UNION
+      SELECT items.id FROM items JOIN tree ON items.parent_id = tree.id
+    )
+    DELETE FROM item_shares WHERE wallet_address = @address AND item_id IN (SELECT id FROM tree)
+  `).run({ id: item.id, address: targetWalletAddress.toLowerCase() });
+  return result.changes;
+}
+
+/**
+ * Checks whether an item is a folder itself or lies anywhere below it
+ * @param id The item ID
+ * @param folderId The folder ID
+ * @returns Whether the folder is the item or one of the folders above it
+ */
+export function isInsideFolder(id: string, folderId: string): boolean {
+  return !!getDb().prepare(`${ANCESTOR_CHAIN} SELECT 1 FROM chain WHERE id = @folderId`).get({ id, folderId });
+}
+
+/**
+ * Checks whether any wallet already uses an item ID
+ * @param id The item ID
+ * @returns Whether the ID is taken
+ */
+export function itemExists(id: string): boolean {
+  return !!getDb().prepare('SELECT 1 FROM items WHERE id = ?').get(id);
+}
+
+/**
+ * Finds an item of a wallet with the same name in a folder.
+ * Files only conflict with files of the same extension; folders conflict with any item of the same name.
+ * @param walletAddress The owner's wallet address
+ * @param parentId The folder ID, or null for the root
+ * @param candidate The name (and file extension) to check
+ * @param excludeId An item to ignore, e.g. the item being renamed
+ * @returns The conflicting item, or null if there is none
+ */
+export function findNameConflict(
+  walletAddress: string,
+  parentId: string | null,
+  candidate: { name: string; fileExtension?: string },
+  excludeId?: string
+): ItemRecord | null {
+  return listOwnedChildren(walletAddress, parentId, excludeId).find(item => conflictsWith(item, candidate)) ?? null;
+}
+
+/**
+ * Checks whether a wallet already has an item with the same name in a folder
+ * @param walletAddress The owner's wallet address
+ * @param parentId The folder ID, or null for the root
+ * @param candidate The name (and file extension) to check
+ * @param excludeId An item to ignore, e.g. the item being renamed
+ * @returns Whether a conflicting item exists
+ */
+export function hasNameConflict(
+  walletAddress: string,
+  parentId: string | null,
+  candidate: { name: string; fileExtension?: string },
+  excludeId?: string
+): boolean {
+  return findNameConflict(walletAddress, parentId, candidate, excludeId) !== null;
+}
+
+/**
+ * Inserts a new item
+ * @param item The item to insert
+ */
+export function insertItem(item: ItemRecord): void {
+  writeItem(getDb(), item);
+}
+
+/**
+ * Saves changes to an existing item, including its share list
+ * @param item The updated item
+ */
+export function updateItem(item: ItemRecord): void {
+  writeItem(getDb(), item);
+}
+
+/**
+ * Gets the folders above an item, from the root down to its parent
+ * @param parentId The item's parent folder ID
+ * @returns The ancestor folders' IDs and names
+ */
+function getAncestorLocations(parentId: string | null): ItemLocation[] {
+  const path: ItemLocation[] = [];
+  const seen = new Set<string>();
+  let currentId = parentId;
+
+  while (currentId && !seen.has(currentId)) {
+    seen.add(currentId);
+    const row = getDb().prepare(`${ITEM_SELECT} WHERE items.id = ?`).get(currentId) as ItemRow | undefined;
+    if (!row) {
+      break;
+    }
+    const folder = rowToItem(row);
+    path.unshift({ id: folder.id, name: folder.name });
+    currentId = folder.parentId;
+  }
+  return path;
+}
+
+/**
+ * Moves an item and, for folders, everything below it to the trash.
+ * The item keeps its parent folder and remembers the folders above it so it can be restored later.
+ * Call inside a transaction.
+ * @param item The item to move, as returned by getOwnedItem
+ * @returns The number of items moved to the trash
+ */
+export function trashItemTree(item: ItemRecord): number {
+  const db = getDb();
+  writeItem(db, { ...item, originalPath: getAncestorLocations(item.parentId) });
+
+  // 이미 따로 휴지통에 있는 하위 아이템은 그대로 둠 (각자 따로 복원/삭제)
+  const result = db.prepare(`
+    WITH RECURSIVE tree (id) AS (
+      SELECT id FROM items WHERE id = @id
+      UNION ALL
+      SELECT items.id FROM items JOIN tree ON items.parent_id = tree.id WHERE items.deleted_at IS NULL
+    )
+    UPDATE items SET deleted_at = @deletedAt, trashed_with = @id WHERE id IN (SELECT id FROM tree)
+  `).run({ id: item.id, deletedAt: new Date().toISOString() });
+  return result.changes;
+}
+
+/**
+ * Lists the items a wallet moved to the trash (not the items inside trashed folders)
+ * @param walletAddress The owner's wallet address
+ * @returns The trashed items, most recently deleted first
+ */
+export function listTrashedItems(walletAddress: string): ItemRecord[] {
+  const rows = getDb().prepare(`
+    ${ITEM_SELECT}
+    WHERE items.wallet_address = ? AND items.trashed_with = items.id
+    ORDER BY items.deleted_at DESC
+  `).all(walletAddress.toLowerCase()) as ItemRow[];
+  return rows.map(rowToItem);
+}
+
+/**
+ * Restores an item from the trash together with everything that was trashed with it.
+ * Parent folders that no longer exist are recreated by name, and the item is renamed
+ * with a " (n)" suffix if its old name is taken in the meantime. Call inside a transaction.
+ * @param id The trashed item ID
+ * @param walletAddress The owner's wallet address
+ * @returns The restored item, or null if the wallet has no such item in the trash
+ */
+export function restoreTrashedItem(id: string, walletAddress: string): ItemRecord | null {
+  const db = getDb();
+  const row = db.prepare(`${ITEM_SELECT} WHERE items.id = ? AND items.wallet_address = ? AND items.trashed_with = items.id`)
+    .get(id, walletAddress.toLowerCase()) as ItemRow | undefined;
+  if (!row) {
+    return null;
+  }
+  const { deletedAt, originalPath = [], ...item } = rowToItem(row);
+
+  // 아직 남아 있는 가장 깊은 상위 폴더부터 그 아래 폴더를 다시 만듦
+  let start = originalPath.length - 1;
+  while (start >= 0 && !getOwnedItem(originalPath[start].id, walletAddress)) {
+    start--;
+  }
+  let parentId = start >= 0 ? originalPath[start].id : null;
+  for (const location of originalPath.slice(start + 1)) {
+    const existing = listOwnedChildren(walletAddress, parentId)
+      .find(child => child.type === 'folder' && !child.shortcutTo && child.name === location.name);
+    if (existing) {
+      parentId = existing.id;
+      continue;
+    }
+    const folder: ItemRecord = {
+      id: randomUUID(),
+      type: 'folder',
+      name: location.name,
+      parentId,
+      walletAddress,
+      uploadDate: new Date().toISOString(),
+    };
+    writeItem(db, folder);
+    console.log(`[db] Recreated folder ${folder.id} to restore item ${id}`);
+    parentId = folder.id;
+  }
+
+  const taken = new Set(
+    listOwnedChildren(walletAddress, parentId)
+      .filter(child => conflictsWith(child, { name: child.name, fileExtension: item.fileExtension }))
+      .map(child => child.name)
+  );
+  const restored: ItemRecord = { ...item, parentId, name: getUniqueName(item.name, taken, item.type === 'file') };
+  writeItem(db, restored);
+  db.prepare('UPDATE items SET deleted_at = NULL, trashed_with = NULL WHERE trashed_with = ?').run(id);
+
+  console.log(`[db] Restored item ${id} from the trash (deleted at ${deletedAt})`);
+  return restored;
+}
+
+/**
+ * Permanently deletes an item in the trash and everything that was trashed with it,
+ * including items of other wallets inside a trashed folder (the same items trashItemTree moved and restoreTrashedItem restores)
+ * @param id The trashed item ID
+ * @param walletAddress The owner's wallet address
+ * @returns The number of deleted items
+ */
+export function deleteTrashedItem(id: string, walletAddress: string): number {
+  const db = getDb();
+  const owned = db.prepare('SELECT 1 FROM items WHERE id = ? AND wallet_address = ? AND trashed_with = id')
+    .get(id, walletAddress.toLowerCase());
+  return owned ? db.prepare('DELETE FROM items WHERE trashed_with = ?').run(id).changes : 0;
+}
+
+/**
+ * Permanently deletes everything in a wallet's trash: the items it moved to the trash and everything trashed with them.
+ * Its own items that another wallet trashed with a folder stay in that wallet's trash.
+ * @param walletAddress The owner's wallet address
+ * @returns The number of deleted items
+ */
+export function emptyTrash(walletAddress: string): number {
+  const db = getDb();
+  const trashedIds = db.prepare('SELECT id FROM items WHERE wallet_address = ? AND trashed_with = id')
+    .pluck().all(walletAddress.toLowerCase()) as string[];
+  const deleteTrashed = db.prepare('DELETE FROM items WHERE trashed_with = ?');
+  return trashedIds.reduce((count, id) => count + deleteTrashed.run(id).changes, 0);
+}
+
+/**
+ * Permanently deletes trashed items of every wallet that were deleted before a cutoff
+ * @param cutoff The oldest deletion time to keep (ISO string)
+ * @returns The number of deleted items
+ */
+export function purgeExpiredTrash(cutoff: string): number {
+  const result = getDb().prepare('DELETE FROM items WHERE deleted_at IS NOT NULL AND deleted_at < ?').run(cutoff);
+  if (result.changes > 0) {
+    console.log(`[db] Purged ${result.changes} item(s) deleted before ${cutoff}`);
+  }
+  return result.changes;
+}
@@ -0,0 +1,232 @@
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// 스키마 버전은 PRAGMA user_version으로 관리 (버전은 항상 증가하는 순서로 추가)
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create items and item_shares',
+    up: (db) => {
+      // 조회/정렬에 필요한 컬럼만 평문으로 두고, 나머지 메타데이터(이름, 크기, 암호화 파라미터 등)는 payload에 암호화하여 저장
+      db.exec(`
+        CREATE TABLE items (
+          id TEXT PRIMARY KEY,
+          wallet_address TEXT NOT NULL,
+          parent_id TEXT,
+          type TEXT NOT NULL CHECK (type IN ('file', 'folder')),
+          root_hash TEXT,
+          upload_date TEXT NOT NULL,
+          payload TEXT NOT NULL
+        );
+        CREATE INDEX idx_items_wallet_parent ON items (wallet_address, parent_id);
+        CREATE INDEX idx_items_parent ON items (parent_id);
+        CREATE INDEX idx_items_root_hash ON items (root_hash);
+
+        CREATE TABLE item_shares (
+          item_id TEXT NOT NULL REFERENCES items (id) ON DELETE CASCADE,
+          wallet_address TEXT NOT NULL,
+          PRIMARY KEY (item_id, wallet_address)
+        );
+        CREATE INDEX idx_item_shares_wallet ON item_shares (wallet_address);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'create auth_nonces',
+    up: (db) => {
+      // 로그인 서명용 일회성 nonce (사용 즉시 삭제)
+      db.exec(`
+        CREATE TABLE auth_nonces (
+          nonce TEXT PRIMARY KEY,
+          expires_at INTEGER NOT NULL
+        );
+        CREATE INDEX idx_auth_nonces_expires ON auth_nonces (expires_at);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'add trash columns to items',
+    up: (db) => {
+      // 휴지통: deleted_at이 있으면 삭제된 아이템, trashed_with는 함께 휴지통으로 옮겨진 최상위 아이템의 ID
+      db.exec(`
+        ALTER TABLE items ADD COLUMN deleted_at TEXT;
+        ALTER TABLE items ADD COLUMN trashed_with TEXT;
+        CREATE INDEX idx_items_trashed_with ON items (trashed_with);
+        CREATE INDEX idx_items_deleted_at ON items (deleted_at);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'create item_versions',
+    up: (db) => {
+      // 같은 이름으로 다시 업로드된 파일의 이전 버전 (크기, 업로더, 암호화 파라미터 등은 payload에 암호화)
+      db.exec(`
+        CREATE TABLE item_versions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          item_id TEXT NOT NULL REFERENCES items (id) ON DELETE CASCADE,
+          root_hash TEXT,
+          upload_date TEXT NOT NULL,
+          payload TEXT NOT NULL
+        );
+        CREATE INDEX idx_item_versions_item ON item_versions (item_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'create share_links',
+    up: (db) => {
+      // 관리형 공유 링크: 추측할 수 없는 링크 ID가 아이템을 가리키고, 만료 시각/비밀번호(scrypt 해시)/최대 다운로드 수로 제한
+      // 폐기한 링크도 사용 횟수를 보여주기 위해 revoked_at만 기록하고 남겨둠
+      db.exec(`
+        CREATE TABLE share_links (
+          id TEXT PRIMARY KEY,
+          item_id TEXT NOT NULL REFERENCES items (id) ON DELETE CASCADE,
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT,
+          password_hash TEXT,
+          max_downloads INTEGER,
+          download_count INTEGER NOT NULL DEFAULT 0,
+          revoked_at TEXT
+        );
+        CREATE INDEX idx_share_links_item ON share_links (item_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'add role to item_shares',
+    up: (db) => {
+      // 공유받은 지갑별 역할 (기존 공유는 읽기 전용이었으므로 viewer)
+      db.exec(`
+        ALTER TABLE item_shares ADD COLUMN role TEXT NOT NULL DEFAULT 'viewer'
+          CHECK (role IN ('viewer', 'commenter', 'editor'));
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'create backups',
+    up: (db) => {
+      // 지갑별 백업 스냅샷 기록 (백업 파일 자체는 0G Storage에 있고 여기에는 root hash와 요약만 저장)
+      db.exec(`
+        CREATE TABLE backups (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          wallet_address TEXT NOT NULL,
+          root_hash TEXT NOT NULL,
+          item_count INTEGER NOT NULL,
+          network_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          pinned INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX idx_backups_wallet_created ON backups (wallet_address, created_at);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'add item revisions and change journal',
+    up: (db) => {
+      // 동기화: 아이템이 바뀔 때마다 revision을 올리고, 지갑별 변경 기록에 아이템마다 마지막 변경만 남김
+      // (클라이언트는 마지막으로 받은 seq 이후의 변경만 가져감). 공유 목록이 바뀌어도 아이템의 변경으로 기록
+      db.exec(`
+        ALTER TABLE items ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+
+        CREATE TABLE item_changes (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          item_id TEXT NOT NULL,
+          wallet_address TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          changed_at TEXT NOT NULL,
+          deleted INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX idx_item_changes_wallet_seq ON item_changes (wallet_address, seq);
+        CREATE INDEX idx_item_changes_item ON item_changes (item_id);
+
+        CREATE TRIGGER items_after_insert AFTER INSERT ON items
+        BEGIN
+          DELETE FROM item_changes WHERE item_id = NEW.id;
+          INSERT INTO item_changes (item_id, wallet_address, revision, changed_at)
+            VALUES (NEW.id, NEW.wallet_address, NEW.revision, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        CREATE TRIGGER items_after_update AFTER UPDATE ON items
+        BEGIN
+          UPDATE items SET revision = OLD.revision + 1 WHERE id = NEW.id AND NEW.revision = OLD.revision;
+          DELETE FROM item_changes WHERE item_id = NEW.id;
+          INSERT INTO item_changes (item_id, wallet_address, revision, changed_at)
+            VALUES (NEW.id, NEW.wallet_address, (SELECT revision FROM items WHERE id = NEW.id), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        CREATE TRIGGER items_after_delete AFTER DELETE ON items
+        BEGIN
+          DELETE FROM item_changes WHERE item_id = OLD.id;
+          INSERT INTO item_changes (item_id, wallet_address, revision, changed_at, deleted)
+            VALUES (OLD.id, OLD.wallet_address, OLD.revision + 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), 1);
+        END;
+
+        CREATE TRIGGER item_shares_after_insert AFTER INSERT ON item_shares
+        BEGIN
+          UPDATE items SET revision = revision + 1 WHERE id = NEW.item_id;
+        END;
+
+        CREATE TRIGGER item_shares_after_update AFTER UPDATE ON item_shares
+        BEGIN
+          UPDATE items SET revision = revision + 1 WHERE id = NEW.item_id;
+        END;
+
+        CREATE TRIGGER item_shares_after_delete AFTER DELETE ON item_shares
+        BEGIN
+          UPDATE items SET revision = revision + 1 WHERE id = OLD.item_id;
+        END;
+
+        INSERT INTO item_changes (item_id, wallet_address, revision, changed_at)
+          SELECT id, wallet_address, revision, upload_date FROM items;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'add password attempts to share_links',
+    up: (db) => {
+      // 공유 링크 비밀번호 추측 제한: 연속 실패 횟수와 잠금 해제 시각 (맞추면 초기화)
+      db.exec(`
+        ALTER TABLE share_links ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE share_links ADD COLUMN locked_until TEXT;
+      `);
+    },
+  },
+];
+
+/**
+ * Applies all migrations newer than the database's user_version, each in its own transaction
+ * @param db The database connection
+ * @returns The schema version after migrating
+ */
+export function runMigrations(db: Database.Database): number {
+  let current = db.pragma('user_version', { simple: true }) as number;
+
+  for (const migration of migrations) {
+    if (migration.version <= current) continue;
+
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+
+    console.log(`[db] Applied migration ${migration.version}: ${migration.name}`);
+    current = migration.version;
+  }
+
+  return current;
+}
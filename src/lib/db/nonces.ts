@@ -0,0 +1,30 @@
+import { getDb, transaction } from './database';
+
+/**
+ * Stores a new sign-in nonce and removes expired ones
+ * @param nonce The nonce
+ * @param ttlMs How long the nonce stays valid
+ */
+export function createNonce(nonce: string, ttlMs: number): void {
+  const now = Date.now();
+  const db = getDb();
+  db.prepare('DELETE FROM auth_nonces WHERE expires_at < ?').run(now);
+  db.prepare('INSERT INTO auth_nonces (nonce, expires_at) VALUES (?, ?)').run(nonce, now + ttlMs);
+}
+
+/**
+ * Consumes a sign-in nonce so it can only be used once
+ * @param nonce The nonce from the signed message
+ * @returns Whether the nonce existed and had not expired
+ */
+export function consumeNonce(nonce: string): boolean {
+  return transaction(() => {
+    const row = getDb().prepare('SELECT expires_at FROM auth_nonces WHERE nonce = ?')
+      .get(nonce) as { expires_at: number } | undefined;
+    if (!row) {
+      return false;
+    }
+    getDb().prepare('DELETE FROM auth_nonces WHERE nonce = ?').run(nonce);
+    return row.expires_at >= Date.now();
+  });
+}
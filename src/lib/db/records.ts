@@ -0,0 +1,143 @@
+import type Database from 'better-sqlite3';
+import { encrypt, decrypt } from '@/utils/crypto';
+import type { EncryptionParams } from '@/lib/0g/encryption';
+import { DEFAULT_SHARE_ROLE, ShareRole } from '@/utils/permissions';
+
+// 휴지통으로 옮길 당시의 상위 폴더 (최상위부터 순서대로)
+export interface ItemLocation {
+  id: string;
+  name: string;
+}
+
+// Item(파일 또는 폴더) 데이터 타입 정의
+export interface ItemRecord {
+  id: string;
+  type: 'file' | 'folder';
+  name: string;
+  parentId: string | null; // null이면 최상위
+  walletAddress: string;
+  uploadDate: string;
+
+  // 파일 전용 속성
+  fileExtension?: string;
+  fileSize?: number;
+  rootHash?: string;
+  networkType?: string;
+  encryption?: EncryptionParams; // 클라이언트 측 암호화된 파일의 암호화 파라미터
+
+  // 공유 기능 속성
+  sharedWith?: string[]; // 공유된 지갑 주소 목록
+  shareRoles?: Record<string, ShareRole>; // 공유된 지갑별 역할 (없는 주소는 viewer)
+  sharedBy?: string; // 공유해준 지갑 주소
+
+  uploadedBy?: string; // 현재 버전을 업로드한 지갑 주소
+  shortcutTo?: string; // 바로가기: 공유받은 아이템의 ID (type은 대상과 같고, 열 때마다 접근 권한을 다시 확인)
+  maxVersions?: number; // 폴더 전용: 하위 파일마다 보관할 이전 버전 수 (없으면 상위 폴더 설정 또는 기본값)
+
+  // 사용자 정의 메타데이터 (utils/metadata.ts)
+  tags?: string[];
+  starred?: boolean;
+  description?: string;
+  properties?: Record<string, string>;
+
+  // 휴지통 속성
+  deletedAt?: string; // 휴지통으로 옮긴 시각
+  trashedWith?: string; // 함께 휴지통으로 옮겨진 최상위 아이템의 ID
+  originalPath?: ItemLocation[]; // 휴지통으로 직접 옮긴 아이템만 (복원 시 상위 폴더 재생성에 사용)
+
+  revision?: number; // 바뀔 때마다 DB trigger가 올리는 번호 (동기화 충돌 확인용)
+}
+
+export interface ItemRow {
+  id: string;
+  wallet_address: string;
+  parent_id: string | null;
+  type: 'file' | 'folder';
+  root_hash: string | null;
+  upload_date: string;
+  payload: string;
+  deleted_at: string | null;
+  trashed_with: string | null;
+  revision: number;
+  shared_with: string | null; // json_group_array 결과
+  share_roles: string | null; // json_group_object 결과
+}
+
+// 공유 목록과 역할을 함께 읽어오는 기본 SELECT
+export const ITEM_SELECT = `
+  SELECT items.*,
+    (SELECT json_group_array(wallet_address) FROM item_shares WHERE item_shares.item_id = items.id) AS shared_with,
+    (SELECT json_group_object(wallet_address, role) FROM item_shares WHERE item_shares.item_id = items.id) AS share_roles
+  FROM items`;
+
+/**
+ * Converts a database row back into an item, decrypting its payload
+ * @param row The row selected with ITEM_SELECT
+ * @returns The item
+ */
+export function rowToItem(row: ItemRow): ItemRecord {
+  const item: ItemRecord = {
+    ...JSON.parse(decrypt(row.payload)),
+    id: row.id,
+    type: row.type,
+    parentId: row.parent_id,
+    walletAddress: row.wallet_address,
+    uploadDate: row.upload_date,
+  };
+  if (row.root_hash) {
+    item.rootHash = row.root_hash;
+  }
+  if (row.deleted_at) {
+    item.deletedAt = row.deleted_at;
+  }
+  if (row.trashed_with) {
+    item.trashedWith = row.trashed_with;
+  }
+  if (row.revision) {
+    item.revision = row.revision;
+  }
+
+  const sharedWith: string[] = row.shared_with ? JSON.parse(row.shared_with) : [];
+  if (sharedWith.length > 0) {
+    item.sharedWith = sharedWith;
+    item.shareRoles = row.share_roles ? JSON.parse(row.share_roles) : {};
+  }
+  return item;
+}
+
+/**
+ * Inserts or replaces an item and its share list (with each wallet's role).
+ * The trash columns are left untouched; they are only changed by the trash functions in items.ts,
+ * and the revision is bumped by the database triggers.
+ * @param db The database connection
+ * @param item The item to store
+ */
+export function writeItem(db: Database.Database, item: ItemRecord): void {
+  const { id, type, parentId, walletAddress, uploadDate, rootHash, sharedWith, shareRoles, deletedAt, trashedWith, revision, ...rest } = item;
+
+  db.prepare(`
+    INSERT INTO items (id, wallet_address, parent_id, type, root_hash, upload_date, payload)
+    VALUES (@id, @walletAddress, @parentId, @type, @rootHash, @uploadDate, @payload)
+    ON CONFLICT (id) DO UPDATE SET
+      wallet_address = excluded.wallet_address,
+      parent_id = excluded.parent_id,
+      type = excluded.type,
+      root_hash = excluded.root_hash,
+      upload_date = excluded.upload_date,
+      payload = excluded.payload
+  `).run({
+    id,
+    walletAddress: walletAddress.toLowerCase(),
+    parentId,
+    type,
+    rootHash: rootHash ?? null,
+    uploadDate,
+    payload: encrypt(JSON.stringify(rest)),
+  });
+
+  db.prepare('DELETE FROM item_shares WHERE item_id = ?').run(id);
+  const insertShare = db.prepare('INSERT OR IGNORE INTO item_shares (item_id, wallet_address, role) VALUES (?, ?, ?)');
+  for (const address of sharedWith ?? []) {
+    insertShare.run(id, address.toLowerCase(), shareRoles?.[address.toLowerCase()] ?? DEFAULT_SHARE_ROLE);
+  }
+}
@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import { getDb } from './database';
+import { hashPassword, verifyPassword } from '@/lib/auth/password';
+import type { ShareLink } from '@/utils/shareLinks';
+
+export type { ShareLink } from '@/utils/shareLinks';
+
+interface ShareLinkRow {
+  id: string;
+  item_id: string;
+  created_by: string;
+  created_at: string;
+  expires_at: string | null;
+  password_hash: string | null;
+  max_downloads: number | null;
+  download_count: number;
+  revoked_at: string | null;
+  failed_attempts: number;
+  locked_until: string | null;
+}
+
+export interface ShareLinkOptions {
+  expiresAt?: string | null;
+  password?: string | null;
+  maxDownloads?: number | null;
+}
+
+export interface PasswordCheckResult {
+  valid: boolean;
+  lockedUntil: string | null; // 실패가 쌓여 잠긴 경우 다시 시도할 수 있는 시각 (ISO)
+}
+
+const LINK_ID_BYTES = 16;
+// 이 횟수만큼 연속으로 틀리면 링크를 잠그고, 이후 실패할 때마다 잠금 시간을 두 배로 늘림
+const PASSWORD_MAX_ATTEMPTS = 5;
+const PASSWORD_LOCKOUT_MS = 60 * 1000; // 1분
+const PASSWORD_MAX_LOCKOUT_MS = 60 * 60 * 1000; // 1시간
+
+// 비밀번호 해시는 응답에 포함하지 않고 설정 여부만 노출
+function rowToShareLink(row: ShareLinkRow): ShareLink {
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    hasPassword: row.password_hash !== null,
+    maxDownloads: row.max_downloads,
+    downloadCount: row.download_count,
+    revokedAt: row.revoked_at,
+  };
+}
+
+function getShareLinkRow(id: string): ShareLinkRow | undefined {
+  return getDb().prepare('SELECT * FROM share_links WHERE id = ?').get(id) as ShareLinkRow | undefined;
+}
+
+/**
+ * Creates a share link for an item
+ * @param itemId The item ID
+ * @param createdBy The owner's wallet address
+ * @param options Optional expiry time (ISO), password and maximum number of downloads
+ * @returns The new link
+ */
+export async function createShareLink(itemId: string, createdBy: string, options: ShareLinkOptions): Promise<ShareLink> {
+  const row: ShareLinkRow = {
+    id: crypto.randomBytes(LINK_ID_BYTES).toString('base64url'),
+    item_id: itemId,
+    created_by: createdBy.toLowerCase(),
+    created_at: new Date().toISOString(),
+    expires_at: options.expiresAt ?? null,
+    password_hash: options.password ? await hashPassword(options.password) : null,
+    max_downloads: options.maxDownloads ?? null,
+    download_count: 0,
+    revoked_at: null,
+    failed_attempts: 0,
+    locked_until: null,
+  };
+
+  getDb().prepare(`
+    INSERT INTO share_links (id, item_id, created_by, created_at, expires_at, password_hash, max_downloads, download_count, revoked_at)
+    VALUES (@id, @item_id, @created_by, @created_at, @expires_at, @password_hash, @max_downloads, @download_count, @revoked_at)
+  `).run(row);
+
+  return rowToShareLink(row);
+}
+
+/**
+ * Lists the share links of an item, newest first (revoked ones included)
+ * @param itemId The item ID
+ */
+export function listShareLinks(itemId: string): ShareLink[] {
+  const rows = getDb().prepare('SELECT * FROM share_links WHERE item_id = ? ORDER BY created_at DESC')
+    .all(itemId) as ShareLinkRow[];
+  return rows.map(rowToShareLink);
+}
+
+/**
+ * Gets a share link by its ID
+ * @param id The link ID
+ * @returns The link, or null if there is none
+ */
+export function getShareLink(id: string): ShareLink | null {
+  const row = getShareLinkRow(id);
+  return row ? rowToShareLink(row) : null;
+}
+
+/**
+ * Records a password attempt before it is checked, so concurrent guesses are counted too
+ * @param id The link ID
+ * @returns The password hash to check against, or the time the link is locked until
+ */
+function beginPasswordAttempt(id: string): { hash: string | null; lockedUntil: string | null } {
+  const db = getDb();
+  return db.transaction(() => {
+    const row = getShareLinkRow(id);
+    if (!row || row.password_hash === null) {
+      return { hash: null, lockedUntil: null };
+    }
+
+    const now = Date.now();
+    if (row.locked_until && Date.parse(row.locked_until) > now) {
+      return { hash: null, lockedUntil: row.locked_until };
+    }
+
+    const attempts = row.failed_attempts + 1;
+    const lockedUntil = attempts >= PASSWORD_MAX_ATTEMPTS
+      ? new Date(now + Math.min(PASSWORD_LOCKOUT_MS * 2 ** (attempts - PASSWORD_MAX_ATTEMPTS), PASSWORD_MAX_LOCKOUT_MS)).toISOString()
+      : null;
+    db.prepare('UPDATE share_links SET failed_attempts = ?, locked_until = ? WHERE id = ?').run(attempts, lockedUntil, id);
+    return { hash: row.password_hash, lockedUntil: null };
+  })();
+}
+
+/**
+ * Checks the password of a share link.
+ * Each wrong password counts as a failed attempt; after PASSWORD_MAX_ATTEMPTS in a row the link is locked
+ * for a while (doubling with every further failure), and a correct password resets the count.
+ * @param id The link ID
+ * @param password The password given by the visitor
+ * @returns Whether the link has no password or the password matches, and when a locked link can be tried again
+ */
+export async function checkShareLinkPassword(id: string, password: string | undefined): Promise<PasswordCheckResult> {
+  const row = getShareLinkRow(id);
+  if (!row) {
+    return { valid: false, lockedUntil: null };
+  }
+  if (row.password_hash === null) {
+    return { valid: true, lockedUntil: null };
+  }
+  if (!password) {
+    return { valid: false, lockedUntil: null };
+  }
+
+  const attempt = beginPasswordAttempt(id);
+  if (!attempt.hash) {
+    return { valid: false, lockedUntil: attempt.lockedUntil };
+  }
+  if (!(await verifyPassword(password, attempt.hash))) {
+    return { valid: false, lockedUntil: null };
+  }
+
+  getDb().prepare('UPDATE share_links SET failed_attempts = 0, locked_until = NULL WHERE id = ?').run(id);
+  return { valid: true, lockedUntil: null };
+}
+
+/**
+ * Counts one download if the link is still usable (not revoked, not expired, downloads left)
+ * @param id The link ID
+ * @returns Whether the download was allowed
+ */
+export function consumeShareLinkDownload(id: string): boolean {
+  // 조건 확인과 증가를 한 문장으로 처리하여 동시 요청에도 최대 다운로드 수를 넘지 않음
+  const result = getDb().prepare(`
+    UPDATE share_links SET download_count = download_count + 1
+    WHERE id = @id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > @now)
+      AND (max_downloads IS NULL OR download_count < max_downloads)
+  `).run({ id, now: new Date().toISOString() });
+  return result.changes > 0;
+}
+
+/**
+ * Revokes a share link (it stays listed with its download count)
+ * @param id The link ID
+ * @param walletAddress The wallet that created the link
+ * @returns The revoked link, or null if there is no such link for this wallet
+ */
+export function revokeShareLink(id: string, walletAddress: string): ShareLink | null {
+  const db = getDb();
+  db.prepare('UPDATE share_links SET revoked_at = ? WHERE id = ? AND created_by = ? AND revoked_at IS NULL')
+    .run(new Date().toISOString(), id, walletAddress.toLowerCase());
+
+  const row = getShareLinkRow(id);
+  return row && row.created_by === walletAddress.toLowerCase() ? rowToShareLink(row) : null;
+}
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FileMeta } from '@/utils/indexeddb';
+
+// 임시 DB 파일에서 테스트
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), '0gdrive-sync-'));
+vi.stubEnv('DATABASE_PATH', path.join(dataDir, 'test.db'));
+vi.stubEnv('AES_SECRET_KEY', '0123456789abcdef0123456789abcdef');
+
+let sync: typeof import('./sync');
+let items: typeof import('./items');
+
+const WALLET = '0x00000000000000000000000000000000000000a1';
+const HOUR_MS = 60 * 60 * 1000;
+
+const folder = (id: string, name: string): FileMeta => ({
+  id, type: 'folder', name, parentId: null, walletAddress: WALLET, uploadDate: '2026-01-01T00:00:00.000Z',
+});
+
+// UTC-5 시간대 표기 (UTC 표기보다 문자열로는 앞서지만 시각은 같음)
+function toEasternTime(time: number): string {
+  return new Date(time - 5 * HOUR_MS).toISOString().replace('Z', '-05:00');
+}
+
+beforeAll(async () => {
+  sync = await import('./sync');
+  items = await import('./items');
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('applyItemChange', () => {
+  it('compares change times as times, not as strings', () => {
+    const created = sync.applyItemChange(WALLET, { id: 'item-0001', baseRevision: 0, changedAt: new Date().toISOString(), item: folder('item-0001', 'Draft') });
+    expect(created.status).toBe('applied');
+    items.updateItem({ ...items.getOwnedItem('item-0001', WALLET)!, name: 'Edited on the server' });
+
+    const newer = sync.applyItemChange(WALLET, {
+      id: 'item-0001', baseRevision: created.revision!, changedAt: toEasternTime(Date.now() + HOUR_MS), item: folder('item-0001', 'Edited later'),
+    });
+    expect(newer).toMatchObject({ status: 'applied', conflict: true });
+    expect(items.getOwnedItem('item-0001', WALLET)?.name).toBe('Edited later');
+
+    items.updateItem({ ...items.getOwnedItem('item-0001', WALLET)!, name: 'Edited on the server again' });
+    const older = sync.applyItemChange(WALLET, {
+      id: 'item-0001', baseRevision: newer.revision!, changedAt: toEasternTime(Date.now() - HOUR_MS), item: folder('item-0001', 'Edited earlier'),
+    });
+    expect(older.status).toBe('conflict');
+    expect(items.getOwnedItem('item-0001', WALLET)?.name).toBe('Edited on the server again');
+  });
+
+  it('rejects changes with an invalid time', () => {
+    const result = sync.applyItemChange(WALLET, { id: 'item-0002', baseRevision: 0, changedAt: 'yesterday', item: folder('item-0002', 'Notes') });
+    expect(result).toEqual({ id: 'item-0002', status: 'rejected', error: 'Invalid changedAt' });
+    expect(items.getOwnedItem('item-0002', WALLET)).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+import { getDb, transaction } from './database';
+import { ITEM_SELECT, ItemRecord, ItemRow, rowToItem, writeItem } from './records';
+import { getItemAccess } from './items';
+import { addItemVersion, getFileContent } from './versions';
+import { isEncryptionParams } from '@/lib/0g/encryption';
+import { validateFileExtension, validateFileName, validateItemId, validateItemSize } from '@/utils/itemValidation';
+import { applyMetadataUpdate, parseMetadataUpdate } from '@/utils/metadata';
+import { canPerform } from '@/utils/permissions';
+import { MAX_VERSIONS_LIMIT } from '@/utils/storage';
+import type { FileMeta } from '@/utils/indexeddb';
+import type { RemoteChange, RemoteChangePage, SyncChange, SyncChangeResult } from '@/utils/sync';
+
+// 휴지통으로 옮길 당시 상위 폴더 경로의 최대 길이
+const MAX_ORIGINAL_PATH_LENGTH = 256;
+
+interface ItemChangeRow {
+  seq: number;
+  item_id: string;
+  wallet_address: string;
+  revision: number;
+  changed_at: string;
+  deleted: number;
+}
+
+function getItemRow(id: string): ItemRow | undefined {
+  return getDb().prepare(`${ITEM_SELECT} WHERE items.id = ?`).get(id) as ItemRow | undefined;
+}
+
+/**
+ * Lists a wallet's item changes after a point in the change journal (only the latest change of each item is kept)
+ * @param walletAddress The wallet address
+ * @param since The last seq the client has seen (0 for everything)
+ * @param limit The maximum number of changes to return
+ * @returns The changes with the current state of each item that still exists
+ */
+export function listItemChanges(walletAddress: string, since: number, limit: number): RemoteChangePage {
+  const rows = getDb().prepare('SELECT * FROM item_changes WHERE wallet_address = ? AND seq > ? ORDER BY seq LIMIT ?')
+    .all(walletAddress.toLowerCase(), since, limit + 1) as ItemChangeRow[];
+  const hasMore = rows.length > limit;
+
+  const changes = rows.slice(0, limit).map((row): RemoteChange => {
+    const itemRow = row.deleted ? undefined : getItemRow(row.item_id);
+    return {
+      seq: row.seq,
+      id: row.item_id,
+      revision: row.revision,
+      changedAt: row.changed_at,
+      deleted: !itemRow,
+      ...(itemRow ? { item: rowToItem(itemRow) } : {}),
+    };
+  });
+
+  return { changes, cursor: changes.length > 0 ? changes[changes.length - 1].seq : since, hasMore };
+}
+
+// 클라이언트 아이템을 서버 아이템으로 (/api/files POST, PATCH와 같은 규칙으로 검증하고 저장할 필드만 옮김)
+// 소유자, 공유 목록, 바로가기 대상은 서버 것을 유지하고(새 아이템은 호출한 지갑), 이전 버전은 item_versions에서 관리
+function toItemRecord(value: unknown, id: string, existing: ItemRecord | null, address: string): [ItemRecord | null, Error | null] {
+  const item = value as FileMeta;
+  if (!item || typeof item !== 'object' || item.id !== id || !validateItemId(id)) {
+    return [null, new Error('Invalid item ID')];
+  }
+  if (item.type !== 'file' && item.type !== 'folder') {
+    return [null, new Error('Invalid item type')];
+  }
+  if (existing && existing.type !== item.type) {
+    return [null, new Error('The item type cannot be changed')];
+  }
+  if (typeof item.name !== 'string' || !validateFileName(item.name)) {
+    return [null, new Error('Invalid file name')];
+  }
+  if (item.parentId !== null && !validateItemId(item.parentId)) {
+    return [null, new Error('Invalid parentId')];
+  }
+  if (typeof item.uploadDate !== 'string' || Number.isNaN(Date.parse(item.uploadDate))) {
+    return [null, new Error('Invalid uploadDate')];
+  }
+  // 바로가기는 /api/files/shortcuts에서만 만듦
+  if (!existing && item.shortcutTo !== undefined) {
+    return [null, new Error('Shortcuts must be created with /api/files/shortcuts')];
+  }
+
+  let record: ItemRecord = {
+    id,
+    type: item.type,
+    name: item.name,
+    parentId: item.parentId,
+    walletAddress: existing?.walletAddress ?? address,
+    uploadDate: item.uploadDate,
+    ...(existing?.shortcutTo ? { shortcutTo: existing.shortcutTo } : {}),
+    ...(existing?.sharedWith ? { sharedWith: existing.sharedWith, shareRoles: existing.shareRoles } : {}),
+  };
+
+  if (item.type === 'file') {
+    const { fileExtension, fileSize, rootHash, networkType, encryption } = item;
+    if (!fileExtension || !fileSize || !rootHash || !networkType ||
+      typeof fileExtension !== 'string' || typeof fileSize !== 'number' || typeof rootHash !== 'string' || typeof networkType !== 'string') {
+      return [null, new Error('Missing file-specific fields')];
+    }
+    if (encryption !== undefined && !isEncryptionParams(encryption)) {
+      return [null, new Error('Invalid encryption parameters')];
+    }
+    if (!validateFileExtension(fileExtension)) {
+      return [null, new Error('File extension not allowed')];
+    }
+    if (!validateItemSize(fileSize)) {
+      return [null, new Error('File size exceeds limit')];
+    }
+    // 새 내용이면 올린 지갑이 uploadedBy (클라이언트가 보낸 값은 쓰지 않음)
+    const uploadedBy = existing && existing.rootHash === rootHash ? existing.uploadedBy : address;
+    record = {
+      ...record,
+      fileExtension,
+      fileSize,
+      rootHash,
+      networkType,
+      ...(encryption ? { encryption } : {}),
+      ...(uploadedBy ? { uploadedBy } : {}),
+    };
+  }
+
+  if (item.maxVersions !== undefined) {
+    if (item.type !== 'folder' || !Number.isInteger(item.maxVersions) || item.maxVersions < 0 || item.maxVersions > MAX_VERSIONS_LIMIT) {
+      return [null, new Error(`maxVersions must be an integer from 0 to ${MAX_VERSIONS_LIMIT} on folders`)];
+    }
+    record.maxVersions = item.maxVersions;
+  }
+
+  const [metadata, metadataError] = parseMetadataUpdate(item as unknown as Record<string, unknown>);
+  if (metadataError) {
+    return [null, metadataError];
+  }
+  if (metadata) {
+    const [withMetadata, applyError] = applyMetadataUpdate(record, metadata);
+    if (!withMetadata) {
+      return [null, applyError ?? new Error('Invalid metadata')];
+    }
+    record = withMetadata;
+  }
+
+  if (item.deletedAt !== undefined) {
+    if (typeof item.deletedAt !== 'string' || Number.isNaN(Date.parse(item.deletedAt))) {
+      return [null, new Error('Invalid deletedAt')];
+    }
+    if (item.trashedWith !== undefined && !validateItemId(item.trashedWith)) {
+      return [null, new Error('Invalid trashedWith')];
+    }
+    if (item.originalPath !== undefined) {
+      const originalPath = item.originalPath as unknown;
+      const valid = Array.isArray(originalPath) && originalPath.length <= MAX_ORIGINAL_PATH_LENGTH &&
+        originalPath.every(location => location && validateItemId(location.id) &&
+          typeof location.name === 'string' && validateFileName(location.name));
+      if (!valid) {
+        return [null, new Error('Invalid originalPath')];
+      }
+      record.originalPath = item.originalPath.map(({ id: locationId, name }) => ({ id: locationId, name }));
+    }
+  }
+
+  return [record, null];
+}
+
+// 아이템을 둘 상위 폴더 확인 (/api/files POST와 같은 규칙)
+// 다른 지갑의 폴더에는 editor 이상의 역할로 새 아이템만 추가할 수 있고, 아이템은 폴더 소유자의 것이 됨
+// 서버에 아직 없는 폴더(다음 변경으로 올라올 폴더)는 호출한 지갑의 것으로 봄
+function resolveOwner(parentId: string | null, address: string, existing: ItemRecord | null): [string | null, Error | null] {
+  const parentRow = parentId ? getItemRow(parentId) : undefined;
+  if (!parentRow) {
+    return [existing?.walletAddress ?? address, null];
+  }
+  if (parentRow.type !== 'folder') {
+    return [null, new Error('Parent folder not found')];
+  }
+  // 자신의 폴더는 휴지통에 있어도 됨 (폴더와 함께 휴지통으로 옮긴 하위 아이템)
+  if (parentRow.wallet_address === address) {
+    return rowToItem(parentRow).shortcutTo
+      ? [null, new Error('Cannot add items to a shortcut; add them to the folder it points to')]
+      : [existing?.walletAddress ?? address, null];
+  }
+  if (existing) {
+    return [null, new Error('You cannot move items to this folder')];
+  }
+  const parent = getItemAccess(parentRow.id, address);
+  if (!parent) {
+    return [null, new Error('Parent folder not found')];
+  }
+  if (parent.item.shortcutTo) {
+    return [null, new Error('Cannot add items to a shortcut; add them to the folder it points to')];
+  }
+  if (!canPerform(parent.role, 'edit')) {
+    return [null, new Error(`Your role (${parent.role}) does not allow adding items to this folder`)];
+  }
+  return [parent.item.walletAddress, null];
+}
+
+function toResult(id: string, status: SyncChangeResult['status'], conflict: boolean): SyncChangeResult {
+  const row = getItemRow(id);
+  const journal = getDb().prepare('SELECT revision FROM item_changes WHERE item_id = ?').get(id) as { revision: number } | undefined;
+  return {
+    id,
+    status,
+    ...(conflict ? { conflict } : {}),
+    revision: row?.revision ?? journal?.revision ?? 0,
+    ...(row ? { item: rowToItem(row) } : { deleted: true }),
+  };
+}
+
+/**
+ * Applies one change pushed by a client. If the item changed on the server since the client's base revision,
+ * the change made last wins: a newer client change is applied anyway, an older one is dropped and the server's item returned.
+ * @param walletAddress The wallet that pushed the change
+ * @param change The change
+ * @returns What happened, with the server's item after the change
+ */
+export function applyItemChange(walletAddress: string, change: SyncChange): SyncChangeResult {
+  const address = walletAddress.toLowerCase();
+
+  return transaction(() => {
+    const db = getDb();
+    const row = getItemRow(change.id);
+    if (row && row.wallet_address !== address) {
+      return { id: change.id, status: 'rejected', error: 'Item not found' };
+    }
+    if (!validateItemId(change.id)) {
+      return { id: change.id, status: 'rejected', error: 'Invalid item ID' };
+    }
+    const changedAt = Date.parse(change.changedAt);
+    if (Number.isNaN(changedAt)) {
+      return { id: change.id, status: 'rejected', error: 'Invalid changedAt' };
+    }
+
+    const journal = db.prepare('SELECT * FROM item_changes WHERE item_id = ?').get(change.id) as ItemChangeRow | undefined;
+    const known = journal && journal.wallet_address === address ? journal : undefined;
+    const serverRevision = row?.revision ?? known?.revision ?? 0;
+    const conflict = change.baseRevision !== serverRevision && !!known;
+
+    // 양쪽이 모두 바뀌었으면 나중에 바꾼 쪽이 이김 (시간대 표기가 달라도 되도록 시각으로 비교)
+    if (conflict && Date.parse(known!.changed_at) >= changedAt) {
+      console.log(`[db] Sync conflict on ${change.id}: server change (${known!.changed_at}) is newer`);
+      return toResult(change.id, 'conflict', false);
+    }
+
+    if (change.deleted) {
+      if (row) {
+        db.prepare('DELETE FROM items WHERE id = ?').run(change.id);
+      }
+      return toResult(change.id, 'applied', conflict);
+    }
+
+    const existing = row ? rowToItem(row) : null;
+    const [next, itemError] = toItemRecord(change.item, change.id, existing, address);
+    if (!next) {
+      return { id: change.id, status: 'rejected', error: itemError?.message ?? 'Invalid item' };
+    }
+    const [owner, ownerError] = resolveOwner(next.parentId, address, existing);
+    if (!owner) {
+      return { id: change.id, status: 'rejected', error: ownerError?.message ?? 'Parent folder not found' };
+    }
+    next.walletAddress = owner;
+    if (existing?.type === 'file' && next.type === 'file' && next.rootHash && next.rootHash !== existing.rootHash) {
+      // 새로 업로드된 내용이면 서버의 버전 기록에도 남김
+      addItemVersion({ ...next, ...getFileContent(existing) }, getFileContent(next));
+    } else {
+      writeItem(db, next);
+    }
+
+    const deletedAt = change.item!.deletedAt ?? null;
+    const trashedWith = deletedAt ? change.item!.trashedWith ?? change.id : null;
+    db.prepare('UPDATE items SET deleted_at = @deletedAt, trashed_with = @trashedWith WHERE id = @id AND (deleted_at IS NOT @deletedAt OR trashed_with IS NOT @trashedWith)')
+      .run({ id: change.id, deletedAt, trashedWith });
+
+    return toResult(change.id, 'applied', conflict);
+  });
+}
@@ -0,0 +1,171 @@
+import { getDb } from './database';
+import { ITEM_SELECT, ItemRecord, ItemRow, rowToItem, writeItem } from './records';
+import { encrypt, decrypt } from '@/utils/crypto';
+import { DEFAULT_MAX_VERSIONS } from '@/utils/storage';
+import type { EncryptionParams } from '@/lib/0g/encryption';
+
+// 파일 내용에 해당하는 속성 (버전마다 달라지는 값)
+export interface FileContent {
+  rootHash: string;
+  fileSize: number;
+  fileExtension?: string;
+  networkType?: string;
+  encryption?: EncryptionParams;
+  uploadedBy: string;
+  uploadDate: string;
+}
+
+// 파일의 이전 버전
+export interface ItemVersion extends FileContent {
+  id: number;
+}
+
+interface ItemVersionRow {
+  id: number;
+  item_id: string;
+  root_hash: string | null;
+  upload_date: string;
+  payload: string;
+}
+
+function rowToVersion(row: ItemVersionRow): ItemVersion {
+  return {
+    ...JSON.parse(decrypt(row.payload)),
+    id: row.id,
+    rootHash: row.root_hash ?? '',
+    uploadDate: row.upload_date,
+  };
+}
+
+/**
+ * Gets the current content of a file (older items without an uploader count as uploaded by the owner)
+ * @param item The file
+ */
+export function getFileContent(item: ItemRecord): FileContent {
+  return {
+    rootHash: item.rootHash ?? '',
+    fileSize: item.fileSize ?? 0,
+    fileExtension: item.fileExtension,
+    networkType: item.networkType,
+    encryption: item.encryption,
+    uploadedBy: item.uploadedBy ?? item.walletAddress,
+    uploadDate: item.uploadDate,
+  };
+}
+
+// 아이템의 내용을 바꾼 사본 (이전 내용의 암호화 파라미터는 남기지 않음)
+function withContent(item: ItemRecord, content: FileContent): ItemRecord {
+  const { encryption, ...rest } = item;
+  return {
+    ...rest,
+    ...content,
+    ...(content.encryption ? { encryption: content.encryption } : {}),
+  };
+}
+
+function insertVersion(itemId: string, content: FileContent): void {
+  const { rootHash, uploadDate, ...rest } = content;
+  getDb().prepare(`
+    INSERT INTO item_versions (item_id, root_hash, upload_date, payload) VALUES (?, ?, ?, ?)
+  `).run(itemId, rootHash || null, uploadDate, encrypt(JSON.stringify(rest)));
+}
+
+/**
+ * Gets how many previous versions are kept for files in a folder:
+ * the nearest `maxVersions` set on the folder or one of its ancestors, otherwise the default
+ * @param parentId The folder ID, or null for the root
+ * @returns The number of previous versions to keep
+ */
+export function getVersionLimit(parentId: string | null): number {
+  const seen = new Set<string>();
+  let currentId = parentId;
+
+  while (currentId && !seen.has(currentId)) {
+    seen.add(currentId);
+    const row = getDb().prepare(`${ITEM_SELECT} WHERE items.id = ?`).get(currentId) as ItemRow | undefined;
+    if (!row) {
+      break;
+    }
+    const folder = rowToItem(row);
+    if (typeof folder.maxVersions === 'number') {
+      return folder.maxVersions;
+    }
+    currentId = folder.parentId;
+  }
+  return DEFAULT_MAX_VERSIONS;
+}
+
+/**
+ * Deletes the oldest previous versions of an item beyond a limit
+ * @param itemId The item ID
+ * @param limit The number of previous versions to keep
+ * @returns The number of deleted versions
+ */
+export function pruneItemVersions(itemId: string, limit: number): number {
+  const result = getDb().prepare(`
+    DELETE FROM item_versions
+    WHERE item_id = @itemId
+      AND id NOT IN (SELECT id FROM item_versions WHERE item_id = @itemId ORDER BY id DESC LIMIT @limit)
+  `).run({ itemId, limit });
+  return result.changes;
+}
+
+/**
+ * Lists the previous versions of an item
+ * @param itemId The item ID
+ * @returns The versions, newest first
+ */
+export function listItemVersions(itemId: string): ItemVersion[] {
+  const rows = getDb().prepare('SELECT * FROM item_versions WHERE item_id = ? ORDER BY id DESC')
+    .all(itemId) as ItemVersionRow[];
+  return rows.map(rowToVersion);
+}
+
+/**
+ * Gets one previous version of an item
+ * @param itemId The item ID
+ * @param versionId The version ID
+ * @returns The version, or null if the item has no such version
+ */
+export function getItemVersion(itemId: string, versionId: number): ItemVersion | null {
+  const row = getDb().prepare('SELECT * FROM item_versions WHERE item_id = ? AND id = ?')
+    .get(itemId, versionId) as ItemVersionRow | undefined;
+  return row ? rowToVersion(row) : null;
+}
+
+/**
+ * Makes new content the current version of a file, keeping the old content as a previous version.
+ * Versions beyond the folder's limit are deleted. Call inside a transaction.
+ * @param item The existing file
+ * @param content The newly uploaded content
+ * @returns The updated file
+ */
+export function addItemVersion(item: ItemRecord, content: FileContent): ItemRecord {
+  insertVersion(item.id, getFileContent(item));
+  const updated = withContent(item, content);
+  writeItem(getDb(), updated);
+  pruneItemVersions(item.id, getVersionLimit(item.parentId));
+  return updated;
+}
+
+/**
+ * Makes a previous version the current one again; the current content becomes a previous version.
+ * Call inside a transaction.
+ * @param item The file
+ * @param versionId The version to restore
+ * @returns The updated file, or null if the item has no such version
+ */
+export function restoreItemVersion(item: ItemRecord, versionId: number): ItemRecord | null {
+  const version = getItemVersion(item.id, versionId);
+  if (!version) {
+    return null;
+  }
+  const { id, ...content } = version;
+
+  getDb().prepare('DELETE FROM item_versions WHERE id = ?').run(id);
+  insertVersion(item.id, getFileContent(item));
+  const updated = withContent(item, content);
+  writeItem(getDb(), updated);
+  pruneItemVersions(item.id, getVersionLimit(item.parentId));
+  return updated;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress } from './allowlist';
+
+describe('isPrivateAddress', () => {
+  it('blocks private, loopback and link-local addresses', () => {
+    for (const ip of ['10.1.2.3', '127.0.0.1', '169.254.169.254', '192.168.0.10', '::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1']) {
+      expect(isPrivateAddress(ip), ip).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const ip of ['8.8.8.8', '2001:4860:4860::8888', 'fc::1']) {
+      expect(isPrivateAddress(ip), ip).toBe(false);
+    }
+  });
+
+  it('checks IPv4-mapped IPv6 addresses as IPv4, in dotted or hex form', () => {
+    for (const ip of ['::ffff:127.0.0.1', '::ffff:7f00:1', '0:0:0:0:0:ffff:a00:1', '::FFFF:C0A8:1']) {
+      expect(isPrivateAddress(ip), ip).toBe(true);
+    }
+    expect(isPrivateAddress('::ffff:808:808')).toBe(false);
+  });
+
+  it('checks NAT64 addresses (64:ff9b::/96) as IPv4', () => {
+    for (const ip of ['64:ff9b::7f00:1', '64:ff9b::127.0.0.1', '64:ff9b::a9fe:a9fe']) {
+      expect(isPrivateAddress(ip), ip).toBe(true);
+    }
+    expect(isPrivateAddress('64:ff9b::808:808')).toBe(false);
+  });
+});
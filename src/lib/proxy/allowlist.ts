@@ -0,0 +1,297 @@
+import dns from 'dns';
+import net from 'net';
+import { Agent, fetch as undiciFetch, type RequestInit as UndiciRequestInit } from 'undici';
+import { getNetworkConfig } from '@/lib/0g/network';
+import type { NetworkType } from '@/app/providers';
+
+const NETWORK_TYPES: NetworkType[] = ['standard', 'turbo'];
+const NODE_LIST_TTL_MS = 5 * 60 * 1000; // 5분
+const NODE_LIST_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 3;
+
+// 요청 본문 최대 크기 (PROXY_MAX_BODY_BYTES로 변경 가능, 기본 32MB)
+export const MAX_PROXY_BODY_BYTES = parseInt(process.env.PROXY_MAX_BODY_BYTES || '', 10) || 32 * 1024 * 1024;
+
+// 인덱서가 반환한 스토리지 노드 origin 캐시
+let nodeOriginCache: { origins: Set<string>; expiresAt: number } | null = null;
+
+// 차단할 IPv4 대역 (사설망, 루프백, 링크 로컬, CGNAT, 멀티캐스트 등)
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((acc, part) => (acc * 256) + parseInt(part, 10), 0);
+}
+
+function isBlockedIpv4(ip: string): boolean {
+  const value = ipv4ToNumber(ip);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + size;
+  });
+}
+
+// IPv6 주소를 16비트 8개로 펼침 (::로 줄인 부분과 끝의 IPv4 표기 포함, 존 ID는 무시)
+function expandIpv6(ip: string): number[] {
+  let address = ip.split('%')[0].toLowerCase();
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[2]);
+    address = `${dotted[1]}${Math.floor(value / 0x10000).toString(16)}:${(value % 0x10000).toString(16)}`;
+  }
+
+  const toHextets = (part: string) => part ? part.split(':').map(hextet => parseInt(hextet, 16)) : [];
+  const [head, tail] = address.split('::');
+  if (tail === undefined) {
+    return toHextets(head);
+  }
+  const front = toHextets(head);
+  const back = toHextets(tail);
+  return [...front, ...new Array<number>(8 - front.length - back.length).fill(0), ...back];
+}
+
+// IPv4 주소를 담은 IPv6 주소의 IPv4 부분: IPv4-mapped (::ffff:0:0/96)와 NAT64 (64:ff9b::/96)
+function getEmbeddedIpv4(hextets: number[]): string | null {
+  const isZero = (from: number, to: number) => hextets.slice(from, to).every(hextet => hextet === 0);
+  const mapped = isZero(0, 5) && hextets[5] === 0xffff;
+  const nat64 = hextets[0] === 0x64 && hextets[1] === 0xff9b && isZero(2, 6);
+  if (!mapped && !nat64) {
+    return null;
+  }
+  return [hextets[6] >> 8, hextets[6] & 0xff, hextets[7] >> 8, hextets[7] & 0xff].join('.');
+}
+
+/**
+ * Checks whether an IP address is private, loopback, link-local or otherwise not publicly routable.
+ * IPv6 addresses that carry an IPv4 address (IPv4-mapped and NAT64) are checked as that IPv4 address.
+ * @param ip The IPv4 or IPv6 address
+ * @returns Whether the proxy must not connect to the address
+ */
+export function isPrivateAddress(ip: string): boolean {
+  if (net.isIPv4(ip)) {
+    return isBlockedIpv4(ip);
+  }
+  if (!net.isIPv6(ip)) {
+    return true;
+  }
+
+  const hextets = expandIpv6(ip);
+  const embedded = getEmbeddedIpv4(hextets);
+  if (embedded) {
+    return isBlockedIpv4(embedded);
+  }
+  const [first] = hextets;
+  return (hextets.slice(0, 7).every(hextet => hextet === 0) && hextets[7] <= 1) || // :: 와 ::1 loopback
+    (first & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+    (first & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+    (first & 0xff00) === 0xff00; // multicast
+}
+
+// 인덱서에서 스토리지 노드 목록 조회 (indexer_getShardedNodes JSON-RPC)
+async function fetchNodeOrigins(indexerUrl: string): Promise<string[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), NODE_LIST_TIMEOUT_MS);
+  try {
+    const response = await fetch(indexerUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'indexer_getShardedNodes', params: [] }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Indexer returned ${response.status}`);
+    }
+
+    const { result } = await response.json();
+    const nodes: { url: string }[] = [...(result?.trusted ?? []), ...(result?.discovered ?? [])];
+    return nodes.flatMap(node => {
+      try {
+        return [new URL(node.url).origin];
+      } catch {
+        return [];
+      }
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function getIndexerOrigins(): string[] {
+  return NETWORK_TYPES.map(type => new URL(getNetworkConfig(type).storageRpc).origin);
+}
+
+// 스토리지 노드 목록은 TTL 동안 캐시하고, 갱신 실패 시 이전 목록을 유지
+async function getNodeOrigins(): Promise<Set<string>> {
+  if (nodeOriginCache && nodeOriginCache.expiresAt > Date.now()) {
+    return nodeOriginCache.origins;
+  }
+
+  const indexers = Array.from(new Set(NETWORK_TYPES.map(type => getNetworkConfig(type).storageRpc)));
+  const results = await Promise.allSettled(indexers.map(fetchNodeOrigins));
+
+  const origins = new Set<string>();
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      result.value.forEach(origin => origins.add(origin));
+    } else {
+      console.warn(`[Proxy] Failed to load storage nodes from ${indexers[index]}:`, result.reason);
+    }
+  });
+
+  // 빈 목록은 캐시하지 않고 다음 요청에서 다시 조회
+  if (origins.size === 0) {
+    return nodeOriginCache?.origins ?? origins;
+  }
+
+  nodeOriginCache = { origins, expiresAt: Date.now() + NODE_LIST_TTL_MS };
+  console.log(`[Proxy] Loaded ${origins.size} storage node origin(s)`);
+  return origins;
+}
+
+/**
+ * Validates a proxy target: it must be an http(s) URL on a configured indexer or a storage node
+ * the indexer reports, and its host must not resolve to a private or link-local address
+ * @param rawUrl The requested URL
+ * @returns The parsed URL and any rejection reason
+ */
+export async function validateProxyTarget(rawUrl: string): Promise<[URL | null, Error | null]> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return [null, new Error('Invalid URL')];
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return [null, new Error(`Protocol not allowed: ${url.protocol}`)];
+  }
+  if (url.username || url.password) {
+    return [null, new Error('Credentials in URL are not allowed')];
+  }
+
+  const allowed = getIndexerOrigins().includes(url.origin) || (await getNodeOrigins()).has(url.origin);
+  if (!allowed) {
+    return [null, new Error(`Host not allowed: ${url.host}`)];
+  }
+
+  // 허용된 호스트라도 내부망 주소로 해석되면 차단
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  try {
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      return [null, new Error(`Host resolves to a private address: ${url.host} -> ${blocked.address}`)];
+    }
+  } catch (error) {
+    return [null, new Error(`Failed to resolve host: ${url.host}`)];
+  }
+
+  return [url, null];
+}
+
+// 연결할 때 해석한 주소를 다시 확인하는 lookup. validateProxyTarget 이후에 DNS 응답이 내부망 주소로 바뀌어도(DNS rebinding)
+// 확인한 주소로만 연결됨 (IP 주소로 된 호스트는 lookup 없이 연결되며 validateProxyTarget에서 이미 확인)
+function checkedLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`Host resolves to a private address: ${hostname} -> ${blocked?.address ?? 'none'}`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+const proxyAgent = new Agent({ connect: { lookup: checkedLookup } });
+
+/**
+ * Fetches an allowed target, following redirects only when each hop passes validateProxyTarget.
+ * Connections go through an agent that checks the address it connects to, so a host cannot be resolved
+ * to a public address for validation and a private one for the connection.
+ * @param target A URL returned by validateProxyTarget
+ * @param init The fetch options
+ * @returns The response and any rejection reason (network errors are thrown)
+ */
+export async function fetchAllowed(target: URL, init: RequestInit): Promise<[Response | null, Error | null]> {
+  let current = target;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await undiciFetch(current, {
+      ...(init as UndiciRequestInit),
+      redirect: 'manual',
+      dispatcher: proxyAgent,
+    }) as unknown as Response;
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return [response, null];
+    }
+
+    const [next, nextErr] = await validateProxyTarget(new URL(location, current).toString());
+    if (!next) {
+      return [null, new Error(`Redirect rejected: ${nextErr?.message}`)];
+    }
+    current = next;
+  }
+  return [null, new Error('Too many redirects')];
+}
+
+/**
+ * Reads a request body, stopping as soon as it exceeds the size limit
+ * @param req The incoming request
+ * @param maxBytes The maximum body size
+ * @returns The body and any error
+ */
+export async function readBodyWithLimit(req: Request, maxBytes: number): Promise<[ArrayBuffer | null, Error | null]> {
+  const declared = parseInt(req.headers.get('content-length') || '', 10);
+  if (declared > maxBytes) {
+    return [null, new Error(`Request body too large: ${declared} bytes (limit ${maxBytes})`)];
+  }
+  if (!req.body) {
+    return [new ArrayBuffer(0), null];
+  }
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return [null, new Error(`Request body too large: more than ${maxBytes} bytes`)];
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return [body.buffer, null];
+}
@@ -0,0 +1,147 @@
+import { applyRemoteChanges, getWalletFileMeta, setFileRevisions } from '@/utils/indexeddb';
+import type { FileMeta } from '@/utils/indexeddb';
+import {
+  getSyncCursor, getSyncQueue, putSyncCursor, queueSyncChanges, removeSyncQueueEntries, SyncQueueEntry,
+} from '@/utils/syncStore';
+import {
+  MAX_SYNC_BATCH, RemoteChange, RemoteChangePage, SyncChange, SyncChangeResult, SyncConflict, SyncRejection,
+} from '@/utils/sync';
+
+type Fetcher = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface SyncResult {
+  pushed: number; // 서버에 반영된 로컬 변경 수
+  pulled: number; // IndexedDB에 반영된 서버 변경 수
+  conflicts: SyncConflict[];
+  rejected: SyncRejection[]; // 서버가 반영하지 않은 변경 (서버에 있는 아이템은 서버의 것으로 되돌림)
+}
+
+// 대기열 항목을 보낼 변경으로 (이전 버전 목록은 서버가 item_versions에서 따로 관리하므로 보내지 않음)
+function toSyncChange(entry: SyncQueueEntry, local: FileMeta | undefined): SyncChange {
+  if (!local) {
+    return { id: entry.itemId, baseRevision: entry.baseRevision ?? 0, changedAt: entry.changedAt, deleted: true };
+  }
+  const { versions, ...item } = local;
+  return { id: entry.itemId, baseRevision: local.revision ?? 0, changedAt: entry.changedAt, item };
+}
+
+async function readJson<T>(response: Response, fallback: string): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || fallback);
+  }
+  return data as T;
+}
+
+// 반영되지 않은 변경의 아이템을 서버에서 다시 받음 (서버에 없거나 볼 수 없으면 null)
+async function fetchServerItem(id: string, fetcher: Fetcher): Promise<FileMeta | null> {
+  const response = await fetcher(`/api/files/${encodeURIComponent(id)}`);
+  if (response.status === 404) {
+    return null;
+  }
+  const { item } = await readJson<{ item: FileMeta }>(response, 'Failed to load item');
+  return item;
+}
+
+async function pendingIds(walletAddress: string): Promise<Set<string>> {
+  return new Set((await getSyncQueue(walletAddress)).map(entry => entry.itemId));
+}
+
+// 대기열의 로컬 변경을 서버로 보냄
+async function push(walletAddress: string, fetcher: Fetcher, result: SyncResult): Promise<void> {
+  const queue = await getSyncQueue(walletAddress);
+  for (let i = 0; i < queue.length; i += MAX_SYNC_BATCH) {
+    const batch = queue.slice(i, i + MAX_SYNC_BATCH);
+    const localById = new Map((await getWalletFileMeta(walletAddress, true)).map(item => [item.id, item]));
+    const changes = batch.map(entry => toSyncChange(entry, localById.get(entry.itemId)));
+
+    const { results } = await readJson<{ results: SyncChangeResult[] }>(
+      await fetcher('/api/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes }),
+      }),
+      'Failed to send changes'
+    );
+
+    const revisions = new Map<string, number>();
+    const serverWins: RemoteChange[] = [];
+    const resolvedAt = new Date().toISOString();
+    for (const r of results) {
+      const name = localById.get(r.id)?.name ?? r.item?.name ?? r.id;
+      if (r.status === 'applied') {
+        result.pushed++;
+        if (!r.deleted && r.revision) {
+          revisions.set(r.id, r.revision);
+        }
+        if (r.conflict) {
+          result.conflicts.push({ id: r.id, name, winner: 'local', resolvedAt });
+        }
+      } else if (r.status === 'conflict') {
+        // 서버의 변경이 더 최근이면 로컬 아이템을 서버 것으로 되돌림
+        serverWins.push({ seq: 0, id: r.id, revision: r.revision ?? 0, changedAt: resolvedAt, deleted: !!r.deleted, item: r.item });
+        result.conflicts.push({ id: r.id, name, winner: 'server', resolvedAt });
+      } else {
+        // 반영할 수 없는 변경은 서버의 아이템으로 되돌림 (서버에 없으면 로컬 아이템은 그대로 두고 결과로만 알림)
+        const serverItem = await fetchServerItem(r.id, fetcher);
+        if (serverItem) {
+          serverWins.push({ seq: 0, id: r.id, revision: serverItem.revision ?? 0, changedAt: resolvedAt, deleted: false, item: serverItem });
+        }
+        result.rejected.push({ id: r.id, name, error: r.error ?? 'Rejected by the server', restored: !!serverItem });
+      }
+    }
+
+    await removeSyncQueueEntries(batch);
+    await setFileRevisions(walletAddress, revisions);
+    // 보내는 동안 다시 바뀐 아이템은 다음 동기화에서 보냄
+    result.pulled += await applyRemoteChanges(walletAddress, serverWins, await pendingIds(walletAddress));
+  }
+}
+
+// 마지막으로 받은 위치 이후의 서버 변경을 받아 IndexedDB에 반영
+async function pull(walletAddress: string, fetcher: Fetcher, since: number, result: SyncResult): Promise<number> {
+  let cursor = since;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await readJson<RemoteChangePage>(
+      await fetcher(`/api/sync?since=${cursor}`),
+      'Failed to load changes'
+    );
+    result.pulled += await applyRemoteChanges(walletAddress, page.changes, await pendingIds(walletAddress));
+    cursor = page.cursor;
+    hasMore = page.hasMore && page.changes.length > 0;
+  }
+  return cursor;
+}
+
+/**
+ * Syncs a wallet's items between IndexedDB and the server: queued local changes are sent first,
+ * then the server's changes since the last sync are applied locally (except items with unsent local changes).
+ * The first sync on a device queues every local item the server has not seen yet.
+ * @param walletAddress The connected wallet address (IndexedDB items are stored under it as is)
+ * @param fetcher An authenticated fetch
+ * @returns The number of changes sent and received, the conflicts that were resolved and the changes the server rejected
+ */
+export async function syncWallet(walletAddress: string, fetcher: Fetcher): Promise<[SyncResult | null, Error | null]> {
+  const result: SyncResult = { pushed: 0, pulled: 0, conflicts: [], rejected: [] };
+  try {
+    const state = await getSyncCursor(walletAddress);
+    if (!state.bootstrapped) {
+      const unsynced = (await getWalletFileMeta(walletAddress, true)).filter(item => !item.revision);
+      await queueSyncChanges(walletAddress, unsynced.map(item => item.id));
+      console.log('[SyncEngine] Queued existing items for the first sync:', unsynced.length);
+    }
+
+    await push(walletAddress, fetcher, result);
+    const cursor = await pull(walletAddress, fetcher, state.cursor, result);
+
+    await putSyncCursor({ walletAddress, cursor, lastSyncedAt: new Date().toISOString(), bootstrapped: true });
+    console.log('[SyncEngine] Sync complete:', {
+      pushed: result.pushed, pulled: result.pulled, conflicts: result.conflicts.length, rejected: result.rejected.length,
+    });
+    return [result, null];
+  } catch (error) {
+    console.error('[SyncEngine] Sync failed:', error);
+    return [null, error instanceof Error ? error : new Error(String(error))];
+  }
+}
@@ -0,0 +1,168 @@
+// 백업 스냅샷과 현재 드라이브 비교 및 가져오기 계획 (useBackup과 BackupButtons에서 사용)
+import { getUniqueName } from './folderTree';
+import type { FileMeta } from './indexeddb';
+
+// merge: 백업에만 있는 아이템 추가, replace: 드라이브를 백업과 같게 만듦 (백업에 없는 아이템은 휴지통으로),
+// subfolder: 백업 전체를 새 폴더 아래에 사본으로 복원
+export type ImportMode = 'merge' | 'replace' | 'subfolder';
+
+// 같은 아이템이 양쪽에서 다를 때 merge에서 남길 쪽
+export type ConflictResolution = 'current' | 'backup';
+
+// 비교하는 속성 (파일 내용, 이름, 위치)
+const COMPARED_FIELDS = ['type', 'name', 'parentId', 'rootHash', 'fileSize', 'fileExtension'] as const;
+export type ConflictField = typeof COMPARED_FIELDS[number];
+
+export interface BackupConflict {
+  current: FileMeta;
+  backup: FileMeta;
+  fields: ConflictField[]; // 달라진 속성
+}
+
+export interface BackupDiff {
+  additions: FileMeta[]; // 백업에만 있는 아이템
+  deletions: FileMeta[]; // 드라이브에만 있는 아이템 (replace에서 휴지통으로 이동)
+  conflicts: BackupConflict[];
+  unchanged: number;
+}
+
+export interface ImportPlan {
+  put: FileMeta[]; // 저장(추가 또는 덮어쓰기)할 아이템
+  trash: string[]; // 휴지통으로 옮길 최상위 아이템 ID (하위 아이템은 함께 이동)
+}
+
+export interface ImportOptions {
+  walletAddress: string;
+  resolution?: ConflictResolution; // merge 전용 (기본: 현재 드라이브 유지)
+  folderName?: string; // subfolder 전용
+  newId?: () => string;
+}
+
+/**
+ * Compares a backup with the drive by item ID
+ * @param current The drive's items outside the trash
+ * @param backup The items in the backup
+ * @returns What the backup would add, what only exists in the drive, and the items that changed
+ */
+export function diffBackup(current: FileMeta[], backup: FileMeta[]): BackupDiff {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const backupIds = new Set(backup.map(item => item.id));
+  const diff: BackupDiff = { additions: [], deletions: [], conflicts: [], unchanged: 0 };
+
+  for (const item of backup) {
+    const existing = currentById.get(item.id);
+    if (!existing) {
+      diff.additions.push(item);
+      continue;
+    }
+    const fields = COMPARED_FIELDS.filter(field => (existing[field] ?? null) !== (item[field] ?? null));
+    if (fields.length > 0) {
+      diff.conflicts.push({ current: existing, backup: item, fields });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.deletions = current.filter(item => !backupIds.has(item.id));
+  return diff;
+}
+
+// 백업 아이템을 이 지갑의 아이템으로 정리 (예전 백업의 주소 대소문자, 휴지통 속성 제거)
+function toImported(item: FileMeta, walletAddress: string): FileMeta {
+  const copy: FileMeta = { ...item, walletAddress };
+  delete copy.deletedAt;
+  delete copy.trashedWith;
+  delete copy.originalPath;
+  return copy;
+}
+
+// 상위 폴더부터 순서대로 (형제 이름 중복 확인 시 상위 폴더가 먼저 자리를 잡도록)
+function sortParentsFirst(items: FileMeta[]): FileMeta[] {
+  const ids = new Set(items.map(item => item.id));
+  const children = new Map<string | null, FileMeta[]>();
+  for (const item of items) {
+    const parentKey = item.parentId && ids.has(item.parentId) ? item.parentId : null;
+    children.set(parentKey, [...(children.get(parentKey) ?? []), item]);
+  }
+
+  const sorted: FileMeta[] = [];
+  const queue: (string | null)[] = [null];
+  for (let i = 0; i < queue.length; i++) {
+    for (const child of children.get(queue[i]) ?? []) {
+      sorted.push(child);
+      queue.push(child.id);
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Works out which items to write and which to move to the trash to import a backup.
+ * Parent/child links are kept: items whose folder exists in neither the backup nor the drive go to the root,
+ * and names that clash with a different item in the same folder get " (n)".
+ * @param current The drive's items outside the trash
+ * @param backup The items in the backup
+ * @param mode How to import
+ * @param options The wallet address, the conflict resolution for merge and the folder name for subfolder
+ * @returns The items to write and the items to move to the trash
+ */
+export function planBackupImport(current: FileMeta[], backup: FileMeta[], mode: ImportMode, options: ImportOptions): ImportPlan {
+  const { walletAddress, resolution = 'current', newId = () => crypto.randomUUID() } = options;
+  const imported = backup.map(item => toImported(item, walletAddress));
+
+  if (mode === 'subfolder') {
+    // 기존 아이템과 겹치지 않도록 모든 아이템을 새 ID의 사본으로 만들고, 공유 정보는 원본 ID에 묶여 있으므로 뺌
+    const rootNames = new Set(current.filter(item => item.parentId === null).map(item => item.name));
+    const folder: FileMeta = {
+      id: newId(),
+      type: 'folder',
+      name: getUniqueName(options.folderName || 'Restored backup', rootNames, false),
+      parentId: null,
+      walletAddress,
+      uploadDate: new Date().toISOString(),
+      sharedWith: [],
+    };
+    const idMap = new Map(imported.map(item => [item.id, newId()]));
+    const copies = imported.map(item => {
+      const copy: FileMeta = {
+        ...item,
+        id: idMap.get(item.id)!,
+        parentId: (item.parentId && idMap.get(item.parentId)) || folder.id,
+        sharedWith: [],
+      };
+      delete copy.shareRoles;
+      return copy;
+    });
+    return { put: [folder, ...copies], trash: [] };
+  }
+
+  const diff = diffBackup(current, imported);
+  const changed = mode === 'replace' || resolution === 'backup' ? diff.conflicts.map(conflict => conflict.backup) : [];
+
+  // 가져온 뒤의 드라이브 상태 (replace에서는 백업에 없는 아이템이 빠짐)
+  const finalState = new Map(
+    (mode === 'replace' ? current.filter(item => !diff.deletions.includes(item)) : current).map(item => [item.id, item])
+  );
+  const candidates = sortParentsFirst([...diff.additions, ...changed]);
+  candidates.forEach(item => finalState.set(item.id, item));
+
+  const put = candidates.map(item => {
+    const parentId = item.parentId && finalState.has(item.parentId) ? item.parentId : null;
+    const taken = new Set(
+      Array.from(finalState.values())
+        .filter(sibling => sibling.parentId === parentId && sibling.id !== item.id)
+        .map(sibling => sibling.name)
+    );
+    const placed = { ...item, parentId, name: getUniqueName(item.name, taken, item.type === 'file') };
+    finalState.set(placed.id, placed);
+    return placed;
+  });
+
+  // 삭제할 폴더 안의 아이템은 폴더와 함께 휴지통으로 이동
+  const deletionIds = new Set(diff.deletions.map(item => item.id));
+  const trash = mode === 'replace'
+    ? diff.deletions.filter(item => !item.parentId || !deletionIds.has(item.parentId)).map(item => item.id)
+    : [];
+
+  return { put, trash };
+}
@@ -0,0 +1,15 @@
+// 0G Storage에 올린 IndexedDB 백업 스냅샷 (서버 /api/backup과 useBackup, BackupButtons에서 함께 사용)
+
+export interface BackupSnapshot {
+  id: number;
+  walletAddress: string;
+  rootHash: string; // 백업 JSON 파일의 root hash
+  itemCount: number;
+  networkType: string; // 백업 파일을 올린 네트워크 (복원할 때 이 네트워크에서 다운로드)
+  size: number; // 백업 JSON 파일 크기 (bytes)
+  createdAt: string;
+  pinned: boolean; // 고정한 스냅샷은 오래되어도 자동으로 지우지 않음
+}
+
+// 지갑마다 보관하는 고정하지 않은 스냅샷 수 (넘으면 오래된 것부터 삭제)
+export const MAX_BACKUP_SNAPSHOTS = Number(process.env.NEXT_PUBLIC_MAX_BACKUP_SNAPSHOTS || 20);
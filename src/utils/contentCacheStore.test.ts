@@ -0,0 +1,120 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 작은 한도로 테스트 (약 1KB)
+vi.stubEnv('NEXT_PUBLIC_CONTENT_CACHE_MAX_MB', '0.001');
+
+let store: typeof import('./contentCacheStore');
+
+const WALLET = '0xAbCd000000000000000000000000000000000001';
+const content = (size: number) => new Blob([new Uint8Array(size)]);
+// lastAccessedAt가 서로 다르도록 (ISO 문자열은 ms 단위)
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+async function cachedHashes(): Promise<string[]> {
+  return (await store.listCachedContent()).map(entry => entry.rootHash).sort();
+}
+
+beforeAll(async () => {
+  store = await import('./contentCacheStore');
+});
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await store.setContentPins(WALLET, new Set());
+  for (const entry of await store.listCachedContent()) {
+    await store.deleteCachedContent(entry.rootHash);
+  }
+});
+
+describe('content cache', () => {
+  it('returns cached content by root hash regardless of case', async () => {
+    expect(await store.putCachedContent('0xAA', content(10))).toBe(true);
+    expect(await store.hasCachedContent('0xaa')).toBe(true);
+    expect((await store.getCachedContent('0xAa'))?.size).toBe(10);
+    expect(await store.getCachedContent('0xbb')).toBeUndefined();
+  });
+
+  it('evicts the least recently used content when over the limit', async () => {
+    await store.putCachedContent('0x01', content(400));
+    await tick();
+    await store.putCachedContent('0x02', content(400));
+    await tick();
+    await store.getCachedContent('0x01');
+    await tick();
+    await store.putCachedContent('0x03', content(400));
+
+    expect(await cachedHashes()).toEqual(['0x01', '0x03']);
+  });
+
+  it('does not cache unpinned content larger than the whole cache', async () => {
+    expect(await store.putCachedContent('0x04', content(store.CONTENT_CACHE_MAX_BYTES + 1))).toBe(false);
+    expect(await store.hasCachedContent('0x04')).toBe(false);
+  });
+
+  it('never evicts content pinned for offline use', async () => {
+    await store.putCachedContent('0x05', content(400), WALLET);
+    await tick();
+    await store.putCachedContent('0x06', content(400));
+    await tick();
+    await store.putCachedContent('0x07', content(400));
+
+    expect(await cachedHashes()).toEqual(['0x05', '0x07']);
+    expect((await store.listCachedContent()).find(entry => entry.rootHash === '0x05')?.pinnedBy).toEqual([WALLET.toLowerCase()]);
+  });
+
+  it('sets pins per wallet and reports what is not cached yet', async () => {
+    await store.putCachedContent('0x08', content(100));
+    const other = '0xAbCd000000000000000000000000000000000002';
+    await store.setContentPins(other, new Set(['0x08']));
+
+    expect(await store.setContentPins(WALLET, new Set(['0x08', '0x09']))).toEqual(['0x09']);
+    expect((await store.listCachedContent())[0].pinnedBy.sort()).toEqual([WALLET.toLowerCase(), other.toLowerCase()].sort());
+
+    // 다른 지갑의 고정은 남김
+    await store.setContentPins(WALLET, new Set());
+    expect((await store.listCachedContent())[0].pinnedBy).toEqual([other.toLowerCase()]);
+    await store.setContentPins(other, new Set());
+  });
+
+  it('writes downloading content and only shows it once committed', async () => {
+    const writer = await store.createContentCacheWriter('0x0A');
+    await writer.write(new Uint8Array([1, 2, 3]));
+    await writer.write(new Uint8Array([4, 5]));
+    expect(await store.hasCachedContent('0x0a')).toBe(false);
+
+    expect(await writer.commit()).toBe(true);
+    const data = await store.getCachedContent('0x0a');
+    expect(Array.from(new Uint8Array(await data!.arrayBuffer()))).toEqual([1, 2, 3, 4, 5]);
+
+    const discarded = await store.createContentCacheWriter('0x0b');
+    await discarded.write(new Uint8Array(10));
+    await discarded.discard();
+    expect(await discarded.commit()).toBe(false);
+    expect(await store.hasCachedContent('0x0b')).toBe(false);
+  });
+
+  it('stops writing unpinned content that grows past the limit, but keeps pinned content', async () => {
+    const limit = Math.floor(store.CONTENT_CACHE_MAX_BYTES);
+    const unpinned = await store.createContentCacheWriter('0x0c');
+    await unpinned.write(new Uint8Array(limit));
+    await unpinned.write(new Uint8Array(1));
+    expect(await unpinned.commit()).toBe(false);
+    expect(await store.hasCachedContent('0x0c')).toBe(false);
+
+    const pinned = await store.createContentCacheWriter('0x0d', WALLET);
+    await pinned.write(new Uint8Array(limit));
+    await pinned.write(new Uint8Array(1));
+    expect(await pinned.commit()).toBe(true);
+    expect((await store.getCachedContent('0x0d'))?.size).toBe(limit + 1);
+  });
+
+  it('keeps offline marks per wallet', async () => {
+    await store.setItemOffline(WALLET, 'folder-1', true);
+    await store.setItemOffline(WALLET, 'file-1', true);
+    await store.setItemOffline(WALLET, 'file-1', false);
+
+    expect(await store.getOfflineItemIds(WALLET.toUpperCase().replace('0X', '0x'))).toEqual(['folder-1']);
+    expect(await store.getOfflineItemIds('0xAbCd000000000000000000000000000000000002')).toEqual([]);
+  });
+});
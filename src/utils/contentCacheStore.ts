@@ -0,0 +1,370 @@
+// IndexedDB 유틸리티 for 다운로드한 파일 내용의 캐시 (root hash별, 암호화된 파일은 암호문 그대로)
+// 전체 크기가 한도를 넘으면 가장 오래 사용하지 않은 항목부터 지움. 오프라인으로 지정된 파일의 내용은 지우지 않음
+// 내용은 조각(Blob) 단위로 저장하여 다운로드 중에 받은 만큼씩 기록하고, 검증이 끝나면 항목을 추가해 캐시에 나타나게 함
+
+export interface ContentCacheEntry {
+  rootHash: string;
+  size: number;
+  cachedAt: string;
+  lastAccessedAt: string;
+  pinnedBy: string[]; // 이 내용을 오프라인으로 지정한 지갑 (소문자, 비어 있으면 한도를 넘을 때 지워질 수 있음)
+}
+
+interface ContentChunk {
+  rootHash: string;
+  index: number;
+  data: Blob;
+}
+
+// 다운로드 중인 내용을 캐시에 조각 단위로 기록 (commit 전에는 캐시에 나타나지 않음)
+export interface ContentCacheWriter {
+  write: (chunk: Uint8Array) => Promise<void>; // 실패해도 예외를 던지지 않고 캐시하지 않음
+  commit: () => Promise<boolean>; // 받은 내용이 root hash와 맞는 것을 확인한 뒤 호출
+  discard: () => Promise<void>;
+}
+
+// 오프라인으로 지정한 파일 또는 폴더 (폴더면 하위 파일 모두)
+interface OfflineMark {
+  walletAddress: string; // 소문자
+  itemId: string;
+}
+
+export const CONTENT_CACHE_MAX_BYTES = Number(process.env.NEXT_PUBLIC_CONTENT_CACHE_MAX_MB || 1024) * 1024 * 1024;
+
+const DB_NAME = '0gdrive_content_cache';
+const DB_VERSION = 2;
+const ENTRIES_STORE = 'entries';
+const CHUNKS_STORE = 'chunks';
+const OFFLINE_STORE = 'offline';
+const LEGACY_CONTENTS_STORE = 'contents'; // 버전 1: 내용 전체를 한 레코드에 보관
+// 다운로드 중 메모리에 모았다가 한 번에 기록하는 크기
+const CHUNK_SIZE = 8 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'rootHash' });
+      }
+      // 버전 1의 캐시는 버림 (오프라인으로 지정된 파일은 다시 받음)
+      if (db.objectStoreNames.contains(LEGACY_CONTENTS_STORE)) {
+        db.deleteObjectStore(LEGACY_CONTENTS_STORE);
+        request.transaction!.objectStore(ENTRIES_STORE).clear();
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ['rootHash', 'index'] });
+      }
+      if (!db.objectStoreNames.contains(OFFLINE_STORE)) {
+        const store = db.createObjectStore(OFFLINE_STORE, { keyPath: ['walletAddress', 'itemId'] });
+        store.createIndex('walletAddress', 'walletAddress', { unique: false });
+      }
+      console.log('[ContentCache] Object stores created');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('[ContentCache] DB open error:', request.error);
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+const cacheKey = (rootHash: string) => rootHash.toLowerCase();
+
+function chunkRange(key: string): IDBKeyRange {
+  return IDBKeyRange.bound([key, 0], [key, Infinity]);
+}
+
+// 항목과 내용 조각을 함께 삭제 (같은 트랜잭션 안에서)
+function deleteContent(tx: IDBTransaction, key: string): void {
+  tx.objectStore(ENTRIES_STORE).delete(key);
+  tx.objectStore(CHUNKS_STORE).delete(chunkRange(key));
+}
+
+// 새 항목을 추가하고 한도를 넘은 만큼 지움 (같은 트랜잭션 안에서, 이미 있던 항목의 고정은 유지)
+function putEntry(tx: IDBTransaction, key: string, size: number, pinnedBy: string | undefined, entries: ContentCacheEntry[]): void {
+  const now = new Date().toISOString();
+  const existing = entries.find(entry => entry.rootHash === key);
+  const pins = new Set(existing?.pinnedBy ?? []);
+  if (pinnedBy) {
+    pins.add(pinnedBy.toLowerCase());
+  }
+  const entry: ContentCacheEntry = { rootHash: key, size, cachedAt: now, lastAccessedAt: now, pinnedBy: Array.from(pins) };
+  tx.objectStore(ENTRIES_STORE).put(entry);
+  evict(tx, [...entries.filter(other => other.rootHash !== key), entry]);
+}
+
+// 한도를 넘은 만큼 오프라인으로 지정되지 않은 항목을 오래 사용하지 않은 순서로 삭제 (같은 트랜잭션 안에서)
+function evict(tx: IDBTransaction, entries: ContentCacheEntry[]): void {
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const candidates = entries
+    .filter(entry => entry.pinnedBy.length === 0)
+    .sort((a, b) => a.lastAccessedAt.localeCompare(b.lastAccessedAt));
+  for (const entry of candidates) {
+    if (total <= CONTENT_CACHE_MAX_BYTES) break;
+    deleteContent(tx, entry.rootHash);
+    total -= entry.size;
+    console.log('[ContentCache] Evicted', entry.rootHash, entry.size);
+  }
+}
+
+function readAllEntries(tx: IDBTransaction, callback: (entries: ContentCacheEntry[]) => void): void {
+  const req = tx.objectStore(ENTRIES_STORE).getAll();
+  req.onsuccess = () => callback(req.result as ContentCacheEntry[]);
+}
+
+/**
+ * Checks whether a file's content is cached, without counting it as a use
+ * @param rootHash The file root hash
+ */
+export async function hasCachedContent(rootHash: string): Promise<boolean> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).count(cacheKey(rootHash));
+    req.onsuccess = () => resolve(req.result > 0);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Reads a file's cached content and marks it as recently used
+ * @param rootHash The file root hash
+ * @returns The content as stored (still encrypted for encrypted files), or undefined if it is not cached
+ */
+export async function getCachedContent(rootHash: string): Promise<Blob | undefined> {
+  const key = cacheKey(rootHash);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ENTRIES_STORE, CHUNKS_STORE], 'readwrite');
+    let data: Blob | undefined;
+    const entryReq = tx.objectStore(ENTRIES_STORE).get(key);
+    entryReq.onsuccess = () => {
+      const entry = entryReq.result as ContentCacheEntry | undefined;
+      if (!entry) return;
+      tx.objectStore(ENTRIES_STORE).put({ ...entry, lastAccessedAt: new Date().toISOString() });
+      // 조각은 index 순서로 읽히고, Blob으로 이어 붙여도 내용을 메모리로 읽지 않음
+      const chunksReq = tx.objectStore(CHUNKS_STORE).getAll(chunkRange(key));
+      chunksReq.onsuccess = () => {
+        data = new Blob((chunksReq.result as ContentChunk[]).map(chunk => chunk.data));
+      };
+    };
+    tx.oncomplete = () => resolve(data);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Caches a file's content, removing the least recently used unpinned entries if the cache is over its size limit
+ * @param rootHash The file root hash (the content must already have been checked against it)
+ * @param data The content as stored on 0G Storage
+ * @param pinnedBy A wallet that made the file available offline, so it is never evicted
+ * @returns Whether the content was cached (unpinned content larger than the whole cache is not)
+ */
+export async function putCachedContent(rootHash: string, data: Blob, pinnedBy?: string): Promise<boolean> {
+  if (!pinnedBy && data.size > CONTENT_CACHE_MAX_BYTES) {
+    console.log('[ContentCache] Not caching, larger than the cache limit:', rootHash, data.size);
+    return false;
+  }
+  const key = cacheKey(rootHash);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ENTRIES_STORE, CHUNKS_STORE], 'readwrite');
+    readAllEntries(tx, entries => {
+      tx.objectStore(CHUNKS_STORE).delete(chunkRange(key));
+      tx.objectStore(CHUNKS_STORE).put({ rootHash: key, index: 0, data } as ContentChunk);
+      putEntry(tx, key, data.size, pinnedBy, entries);
+    });
+    tx.oncomplete = () => {
+      console.log('[ContentCache] Cached', key, data.size);
+      resolve(true);
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Starts caching a file's content while it downloads. Data is written to IndexedDB in chunks as it arrives,
+ * so at most one chunk is held in memory; unpinned content larger than the whole cache is dropped once it passes the limit.
+ * Any previously cached content for the root hash is removed.
+ * @param rootHash The file root hash
+ * @param pinnedBy A wallet that made the file available offline, so it is never evicted
+ * @returns The writer
+ */
+export async function createContentCacheWriter(rootHash: string, pinnedBy?: string): Promise<ContentCacheWriter> {
+  const key = cacheKey(rootHash);
+  const db = await openDB();
+  const run = (fn: (tx: IDBTransaction) => void) => new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([ENTRIES_STORE, CHUNKS_STORE], 'readwrite');
+    fn(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+  await run(tx => deleteContent(tx, key));
+
+  let parts: Blob[] = [];
+  let buffered = 0;
+  let index = 0;
+  let size = 0;
+  let failed = false;
+
+  const discard = async () => {
+    failed = true;
+    parts = [];
+    await run(tx => tx.objectStore(CHUNKS_STORE).delete(chunkRange(key)));
+  };
+
+  const flush = async () => {
+    if (buffered === 0) return;
+    const chunk: ContentChunk = { rootHash: key, index: index++, data: new Blob(parts) };
+    parts = [];
+    buffered = 0;
+    await run(tx => tx.objectStore(CHUNKS_STORE).put(chunk));
+  };
+
+  return {
+    write: async (chunk) => {
+      if (failed) return;
+      size += chunk.byteLength;
+      if (!pinnedBy && size > CONTENT_CACHE_MAX_BYTES) {
+        console.log('[ContentCache] Not caching, larger than the cache limit:', key);
+        await discard().catch(() => undefined);
+        return;
+      }
+      parts.push(new Blob([chunk]));
+      buffered += chunk.byteLength;
+      if (buffered >= CHUNK_SIZE) {
+        await flush().catch(async error => {
+          console.warn('[ContentCache] Failed to write content, not caching it:', error);
+          await discard().catch(() => undefined);
+        });
+      }
+    },
+    commit: async () => {
+      if (failed) return false;
+      try {
+        await flush();
+        await run(tx => readAllEntries(tx, entries => putEntry(tx, key, size, pinnedBy, entries)));
+        console.log('[ContentCache] Cached', key, size);
+        return true;
+      } catch (error) {
+        console.warn('[ContentCache] Failed to cache content:', error);
+        await discard().catch(() => undefined);
+        return false;
+      }
+    },
+    discard,
+  };
+}
+
+/**
+ * Removes a file's content from the cache (used when it no longer matches its root hash)
+ * @param rootHash The file root hash
+ */
+export async function deleteCachedContent(rootHash: string): Promise<void> {
+  const key = cacheKey(rootHash);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ENTRIES_STORE, CHUNKS_STORE], 'readwrite');
+    deleteContent(tx, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Lists the cached contents
+ * @returns The entries, most recently used first
+ */
+export async function listCachedContent(): Promise<ContentCacheEntry[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll();
+    req.onsuccess = () => {
+      const entries: ContentCacheEntry[] = req.result;
+      resolve(entries.sort((a, b) => b.lastAccessedAt.localeCompare(a.lastAccessedAt)));
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Sets which contents a wallet keeps offline: the given contents are pinned for the wallet and
+ * the wallet's other pins are released (released contents may then be evicted)
+ * @param walletAddress The wallet address
+ * @param rootHashes The root hashes of every file the wallet made available offline
+ * @returns The root hashes that are not cached yet
+ */
+export async function setContentPins(walletAddress: string, rootHashes: Set<string>): Promise<string[]> {
+  const address = walletAddress.toLowerCase();
+  const wanted = new Set(Array.from(rootHashes).map(cacheKey));
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ENTRIES_STORE, CHUNKS_STORE], 'readwrite');
+    let missing: string[] = [];
+    readAllEntries(tx, entries => {
+      const updated = entries.map(entry => {
+        const pinned = wanted.has(entry.rootHash);
+        if (pinned === entry.pinnedBy.includes(address)) {
+          return entry;
+        }
+        const next = {
+          ...entry,
+          pinnedBy: pinned ? [...entry.pinnedBy, address] : entry.pinnedBy.filter(pin => pin !== address),
+        };
+        tx.objectStore(ENTRIES_STORE).put(next);
+        return next;
+      });
+      const cached = new Set(entries.map(entry => entry.rootHash));
+      missing = Array.from(wanted).filter(rootHash => !cached.has(rootHash));
+      evict(tx, updated);
+    });
+    tx.oncomplete = () => resolve(missing);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Lists the files and folders a wallet made available offline on this device
+ * @param walletAddress The wallet address
+ * @returns The item IDs
+ */
+export async function getOfflineItemIds(walletAddress: string): Promise<string[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(OFFLINE_STORE).objectStore(OFFLINE_STORE).index('walletAddress')
+      .getAll(IDBKeyRange.only(walletAddress.toLowerCase()));
+    req.onsuccess = () => resolve((req.result as OfflineMark[]).map(mark => mark.itemId));
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Makes a file or folder available offline on this device, or stops keeping it offline
+ * @param walletAddress The wallet address
+ * @param itemId The file or folder ID
+ * @param offline Whether to keep it offline
+ */
+export async function setItemOffline(walletAddress: string, itemId: string, offline: boolean): Promise<void> {
+  const mark: OfflineMark = { walletAddress: walletAddress.toLowerCase(), itemId };
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OFFLINE_STORE, 'readwrite');
+    if (offline) {
+      tx.objectStore(OFFLINE_STORE).put(mark);
+    } else {
+      tx.objectStore(OFFLINE_STORE).delete([mark.walletAddress, mark.itemId]);
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
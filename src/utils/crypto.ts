@@ -1,7 +1,25 @@
 import crypto from 'crypto';
 
-const ALGORITHM = 'aes-256-cbc';
-const IV_LENGTH = 16; // 128 bit
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12; // 96 bit (GCM 권장 길이)
+const KEY_LENGTH = 32; // 256 bit
+const PAYLOAD_PREFIX = 'enc';
+
+// 암호문 형식: enc:v<keyVersion>:<iv>:<authTag>:<ciphertext> (모두 base64)
+const PAYLOAD_PATTERN = /^enc:v(\d+):([A-Za-z0-9+/=]+):([A-Za-z0-9+/=]+):([A-Za-z0-9+/=]*)$/;
+
+interface Keyring {
+  currentVersion: number;
+  keys: Map<number, Buffer>;
+}
+
+function validateKey(key: string, name: string): Buffer {
+  const buffer = Buffer.from(key, 'utf8');
+  if (buffer.length !== KEY_LENGTH) {
+    throw new Error(`${name} must be exactly ${KEY_LENGTH} bytes`);
+  }
+  return buffer;
+}
 
 // Validate and get secret key from environment
 function getSecretKey(): string {
@@ -9,17 +27,106 @@ function getSecretKey(): string {
   if (!key) {
     throw new Error('AES_SECRET_KEY environment variable is required');
   }
-  if (key.length !== 32) {
+  if (key.length !== KEY_LENGTH) {
     throw new Error('AES_SECRET_KEY must be exactly 32 bytes');
   }
   return key;
 }
 
-// 암호화/복호화 없이 평문 반환
+// 현재 키(AES_SECRET_KEY / AES_KEY_VERSION)와 이전 키(AES_PREVIOUS_KEYS="1:key,2:key")로 키링 구성
+function getKeyring(): Keyring {
+  const currentVersion = parseInt(process.env.AES_KEY_VERSION || '1', 10);
+  if (!Number.isInteger(currentVersion) || currentVersion < 1) {
+    throw new Error('AES_KEY_VERSION must be a positive integer');
+  }
+
+  const keys = new Map<number, Buffer>();
+  const previous = process.env.AES_PREVIOUS_KEYS;
+  if (previous) {
+    for (const entry of previous.split(',')) {
+      const separator = entry.indexOf(':');
+      const version = parseInt(entry.slice(0, separator), 10);
+      if (separator === -1 || !Number.isInteger(version) || version < 1) {
+        throw new Error('AES_PREVIOUS_KEYS must be a comma-separated list of <version>:<key>');
+      }
+      keys.set(version, validateKey(entry.slice(separator + 1).trim(), `AES_PREVIOUS_KEYS key v${version}`));
+    }
+  }
+  keys.set(currentVersion, Buffer.from(getSecretKey(), 'utf8'));
+
+  return { currentVersion, keys };
+}
+
+/**
+ * Checks whether a stored payload was produced by encrypt()
+ * @param payload The stored payload
+ * @returns Whether the payload is encrypted
+ */
+export function isEncrypted(payload: string): boolean {
+  return PAYLOAD_PATTERN.test(payload.trim());
+}
+
+/**
+ * Gets the key version a payload was encrypted with
+ * @param payload The stored payload
+ * @returns The key version, or null for plaintext
+ */
+export function getKeyVersion(payload: string): number | null {
+  const match = payload.trim().match(PAYLOAD_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Checks whether a payload must be rewritten: plaintext, or encrypted with a key other than the current one
+ * @param payload The stored payload
+ * @returns Whether the payload should be re-encrypted with the current key
+ */
+export function needsReencryption(payload: string): boolean {
+  return getKeyVersion(payload) !== getKeyring().currentVersion;
+}
+
+/**
+ * Encrypts text with the current key (AES-256-GCM)
+ * @param text The plaintext
+ * @returns The encrypted payload tagged with the key version
+ */
 export function encrypt(text: string): string {
-  return text;
+  const { currentVersion, keys } = getKeyring();
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.get(currentVersion)!, iv);
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [
+    PAYLOAD_PREFIX,
+    `v${currentVersion}`,
+    iv.toString('base64'),
+    authTag.toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
 }
 
+/**
+ * Decrypts a payload produced by encrypt(), using whichever known key version it was written with
+ * @param encrypted The encrypted payload
+ * @returns The plaintext
+ */
 export function decrypt(encrypted: string): string {
-  return encrypted;
-} 
\ No newline at end of file
+  const match = encrypted.trim().match(PAYLOAD_PATTERN);
+  if (!match) {
+    throw new Error('Payload is not encrypted');
+  }
+
+  const [, version, iv, authTag, ciphertext] = match;
+  const key = getKeyring().keys.get(parseInt(version, 10));
+  if (!key) {
+    throw new Error(`No key configured for key version v${version}`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -1,32 +1,256 @@
+// 다운로드 데이터를 받는 대상 (디스크 파일, 서비스 워커 스트림, 메모리 또는 버림)
+export type FileSinkKind = 'file-system' | 'service-worker' | 'memory' | 'discard';
+
+export interface FileSink {
+  kind: FileSinkKind;
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: (reason?: unknown) => Promise<void>;
+  fileHandle?: FileSystemFileHandle; // file-system: 기록 중인 파일 (중단되면 같은 파일을 다시 열어 이어서 기록)
+  startOffset?: number; // 다시 연 파일에 이미 기록되어 있어 이어서 기록할 위치
+}
+
+const SERVICE_WORKER_URL = '/download-sw.js';
+const SERVICE_WORKER_SCOPE = '/__download__/';
+
 /**
  * Downloads a blob as a file
- * @param data The data to download (ArrayBuffer)
+ * @param data The data to download
  * @param fileName The name of the file to download
  */
-export function downloadBlobAsFile(data: ArrayBuffer, fileName: string): void {
+export function downloadBlobAsFile(data: ArrayBuffer | Blob, fileName: string): void {
   try {
-    // Create a blob from the array buffer
-    const blob = new Blob([data]);
-    
+    // Create a blob from the data
+    const blob = data instanceof Blob ? data : new Blob([data]);
+    if (blob.size === 0) {
+      throw new Error('File data is empty');
+    }
+
     // Create a URL for the blob
     const url = window.URL.createObjectURL(blob);
-    
+
     // Create a temporary anchor element
     const link = document.createElement('a');
     link.href = url;
-    link.download = fileName;
-    
+    link.download = fileName || `download-${Date.now()}.bin`;
+
     // Append to the document, click, and remove
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    
+
     // Clean up the URL
     window.URL.revokeObjectURL(url);
-    
+
     console.log(`[downloadBlobAsFile] File download initiated: ${fileName}`);
   } catch (error) {
     console.error('[downloadBlobAsFile] Error creating download:', error);
     throw new Error(`Failed to create download: ${error instanceof Error ? error.message : String(error)}`);
   }
-} 
\ No newline at end of file
+}
+
+// File System Access API: 사용자가 고른 파일에 바로 기록 (Chromium 계열)
+async function createFileSystemSink(fileName: string): Promise<FileSink | null> {
+  const picker = (window as any).showSaveFilePicker;
+  if (typeof picker !== 'function') {
+    return null;
+  }
+
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await picker.call(window, { suggestedName: fileName });
+  } catch (error) {
+    // 사용자가 취소한 경우는 그대로 전달, 사용자 제스처 없이 호출된 경우 등은 다른 방식으로 대체
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw error;
+    }
+    console.log('[download] File picker unavailable, falling back:', error);
+    return null;
+  }
+
+  return toFileSystemSink(handle, await handle.createWritable(), 0);
+}
+
+function toFileSystemSink(handle: FileSystemFileHandle, writable: FileSystemWritableFileStream, startOffset: number): FileSink {
+  return {
+    kind: 'file-system',
+    write: (chunk) => writable.write(chunk),
+    close: () => writable.close(),
+    abort: (reason) => writable.abort(reason),
+    fileHandle: handle,
+    startOffset,
+  };
+}
+
+/**
+ * Reopens the file of an interrupted download to continue writing after the data already in it.
+ * Call this directly from a user gesture so the browser can ask for write permission again.
+ * @param handle The file handle saved with the download
+ * @param offset The number of bytes already written to the file
+ * @returns The sink, or null if permission was denied or the file no longer has the written data
+ */
+export async function reopenFileSink(handle: FileSystemFileHandle, offset: number): Promise<FileSink | null> {
+  try {
+    const permission = await (handle as any).requestPermission?.({ mode: 'readwrite' });
+    if (permission && permission !== 'granted') {
+      return null;
+    }
+    if ((await handle.getFile()).size < offset) {
+      return null;
+    }
+    // 기존 내용을 유지한 채 열고, 기록한 위치 뒤의 내용은 잘라냄
+    const writable = await handle.createWritable({ keepExistingData: true });
+    await writable.truncate(offset);
+    await writable.seek(offset);
+    console.log(`[download] Reopened ${handle.name} at ${offset} bytes`);
+    return toFileSystemSink(handle, writable, offset);
+  } catch (error) {
+    console.log('[download] Failed to reopen the download file:', error);
+    return null;
+  }
+}
+
+function waitForActivation(registration: ServiceWorkerRegistration): Promise<ServiceWorker> {
+  if (registration.active) {
+    return Promise.resolve(registration.active);
+  }
+  return new Promise((resolve, reject) => {
+    const worker = registration.installing || registration.waiting;
+    if (!worker) {
+      reject(new Error('Download service worker failed to install'));
+      return;
+    }
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'activated') resolve(worker);
+      if (worker.state === 'redundant') reject(new Error('Download service worker became redundant'));
+    });
+  });
+}
+
+// 서비스 워커: 페이지에서 보낸 청크를 스트리밍 응답으로 내려보내 브라우저 다운로드로 저장
+async function createServiceWorkerSink(fileName: string, totalSize?: number): Promise<FileSink | null> {
+  if (!('serviceWorker' in navigator) || !window.isSecureContext) {
+    return null;
+  }
+
+  let worker: ServiceWorker;
+  try {
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE });
+    worker = await waitForActivation(registration);
+  } catch (error) {
+    console.log('[download] Service worker unavailable, falling back:', error);
+    return null;
+  }
+
+  const id = crypto.randomUUID();
+  const channel = new MessageChannel();
+  let started = false;
+
+  // 첫 청크를 받을 때 다운로드를 시작하여 실패 시 빈 파일이 생기지 않도록 함
+  const start = async () => {
+    await new Promise<void>((resolve, reject) => {
+      channel.port1.onmessage = (event) => {
+        if (event.data?.type === 'ready') resolve();
+      };
+      worker.postMessage({ type: 'register', id, fileName, size: totalSize }, [channel.port2]);
+      setTimeout(() => reject(new Error('Download service worker did not respond')), 10000);
+    });
+
+    const iframe = document.createElement('iframe');
+    iframe.hidden = true;
+    iframe.src = `${SERVICE_WORKER_SCOPE}${id}`;
+    document.body.appendChild(iframe);
+    // 다운로드가 끝난 뒤에도 잠시 유지 후 제거
+    setTimeout(() => iframe.remove(), 60000);
+    started = true;
+  };
+
+  return {
+    kind: 'service-worker',
+    write: async (chunk) => {
+      if (!started) await start();
+      // 전송 가능한 독립 버퍼로 복사하여 전달
+      const copy = chunk.slice();
+      channel.port1.postMessage({ type: 'chunk', chunk: copy }, [copy.buffer]);
+    },
+    close: async () => {
+      if (!started) await start();
+      channel.port1.postMessage({ type: 'end' });
+    },
+    abort: async (reason) => {
+      if (started) {
+        channel.port1.postMessage({ type: 'abort', reason: String(reason ?? 'aborted') });
+      }
+      channel.port1.close();
+    },
+  };
+}
+
+// 대체 방식: 청크를 Blob으로 모아서 저장 (큰 Blob은 브라우저가 디스크에 보관할 수 있음)
+function createMemorySink(fileName: string): FileSink {
+  let parts: Uint8Array[] = [];
+  return {
+    kind: 'memory',
+    write: async (chunk) => {
+      parts.push(chunk);
+    },
+    close: async () => {
+      downloadBlobAsFile(new Blob(parts), fileName);
+      parts = [];
+    },
+    abort: async () => {
+      parts = [];
+    },
+  };
+}
+
+/**
+ * Creates a sink that streams a download to disk.
+ * Uses the File System Access API when available, then a service worker stream,
+ * and finally falls back to collecting the data into a Blob.
+ * Call this directly from a user gesture so the save dialog is allowed to open.
+ * @param fileName The suggested file name
+ * @param totalSize The file size, if known
+ * @returns The sink (throws AbortError if the user cancels the save dialog)
+ */
+export async function createFileSink(fileName: string, totalSize?: number): Promise<FileSink> {
+  const sink = await createFileSystemSink(fileName) ||
+    await createServiceWorkerSink(fileName, totalSize) ||
+    createMemorySink(fileName);
+  console.log(`[download] Saving ${fileName} using ${sink.kind} sink`);
+  return sink;
+}
+
+/**
+ * Creates a sink that keeps the data in memory and returns it as an ArrayBuffer
+ * @returns The sink and a getter for the collected data
+ */
+export function createBufferSink(): { sink: FileSink; getData: () => Promise<ArrayBuffer> } {
+  const parts: Uint8Array[] = [];
+  return {
+    sink: {
+      kind: 'memory',
+      write: async (chunk) => {
+        parts.push(chunk);
+      },
+      close: async () => {},
+      abort: async () => {
+        parts.length = 0;
+      },
+    },
+    getData: () => new Blob(parts).arrayBuffer(),
+  };
+}
+
+/**
+ * Creates a sink that drops the data (for downloads that only fill the content cache)
+ * @returns The sink
+ */
+export function createDiscardSink(): FileSink {
+  return {
+    kind: 'discard',
+    write: async () => {},
+    close: async () => {},
+    abort: async () => {},
+  };
+}
@@ -0,0 +1,190 @@
+import type { EncryptionParams } from '@/lib/0g/encryption';
+import type { NetworkType } from '@/app/providers';
+
+// IndexedDB 유틸리티 for 이어받기 가능한 다운로드 진행 상태
+export interface DownloadState {
+  rootHash: string;
+  fileName: string;
+  networkType: NetworkType;
+  storageRpc: string;
+  totalSize: number;
+  segmentSize: number;
+  completedSegments: number; // 0번부터 순서대로 저장된 세그먼트 수
+  verifyOnChain: boolean;
+  encryption?: EncryptionParams;
+  updatedAt: string;
+  // file-system 싱크로 받는 경우 세그먼트를 저장하지 않고, 중단될 때 파일에 확정한 바이트 수만 기록
+  fileHandle?: FileSystemFileHandle;
+  writtenBytes?: number;
+}
+
+interface SegmentRecord {
+  rootHash: string;
+  index: number;
+  data: ArrayBuffer;
+}
+
+// 세그먼트를 저장해 이어받는 다운로드의 최대 크기 (서비스 워커/메모리 싱크). 더 큰 파일은 처음부터 다시 받음
+export const MAX_SAVED_DOWNLOAD_BYTES = 1024 * 1024 * 1024; // 1GB
+
+const DB_NAME = '0gdrive_downloads';
+const DB_VERSION = 1;
+const DOWNLOADS_STORE = 'downloads';
+const SEGMENTS_STORE = 'segments';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DOWNLOADS_STORE)) {
+        db.createObjectStore(DOWNLOADS_STORE, { keyPath: 'rootHash' });
+      }
+      if (!db.objectStoreNames.contains(SEGMENTS_STORE)) {
+        db.createObjectStore(SEGMENTS_STORE, { keyPath: ['rootHash', 'index'] });
+      }
+      console.log('[DownloadStore] Object stores created');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('[DownloadStore] DB open error:', request.error);
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function segmentRange(rootHash: string): IDBKeyRange {
+  return IDBKeyRange.bound([rootHash, 0], [rootHash, Infinity]);
+}
+
+/**
+ * Gets the saved progress of an interrupted download
+ * @param rootHash The file root hash
+ * @returns The download state, or undefined if there is none
+ */
+export async function getDownloadState(rootHash: string): Promise<DownloadState | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(DOWNLOADS_STORE).objectStore(DOWNLOADS_STORE).get(rootHash);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Lists all downloads that have not finished
+ * @returns The saved download states, most recently updated first
+ */
+export async function listDownloadStates(): Promise<DownloadState[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(DOWNLOADS_STORE).objectStore(DOWNLOADS_STORE).getAll();
+    req.onsuccess = () => {
+      const states: DownloadState[] = req.result;
+      resolve(states.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)));
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Starts (or restarts) tracking a download, discarding any segments saved for it
+ * @param state The initial download state
+ */
+export async function startDownloadState(state: DownloadState): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([DOWNLOADS_STORE, SEGMENTS_STORE], 'readwrite');
+    tx.objectStore(SEGMENTS_STORE).delete(segmentRange(state.rootHash));
+    tx.objectStore(DOWNLOADS_STORE).put(state);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Saves the next segment and advances the download state in a single transaction
+ * @param state The current download state
+ * @param data The segment data (segment index = state.completedSegments)
+ * @returns The updated download state
+ */
+export async function saveSegment(state: DownloadState, data: ArrayBuffer): Promise<DownloadState> {
+  const db = await openDB();
+  const next: DownloadState = {
+    ...state,
+    completedSegments: state.completedSegments + 1,
+    updatedAt: new Date().toISOString(),
+  };
+  const record: SegmentRecord = { rootHash: state.rootHash, index: state.completedSegments, data };
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([DOWNLOADS_STORE, SEGMENTS_STORE], 'readwrite');
+    tx.objectStore(SEGMENTS_STORE).put(record);
+    tx.objectStore(DOWNLOADS_STORE).put(next);
+    tx.oncomplete = () => resolve(next);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Records how many bytes of a file-system download were committed to the file when it was interrupted
+ * @param rootHash The file root hash
+ * @param writtenBytes The number of bytes in the file
+ */
+export async function setDownloadWrittenBytes(rootHash: string, writtenBytes: number): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(DOWNLOADS_STORE, 'readwrite');
+    const store = tx.objectStore(DOWNLOADS_STORE);
+    const req = store.get(rootHash);
+    req.onsuccess = () => {
+      const state: DownloadState | undefined = req.result;
+      if (state) {
+        store.put({ ...state, writtenBytes, updatedAt: new Date().toISOString() });
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Reads one saved segment of a download
+ * @param rootHash The file root hash
+ * @param index The segment index
+ * @returns The segment data, or undefined if it was not saved
+ */
+export async function getSegment(rootHash: string, index: number): Promise<ArrayBuffer | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(SEGMENTS_STORE).objectStore(SEGMENTS_STORE).get([rootHash, index]);
+    req.onsuccess = () => resolve((req.result as SegmentRecord | undefined)?.data);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Removes a download and its saved segments
+ * @param rootHash The file root hash
+ */
+export async function deleteDownloadState(rootHash: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([DOWNLOADS_STORE, SEGMENTS_STORE], 'readwrite');
+    tx.objectStore(SEGMENTS_STORE).delete(segmentRange(rootHash));
+    tx.objectStore(DOWNLOADS_STORE).delete(rootHash);
+    tx.oncomplete = () => {
+      console.log('[DownloadStore] Download state removed:', rootHash);
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+}
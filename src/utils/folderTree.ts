@@ -0,0 +1,100 @@
+// 드롭/선택한 파일들의 상대 경로로 폴더 트리를 구성하는 유틸리티
+export interface FolderNode {
+  name: string; // 루트 노드는 ''
+  folders: FolderNode[];
+  files: File[];
+}
+
+export interface FolderTreeStats {
+  folders: number;
+  files: number;
+  bytes: number;
+}
+
+/**
+ * Gets the path of a file relative to the dropped or selected directory.
+ * Uses the `path` set by react-dropzone (file-selector) for drops and `webkitRelativePath`
+ * for `<input webkitdirectory>` selections.
+ * @param file The file
+ * @returns The relative path, e.g. "photos/2024/a.jpg" (just the name for loose files)
+ */
+export function getRelativePath(file: File): string {
+  const withPath = file as File & { path?: string; relativePath?: string };
+  const path = withPath.relativePath || withPath.path || file.webkitRelativePath || file.name;
+  return path.replace(/^\.?\/+/, '');
+}
+
+/**
+ * Whether any of the files came from inside a directory
+ * @param files The files
+ */
+export function hasFolderStructure(files: File[]): boolean {
+  return files.some(file => getRelativePath(file).includes('/'));
+}
+
+/**
+ * Builds the folder hierarchy of the given files from their relative paths
+ * @param files The dropped or selected files
+ * @returns The root node (loose files end up directly in the root)
+ */
+export function buildFolderTree(files: File[]): FolderNode {
+  const root: FolderNode = { name: '', folders: [], files: [] };
+
+  files.forEach(file => {
+    const segments = getRelativePath(file).split('/').filter(Boolean);
+    let node = root;
+    segments.slice(0, -1).forEach(segment => {
+      let child = node.folders.find(folder => folder.name === segment);
+      if (!child) {
+        child = { name: segment, folders: [], files: [] };
+        node.folders.push(child);
+      }
+      node = child;
+    });
+    node.files.push(file);
+  });
+
+  return root;
+}
+
+/**
+ * Counts the folders, files and bytes below a node
+ * @param node The folder node
+ * @returns The totals (the node itself is not counted as a folder)
+ */
+export function getFolderTreeStats(node: FolderNode): FolderTreeStats {
+  return node.folders.reduce<FolderTreeStats>((stats, folder) => {
+    const child = getFolderTreeStats(folder);
+    return {
+      folders: stats.folders + 1 + child.folders,
+      files: stats.files + child.files,
+      bytes: stats.bytes + child.bytes,
+    };
+  }, {
+    folders: 0,
+    files: node.files.length,
+    bytes: node.files.reduce((total, file) => total + file.size, 0),
+  });
+}
+
+/**
+ * Picks a name that is not taken yet by appending " (n)" before the extension
+ * @param name The wanted name
+ * @param taken The names already in use
+ * @param isFile Whether the name is a file name (keeps the extension last)
+ * @returns The unique name
+ */
+export function getUniqueName(name: string, taken: Set<string>, isFile: boolean): string {
+  if (!taken.has(name)) {
+    return name;
+  }
+  const dot = isFile ? name.lastIndexOf('.') : -1;
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  for (let n = 1; ; n++) {
+    const candidate = `${base} (${n})${extension}`;
+    if (!taken.has(candidate)) {
+      return candidate;
+    }
+  }
+}
@@ -27,4 +27,19 @@ export function truncateString(
     return str;
   }
   return `${str.substring(0, startLen)}...${str.substring(str.length - endLen)}`;
-} 
\ No newline at end of file
+}
+
+/**
+ * Formats a duration in seconds to a short human-readable string
+ * @param seconds Duration in seconds
+ * @returns Formatted duration string (e.g. "1h 5m", "3m 20s", "45s")
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+}
@@ -1,3 +1,32 @@
+import type { EncryptionParams } from '@/lib/0g/encryption';
+import { getUniqueName } from '@/utils/folderTree';
+import { DEFAULT_MAX_VERSIONS } from '@/utils/storage';
+import { PathSegment, SearchFilters, getItemPath, matchesSearch } from '@/utils/search';
+import { Page, PageOptions, SortTuple, getPageCursor, paginateItems, parsePageCursor } from '@/utils/pagination';
+import { MetadataUpdate, applyMetadataUpdate } from '@/utils/metadata';
+import type { ItemRole, ShareRole } from '@/utils/permissions';
+import { queueSyncChanges } from '@/utils/syncStore';
+import { FILES_STORE, INDEXEDDB_VERSION, ROOT_PARENT_ID, runIndexedDBMigrations } from '@/utils/indexeddbMigrations';
+import type { RemoteChange } from '@/utils/sync';
+
+// 휴지통으로 옮길 당시의 상위 폴더 (최상위부터 순서대로)
+export interface FileLocation {
+  id: string;
+  name: string;
+}
+
+// 파일의 이전 버전 (같은 이름으로 다시 업로드할 때 보관)
+export interface FileVersion {
+  id: string;
+  rootHash: string;
+  fileSize: number;
+  fileExtension?: string;
+  networkType?: string;
+  encryption?: EncryptionParams;
+  uploadedBy: string;
+  uploadDate: string;
+}
+
 // IndexedDB 유틸리티 for 파일 메타데이터
 export interface FileMeta {
   id: string;
@@ -10,8 +39,23 @@ export interface FileMeta {
   fileSize?: number;
   rootHash?: string;
   networkType?: string;
+  encryption?: EncryptionParams; // 클라이언트 측 암호화 파라미터 (암호화된 파일만)
   sharedWith?: string[];
+  shareRoles?: Record<string, ShareRole>; // 공유된 지갑별 역할 (없는 주소는 viewer)
   sharedBy?: string;
+  role?: ItemRole; // 서버에서 받은 공유 아이템에 대한 이 지갑의 역할 (없으면 소유자)
+  uploadedBy?: string; // 현재 버전을 업로드한 지갑 주소
+  shortcutTo?: string; // 바로가기: 공유받은 아이템의 ID (열 때 서버에서 접근 권한을 다시 확인)
+  versions?: FileVersion[]; // 이전 버전 (최신순)
+  maxVersions?: number; // 폴더 전용: 하위 파일마다 보관할 이전 버전 수 (없으면 상위 폴더 설정 또는 기본값)
+  deletedAt?: string; // 휴지통으로 옮긴 시각
+  trashedWith?: string; // 함께 휴지통으로 옮겨진 최상위 아이템의 ID
+  originalPath?: FileLocation[]; // 휴지통으로 직접 옮긴 아이템만 (복원 시 상위 폴더 재생성에 사용)
+  tags?: string[]; // 사용자 정의 태그 (소문자)
+  starred?: boolean;
+  description?: string;
+  properties?: Record<string, string>; // 사용자 정의 key/value 속성
+  revision?: number; // 마지막으로 동기화한 서버의 revision (서버에 올라간 적 없으면 없음)
 }
 
 // DB 연결 캐시
@@ -38,8 +82,20 @@ function getDBName(walletAddress: string): string {
   return dbName;
 }
 
-const DB_VERSION = 1;
-const STORE_NAME = 'files';
+const STORE_NAME = FILES_STORE;
+
+// 최상위 아이템은 parentId를 ROOT_PARENT_ID로 저장하여 parentId 인덱스에 들어가도록 하고, 밖으로는 null로 내보냄
+function toStored(meta: FileMeta): FileMeta {
+  return meta.parentId === null ? { ...meta, parentId: ROOT_PARENT_ID } : meta;
+}
+
+function fromStored(record: FileMeta): FileMeta {
+  return record.parentId === ROOT_PARENT_ID ? { ...record, parentId: null } : record;
+}
+
+function toParentKey(parentId: string | null): string {
+  return parentId ?? ROOT_PARENT_ID;
+}
 
 function openDB(walletAddress: string): Promise<IDBDatabase> {
   const dbName = getDBName(walletAddress);
@@ -64,23 +120,26 @@ function openDB(walletAddress: string): Promise<IDBDatabase> {
   }
   
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(dbName, DB_VERSION);
+    const request = indexedDB.open(dbName, INDEXEDDB_VERSION);
+    let afterUpgrade: (() => void)[] = [];
     request.onupgradeneeded = (event) => {
-      const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        store.createIndex('parentId', 'parentId', { unique: false });
-        store.createIndex('walletAddress', 'walletAddress', { unique: false });
-        store.createIndex('type', 'type', { unique: false });
-        store.createIndex('uploadDate', 'uploadDate', { unique: false });
-        console.log('[IndexedDB] Object store and indexes created for wallet:', walletAddress);
-      }
+      console.log('[IndexedDB] Upgrading DB for wallet:', walletAddress, { from: event.oldVersion, to: INDEXEDDB_VERSION });
+      afterUpgrade = runIndexedDBMigrations(request.result, request.transaction!, event.oldVersion, walletAddress);
+    };
+    request.onblocked = () => {
+      console.warn('[IndexedDB] DB upgrade is waiting for other tabs to close the old version:', walletAddress);
     };
     request.onsuccess = () => {
       const db = request.result;
+      // 다른 탭이 새 버전으로 업그레이드하려 하면 연결을 닫아 막지 않음 (다음 작업에서 다시 열림)
+      db.onversionchange = () => {
+        db.close();
+        dbCache.delete(dbName);
+      };
       // DB 연결을 캐시에 저장
       dbCache.set(dbName, db);
       console.log('[IndexedDB] DB opened and cached for wallet:', walletAddress);
+      afterUpgrade.forEach(done => done());
       resolve(db);
     };
     request.onerror = () => {
@@ -140,62 +199,24 @@ async function withDeduplication<T>(
   }
 }
 
-// localStorage 키 생성 함수
-function getLocalStorageKey(walletAddress: string, parentId: string | null): string {
-  const hash = walletAddress.toLowerCase().replace(/[^a-f0-9]/g, '');
-  const parentKey = parentId ? `_${parentId}` : '_root';
-  return `0gdrive_data_${hash}${parentKey}`;
-}
-
-// localStorage에서 데이터 읽기
-function getFromLocalStorage(walletAddress: string, parentId: string | null): FileMeta[] {
-  try {
-    const key = getLocalStorageKey(walletAddress, parentId);
-    const data = localStorage.getItem(key);
-    return data ? JSON.parse(data) : [];
-  } catch (error) {
-    console.error('[IndexedDB] localStorage 읽기 오류:', error);
-    return [];
-  }
-}
-
-// localStorage에 데이터 저장
-function saveToLocalStorage(walletAddress: string, parentId: string | null, data: FileMeta[]): void {
-  try {
-    const key = getLocalStorageKey(walletAddress, parentId);
-    localStorage.setItem(key, JSON.stringify(data));
-  } catch (error) {
-    console.error('[IndexedDB] localStorage 저장 오류:', error);
-  }
-}
-
-// localStorage에서 특정 지갑의 모든 데이터 삭제
-function clearLocalStorageForWallet(walletAddress: string): void {
+// 서버로 보낼 변경을 대기열에 기록 (실패해도 로컬 변경은 그대로 두고 다음 전체 동기화에 맡김)
+async function queueChanges(walletAddress: string, ids: string[], deleted?: FileMeta[]): Promise<void> {
   try {
-    const hash = walletAddress.toLowerCase().replace(/[^a-f0-9]/g, '');
-    const prefix = `0gdrive_data_${hash}`;
-    Object.keys(localStorage).forEach(key => {
-      if (key.startsWith(prefix)) {
-        localStorage.removeItem(key);
-      }
-    });
+    const deletedRevisions = new Map((deleted ?? []).filter(item => item.revision).map(item => [item.id, item.revision!]));
+    await queueSyncChanges(walletAddress, ids, deletedRevisions);
   } catch (error) {
-    console.error('[IndexedDB] localStorage 정리 오류:', error);
+    console.error('[IndexedDB] 동기화 대기열 기록 오류:', error);
   }
 }
 
 export async function addFileMeta(meta: FileMeta) {
   return withDeduplication('addFileMeta', meta.walletAddress, [meta.id], async () => {
     const db = await openDB(meta.walletAddress);
-    return new Promise((resolve, reject) => {
+    const result = await new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, 'readwrite');
-      tx.objectStore(STORE_NAME).add(meta);
+      tx.objectStore(STORE_NAME).add(toStored(meta));
       tx.oncomplete = () => {
         console.log('[IndexedDB] addFileMeta', meta);
-        // localStorage 동기화
-        const currentData = getFromLocalStorage(meta.walletAddress, meta.parentId);
-        currentData.push(meta);
-        saveToLocalStorage(meta.walletAddress, meta.parentId, currentData);
         resolve(true);
       };
       tx.onerror = () => {
@@ -203,23 +224,25 @@ export async function addFileMeta(meta: FileMeta) {
         reject(tx.error);
       };
     });
+    await queueChanges(meta.walletAddress, [meta.id]);
+    return result;
   });
 }
 
 export async function updateFileMeta(meta: FileMeta) {
   return withDeduplication('updateFileMeta', meta.walletAddress, [meta.id], async () => {
     const db = await openDB(meta.walletAddress);
-    return new Promise((resolve, reject) => {
+    const result = await new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, 'readwrite');
       
       // 먼저 기존 데이터를 가져와서 이전 parentId를 확인
       const getReq = tx.objectStore(STORE_NAME).get(meta.id);
       getReq.onsuccess = () => {
         const oldMeta = getReq.result;
-        const oldParentId = oldMeta ? oldMeta.parentId : null;
+        const oldParentId = oldMeta ? fromStored(oldMeta).parentId : null;
         
         // 새 데이터로 업데이트
-        tx.objectStore(STORE_NAME).put(meta);
+        tx.objectStore(STORE_NAME).put(toStored(meta));
         
         tx.oncomplete = () => {
           console.log('[IndexedDB] updateFileMeta', { 
@@ -228,39 +251,7 @@ export async function updateFileMeta(meta: FileMeta) {
             oldParentId, 
             newParentId: meta.parentId 
           });
-          
-          // localStorage 동기화 - parentId가 변경된 경우
-          if (oldParentId !== meta.parentId) {
-            console.log('[IndexedDB] ParentId changed, updating localStorage');
-            
-            // 이전 폴더에서 제거
-            if (oldParentId !== null) {
-              const oldData = getFromLocalStorage(meta.walletAddress, oldParentId);
-              const filteredOldData = oldData.filter(item => item.id !== meta.id);
-              saveToLocalStorage(meta.walletAddress, oldParentId, filteredOldData);
-              console.log('[IndexedDB] Removed from old parent:', oldParentId);
-            }
-            
-            // 새 폴더에 추가
-            const newData = getFromLocalStorage(meta.walletAddress, meta.parentId);
-            const existingIndex = newData.findIndex(item => item.id === meta.id);
-            if (existingIndex !== -1) {
-              newData[existingIndex] = meta;
-            } else {
-              newData.push(meta);
-            }
-            saveToLocalStorage(meta.walletAddress, meta.parentId, newData);
-            console.log('[IndexedDB] Added to new parent:', meta.parentId);
-          } else {
-            // parentId가 변경되지 않은 경우 기존 방식
-            const currentData = getFromLocalStorage(meta.walletAddress, meta.parentId);
-            const index = currentData.findIndex(item => item.id === meta.id);
-            if (index !== -1) {
-              currentData[index] = meta;
-              saveToLocalStorage(meta.walletAddress, meta.parentId, currentData);
-            }
-          }
-          
+
           resolve(true);
         };
         
@@ -275,50 +266,470 @@ export async function updateFileMeta(meta: FileMeta) {
         reject(getReq.error);
       };
     });
+    await queueChanges(meta.walletAddress, [meta.id]);
+    return result;
   });
 }
 
+// 지갑의 모든 아이템(휴지통 포함)을 읽고, readwrite이면 같은 트랜잭션 안에서 변경
+async function withWalletItems<T>(
+  walletAddress: string,
+  mode: IDBTransactionMode,
+  modify: (items: FileMeta[], store: IDBObjectStore) => T
+): Promise<T> {
+  const db = await openDB(walletAddress);
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const store = tx.objectStore(STORE_NAME);
+    let result: T;
+    const req = store.index('walletAddress').getAll(IDBKeyRange.only(walletAddress));
+    req.onsuccess = () => {
+      result = modify((req.result as FileMeta[]).map(fromStored), store);
+    };
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// 휴지통 속성을 뺀 사본
+function withoutTrashFields(item: FileMeta): FileMeta {
+  const copy = { ...item };
+  delete copy.deletedAt;
+  delete copy.trashedWith;
+  delete copy.originalPath;
+  return copy;
+}
+
+// 휴지통에 없는 아이템과 그 하위 아이템의 ID (이미 따로 휴지통에 있는 하위 아이템은 제외)
+function collectActiveTree(items: FileMeta[], rootId: string): string[] {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    items
+      .filter(item => item.parentId === ids[i] && !item.deletedAt)
+      .forEach(item => ids.push(item.id));
+  }
+  return ids;
+}
+
+/**
+ * Moves an item and, for folders, everything below it to the trash.
+ * The item keeps its parent folder and remembers the folders above it so it can be restored later.
+ * @param id The item ID
+ * @param walletAddress The owner's wallet address
+ */
 export async function deleteFileMeta(id: string, walletAddress: string) {
   return withDeduplication('deleteFileMeta', walletAddress, [id], async () => {
-    const db = await openDB(walletAddress);
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      tx.objectStore(STORE_NAME).delete(id);
-      tx.oncomplete = () => {
-        console.log('[IndexedDB] deleteFileMeta', id);
-        // localStorage 동기화 - 모든 parentId에서 해당 아이템 삭제
-        const allKeys = Object.keys(localStorage);
-        const hash = walletAddress.toLowerCase().replace(/[^a-f0-9]/g, '');
-        const prefix = `0gdrive_data_${hash}`;
-        allKeys.forEach(key => {
-          if (key.startsWith(prefix)) {
-            try {
-              const data = JSON.parse(localStorage.getItem(key) || '[]');
-              const filteredData = data.filter((item: FileMeta) => item.id !== id);
-              localStorage.setItem(key, JSON.stringify(filteredData));
-            } catch (error) {
-              console.error('[IndexedDB] localStorage 삭제 오류:', error);
-            }
-          }
-        });
-        resolve(true);
-      };
-      tx.onerror = () => {
-        console.error('[IndexedDB] deleteFileMeta error', tx.error);
-        reject(tx.error);
+    const deletedAt = new Date().toISOString();
+    const trashedIds = await withWalletItems(walletAddress, 'readwrite', (items, store) => {
+      const byId = new Map(items.map(item => [item.id, item]));
+      const target = byId.get(id);
+      if (!target || target.deletedAt) {
+        return [id];
+      }
+
+      const originalPath: FileLocation[] = [];
+      for (let parent = byId.get(target.parentId ?? ''); parent && originalPath.length < items.length; parent = byId.get(parent.parentId ?? '')) {
+        originalPath.unshift({ id: parent.id, name: parent.name });
+      }
+
+      const ids = collectActiveTree(items, id);
+      ids.forEach(itemId => {
+        const item = byId.get(itemId)!;
+        store.put(toStored({ ...item, deletedAt, trashedWith: id, ...(itemId === id ? { originalPath } : {}) }));
+      });
+      return ids;
+    });
+
+    console.log('[IndexedDB] deleteFileMeta (moved to trash)', id, trashedIds.length);
+    await queueChanges(walletAddress, trashedIds);
+    return true;
+  });
+}
+
+/**
+ * Lists the items a wallet moved to the trash (not the items inside trashed folders)
+ * @param walletAddress The owner's wallet address
+ * @returns The trashed items, most recently deleted first
+ */
+export async function getTrashedFileMeta(walletAddress: string): Promise<FileMeta[]> {
+  return withDeduplication('getTrashedFileMeta', walletAddress, [], async () => {
+    const items = await withWalletItems(walletAddress, 'readonly', items => items);
+    return items
+      .filter(item => item.deletedAt && item.trashedWith === item.id)
+      .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+  });
+}
+
+/**
+ * Restores an item from the trash together with everything that was trashed with it.
+ * Parent folders that no longer exist are recreated by name, and the item is renamed
+ * with a " (n)" suffix if its old name is taken in the meantime.
+ * @param id The trashed item ID
+ * @param walletAddress The owner's wallet address
+ * @returns The restored item, or null if it is not in the trash
+ */
+export async function restoreFileMeta(id: string, walletAddress: string): Promise<FileMeta | null> {
+  return withDeduplication('restoreFileMeta', walletAddress, [id], async () => {
+    const changedIds: string[] = [];
+    const restored = await withWalletItems(walletAddress, 'readwrite', (items, store) => {
+      const target = items.find(item => item.id === id && item.trashedWith === id);
+      if (!target) {
+        return null;
+      }
+      const active = items.filter(item => !item.deletedAt);
+      const originalPath = target.originalPath ?? [];
+
+      // 아직 남아 있는 가장 깊은 상위 폴더부터 그 아래 폴더를 다시 만듦
+      let start = originalPath.length - 1;
+      while (start >= 0 && !active.some(folder => folder.id === originalPath[start].id)) {
+        start--;
+      }
+      let parentId = start >= 0 ? originalPath[start].id : null;
+      for (const location of originalPath.slice(start + 1)) {
+        const existing = active.find(folder => folder.type === 'folder' && folder.parentId === parentId && folder.name === location.name);
+        if (existing) {
+          parentId = existing.id;
+          continue;
+        }
+        const folder: FileMeta = {
+          id: crypto.randomUUID(),
+          type: 'folder',
+          name: location.name,
+          parentId,
+          walletAddress,
+          uploadDate: new Date().toISOString(),
+          sharedWith: [],
+        };
+        store.put(toStored(folder));
+        changedIds.push(folder.id);
+        active.push(folder);
+        console.log('[IndexedDB] Recreated folder for restore:', folder.name, folder.id);
+        parentId = folder.id;
+      }
+
+      const taken = new Set(active.filter(sibling => sibling.parentId === parentId).map(sibling => sibling.name));
+      const restoredItem: FileMeta = {
+        ...withoutTrashFields(target),
+        parentId,
+        name: getUniqueName(target.name, taken, target.type === 'file'),
       };
+      store.put(toStored(restoredItem));
+
+      items
+        .filter(trashed => trashed.trashedWith === id && trashed.id !== id)
+        .forEach(trashed => {
+          store.put(toStored(withoutTrashFields(trashed)));
+          changedIds.push(trashed.id);
+        });
+      changedIds.push(id);
+
+      console.log('[IndexedDB] restoreFileMeta', { id, parentId, deletedAt: target.deletedAt });
+      return restoredItem;
+    });
+    await queueChanges(walletAddress, changedIds);
+    return restored;
+  });
+}
+
+/**
+ * Permanently deletes an item in the trash and everything that was trashed with it
+ * @param id The trashed item ID
+ * @param walletAddress The owner's wallet address
+ * @returns The number of deleted entries
+ */
+export async function deleteTrashedFileMeta(id: string, walletAddress: string): Promise<number> {
+  return withDeduplication('deleteTrashedFileMeta', walletAddress, [id], async () => {
+    const deleted = await withWalletItems(walletAddress, 'readwrite', (items, store) => {
+      const trashed = items.filter(item => item.trashedWith === id);
+      trashed.forEach(item => store.delete(item.id));
+      return trashed;
+    });
+    console.log('[IndexedDB] deleteTrashedFileMeta', id, deleted.length);
+    await queueChanges(walletAddress, deleted.map(item => item.id), deleted);
+    return deleted.length;
+  });
+}
+
+/**
+ * Permanently deletes trashed entries, either all of them or those deleted before a cutoff
+ * @param walletAddress The owner's wallet address
+ * @param cutoff The oldest deletion time to keep (ISO string); omit to empty the whole trash
+ * @returns The number of deleted entries
+ */
+export async function purgeTrashedFileMeta(walletAddress: string, cutoff?: string): Promise<number> {
+  return withDeduplication('purgeTrashedFileMeta', walletAddress, [cutoff ?? 'all'], async () => {
+    const expired = await withWalletItems(walletAddress, 'readwrite', (items, store) => {
+      const expired = items.filter(item => item.deletedAt && (!cutoff || item.deletedAt < cutoff));
+      expired.forEach(item => store.delete(item.id));
+      return expired;
     });
+    if (expired.length > 0) {
+      console.log('[IndexedDB] purgeTrashedFileMeta', { walletAddress, cutoff, count: expired.length });
+      await queueChanges(walletAddress, expired.map(item => item.id), expired);
+    }
+    return expired.length;
   });
 }
 
+// 아이템의 현재 내용을 이전 버전으로 (업로더가 없던 이전 데이터는 소유자가 업로드한 것으로 간주)
+function toFileVersion(meta: FileMeta): FileVersion {
+  return {
+    id: crypto.randomUUID(),
+    rootHash: meta.rootHash ?? '',
+    fileSize: meta.fileSize ?? 0,
+    fileExtension: meta.fileExtension,
+    networkType: meta.networkType,
+    ...(meta.encryption ? { encryption: meta.encryption } : {}),
+    uploadedBy: meta.uploadedBy ?? meta.walletAddress,
+    uploadDate: meta.uploadDate,
+  };
+}
+
+// 아이템의 내용을 바꾼 사본 (이전 내용의 암호화 파라미터는 남기지 않음)
+function withFileContent(meta: FileMeta, content: Omit<FileVersion, 'id'>, versions: FileVersion[]): FileMeta {
+  const copy: FileMeta = { ...meta };
+  delete copy.encryption;
+  return {
+    ...copy,
+    rootHash: content.rootHash,
+    fileSize: content.fileSize,
+    fileExtension: content.fileExtension,
+    networkType: content.networkType,
+    ...(content.encryption ? { encryption: content.encryption } : {}),
+    uploadedBy: content.uploadedBy,
+    uploadDate: content.uploadDate,
+    versions,
+  };
+}
+
+// 폴더 또는 가장 가까운 상위 폴더의 maxVersions, 없으면 기본값
+function resolveVersionLimit(items: FileMeta[], parentId: string | null): number {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const seen = new Set<string>();
+  for (let folder = byId.get(parentId ?? ''); folder && !seen.has(folder.id); folder = byId.get(folder.parentId ?? '')) {
+    seen.add(folder.id);
+    if (typeof folder.maxVersions === 'number') {
+      return folder.maxVersions;
+    }
+  }
+  return DEFAULT_MAX_VERSIONS;
+}
+
+/**
+ * Gets how many previous versions are kept for files in a folder:
+ * the nearest `maxVersions` set on the folder or one of its ancestors, otherwise the default
+ * @param walletAddress The owner's wallet address
+ * @param parentId The folder ID, or null for the root
+ */
+export async function getVersionLimit(walletAddress: string, parentId: string | null): Promise<number> {
+  const items = await withWalletItems(walletAddress, 'readonly', items => items);
+  return resolveVersionLimit(items, parentId);
+}
+
+/**
+ * Saves the metadata of an uploaded file. If the folder already has a file with the same name,
+ * the upload becomes its new version and the old content is kept in its version history
+ * (trimmed to the folder's version limit). A shortcut with the same name is never given a new version;
+ * the upload is saved next to it under a free name instead.
+ * @param meta The uploaded file's metadata
+ * @returns The saved item (the existing item with its new version, or meta itself)
+ */
+export async function saveUploadedFileMeta(meta: FileMeta): Promise<FileMeta> {
+  const items = await withWalletItems(meta.walletAddress, 'readonly', items => items);
+  const siblings = items.filter(item => !item.deletedAt && item.parentId === meta.parentId);
+  const existing = siblings.find(item => item.type === 'file' && item.name === meta.name);
+  const uploaded: FileMeta = { ...meta, uploadedBy: meta.uploadedBy ?? meta.walletAddress };
+
+  if (!existing || existing.shortcutTo) {
+    if (existing) {
+      uploaded.name = getUniqueName(meta.name, new Set(siblings.map(item => item.name)), true);
+    }
+    await addFileMeta(uploaded);
+    return uploaded;
+  }
+
+  const versions = [toFileVersion(existing), ...(existing.versions ?? [])]
+    .slice(0, resolveVersionLimit(items, existing.parentId));
+  const updated = withFileContent(existing, toFileVersion(uploaded), versions);
+  await updateFileMeta(updated);
+  console.log('[IndexedDB] saveUploadedFileMeta: new version of', existing.id, { versions: versions.length });
+  return updated;
+}
+
+/**
+ * Makes a previous version of a file the current one again; the current content becomes a previous version
+ * @param id The file ID
+ * @param versionId The version to restore
+ * @param walletAddress The owner's wallet address
+ * @returns The updated file, or null if it has no such version
+ */
+export async function restoreFileVersion(id: string, versionId: string, walletAddress: string): Promise<FileMeta | null> {
+  const items = await withWalletItems(walletAddress, 'readonly', items => items);
+  const file = items.find(item => item.id === id && !item.deletedAt);
+  const version = file?.versions?.find(v => v.id === versionId);
+  if (!file || !version) {
+    return null;
+  }
+
+  const versions = [toFileVersion(file), ...file.versions!.filter(v => v.id !== versionId)]
+    .slice(0, resolveVersionLimit(items, file.parentId));
+  const updated = withFileContent(file, version, versions);
+  await updateFileMeta(updated);
+  console.log('[IndexedDB] restoreFileVersion', { id, versionId });
+  return updated;
+}
+
+/**
+ * Updates the tags, starred flag, description or properties of an item
+ * @param id The item ID
+ * @param walletAddress The owner's wallet address
+ * @param update The fields to change (validated with parseMetadataUpdate)
+ * @returns The updated item, or null if it does not exist or is in the trash
+ */
+export async function updateFileMetadata(id: string, walletAddress: string, update: MetadataUpdate): Promise<FileMeta | null> {
+  const item = await getFileMeta(id, walletAddress);
+  if (!item || item.deletedAt) {
+    return null;
+  }
+
+  const [updated, error] = applyMetadataUpdate(item, update);
+  if (!updated) {
+    throw error;
+  }
+  await updateFileMeta(updated);
+  console.log('[IndexedDB] updateFileMetadata', id, update);
+  return updated;
+}
+
+export interface FileSearchResult extends FileMeta {
+  path: PathSegment[]; // 최상위부터 상위 폴더까지
+}
+
+/**
+ * Searches all items of a wallet outside the trash, across every folder
+ * @param walletAddress The owner's wallet address
+ * @param filters The search filters
+ * @param limit The maximum number of results to return
+ * @returns The matching items with their folder paths (folders first, then by name) and the total number of matches
+ */
+export async function searchFileMeta(
+  walletAddress: string,
+  filters: SearchFilters,
+  limit: number
+): Promise<{ results: FileSearchResult[]; total: number }> {
+  const items = await withWalletItems(walletAddress, 'readonly', items => items.filter(item => !item.deletedAt));
+  const byId = new Map(items.map(item => [item.id, item]));
+
+  const matches = items
+    .filter(item => matchesSearch(item, filters, walletAddress))
+    .sort((a, b) => (a.type !== b.type ? (a.type === 'folder' ? -1 : 1) : a.name.localeCompare(b.name)));
+
+  const results = matches.slice(0, limit).map(item => ({ ...item, path: getItemPath(item, id => byId.get(id)) }));
+  console.log('[IndexedDB] searchFileMeta', { filters, total: matches.length });
+  return { results, total: matches.length };
+}
+
+/**
+ * Gets all of a wallet's items outside the trash, across every folder
+ * @param walletAddress The owner's wallet address
+ * @param includeTrash Whether to include the items in the trash
+ */
+export async function getWalletFileMeta(walletAddress: string, includeTrash = false): Promise<FileMeta[]> {
+  return withDeduplication('getWalletFileMeta', walletAddress, [includeTrash], () =>
+    withWalletItems(walletAddress, 'readonly', items => (includeTrash ? items : items.filter(item => !item.deletedAt)))
+  );
+}
+
+/**
+ * Writes many items in one transaction, adding new ones and replacing existing ones (used to import a backup)
+ * @param walletAddress The owner's wallet address
+ * @param items The items to write
+ */
+export async function putFileMetaBatch(walletAddress: string, items: FileMeta[]): Promise<void> {
+  await withWalletItems(walletAddress, 'readwrite', (_, store) => {
+    items.forEach(item => store.put(toStored(item)));
+  });
+  console.log('[IndexedDB] putFileMetaBatch', items.length);
+  await queueChanges(walletAddress, items.map(item => item.id));
+}
+
+/**
+ * Writes changes received from the server without queueing them to be sent back.
+ * Items with local changes that are not sent yet are skipped; their previous versions kept on this device are preserved.
+ * @param walletAddress The owner's wallet address (the connected address, as the items are stored under it)
+ * @param changes The server's changes
+ * @param skipIds Items with unsent local changes
+ * @returns The number of items written or deleted
+ */
+export async function applyRemoteChanges(walletAddress: string, changes: RemoteChange[], skipIds: Set<string>): Promise<number> {
+  const count = await withWalletItems(walletAddress, 'readwrite', (items, store) => {
+    const byId = new Map(items.map(item => [item.id, item]));
+    let written = 0;
+    for (const change of changes) {
+      if (skipIds.has(change.id)) continue;
+      const local = byId.get(change.id);
+      if (change.deleted || !change.item) {
+        if (local) {
+          store.delete(change.id);
+          written++;
+        }
+        continue;
+      }
+      if (local?.revision === change.revision) continue;
+      store.put(toStored({
+        ...change.item,
+        walletAddress,
+        revision: change.revision,
+        ...(local?.versions ? { versions: local.versions } : {}),
+      }));
+      written++;
+    }
+    return written;
+  });
+  if (count > 0) {
+    console.log('[IndexedDB] applyRemoteChanges', count);
+  }
+  return count;
+}
+
+/**
+ * Records the server revision of items after their changes were sent, without queueing anything
+ * @param walletAddress The owner's wallet address
+ * @param revisions The new revision of each item
+ */
+export async function setFileRevisions(walletAddress: string, revisions: Map<string, number>): Promise<void> {
+  await withWalletItems(walletAddress, 'readwrite', (items, store) => {
+    items
+      .filter(item => revisions.has(item.id) && item.revision !== revisions.get(item.id))
+      .forEach(item => store.put(toStored({ ...item, revision: revisions.get(item.id) })));
+  });
+}
+
+/**
+ * Adds an item that was just created on the server (with the server's revision), without queueing it to be sent back
+ * @param meta The item as saved on the server, stored under the connected wallet address
+ */
+export async function addSyncedFileMeta(meta: FileMeta): Promise<void> {
+  const db = await openDB(meta.walletAddress);
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).put(toStored(meta));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  console.log('[IndexedDB] addSyncedFileMeta', meta.id, meta.revision);
+}
+
 export async function getFileMeta(id: string, walletAddress: string): Promise<FileMeta | undefined> {
   return withDeduplication('getFileMeta', walletAddress, [id], async () => {
     const db = await openDB(walletAddress);
     return new Promise((resolve, reject) => {
       const req = db.transaction(STORE_NAME).objectStore(STORE_NAME).get(id);
       req.onsuccess = () => {
-        console.log('[IndexedDB] getFileMeta', id, req.result);
-        resolve(req.result);
+        const meta = req.result ? fromStored(req.result) : undefined;
+        console.log('[IndexedDB] getFileMeta', id, meta);
+        resolve(meta);
       };
       req.onerror = () => {
         console.error('[IndexedDB] getFileMeta error', req.error);
@@ -328,41 +739,116 @@ export async function getFileMeta(id: string, walletAddress: string): Promise<Fi
   });
 }
 
-export async function getAllFileMeta(walletAddress: string, parentId: string | null): Promise<FileMeta[]> {
-  return withDeduplication('getAllFileMeta', walletAddress, [parentId], async () => {
-    // 먼저 localStorage에서 데이터 확인
-    const localStorageData = getFromLocalStorage(walletAddress, parentId);
-    
-    // IndexedDB에서도 데이터 가져오기
-    const db = await openDB(walletAddress);
-    return new Promise((resolve, reject) => {
-      const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
-      const index = store.index('walletAddress');
-      const result: FileMeta[] = [];
-      index.openCursor(IDBKeyRange.only(walletAddress)).onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          // parentId가 null인 경우와 string인 경우를 명확히 구분
-          const itemParentId = cursor.value.parentId;
-          if ((parentId === null && itemParentId === null) || 
-              (parentId !== null && itemParentId === parentId)) {
-            result.push(cursor.value);
+// 폴더의 직속 아이템 (휴지통 포함)
+async function readFolderItems(walletAddress: string, parentId: string | null): Promise<FileMeta[]> {
+  const db = await openDB(walletAddress);
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(STORE_NAME).objectStore(STORE_NAME).index('parentId').getAll(IDBKeyRange.only(toParentKey(parentId)));
+    req.onsuccess = () => {
+      resolve((req.result as FileMeta[]).filter(item => item.walletAddress === walletAddress).map(fromStored));
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// 폴더 먼저 (parentId_type_name 인덱스의 type 순서와 반대이므로 종류별로 따로 읽음)
+const FOLDERS_FIRST: FileMeta['type'][] = ['folder', 'file'];
+
+// 이름순 페이지: parentId_type_name 인덱스를 커서로 읽어 페이지만큼만 가져옴 (이름은 코드 포인트 순서, 같은 이름은 ID 순서)
+// 전체 수는 폴더의 아이템 수에서 parentId_deletedAt 인덱스로 센 휴지통 아이템 수를 뺌
+async function readFolderPageByName(walletAddress: string, parentId: string | null, options: PageOptions): Promise<Page<FileMeta>> {
+  let after: SortTuple | null = null;
+  if (options.cursor) {
+    const [tuple, cursorErr] = parsePageCursor(options.cursor, options);
+    if (!tuple) {
+      throw cursorErr;
+    }
+    after = tuple;
+  }
+
+  const parent = toParentKey(parentId);
+  const reverse = options.direction === 'desc';
+  const db = await openDB(walletAddress);
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME);
+    const store = tx.objectStore(STORE_NAME);
+    const countReq = store.index('parentId').count(IDBKeyRange.only(parent));
+    const trashedReq = store.index('parentId_deletedAt').count(IDBKeyRange.bound([parent], [parent, []]));
+    const items: FileMeta[] = [];
+    let hasMore = false;
+
+    const readType = (rank: number) => {
+      if (rank >= FOLDERS_FIRST.length) return;
+      const type = FOLDERS_FIRST[rank];
+      // 커서 아이템과 같은 종류는 커서 아이템의 이름부터 읽고, 같은 이름 중 이미 보낸 ID는 건너뜀
+      const from = after && after[0] === rank ? after : null;
+      const range = !from ? IDBKeyRange.bound([parent, type], [parent, type, []])
+        : reverse ? IDBKeyRange.bound([parent, type], [parent, type, from[2]])
+        : IDBKeyRange.bound([parent, type, from[2]], [parent, type, []]);
+      const req = store.index('parentId_type_name').openCursor(range, reverse ? 'prev' : 'next');
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) {
+          readType(rank + 1);
+          return;
+        }
+        const item = cursor.value as FileMeta;
+        const sent = from && item.name === from[2] && (reverse ? item.id >= from[3] : item.id <= from[3]);
+        if (!sent && !item.deletedAt && item.walletAddress === walletAddress) {
+          if (items.length === options.limit) {
+            hasMore = true;
+            return;
           }
-          cursor.continue();
-        } else {
-          // localStorage와 IndexedDB 데이터 병합
-          const mergedData = [...localStorageData, ...result];
-          const uniqueData = mergedData.filter((item, index, self) => 
-            index === self.findIndex(t => t.id === item.id)
-          );
-          
-          // 병합된 데이터를 localStorage에 저장
-          saveToLocalStorage(walletAddress, parentId, uniqueData);
-          
-          console.log('[IndexedDB] getAllFileMeta', walletAddress, parentId, uniqueData);
-          resolve(uniqueData);
+          items.push(fromStored(item));
         }
+        cursor.continue();
       };
-    });
+    };
+    readType(after ? after[0] : 0);
+
+    tx.oncomplete = () => {
+      const last = items[items.length - 1];
+      resolve({
+        items,
+        nextCursor: hasMore && last ? getPageCursor(last, options) : null,
+        total: countReq.result - trashedReq.result,
+      });
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Gets one page of a folder's items outside the trash.
+ * Sorting by name reads only the page from the parentId_type_name index; other sorts read the whole folder.
+ * @param walletAddress The owner's wallet address
+ * @param parentId The folder ID, or null for the root
+ * @param options The sort (folders always come first), the cursor from the previous page and the page size
+ * @returns The page
+ */
+export async function getFileMetaPage(walletAddress: string, parentId: string | null, options: PageOptions): Promise<Page<FileMeta>> {
+  return withDeduplication('getFileMetaPage', walletAddress, [parentId, JSON.stringify(options)], async () => {
+    let page: Page<FileMeta>;
+    if (options.sortBy === 'name') {
+      page = await readFolderPageByName(walletAddress, parentId, options);
+    } else {
+      const items = await readFolderItems(walletAddress, parentId);
+      const [sorted, error] = paginateItems(items.filter(item => !item.deletedAt), options);
+      if (!sorted) {
+        throw error;
+      }
+      page = sorted;
+    }
+    console.log('[IndexedDB] getFileMetaPage', parentId, { ...options, count: page.items.length, total: page.total });
+    return page;
+  });
+}
+
+export async function getAllFileMeta(walletAddress: string, parentId: string | null): Promise<FileMeta[]> {
+  return withDeduplication('getAllFileMeta', walletAddress, [parentId], async () => {
+    // 휴지통의 아이템은 목록에서 제외
+    const result = (await readFolderItems(walletAddress, parentId)).filter(item => !item.deletedAt);
+    console.log('[IndexedDB] getAllFileMeta', walletAddress, parentId, result);
+    return result;
   });
 } 
\ No newline at end of file
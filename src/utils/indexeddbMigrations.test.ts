@@ -0,0 +1,238 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addFileMeta, closeAllDBs, deleteFileMeta, getAllFileMeta, getFileMeta, getFileMetaPage, type FileMeta } from './indexeddb';
+import { FILES_STORE, INDEXEDDB_VERSION, ROOT_PARENT_ID, indexedDBMigrations } from './indexeddbMigrations';
+import { getSyncQueue } from './syncStore';
+
+// 브라우저처럼 저장된 키만 Object.keys에 나오는 localStorage (값은 인스턴스의 열거 가능한 속성으로 보관)
+class MemoryStorage {
+  getItem(key: string): string | null {
+    const stored = Object.getOwnPropertyDescriptor(this, key);
+    return stored ? stored.value : null;
+  }
+  setItem(key: string, value: string): void {
+    Object.defineProperty(this, key, { value: String(value), enumerable: true, configurable: true, writable: true });
+  }
+  removeItem(key: string): void {
+    Reflect.deleteProperty(this, key);
+  }
+  clear(): void {
+    Object.keys(this).forEach(key => this.removeItem(key));
+  }
+}
+
+let walletCount = 0;
+// 테스트마다 다른 지갑(= 다른 DB)을 사용
+const nextWallet = () => `0xAbCd${String(++walletCount).padStart(36, '0')}`;
+const dbName = (walletAddress: string) => `0gdrive_${walletAddress.toLowerCase().replace(/[^a-f0-9]/g, '')}`;
+const mirrorKey = (walletAddress: string, parentId: string | null) =>
+  `0gdrive_data_${walletAddress.toLowerCase().replace(/[^a-f0-9]/g, '')}_${parentId ?? 'root'}`;
+
+const item = (walletAddress: string, id: string, name: string, parentId: string | null = null): FileMeta => ({
+  id,
+  type: 'file',
+  name,
+  parentId,
+  walletAddress,
+  uploadDate: '2026-01-01T00:00:00.000Z',
+  fileExtension: 'txt',
+  fileSize: 10,
+  rootHash: `0x${id}`,
+});
+
+function openRaw(name: string, version?: number, upgrade?: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = version ? indexedDB.open(name, version) : indexedDB.open(name);
+    request.onupgradeneeded = () => upgrade?.(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// 마이그레이션 도입 전 코드가 만들던 버전 1 DB
+async function createLegacyDB(walletAddress: string, items: FileMeta[]): Promise<void> {
+  const db = await openRaw(dbName(walletAddress), 1, upgradeDb => {
+    const store = upgradeDb.createObjectStore('files', { keyPath: 'id' });
+    store.createIndex('parentId', 'parentId', { unique: false });
+    store.createIndex('walletAddress', 'walletAddress', { unique: false });
+    store.createIndex('type', 'type', { unique: false });
+    store.createIndex('uploadDate', 'uploadDate', { unique: false });
+  });
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction('files', 'readwrite');
+    items.forEach(meta => tx.objectStore('files').put(meta));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  db.close();
+}
+
+async function inspect(walletAddress: string): Promise<{ version: number; indexes: string[] }> {
+  closeAllDBs();
+  const db = await openRaw(dbName(walletAddress));
+  const indexes = Array.from(db.transaction(FILES_STORE).objectStore(FILES_STORE).indexNames).sort();
+  const version = db.version;
+  db.close();
+  return { version, indexes };
+}
+
+// parentId 인덱스에서 최상위로 저장된 아이템의 ID
+async function readRootIds(walletAddress: string): Promise<string[]> {
+  closeAllDBs();
+  const db = await openRaw(dbName(walletAddress));
+  const rootIds = await new Promise<string[]>(resolve => {
+    const req = db.transaction(FILES_STORE).objectStore(FILES_STORE).index('parentId').getAllKeys(IDBKeyRange.only(ROOT_PARENT_ID));
+    req.onsuccess = () => resolve(req.result as string[]);
+  });
+  db.close();
+  return rootIds;
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  closeAllDBs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('IndexedDB migrations', () => {
+  it('are ordered and the database version is the last one', () => {
+    const versions = indexedDBMigrations.map(migration => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(INDEXEDDB_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  it('create the store and every index for a new database', async () => {
+    const wallet = nextWallet();
+    expect(await getAllFileMeta(wallet, null)).toEqual([]);
+
+    expect(await inspect(wallet)).toEqual({
+      version: INDEXEDDB_VERSION,
+      indexes: ['name', 'parentId', 'parentId_deletedAt', 'parentId_name', 'parentId_type_name', 'rootHash', 'type', 'uploadDate', 'walletAddress'],
+    });
+  });
+
+  it('upgrade a version 1 database without losing its items', async () => {
+    const wallet = nextWallet();
+    await createLegacyDB(wallet, [item(wallet, 'a', 'notes'), item(wallet, 'b', 'report', 'folder-1')]);
+
+    expect((await getAllFileMeta(wallet, null)).map(meta => meta.id)).toEqual(['a']);
+    expect((await getAllFileMeta(wallet, 'folder-1')).map(meta => meta.id)).toEqual(['b']);
+
+    const { version, indexes } = await inspect(wallet);
+    expect(version).toBe(INDEXEDDB_VERSION);
+    expect(indexes).toContain('parentId_name');
+
+    // 새 인덱스에는 기존 아이템도 들어감
+    const db = await openRaw(dbName(wallet));
+    const store = db.transaction(FILES_STORE).objectStore(FILES_STORE);
+    const byName = await new Promise<FileMeta[]>(resolve => {
+      const req = store.index('parentId_name').getAll(IDBKeyRange.only(['folder-1', 'report']));
+      req.onsuccess = () => resolve(req.result);
+    });
+    const byRootHash = await new Promise<FileMeta[]>(resolve => {
+      const req = store.index('rootHash').getAll(IDBKeyRange.only('0xa'));
+      req.onsuccess = () => resolve(req.result);
+    });
+    db.close();
+    expect(byName.map(meta => meta.id)).toEqual(['b']);
+    expect(byRootHash.map(meta => meta.id)).toEqual(['a']);
+  });
+
+  it('index root items folded from the mirror into a new database', async () => {
+    const wallet = nextWallet();
+    localStorage.setItem(mirrorKey(wallet, null), JSON.stringify([item(wallet, 'zz', 'only in the mirror')]));
+
+    expect((await getAllFileMeta(wallet, null)).map(meta => meta.id)).toEqual(['zz']);
+    expect(await readRootIds(wallet)).toEqual(['zz']);
+  });
+
+  it('index root items folded from the mirror that sort before the existing items', async () => {
+    const wallet = nextWallet();
+    await createLegacyDB(wallet, [item(wallet, 'a', 'notes')]);
+    localStorage.setItem(mirrorKey(wallet, null), JSON.stringify([item(wallet, '0', 'only in the mirror')]));
+
+    expect((await getAllFileMeta(wallet, null)).map(meta => meta.id).sort()).toEqual(['0', 'a']);
+    expect(await readRootIds(wallet)).toEqual(['0', 'a']);
+  });
+
+  it('store root items under an indexed parentId and still return them with a null parentId', async () => {
+    const wallet = nextWallet();
+    await createLegacyDB(wallet, [item(wallet, 'a', 'notes'), item(wallet, 'b', 'report', 'folder-1')]);
+
+    expect(await getAllFileMeta(wallet, null)).toEqual([item(wallet, 'a', 'notes')]);
+    expect((await getFileMeta('a', wallet))?.parentId).toBeNull();
+    expect(await readRootIds(wallet)).toEqual(['a']);
+  });
+
+  it('fold the localStorage mirror into IndexedDB and remove it', async () => {
+    const wallet = nextWallet();
+    const otherWallet = nextWallet();
+    await createLegacyDB(wallet, [item(wallet, 'a', 'from indexeddb')]);
+    localStorage.setItem(mirrorKey(wallet, null), JSON.stringify([
+      item(wallet.toLowerCase(), 'a', 'stale copy'),
+      item(wallet.toLowerCase(), 'c', 'only in the mirror'),
+    ]));
+    localStorage.setItem(mirrorKey(wallet, 'folder-1'), JSON.stringify([item(wallet, 'd', 'nested', 'folder-1')]));
+    localStorage.setItem(mirrorKey(otherWallet, null), JSON.stringify([item(otherWallet, 'e', 'other wallet')]));
+    localStorage.setItem('networkType', 'turbo');
+
+    const root = await getAllFileMeta(wallet, null);
+    expect(root.map(meta => [meta.id, meta.name]).sort()).toEqual([['a', 'from indexeddb'], ['c', 'only in the mirror']]);
+    // 옮긴 아이템은 연결된 주소 그대로 저장되어 지갑 인덱스로 조회됨
+    expect((await getFileMeta('c', wallet))?.walletAddress).toBe(wallet);
+    expect((await getAllFileMeta(wallet, 'folder-1')).map(meta => meta.id)).toEqual(['d']);
+
+    expect(localStorage.getItem(mirrorKey(wallet, null))).toBeNull();
+    expect(localStorage.getItem(mirrorKey(wallet, 'folder-1'))).toBeNull();
+    expect(localStorage.getItem(mirrorKey(otherWallet, null))).not.toBeNull();
+    expect(localStorage.getItem('networkType')).toBe('turbo');
+
+    // 미러에만 있던 아이템은 다음 동기화에서 서버로 보냄
+    await vi.waitFor(async () => {
+      expect((await getSyncQueue(wallet)).map(entry => entry.itemId).sort()).toEqual(['c', 'd']);
+    });
+  });
+
+  it('run only once', async () => {
+    const wallet = nextWallet();
+    await getAllFileMeta(wallet, null);
+    closeAllDBs();
+
+    // 이미 최신 버전이면 localStorage에 다시 생긴 키는 읽지 않음
+    localStorage.setItem(mirrorKey(wallet, null), JSON.stringify([item(wallet, 'late', 'written after the migration')]));
+    expect(await getAllFileMeta(wallet, null)).toEqual([]);
+    expect(localStorage.getItem(mirrorKey(wallet, null))).not.toBeNull();
+  });
+});
+
+describe('folder pages', () => {
+  it('page by name with folders first, skipping the trash', async () => {
+    const wallet = nextWallet();
+    const folder: FileMeta = { ...item(wallet, 'f1', 'photos'), type: 'folder' };
+    const files = ['b', 'a', 'd', 'c'].map(name => item(wallet, `file-${name}`, name));
+    for (const meta of [folder, ...files, item(wallet, 'nested', 'inside', 'f1')]) {
+      await addFileMeta(meta);
+    }
+    await deleteFileMeta('file-c', wallet);
+
+    const sort = { sortBy: 'name', direction: 'asc', limit: 2 } as const;
+    const first = await getFileMetaPage(wallet, null, sort);
+    expect(first.items.map(meta => meta.name)).toEqual(['photos', 'a']);
+    expect(first.items[0].parentId).toBeNull();
+    expect(first.total).toBe(4);
+
+    const second = await getFileMetaPage(wallet, null, { ...sort, cursor: first.nextCursor });
+    expect(second.items.map(meta => meta.name)).toEqual(['b', 'd']);
+    expect(second.nextCursor).toBeNull();
+
+    const desc = await getFileMetaPage(wallet, null, { ...sort, direction: 'desc', limit: 10 });
+    expect(desc.items.map(meta => meta.name)).toEqual(['photos', 'd', 'b', 'a']);
+    await expect(getFileMetaPage(wallet, null, { ...sort, direction: 'desc', cursor: first.nextCursor })).rejects.toThrow('Invalid cursor');
+  });
+});
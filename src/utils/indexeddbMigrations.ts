@@ -0,0 +1,145 @@
+// 지갑별 IndexedDB 스키마 마이그레이션 (서버의 lib/db/migrations.ts와 같은 방식)
+// DB 버전은 마지막으로 적용한 마이그레이션 번호이고, onupgradeneeded에서 이전 버전보다 새로운 단계만 순서대로 실행
+import { queueSyncChanges } from '@/utils/syncStore';
+import type { FileMeta } from '@/utils/indexeddb';
+
+export const FILES_STORE = 'files';
+// 최상위 아이템의 저장된 parentId (null은 인덱스에 들어가지 않으므로 빈 문자열로 저장하고, 읽을 때 null로 바꿈)
+export const ROOT_PARENT_ID = '';
+
+export interface IndexedDBMigration {
+  version: number;
+  name: string;
+  // 업그레이드(versionchange) 트랜잭션 안에서 실행. 반환한 함수는 DB가 열린 뒤(트랜잭션이 커밋된 뒤) 실행
+  up: (db: IDBDatabase, tx: IDBTransaction, walletAddress: string) => void | (() => void);
+}
+
+// 예전 localStorage 미러의 키 (지갑 주소의 16진수 + 폴더별 접미사)
+function getLegacyMirrorKeys(walletAddress: string): string[] {
+  if (typeof localStorage === 'undefined') {
+    return [];
+  }
+  const prefix = `0gdrive_data_${walletAddress.toLowerCase().replace(/[^a-f0-9]/g, '')}_`;
+  return Object.keys(localStorage).filter(key => key.startsWith(prefix));
+}
+
+function readLegacyMirror(walletAddress: string): FileMeta[] {
+  const address = walletAddress.toLowerCase();
+  return getLegacyMirrorKeys(walletAddress).flatMap(key => {
+    try {
+      const data = JSON.parse(localStorage.getItem(key) || '[]');
+      return Array.isArray(data)
+        ? (data as FileMeta[]).filter(item => item?.id && item.walletAddress?.toLowerCase() === address)
+        : [];
+    } catch (error) {
+      console.error('[IndexedDB] Failed to read legacy localStorage key:', key, error);
+      return [];
+    }
+  });
+}
+
+// 버전은 항상 증가하는 순서로 추가 (이미 배포된 단계는 수정하지 않음)
+export const indexedDBMigrations: IndexedDBMigration[] = [
+  {
+    version: 1,
+    name: 'create files store',
+    up: (db) => {
+      const store = db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+      store.createIndex('parentId', 'parentId', { unique: false });
+      store.createIndex('walletAddress', 'walletAddress', { unique: false });
+      store.createIndex('type', 'type', { unique: false });
+      store.createIndex('uploadDate', 'uploadDate', { unique: false });
+    },
+  },
+  {
+    version: 2,
+    name: 'add rootHash, name and parentId+name indexes',
+    up: (_db, tx) => {
+      // parentId가 null인 최상위 아이템은 parentId 인덱스처럼 parentId_name 인덱스에도 들어가지 않음
+      const store = tx.objectStore(FILES_STORE);
+      store.createIndex('rootHash', 'rootHash', { unique: false });
+      store.createIndex('name', 'name', { unique: false });
+      store.createIndex('parentId_name', ['parentId', 'name'], { unique: false });
+    },
+  },
+  {
+    version: 3,
+    name: 'fold the localStorage mirror into the files store',
+    up: (_db, tx, walletAddress) => {
+      // IndexedDB에 없는 아이템만 옮김 (같은 ID가 있으면 IndexedDB 쪽이 최신)
+      const store = tx.objectStore(FILES_STORE);
+      const folded: string[] = [];
+      const seen = new Set<string>();
+      for (const item of readLegacyMirror(walletAddress)) {
+        if (seen.has(item.id)) continue;
+        seen.add(item.id);
+        const req = store.get(item.id);
+        req.onsuccess = () => {
+          if (!req.result) {
+            // 이 콜백은 v4의 커서가 열린 뒤에 실행될 수 있으므로 최상위 아이템은 여기서 바로 빈 문자열로 저장
+            store.put({ ...item, walletAddress, parentId: item.parentId ?? ROOT_PARENT_ID });
+            folded.push(item.id);
+          }
+        };
+      }
+
+      return () => {
+        getLegacyMirrorKeys(walletAddress).forEach(key => localStorage.removeItem(key));
+        console.log('[IndexedDB] Folded the localStorage mirror into IndexedDB:', { walletAddress, folded: folded.length });
+        // 미러에만 있던 아이템은 서버에도 없을 수 있으므로 다음 동기화에서 보냄
+        queueSyncChanges(walletAddress, folded).catch(error => {
+          console.error('[IndexedDB] Failed to queue folded items for sync:', error);
+        });
+      };
+    },
+  },
+  {
+    version: 4,
+    name: 'index root items and add folder listing indexes',
+    up: (_db, tx) => {
+      // parentId_type_name: 폴더 목록을 폴더 먼저, 이름순으로 커서 페이지네이션
+      // parentId_deletedAt: deletedAt이 있는 아이템만 들어가므로 폴더별 휴지통 아이템 수를 셀 때 사용
+      const store = tx.objectStore(FILES_STORE);
+      store.createIndex('parentId_type_name', ['parentId', 'type', 'name'], { unique: false });
+      store.createIndex('parentId_deletedAt', ['parentId', 'deletedAt'], { unique: false });
+
+      const req = store.openCursor();
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return;
+        if (cursor.value.parentId === null || cursor.value.parentId === undefined) {
+          cursor.update({ ...cursor.value, parentId: ROOT_PARENT_ID });
+        }
+        cursor.continue();
+      };
+    },
+  },
+];
+
+export const INDEXEDDB_VERSION = indexedDBMigrations[indexedDBMigrations.length - 1].version;
+
+/**
+ * Applies the migrations newer than the database's previous version; call from onupgradeneeded
+ * @param db The database being upgraded
+ * @param tx The upgrade transaction
+ * @param oldVersion The version before the upgrade (0 for a new database)
+ * @param walletAddress The wallet the database belongs to
+ * @returns Functions to run once the database has opened
+ */
+export function runIndexedDBMigrations(
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  oldVersion: number,
+  walletAddress: string
+): (() => void)[] {
+  const afterOpen: (() => void)[] = [];
+  for (const migration of indexedDBMigrations) {
+    if (migration.version <= oldVersion) continue;
+    const done = migration.up(db, tx, walletAddress);
+    if (done) {
+      afterOpen.push(done);
+    }
+    console.log(`[IndexedDB] Applied migration ${migration.version}: ${migration.name}`);
+  }
+  return afterOpen;
+}
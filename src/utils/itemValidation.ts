@@ -0,0 +1,38 @@
+// 서버에 저장하는 아이템의 입력 검증 규칙 (/api/files와 /api/sync에서 함께 사용)
+import { MAX_FILE_SIZE } from './storage';
+
+export const ALLOWED_EXTENSIONS = [
+  // 문서
+  'txt', 'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'csv', 'rtf',
+  // 이미지
+  'jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg', 'webp', 'ico', 'tiff', 'tif',
+  // 비디오
+  'mp4', 'avi', 'mov', 'wmv', 'flv', 'webm', 'mkv', 'm4v',
+  // 오디오
+  'mp3', 'wav', 'flac', 'aac', 'ogg', 'wma', 'm4a',
+  // 압축
+  'zip', 'rar', '7z', 'tar', 'gz', 'bz2',
+  // 코드/개발
+  'js', 'ts', 'jsx', 'tsx', 'html', 'css', 'scss', 'json', 'xml', 'yaml', 'yml',
+  // 기타
+  'log', 'md', 'sql', 'sh', 'bat', 'ps1', 'py', 'java', 'cpp', 'c', 'h', 'php', 'rb', 'go', 'rs'
+];
+export const MAX_NAME_LENGTH = 255;
+// 클라이언트(IndexedDB)와 같은 ID를 쓰기 위해 요청에서 받는 ID 형식 (UUID 등)
+export const CLIENT_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+export function validateItemId(id: unknown): id is string {
+  return typeof id === 'string' && CLIENT_ID_PATTERN.test(id);
+}
+
+export function validateFileName(name: string): boolean {
+  return name.length > 0 && name.length <= MAX_NAME_LENGTH && !/[<>:"/\\|?*]/.test(name);
+}
+
+export function validateFileExtension(extension: string): boolean {
+  return ALLOWED_EXTENSIONS.includes(extension.toLowerCase());
+}
+
+export function validateItemSize(size: number): boolean {
+  return size > 0 && size <= MAX_FILE_SIZE;
+}
@@ -0,0 +1,174 @@
+// 아이템의 사용자 정의 메타데이터 (태그, 별표, 설명, key/value 속성)
+// 서버 /api/files/[id]와 클라이언트 IndexedDB에서 같은 규칙으로 검증하고 적용
+
+export interface ItemMetadata {
+  tags?: string[]; // 소문자, 중복 없음
+  starred?: boolean;
+  description?: string;
+  properties?: Record<string, string>;
+}
+
+// 변경 요청: 지정한 필드만 바꿈 (description: null이면 삭제, properties의 값이 null이면 그 key 삭제)
+export interface MetadataUpdate {
+  tags?: string[];
+  starred?: boolean;
+  description?: string | null;
+  properties?: Record<string, string | null>;
+}
+
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_DESCRIPTION_LENGTH = 1000;
+export const MAX_PROPERTIES = 50;
+export const MAX_PROPERTY_KEY_LENGTH = 64;
+export const MAX_PROPERTY_VALUE_LENGTH = 1000;
+
+/**
+ * Normalizes a tag for storage and comparison (trimmed, lowercase, inner whitespace collapsed)
+ * @param tag The tag as typed
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a metadata update from a request body, ignoring fields that are not metadata
+ * @param body The parsed JSON body
+ * @returns The update (null when the body has no metadata fields), or an error describing the first invalid field
+ */
+export function parseMetadataUpdate(body: Record<string, unknown>): [MetadataUpdate | null, Error | null] {
+  const { tags, starred, description, properties } = body;
+  if (tags === undefined && starred === undefined && description === undefined && properties === undefined) {
+    return [null, null];
+  }
+
+  const update: MetadataUpdate = {};
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')) {
+      return [null, new Error('tags must be an array of strings')];
+    }
+    const normalized = Array.from(new Set(tags.map(normalizeTag).filter(tag => tag.length > 0)));
+    if (normalized.length > MAX_TAGS) {
+      return [null, new Error(`An item can have at most ${MAX_TAGS} tags`)];
+    }
+    if (normalized.some(tag => tag.length > MAX_TAG_LENGTH)) {
+      return [null, new Error(`Tags must be at most ${MAX_TAG_LENGTH} characters`)];
+    }
+    update.tags = normalized;
+  }
+
+  if (starred !== undefined) {
+    if (typeof starred !== 'boolean') {
+      return [null, new Error('starred must be a boolean')];
+    }
+    update.starred = starred;
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') {
+      return [null, new Error('description must be a string or null')];
+    }
+    if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+      return [null, new Error(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`)];
+    }
+    update.description = description;
+  }
+
+  if (properties !== undefined) {
+    if (!isRecord(properties)) {
+      return [null, new Error('properties must be an object')];
+    }
+    const entries = Object.entries(properties);
+    for (const [key, value] of entries) {
+      if (key.trim().length === 0 || key.length > MAX_PROPERTY_KEY_LENGTH) {
+        return [null, new Error(`Property keys must be 1 to ${MAX_PROPERTY_KEY_LENGTH} characters`)];
+      }
+      if (value !== null && typeof value !== 'string') {
+        return [null, new Error(`Property "${key}" must be a string or null`)];
+      }
+      if (value && value.length > MAX_PROPERTY_VALUE_LENGTH) {
+        return [null, new Error(`Property "${key}" must be at most ${MAX_PROPERTY_VALUE_LENGTH} characters`)];
+      }
+    }
+    update.properties = Object.fromEntries(entries) as Record<string, string | null>;
+  }
+
+  return [update, null];
+}
+
+/**
+ * Applies a metadata update to an item, dropping fields that become empty
+ * @param item The item
+ * @param update The update
+ * @returns A copy of the item with the update applied, or an error if it would exceed the property limit
+ */
+export function applyMetadataUpdate<T extends ItemMetadata>(item: T, update: MetadataUpdate): [T | null, Error | null] {
+  const updated: T = { ...item };
+
+  if (update.tags !== undefined) {
+    if (update.tags.length > 0) {
+      updated.tags = update.tags;
+    } else {
+      delete updated.tags;
+    }
+  }
+
+  if (update.starred !== undefined) {
+    if (update.starred) {
+      updated.starred = true;
+    } else {
+      delete updated.starred;
+    }
+  }
+
+  if (update.description !== undefined) {
+    const description = update.description?.trim();
+    if (description) {
+      updated.description = description;
+    } else {
+      delete updated.description;
+    }
+  }
+
+  if (update.properties !== undefined) {
+    const properties = { ...item.properties };
+    for (const [key, value] of Object.entries(update.properties)) {
+      if (value === null) {
+        delete properties[key];
+      } else {
+        properties[key] = value;
+      }
+    }
+    if (Object.keys(properties).length > MAX_PROPERTIES) {
+      return [null, new Error(`An item can have at most ${MAX_PROPERTIES} properties`)];
+    }
+    if (Object.keys(properties).length > 0) {
+      updated.properties = properties;
+    } else {
+      delete updated.properties;
+    }
+  }
+
+  return [updated, null];
+}
+
+/**
+ * Counts how many items use each tag
+ * @param items The items
+ * @returns The tags with their counts, most used first
+ */
+export function countTags(items: ItemMetadata[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const tag of item.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,172 @@
+// 폴더 목록 정렬과 커서 기반 페이지네이션 (서버 /api/files와 클라이언트 IndexedDB 목록에서 함께 사용)
+
+export type SortKey = 'name' | 'size' | 'uploadDate' | 'type';
+export type SortDirection = 'asc' | 'desc';
+
+export interface ListSort {
+  sortBy: SortKey;
+  direction: SortDirection;
+}
+
+export interface PageOptions extends ListSort {
+  cursor?: string | null; // 이전 페이지의 nextCursor (없으면 첫 페이지)
+  limit: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // 마지막 페이지면 null
+  total: number; // 폴더 전체 아이템 수
+}
+
+// 정렬에 필요한 아이템 속성 (ItemRecord, FileMeta 모두 해당)
+export interface SortableItem {
+  id: string;
+  name: string;
+  type: 'file' | 'folder';
+  uploadDate: string;
+  fileExtension?: string;
+  fileSize?: number;
+}
+
+export const DEFAULT_SORT: ListSort = { sortBy: 'name', direction: 'asc' };
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+const SORT_KEYS: SortKey[] = ['name', 'size', 'uploadDate', 'type'];
+
+// [폴더 우선 순위, 정렬 키 값, 이름, ID] - 커서에는 마지막 아이템의 이 값이 들어감
+export type SortTuple = [number, string | number, string, string];
+
+interface CursorData {
+  s: SortKey;
+  d: SortDirection;
+  t: SortTuple;
+}
+
+function getSortTuple(item: SortableItem, sortBy: SortKey): SortTuple {
+  const primary = sortBy === 'size' ? item.fileSize ?? 0
+    : sortBy === 'uploadDate' ? item.uploadDate
+    : sortBy === 'type' ? (item.fileExtension ?? '').toLowerCase()
+    : '';
+  return [item.type === 'folder' ? 0 : 1, primary, item.name, item.id];
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+// 폴더는 항상 먼저, 그다음 정렬 키와 이름을 방향에 따라 비교하고, 같으면 ID로 순서를 고정
+function compareTuples(a: SortTuple, b: SortTuple, direction: SortDirection): number {
+  if (a[0] !== b[0]) {
+    return a[0] - b[0];
+  }
+  const sign = direction === 'asc' ? 1 : -1;
+  return sign * compareValues(a[1], b[1]) || sign * a[2].localeCompare(b[2]) || (a[3] < b[3] ? -1 : a[3] > b[3] ? 1 : 0);
+}
+
+function encodeCursor(data: CursorData): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  return btoa(String.fromCharCode(...Array.from(bytes)));
+}
+
+function decodeCursor(cursor: string): CursorData | null {
+  try {
+    const json = new TextDecoder().decode(Uint8Array.from(atob(cursor), c => c.charCodeAt(0)));
+    const data = JSON.parse(json) as CursorData;
+    return Array.isArray(data.t) && data.t.length === 4 ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads listing options from query parameters (sortBy, direction, cursor, limit)
+ * @param params The query parameters
+ * @returns The options, or an error describing the first invalid parameter
+ */
+export function parsePageParams(params: URLSearchParams): [PageOptions | null, Error | null] {
+  const sortBy = params.get('sortBy') || DEFAULT_SORT.sortBy;
+  if (!SORT_KEYS.includes(sortBy as SortKey)) {
+    return [null, new Error('Invalid sortBy')];
+  }
+
+  const direction = params.get('direction') || DEFAULT_SORT.direction;
+  if (direction !== 'asc' && direction !== 'desc') {
+    return [null, new Error('Invalid direction')];
+  }
+
+  const limit = Number(params.get('limit') || DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return [null, new Error('Invalid limit')];
+  }
+
+  return [{
+    sortBy: sortBy as SortKey,
+    direction,
+    cursor: params.get('cursor'),
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+  }, null];
+}
+
+/**
+ * Creates the cursor for the page after an item (for lists that are paged without paginateItems)
+ * @param item The last item of the page
+ * @param sort The sort the page was read with
+ * @returns The cursor
+ */
+export function getPageCursor(item: SortableItem, sort: ListSort): string {
+  return encodeCursor({ s: sort.sortBy, d: sort.direction, t: getSortTuple(item, sort.sortBy) });
+}
+
+/**
+ * Reads the position a cursor points after
+ * @param cursor The cursor from the previous page
+ * @param sort The sort of the requested page
+ * @returns The sort tuple of the previous page's last item, or an error if the cursor is malformed or was made for another sort
+ */
+export function parsePageCursor(cursor: string, sort: ListSort): [SortTuple | null, Error | null] {
+  const data = decodeCursor(cursor);
+  if (!data || data.s !== sort.sortBy || data.d !== sort.direction) {
+    return [null, new Error('Invalid cursor')];
+  }
+  return [data.t, null];
+}
+
+/**
+ * Sorts a folder's items and returns the page after the cursor
+ * @param items All items of the folder (in any order)
+ * @param options The sort, the cursor from the previous page and the page size
+ * @returns The page, or an error if the cursor is malformed or was made for another sort
+ */
+export function paginateItems<T extends SortableItem>(items: T[], options: PageOptions): [Page<T> | null, Error | null] {
+  const { sortBy, direction, cursor, limit } = options;
+
+  let after: SortTuple | null = null;
+  if (cursor) {
+    const [tuple, cursorErr] = parsePageCursor(cursor, options);
+    if (!tuple) {
+      return [null, cursorErr];
+    }
+    after = tuple;
+  }
+
+  const sorted = items
+    .map(item => ({ item, tuple: getSortTuple(item, sortBy) }))
+    .sort((a, b) => compareTuples(a.tuple, b.tuple, direction));
+
+  // 커서 아이템이 그사이 삭제되거나 이름이 바뀌어도 정렬 위치 기준으로 이어서 가져옴
+  const start = after ? sorted.findIndex(({ tuple }) => compareTuples(tuple, after!, direction) > 0) : 0;
+  const pageEntries = start === -1 ? [] : sorted.slice(start, start + limit);
+  const last = pageEntries[pageEntries.length - 1];
+  const hasMore = start !== -1 && start + limit < sorted.length;
+
+  return [{
+    items: pageEntries.map(({ item }) => item),
+    nextCursor: hasMore && last ? getPageCursor(last.item, options) : null,
+    total: items.length,
+  }, null];
+}
@@ -0,0 +1,72 @@
+// 공유받은 지갑의 역할과 역할별로 허용되는 작업 (서버 /api/files 라우트와 FileList, ShareModal에서 함께 사용)
+import type { MetadataUpdate } from './metadata';
+
+export type ShareRole = 'viewer' | 'commenter' | 'editor';
+
+// 호출한 지갑이 아이템에 대해 가진 역할 (소유자는 모든 작업 가능)
+export type ItemRole = ShareRole | 'owner';
+
+// view: 목록 조회, 다운로드, 버전 조회
+// comment: 태그와 설명 변경
+// edit: 폴더에 업로드/폴더 생성, 이름 변경, 이동, 별표와 속성 변경, 이전 버전 복원
+// manage: 공유 설정, 공유 링크, 휴지통으로 이동, 버전 보관 수 설정
+export type ItemAction = 'view' | 'comment' | 'edit' | 'manage';
+
+export const SHARE_ROLES: ShareRole[] = ['viewer', 'commenter', 'editor'];
+export const DEFAULT_SHARE_ROLE: ShareRole = 'viewer';
+
+export const SHARE_ROLE_LABELS: Record<ShareRole, string> = {
+  viewer: 'Viewer',
+  commenter: 'Commenter',
+  editor: 'Editor',
+};
+
+const ROLE_RANKS: Record<ItemRole, number> = { viewer: 0, commenter: 1, editor: 2, owner: 3 };
+const ACTION_RANKS: Record<ItemAction, number> = { view: 0, comment: 1, edit: 2, manage: 3 };
+
+/**
+ * Checks whether a value is a share role
+ * @param value The value to check
+ */
+export function isShareRole(value: unknown): value is ShareRole {
+  return typeof value === 'string' && (SHARE_ROLES as string[]).includes(value);
+}
+
+/**
+ * Checks whether a role allows an action
+ * @param role The caller's role on the item
+ * @param action The action to perform
+ */
+export function canPerform(role: ItemRole, action: ItemAction): boolean {
+  return ROLE_RANKS[role] >= ACTION_RANKS[action];
+}
+
+/**
+ * Picks the role that allows the most (shares on a folder and on items inside it add up)
+ * @param roles The roles granted to a wallet on an item and the folders above it
+ * @returns The strongest role, or null if there is none
+ */
+export function getStrongestRole<T extends ItemRole>(roles: T[]): T | null {
+  return roles.reduce<T | null>((best, role) => (best === null || ROLE_RANKS[role] > ROLE_RANKS[best] ? role : best), null);
+}
+
+/**
+ * Gets the role a wallet has on an item shown in the client: the role the server sent with a shared item,
+ * otherwise owner for the wallet's own items
+ * @param item The item
+ * @param walletAddress The connected wallet
+ */
+export function getCallerRole(item: { walletAddress: string; role?: ItemRole }, walletAddress?: string | null): ItemRole {
+  if (item.role) {
+    return item.role;
+  }
+  return walletAddress && item.walletAddress.toLowerCase() === walletAddress.toLowerCase() ? 'owner' : DEFAULT_SHARE_ROLE;
+}
+
+/**
+ * Works out which action a metadata update needs: tags and description are comments, the rest is editing
+ * @param update The metadata update
+ */
+export function getMetadataAction(update: MetadataUpdate): ItemAction {
+  return update.starred !== undefined || update.properties !== undefined ? 'edit' : 'comment';
+}
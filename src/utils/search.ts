@@ -0,0 +1,223 @@
+// 드라이브 전체 검색 필터 (서버 /api/files/search와 클라이언트 IndexedDB 검색에서 함께 사용)
+import { normalizeTag } from '@/utils/metadata';
+
+// 소유/공유 상태: 내 아이템 / 내가 다른 지갑과 공유한 아이템 / 다른 지갑이 나와 공유한 아이템
+export type SharingStatus = 'owned' | 'shared-by-me' | 'shared-with-me';
+
+export interface SearchFilters {
+  query?: string; // 이름 부분 일치 (대소문자 무시)
+  type?: 'file' | 'folder';
+  extension?: string;
+  minSize?: number; // bytes
+  maxSize?: number; // bytes
+  uploadedAfter?: string; // ISO, 포함
+  uploadedBefore?: string; // ISO, 포함
+  networkType?: string;
+  rootHashPrefix?: string;
+  status?: SharingStatus;
+  tag?: string;
+  starred?: boolean;
+}
+
+// 검색에 필요한 아이템 속성 (ItemRecord, FileMeta 모두 해당)
+export interface SearchableItem {
+  id: string;
+  name: string;
+  type: 'file' | 'folder';
+  parentId: string | null;
+  walletAddress: string;
+  uploadDate: string;
+  fileExtension?: string;
+  fileSize?: number;
+  rootHash?: string;
+  networkType?: string;
+  sharedWith?: string[];
+  sharedBy?: string;
+  tags?: string[];
+  starred?: boolean;
+}
+
+export interface PathSegment {
+  id: string;
+  name: string;
+}
+
+const SHARING_STATUSES: SharingStatus[] = ['owned', 'shared-by-me', 'shared-with-me'];
+
+function parseSize(value: string | null, label: string): number | undefined {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  const size = Number(value);
+  if (!Number.isFinite(size) || size < 0) {
+    throw new Error(`Invalid ${label}`);
+  }
+  return size;
+}
+
+function parseDate(value: string | null, label: string): string | undefined {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${label}`);
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Reads search filters from query parameters
+ * (q, type, extension, minSize, maxSize, uploadedAfter, uploadedBefore, networkType, rootHash, status, tag, starred)
+ * @param params The query parameters
+ * @returns The filters, or an error describing the first invalid parameter
+ */
+export function parseSearchParams(params: URLSearchParams): [SearchFilters | null, Error | null] {
+  try {
+    const filters: SearchFilters = {};
+
+    const query = params.get('q')?.trim();
+    if (query) {
+      filters.query = query;
+    }
+
+    const type = params.get('type');
+    if (type) {
+      if (type !== 'file' && type !== 'folder') {
+        throw new Error('Invalid type');
+      }
+      filters.type = type;
+    }
+
+    const extension = params.get('extension')?.trim().replace(/^\./, '');
+    if (extension) {
+      filters.extension = extension.toLowerCase();
+    }
+
+    filters.minSize = parseSize(params.get('minSize'), 'minSize');
+    filters.maxSize = parseSize(params.get('maxSize'), 'maxSize');
+    filters.uploadedAfter = parseDate(params.get('uploadedAfter'), 'uploadedAfter');
+    filters.uploadedBefore = parseDate(params.get('uploadedBefore'), 'uploadedBefore');
+
+    const networkType = params.get('networkType');
+    if (networkType) {
+      filters.networkType = networkType;
+    }
+
+    const rootHashPrefix = params.get('rootHash')?.trim();
+    if (rootHashPrefix) {
+      if (!/^(0x)?[0-9a-fA-F]+$/.test(rootHashPrefix)) {
+        throw new Error('Invalid rootHash prefix');
+      }
+      filters.rootHashPrefix = rootHashPrefix.toLowerCase();
+    }
+
+    const status = params.get('status');
+    if (status) {
+      if (!SHARING_STATUSES.includes(status as SharingStatus)) {
+        throw new Error('Invalid status');
+      }
+      filters.status = status as SharingStatus;
+    }
+
+    const tag = normalizeTag(params.get('tag') ?? '');
+    if (tag) {
+      filters.tag = tag;
+    }
+
+    const starred = params.get('starred');
+    if (starred) {
+      if (starred !== 'true' && starred !== 'false') {
+        throw new Error('Invalid starred');
+      }
+      filters.starred = starred === 'true';
+    }
+
+    return [filters, null];
+  } catch (error) {
+    return [null, error instanceof Error ? error : new Error(String(error))];
+  }
+}
+
+/**
+ * Whether any filter is set (an empty search lists nothing rather than the whole drive)
+ * @param filters The filters
+ */
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return Object.values(filters).some(value => value !== undefined && value !== '');
+}
+
+/**
+ * Checks whether an item matches every filter that is set
+ * @param item The item
+ * @param filters The filters
+ * @param walletAddress The searching wallet (decides owned/shared status)
+ */
+export function matchesSearch(item: SearchableItem, filters: SearchFilters, walletAddress: string): boolean {
+  if (filters.query && !item.name.toLowerCase().includes(filters.query.toLowerCase())) {
+    return false;
+  }
+  if (filters.type && item.type !== filters.type) {
+    return false;
+  }
+  if (filters.extension && item.fileExtension?.toLowerCase() !== filters.extension) {
+    return false;
+  }
+  if (filters.minSize !== undefined && (item.type !== 'file' || (item.fileSize ?? 0) < filters.minSize)) {
+    return false;
+  }
+  if (filters.maxSize !== undefined && (item.type !== 'file' || (item.fileSize ?? 0) > filters.maxSize)) {
+    return false;
+  }
+  if (filters.uploadedAfter && item.uploadDate < filters.uploadedAfter) {
+    return false;
+  }
+  if (filters.uploadedBefore && item.uploadDate > filters.uploadedBefore) {
+    return false;
+  }
+  if (filters.networkType && item.networkType !== filters.networkType) {
+    return false;
+  }
+  if (filters.rootHashPrefix && !item.rootHash?.toLowerCase().startsWith(filters.rootHashPrefix)) {
+    return false;
+  }
+  if (filters.tag && !item.tags?.includes(filters.tag)) {
+    return false;
+  }
+  if (filters.starred !== undefined && Boolean(item.starred) !== filters.starred) {
+    return false;
+  }
+
+  if (filters.status) {
+    const isMine = !item.sharedBy && item.walletAddress.toLowerCase() === walletAddress.toLowerCase();
+    if (filters.status === 'owned' && !isMine) {
+      return false;
+    }
+    if (filters.status === 'shared-by-me' && !(isMine && (item.sharedWith?.length ?? 0) > 0)) {
+      return false;
+    }
+    if (filters.status === 'shared-with-me' && isMine) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Builds the folder path above an item, from the top down to its parent
+ * @param item The item
+ * @param getFolder Looks up a folder by ID; returns undefined for folders that are missing or not visible
+ * @returns The folders above the item (stops at the first folder that cannot be looked up)
+ */
+export function getItemPath(item: SearchableItem, getFolder: (id: string) => SearchableItem | undefined): PathSegment[] {
+  const path: PathSegment[] = [];
+  const seen = new Set<string>([item.id]);
+  let folder = item.parentId ? getFolder(item.parentId) : undefined;
+
+  while (folder && !seen.has(folder.id)) {
+    seen.add(folder.id);
+    path.unshift({ id: folder.id, name: folder.name });
+    folder = folder.parentId ? getFolder(folder.parentId) : undefined;
+  }
+  return path;
+}
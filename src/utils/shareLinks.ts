@@ -0,0 +1,45 @@
+// 관리형 공유 링크 (서버 /api/share-links, /api/share/[id]와 ShareModal, 공유 페이지에서 함께 사용)
+
+export interface ShareLink {
+  id: string; // 추측할 수 없는 링크 ID (URL에 사용)
+  itemId: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string | null;
+  hasPassword: boolean;
+  maxDownloads: number | null;
+  downloadCount: number;
+  revokedAt: string | null;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+export const MAX_SHARE_LINK_DOWNLOADS = 100000;
+export const MAX_SHARE_LINK_PASSWORD_LENGTH = 128;
+
+/**
+ * Works out whether a link can still be used
+ * @param link The link
+ * @param now The current time in milliseconds
+ */
+export function getShareLinkStatus(link: ShareLink, now: number = Date.now()): ShareLinkStatus {
+  if (link.revokedAt) {
+    return 'revoked';
+  }
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= now) {
+    return 'expired';
+  }
+  if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) {
+    return 'exhausted';
+  }
+  return 'active';
+}
+
+/**
+ * Builds the public URL of a link
+ * @param linkId The link ID
+ * @param origin The site origin (defaults to the current page's)
+ */
+export function getShareLinkUrl(linkId: string, origin: string = typeof window !== 'undefined' ? window.location.origin : 'https://0gdrive.xyz'): string {
+  return `${origin}/share/${linkId}`;
+}
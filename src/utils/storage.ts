@@ -1,4 +1,32 @@
-import { ZgFile } from '@0glabs/0g-ts-sdk';
+import type { BlobFile } from '@/lib/0g/blob';
+import type { HashOptions } from '@/lib/0g/hashing';
+
+// 업로드 가능한 최대 파일 크기. 파일은 Blob.slice()로 세그먼트 단위로 읽기 때문에
+// 브라우저 메모리가 아닌 스토리지 노드/수수료가 실질적인 제한
+export const MAX_FILE_SIZE = 64 * 1024 * 1024 * 1024; // 64GB
+
+// 암호화 업로드의 최대 평문 크기. 암호문은 root hash 계산과 업로드 동안 브라우저가 보관하는
+// Blob으로 만들어지므로 (디스크로 내보내는지는 브라우저마다 다름) 메모리에 들어갈 크기로 제한
+export const MAX_ENCRYPTED_FILE_SIZE = 1024 * 1024 * 1024; // 1GB
+
+// 휴지통 보관 기간 (일). 지나면 자동으로 영구 삭제되며, 0이면 자동 삭제하지 않음
+export const TRASH_RETENTION_DAYS = Number(process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS || 30);
+
+// 같은 이름으로 다시 업로드할 때 보관하는 이전 버전 수 (폴더별로 maxVersions를 지정하지 않은 경우)
+export const DEFAULT_MAX_VERSIONS = 10;
+export const MAX_VERSIONS_LIMIT = 100;
+
+/**
+ * Gets the oldest deletion time that is still kept in the trash
+ * @param now The current time in milliseconds
+ * @returns The cutoff as an ISO string, or null if the trash is never purged automatically
+ */
+export function getTrashCutoff(now: number = Date.now()): string | null {
+  if (!(TRASH_RETENTION_DAYS > 0)) {
+    return null;
+  }
+  return new Date(now - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
 
 /**
  * Get file extension from file name
@@ -52,27 +80,24 @@ export function calculateStorageCost(sizeInBytes: number): bigint {
 }
 
 /**
- * Verify file integrity by comparing merkle roots
- * @param zgFile The ZgFile instance
+ * Verify file integrity by comparing merkle roots (hashed in a Web Worker)
+ * @param zgFile The BlobFile instance
  * @param expectedRoot The expected root hash
+ * @param options Progress callback and abort signal for the hashing
  * @returns A promise that resolves to [isValid, error]
  */
 export async function verifyFileIntegrity(
-  zgFile: ZgFile,
-  expectedRoot: string
+  zgFile: BlobFile,
+  expectedRoot: string,
+  options: HashOptions = {}
 ): Promise<[boolean, Error | null]> {
   try {
-    const [tree, treeErr] = await zgFile.merkleTree();
-    if (treeErr || !tree) {
-      throw new Error(treeErr ? (treeErr as Error).message : 'Failed to generate merkle tree');
+    const [hashes, hashErr] = await zgFile.computeHashes(options);
+    if (!hashes) {
+      throw hashErr || new Error('Failed to compute root hash');
     }
 
-    const actualRoot = tree.rootHash();
-    if (!actualRoot) {
-      throw new Error('Failed to get root hash');
-    }
-
-    return [actualRoot === expectedRoot, null];
+    return [hashes.rootHash.toLowerCase() === expectedRoot.toLowerCase(), null];
   } catch (error) {
     return [false, error instanceof Error ? error : new Error(String(error))];
   }
@@ -98,19 +123,29 @@ export function generateUniqueTag(): string {
  * @returns [isValid, error]
  */
 export function validateFileSize(sizeInBytes: number): [boolean, Error | null] {
-  const MAX_FILE_SIZE = 1024 * 1024 * 1024; // 1GB
-
   if (sizeInBytes <= 0) {
     return [false, new Error('File size must be greater than 0')];
   }
 
   if (sizeInBytes > MAX_FILE_SIZE) {
-    return [false, new Error('File size exceeds maximum allowed size (1GB)')];
+    return [false, new Error(`File size exceeds maximum allowed size (${MAX_FILE_SIZE / (1024 * 1024 * 1024)}GB)`)];
   }
 
   return [true, null];
 }
 
+/**
+ * Validates the size of a file that will be encrypted before upload
+ * @param sizeInBytes The plaintext size in bytes
+ * @returns [isValid, error]
+ */
+export function validateEncryptedFileSize(sizeInBytes: number): [boolean, Error | null] {
+  if (sizeInBytes > MAX_ENCRYPTED_FILE_SIZE) {
+    return [false, new Error(`Encrypted uploads are limited to ${MAX_ENCRYPTED_FILE_SIZE / (1024 * 1024 * 1024)}GB per file`)];
+  }
+  return validateFileSize(sizeInBytes);
+}
+
 /**
  * Validates root hash format
  * @param rootHash The root hash to validate
@@ -0,0 +1,63 @@
+// IndexedDB와 서버 메타데이터 저장소 사이의 동기화 요청/응답 (서버 /api/sync와 useSync에서 함께 사용)
+import type { FileMeta } from './indexeddb';
+
+// 클라이언트에서 바뀐 아이템 하나 (삭제면 item 없이 deleted)
+export interface SyncChange {
+  id: string;
+  baseRevision: number; // 클라이언트가 마지막으로 받은 서버 revision (서버에 없던 아이템은 0)
+  changedAt: string; // 클라이언트에서 마지막으로 바꾼 시각 (충돌 시 나중에 바꾼 쪽이 이김)
+  item?: FileMeta;
+  deleted?: boolean;
+}
+
+// applied: 서버에 반영됨, conflict: 서버의 더 최근 변경이 이겨서 반영되지 않음, rejected: 반영할 수 없음
+export type SyncChangeStatus = 'applied' | 'conflict' | 'rejected';
+
+export interface SyncChangeResult {
+  id: string;
+  status: SyncChangeStatus;
+  conflict?: boolean; // applied지만 서버에서도 바뀌어 있었음 (클라이언트가 나중에 바꿔서 이김)
+  revision?: number; // 처리 후 서버의 revision
+  item?: FileMeta; // 처리 후 서버의 아이템 (삭제되었으면 없음)
+  deleted?: boolean;
+  error?: string;
+}
+
+// 서버 변경 기록의 항목 (아이템마다 마지막 변경만)
+export interface RemoteChange {
+  seq: number;
+  id: string;
+  revision: number;
+  changedAt: string;
+  deleted: boolean;
+  item?: FileMeta;
+}
+
+export interface RemoteChangePage {
+  changes: RemoteChange[];
+  cursor: number; // 다음 요청의 since
+  hasMore: boolean;
+}
+
+// idle: 대기 중인 변경 없음, pending: 보낼 변경 있음, syncing: 동기화 중, offline: 연결 없음 (변경은 대기열에 보관), error: 실패
+export type SyncState = 'idle' | 'pending' | 'syncing' | 'offline' | 'error';
+
+// 마지막 동기화에서 양쪽이 모두 바뀌어 있던 아이템
+export interface SyncConflict {
+  id: string;
+  name: string;
+  winner: 'local' | 'server';
+  resolvedAt: string;
+}
+
+// 마지막 동기화에서 서버가 반영하지 않은 로컬 변경
+export interface SyncRejection {
+  id: string;
+  name: string;
+  error: string;
+  restored: boolean; // 서버의 아이템으로 되돌렸는지 (서버에 없거나 볼 수 없는 아이템은 이 기기에만 남음)
+}
+
+export const SYNC_INTERVAL_MS = 30 * 1000;
+export const SYNC_DEBOUNCE_MS = 2 * 1000;
+export const MAX_SYNC_BATCH = 200;
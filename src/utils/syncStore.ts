@@ -0,0 +1,165 @@
+// IndexedDB 유틸리티 for 동기화 대기열과 지갑별 동기화 위치
+// 아이템 자체는 보내는 시점에 다시 읽으므로, 대기열에는 바뀐 아이템의 ID와 마지막으로 바꾼 시각만 저장
+// (같은 아이템을 여러 번 바꿔도 한 항목으로 합쳐짐)
+
+export interface SyncQueueEntry {
+  walletAddress: string; // 소문자
+  itemId: string;
+  changedAt: string;
+  baseRevision?: number; // 영구 삭제한 아이템의 마지막 revision (아이템이 없어 보낼 때 읽을 수 없음)
+}
+
+export interface SyncCursor {
+  walletAddress: string; // 소문자
+  cursor: number; // 마지막으로 받은 서버 변경 기록의 seq
+  lastSyncedAt: string | null;
+  bootstrapped: boolean; // 처음 동기화할 때 기존 아이템을 모두 대기열에 넣었는지
+}
+
+const DB_NAME = '0gdrive_sync';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'queue';
+const CURSOR_STORE = 'cursors';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<(walletAddress: string) => void>();
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        const store = db.createObjectStore(QUEUE_STORE, { keyPath: ['walletAddress', 'itemId'] });
+        store.createIndex('walletAddress', 'walletAddress', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(CURSOR_STORE)) {
+        db.createObjectStore(CURSOR_STORE, { keyPath: 'walletAddress' });
+      }
+      console.log('[SyncStore] Object stores created');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('[SyncStore] DB open error:', request.error);
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Listens for items being added to a wallet's sync queue
+ * @param listener Called with the lowercase wallet address
+ * @returns A function that removes the listener
+ */
+export function subscribeSyncQueue(listener: (walletAddress: string) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Records local changes to send to the server on the next sync
+ * @param walletAddress The owner's wallet address
+ * @param itemIds The changed (or permanently deleted) items
+ * @param deletedRevisions The last revision of each permanently deleted item
+ */
+export async function queueSyncChanges(walletAddress: string, itemIds: string[], deletedRevisions?: Map<string, number>): Promise<void> {
+  if (itemIds.length === 0) {
+    return;
+  }
+  const address = walletAddress.toLowerCase();
+  const changedAt = new Date().toISOString();
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(QUEUE_STORE, 'readwrite');
+    itemIds.forEach(itemId => {
+      const baseRevision = deletedRevisions?.get(itemId);
+      const entry: SyncQueueEntry = { walletAddress: address, itemId, changedAt, ...(baseRevision !== undefined ? { baseRevision } : {}) };
+      tx.objectStore(QUEUE_STORE).put(entry);
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  listeners.forEach(listener => listener(address));
+}
+
+/**
+ * Lists a wallet's queued changes
+ * @param walletAddress The owner's wallet address
+ * @returns The entries, oldest change first
+ */
+export async function getSyncQueue(walletAddress: string): Promise<SyncQueueEntry[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).index('walletAddress')
+      .getAll(IDBKeyRange.only(walletAddress.toLowerCase()));
+    req.onsuccess = () => {
+      const entries: SyncQueueEntry[] = req.result;
+      resolve(entries.sort((a, b) => a.changedAt.localeCompare(b.changedAt)));
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Removes sent entries from the queue, unless the item was changed again while they were being sent
+ * @param entries The entries that were sent
+ */
+export async function removeSyncQueueEntries(entries: SyncQueueEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = tx.objectStore(QUEUE_STORE);
+    entries.forEach(entry => {
+      const req = store.get([entry.walletAddress, entry.itemId]);
+      req.onsuccess = () => {
+        const current = req.result as SyncQueueEntry | undefined;
+        if (current && current.changedAt === entry.changedAt) {
+          store.delete([entry.walletAddress, entry.itemId]);
+        }
+      };
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Gets where a wallet's last sync stopped
+ * @param walletAddress The owner's wallet address
+ */
+export async function getSyncCursor(walletAddress: string): Promise<SyncCursor> {
+  const address = walletAddress.toLowerCase();
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(CURSOR_STORE).objectStore(CURSOR_STORE).get(address);
+    req.onsuccess = () => {
+      resolve(req.result ?? { walletAddress: address, cursor: 0, lastSyncedAt: null, bootstrapped: false });
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Saves where a wallet's sync stopped
+ * @param cursor The sync position
+ */
+export async function putSyncCursor(cursor: SyncCursor): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CURSOR_STORE, 'readwrite');
+    tx.objectStore(CURSOR_STORE).put({ ...cursor, walletAddress: cursor.walletAddress.toLowerCase() });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
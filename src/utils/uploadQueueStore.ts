@@ -0,0 +1,163 @@
+import type { EncryptionParams } from '@/lib/0g/encryption';
+import type { NetworkType } from '@/app/providers';
+
+// 업로드 대기열 항목 상태
+export type UploadItemStatus =
+  | 'queued'
+  | 'paused'
+  | 'hashing'
+  | 'awaiting-signature'
+  | 'submitting'
+  | 'uploading'
+  | 'verifying'
+  | 'done'
+  | 'failed';
+
+// IndexedDB 유틸리티 for 새로고침 후에도 유지되는 업로드 대기열
+// 원본 파일은 상태가 바뀔 때마다 다시 쓰지 않도록 별도 store에 한 번만 저장
+export interface UploadQueueItem {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  walletAddress: string;
+  parentId: string | null; // 업로드 완료 후 메타데이터를 넣을 폴더
+  networkType: NetworkType;
+  encrypt: boolean;
+  verifyOnChain: boolean;
+  status: UploadItemStatus;
+  progress: number; // 현재 단계의 진행률 (0~1)
+  rootHash?: string;
+  encryption?: EncryptionParams;
+  alreadyExists?: boolean;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const DB_NAME = '0gdrive_uploads';
+const DB_VERSION = 1;
+const UPLOADS_STORE = 'uploads';
+const FILES_STORE = 'files';
+
+interface FileRecord {
+  id: string;
+  file: File;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(UPLOADS_STORE)) {
+        const store = db.createObjectStore(UPLOADS_STORE, { keyPath: 'id' });
+        store.createIndex('walletAddress', 'walletAddress', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+      }
+      console.log('[UploadQueueStore] Object stores created');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('[UploadQueueStore] DB open error:', request.error);
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Lists all queued uploads
+ * @returns The saved upload items, oldest first
+ */
+export async function listUploadItems(): Promise<UploadQueueItem[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(UPLOADS_STORE).objectStore(UPLOADS_STORE).getAll();
+    req.onsuccess = () => {
+      const items: UploadQueueItem[] = req.result;
+      resolve(items.sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Reads the original file of a queued upload
+ * @param id The item id
+ * @returns The file, or undefined if it was not saved
+ */
+export async function getUploadFile(id: string): Promise<File | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(FILES_STORE).objectStore(FILES_STORE).get(id);
+    req.onsuccess = () => resolve((req.result as FileRecord | undefined)?.file);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Adds new uploads together with their files in a single transaction
+ * @param entries The upload items and their original files
+ */
+export async function addUploadItems(entries: { item: UploadQueueItem; file: File }[]): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([UPLOADS_STORE, FILES_STORE], 'readwrite');
+    entries.forEach(({ item, file }) => {
+      const record: FileRecord = { id: item.id, file };
+      tx.objectStore(FILES_STORE).put(record);
+      tx.objectStore(UPLOADS_STORE).put(item);
+    });
+    tx.oncomplete = () => {
+      console.log('[UploadQueueStore] Upload items added:', entries.length);
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Saves the state of an upload item (the file is left untouched)
+ * @param item The upload item
+ */
+export async function putUploadItem(item: UploadQueueItem): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(UPLOADS_STORE, 'readwrite');
+    tx.objectStore(UPLOADS_STORE).put(item);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Removes upload items (and their stored file data)
+ * @param ids The item ids
+ */
+export async function deleteUploadItems(ids: string[]): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([UPLOADS_STORE, FILES_STORE], 'readwrite');
+    ids.forEach(id => {
+      tx.objectStore(UPLOADS_STORE).delete(id);
+      tx.objectStore(FILES_STORE).delete(id);
+    });
+    tx.oncomplete = () => {
+      console.log('[UploadQueueStore] Upload items removed:', ids.length);
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+}